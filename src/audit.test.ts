@@ -0,0 +1,123 @@
+/**
+ * Tests for the hash-chained audit log
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+// Point the database and checkpoint key at a throwaway home before loading the modules
+const tempHome = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-test-'));
+const originalHome = process.env.HOME;
+process.env.HOME = tempHome;
+process.env.USERPROFILE = tempHome;
+
+const { logAudit, pruneAuditLog, verifyAuditChain, computeAuditHash, withAuditCall, GENESIS_HASH } = await import('./audit.js');
+const { getDb } = await import('./storage/db.js');
+
+describe('audit hash chain', () => {
+    before(async () => {
+        for (let i = 0; i < 5; i++) {
+            await logAudit('test_tool', { i }, 'ok');
+        }
+    });
+
+    after(() => {
+        process.env.HOME = originalHome;
+        process.env.USERPROFILE = originalHome;
+        fs.rmSync(tempHome, { recursive: true, force: true });
+    });
+
+    it('links each row to the previous one', async () => {
+        const db = await getDb();
+        const rows = await db.all(`SELECT prev_hash, hash FROM audit_log ORDER BY id`);
+        assert.strictEqual(rows[0].prev_hash, GENESIS_HASH);
+        for (let i = 1; i < rows.length; i++) {
+            assert.strictEqual(rows[i].prev_hash, rows[i - 1].hash);
+        }
+        assert.deepStrictEqual(await verifyAuditChain(), { valid: true, checked: rows.length, legacyRows: 0, firstBrokenLink: null });
+    });
+
+    it('reports the first edited row', async () => {
+        const db = await getDb();
+        const target = await db.get(`SELECT id, args FROM audit_log ORDER BY id LIMIT 1 OFFSET 2`);
+        await db.run(`UPDATE audit_log SET args = ? WHERE id = ?`, '{"i":99}', target.id);
+
+        const report = await verifyAuditChain();
+        assert.strictEqual(report.valid, false);
+        assert.strictEqual(report.firstBrokenLink?.id, target.id);
+        assert.strictEqual(report.firstBrokenLink?.reason, 'hash_mismatch');
+
+        await db.run(`UPDATE audit_log SET args = ? WHERE id = ?`, target.args, target.id);
+    });
+
+    it('reports a deleted row as a broken link', async () => {
+        const db = await getDb();
+        const rows = await db.all(`SELECT * FROM audit_log ORDER BY id`);
+        await db.run(`DELETE FROM audit_log WHERE id = ?`, rows[1].id);
+
+        const report = await verifyAuditChain();
+        assert.strictEqual(report.firstBrokenLink?.id, rows[2].id);
+        assert.strictEqual(report.firstBrokenLink?.reason, 'prev_hash_mismatch');
+
+        const row = rows[1];
+        await db.run(
+            `INSERT INTO audit_log (id, timestamp, tool, args, result, error, prev_hash, hash) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            row.id, row.timestamp, row.tool, row.args, row.result, row.error, row.prev_hash, row.hash
+        );
+    });
+
+    it('fails a log whose hashes were all removed', async () => {
+        const db = await getDb();
+        const rows = await db.all(`SELECT id, hash FROM audit_log ORDER BY id`);
+        await db.run(`UPDATE audit_log SET hash = NULL`);
+
+        const report = await verifyAuditChain();
+        assert.strictEqual(report.valid, false);
+        assert.deepStrictEqual(report.firstBrokenLink, { id: rows[0].id, reason: 'missing_hash' });
+
+        for (const row of rows) {
+            await db.run(`UPDATE audit_log SET hash = ? WHERE id = ?`, row.hash, row.id);
+        }
+        assert.strictEqual((await verifyAuditChain()).valid, true);
+    });
+
+    it('keeps the chain valid after pruning through a signed checkpoint', async () => {
+        const { deleted, checkpointId } = await pruneAuditLog('9999-12-31 00:00:00');
+        assert.ok(deleted >= 5);
+        assert.ok(checkpointId);
+        await logAudit('test_tool', { after: true }, 'ok');
+
+        assert.strictEqual((await verifyAuditChain()).valid, true);
+
+        // Rewriting the checkpoint and its hash is caught without the signing key
+        const db = await getDb();
+        const checkpoint = await db.get(`SELECT * FROM audit_log WHERE id = ?`, checkpointId);
+        const forged = { ...checkpoint, args: checkpoint.args.replace(/"deleted":\d+/, '"deleted":0') };
+        await db.run(`UPDATE audit_log SET args = ?, hash = ? WHERE id = ?`, forged.args, computeAuditHash(forged), checkpointId);
+
+        const report = await verifyAuditChain();
+        assert.strictEqual(report.firstBrokenLink?.id, checkpointId);
+        assert.strictEqual(report.firstBrokenLink?.reason, 'invalid_checkpoint');
+    });
+
+    it('tags rows with the session, call and parent of the running call', async () => {
+        await withAuditCall(async () => {
+            await logAudit('batch_tools', {}, 'ok');
+            await withAuditCall(() => logAudit('read_file', {}, 'ok'));
+        }, { sessionId: 'session_test', clientName: 'test-client' });
+
+        const db = await getDb();
+        const [child, parent] = await db.all(
+            `SELECT * FROM audit_log WHERE session_id = 'session_test' ORDER BY id DESC LIMIT 2`
+        );
+        assert.strictEqual(parent.tool, 'batch_tools');
+        assert.strictEqual(parent.parent_id, null);
+        assert.strictEqual(parent.client_name, 'test-client');
+        assert.strictEqual(child.parent_id, parent.call_id);
+        assert.notStrictEqual(child.call_id, parent.call_id);
+        assert.ok(child.duration_ms >= 0);
+    });
+});
@@ -1,16 +1,257 @@
-import { getDb } from './storage/db.js';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { AsyncLocalStorage } from 'async_hooks';
+import { getStorage, storageTimestamp, AuditRow } from './storage/storage.js';
+import { redactAuditEntry } from './utils/redact.js';
+
+// prev_hash of the first row in a chain
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Tool name of the rows written by clear_old_logs
+export const CHECKPOINT_TOOL = 'audit_checkpoint';
+
+export type { AuditRow } from './storage/storage.js';
+
+/**
+ * Correlation data for the tool call currently running
+ */
+export interface AuditContext {
+    sessionId: string | null;   // MCP client connection
+    clientName: string | null;  // Client name from the initialize handshake
+    callId: string;             // This tool call; shared by every row it logs
+    parentId: string | null;    // callId of the batch_tools/approve_call that spawned it
+    startedAt: number;
+}
+
+export interface AuditChainBreak {
+    id: number;
+    reason: 'missing_hash' | 'hash_mismatch' | 'prev_hash_mismatch' | 'invalid_checkpoint';
+    expected?: string | null;
+    actual?: string | null;
+}
+
+export interface AuditChainReport {
+    valid: boolean;
+    checked: number;        // Rows checked, from the start of the chain
+    legacyRows: number;     // Rows written before hashing was enabled
+    firstBrokenLink: AuditChainBreak | null;
+}
+
+const auditContext = new AsyncLocalStorage<AuditContext>();
+
+function generateCallId(): string {
+    return `call_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/**
+ * Run a tool call in its own audit context. Nested calls record the enclosing call as their parent
+ * and inherit its session unless one is given.
+ */
+export function withAuditCall<T>(fn: () => T, session?: { sessionId: string; clientName: string | null }): T {
+    const parent = auditContext.getStore();
+    return auditContext.run({
+        sessionId: session?.sessionId ?? parent?.sessionId ?? null,
+        clientName: session?.clientName ?? parent?.clientName ?? null,
+        callId: generateCallId(),
+        parentId: parent?.callId ?? null,
+        startedAt: Date.now(),
+    }, fn);
+}
+
+/**
+ * The audit context of the running tool call, if any
+ */
+export function getAuditContext(): AuditContext | undefined {
+    return auditContext.getStore();
+}
+
+// Appends in this process take turns: they share one connection, which can't nest the
+// transaction appendChainedAuditRow uses to keep other processes out
+let chainTail: Promise<unknown> = Promise.resolve();
+
+function withChainLock<T>(fn: () => Promise<T>): Promise<T> {
+    const run = chainTail.then(fn, fn);
+    chainTail = run.catch(() => undefined);
+    return run;
+}
+
+/**
+ * Hash of a row's content and its predecessor's hash
+ */
+export function computeAuditHash(row: Omit<AuditRow, 'id' | 'hash'>): string {
+    return crypto.createHash('sha256')
+        .update(JSON.stringify([
+            row.prev_hash, row.timestamp, row.tool, row.args, row.result, row.error,
+            row.session_id, row.call_id, row.parent_id, row.duration_ms, row.client_name,
+        ]))
+        .digest('hex');
+}
+
+/**
+ * Per-install HMAC key used to sign checkpoints, created on first use
+ */
+function getCheckpointKey(): Buffer {
+    const keyPath = path.join(os.homedir(), '.mcp', 'audit.key');
+    if (!fs.existsSync(keyPath)) {
+        fs.mkdirSync(path.dirname(keyPath), { recursive: true });
+        fs.writeFileSync(keyPath, crypto.randomBytes(32).toString('hex'), { mode: 0o600 });
+    }
+    return Buffer.from(fs.readFileSync(keyPath, 'utf-8').trim(), 'hex');
+}
+
+function signCheckpoint(args: string): string {
+    return crypto.createHmac('sha256', getCheckpointKey()).update(args).digest('hex');
+}
+
+/**
+ * Append a row linked to the current last row, or to emptyPrevHash if the log is empty
+ */
+async function appendRow(tool: string, args: string | null, result: string | null, error: string | null, emptyPrevHash = GENESIS_HASH) {
+    const storage = await getStorage();
+    const context = auditContext.getStore();
+    return storage.appendChainedAuditRow(last => {
+        const row = {
+            prev_hash: last?.hash ?? emptyPrevHash,
+            timestamp: storageTimestamp(),
+            tool, args, result, error,
+            session_id: context?.sessionId ?? null,
+            call_id: context?.callId ?? null,
+            parent_id: context?.parentId ?? null,
+            duration_ms: context ? Date.now() - context.startedAt : null,
+            client_name: context?.clientName ?? null,
+        };
+        return { ...row, hash: computeAuditHash(row) };
+    });
+}
+
+const appendListeners: Array<() => void> = [];
+
+/**
+ * Be told after each row logAudit appends
+ */
+export function onAuditAppended(listener: () => void): void {
+    appendListeners.push(listener);
+}
 
 export async function logAudit(tool: string, args: any, result: any, error?: any) {
     try {
-        const db = await getDb();
-        await db.run(
-            `INSERT INTO audit_log (tool, args, result, error) VALUES (?, ?, ?, ?)`,
+        const redacted = redactAuditEntry(tool, args, result, error);
+        await withChainLock(() => appendRow(
             tool,
-            JSON.stringify(args),
-            result ? JSON.stringify(result) : null,
-            error ? JSON.stringify(error) : null
-        );
+            JSON.stringify(redacted.args),
+            redacted.result ? JSON.stringify(redacted.result) : null,
+            redacted.error ? JSON.stringify(redacted.error) : null
+        ));
+        for (const listener of appendListeners) listener();
     } catch {
         // Silent fail - can't log a logging failure (avoid recursion)
     }
 }
+
+/**
+ * Delete every row up to the newest one older than cutoff, then append a signed
+ * checkpoint recording the hash the remaining chain now starts from.
+ */
+export async function pruneAuditLog(cutoff: string): Promise<{ deleted: number; checkpointId: number | null }> {
+    return withChainLock(async () => {
+        const storage = await getStorage();
+        // Delete a prefix of the chain (by id) so the rest stays contiguous
+        const [through] = await storage.queryAuditRows({ before: cutoff, order: 'desc', limit: 1 });
+        if (!through) return { deleted: 0, checkpointId: null };
+
+        const last = await storage.getLastAuditRow();
+        const changes = await storage.deleteAuditRowsThrough(through.id);
+
+        const args = JSON.stringify({ cutoffDate: cutoff, deleted: changes, throughId: through.id, anchorHash: through.hash });
+        const checkpointId = await appendRow(
+            CHECKPOINT_TOOL,
+            args,
+            JSON.stringify({ signature: signCheckpoint(args) }),
+            null,
+            // If nothing is left, the checkpoint itself continues from the deleted tail
+            last?.hash ?? GENESIS_HASH
+        );
+        return { deleted: changes, checkpointId };
+    });
+}
+
+/**
+ * Walk the audit log in id order and report the first row that breaks the chain
+ */
+export async function verifyAuditChain(): Promise<AuditChainReport> {
+    const storage = await getStorage();
+
+    // Hashes a pruned chain may legitimately start from
+    const anchors = new Set<string>([GENESIS_HASH]);
+    const checkpoints = await storage.queryAuditRows({ tool: CHECKPOINT_TOOL });
+    const validCheckpoints = new Set<number>();
+    for (const checkpoint of checkpoints) {
+        try {
+            const { signature } = JSON.parse(checkpoint.result ?? '{}');
+            if (checkpoint.args && signature === signCheckpoint(checkpoint.args)) {
+                validCheckpoints.add(checkpoint.id);
+                const { anchorHash } = JSON.parse(checkpoint.args);
+                if (anchorHash) anchors.add(anchorHash);
+            }
+        } catch {
+            // Unparseable checkpoints are reported when the walk reaches them
+        }
+    }
+
+    let expectedPrev: string | null = null;
+    let checked = 0;
+    let legacyRows = 0;
+    let firstLegacyId: number | null = null;
+    let lastId = 0;
+    const pageSize = 1000;
+    const broken = (link: AuditChainBreak): AuditChainReport => ({ valid: false, checked, legacyRows, firstBrokenLink: link });
+
+    while (true) {
+        const rows = await storage.queryAuditRows({ fromId: lastId + 1, limit: pageSize });
+        if (rows.length === 0) break;
+
+        for (const row of rows) {
+            lastId = row.id;
+
+            if (!row.hash) {
+                // Legacy rows can only precede the chain; one after it had its hash removed
+                if (expectedPrev === null) {
+                    legacyRows++;
+                    firstLegacyId ??= row.id;
+                    continue;
+                }
+                return broken({ id: row.id, reason: 'missing_hash' });
+            }
+
+            checked++;
+            if (row.tool === CHECKPOINT_TOOL && !validCheckpoints.has(row.id)) {
+                return broken({ id: row.id, reason: 'invalid_checkpoint' });
+            }
+
+            if (expectedPrev === null) {
+                if (!row.prev_hash || !anchors.has(row.prev_hash)) {
+                    return broken({ id: row.id, reason: 'prev_hash_mismatch', expected: GENESIS_HASH, actual: row.prev_hash });
+                }
+            } else if (row.prev_hash !== expectedPrev) {
+                return broken({ id: row.id, reason: 'prev_hash_mismatch', expected: expectedPrev, actual: row.prev_hash });
+            }
+
+            const actual = computeAuditHash(row);
+            if (actual !== row.hash) {
+                return broken({ id: row.id, reason: 'hash_mismatch', expected: actual, actual: row.hash });
+            }
+
+            expectedPrev = row.hash;
+        }
+    }
+
+    // Every server since hashing was added appends hashed rows, so a log without a single one
+    // had its hashes stripped
+    if (checked === 0 && firstLegacyId !== null) {
+        return broken({ id: firstLegacyId, reason: 'missing_hash' });
+    }
+
+    return { valid: true, checked, legacyRows, firstBrokenLink: null };
+}
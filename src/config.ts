@@ -4,16 +4,88 @@ import os from 'os';
 
 export interface Config {
     storage: {
-        type: 'sqlite' | 'json';
+        type: 'sqlite' | 'json' | 'memory';  // memory keeps nothing across restarts
         path: string;
+        backupBeforeMigrate: boolean;        // Copy an existing SQLite database before upgrading its schema
     };
     cliPolicy: {
         mode: 'allow-all' | 'restricted';
         extraBlockedPatterns: string[];
         timeoutMs: number;
+        allowedCommands: string[];  // Executables permitted in restricted mode
+        allowedEnvVars: string[];   // Variables a command may set (NAME=value prefixes, start_process env) in restricted mode
+        // Per-command argument rules applied in restricted mode
+        commandRules: {
+            [command: string]: {
+                allowedSubcommands?: string[];  // If set, the first non-option argument must be one of these
+                deniedArgs?: string[];          // Space-separated argument combinations to reject (e.g. "push --force")
+            };
+        };
     };
     crud: {
         defaultLimit: number;
+        searchFields: Record<string, string[]>;  // Fields crud_search indexes, by collection; others index every string
+    };
+    filesystemPolicy: {
+        allowedRoots: string[];   // If non-empty, every path must live under one of these roots
+        deniedGlobs: string[];    // Paths matching any of these globs are never touched (e.g. "~/.ssh/**")
+        readOnlyRoots: string[];  // Paths under these roots may be read but not written or deleted
+    };
+    approvals: {
+        enabled: boolean;              // Park calls matching a rule until an operator approves them
+        rules: Array<{
+            tool: string;
+            args?: Record<string, unknown>;       // Every listed argument must equal this value
+            argPatterns?: Record<string, string>; // Every listed argument must match this regex
+            reason?: string;
+        }>;
+        expireAfterMinutes: number;    // Pending calls older than this can no longer be approved
+        allowToolDecisions: boolean;   // Allow approve_call/reject_call tools; false = browser page only
+        httpPort: number;              // Local approval page port (0 disables)
+    };
+    simulate: {
+        enabled: boolean;  // Side-effecting tools report what they would do instead of doing it
+    };
+    transports: {
+        stdio: boolean;        // Serve one client on stdin/stdout
+        http: {
+            enabled: boolean;  // Serve clients over streamable HTTP (/mcp) and legacy SSE (/sse)
+            host: string;      // Bind address; a non-loopback address requires bearerToken
+            port: number;
+            bearerToken: string;        // Required as "Authorization: Bearer <token>" if set
+            allowedOrigins: string[];   // Browser origins allowed to connect; requests from other origins are rejected
+        };
+    };
+    metrics: {
+        enabled: boolean;      // Serve OpenMetrics text for Prometheus
+        host: string;          // Bind address; use 0.0.0.0 to allow remote scrapes
+        port: number;
+        bearerToken: string;   // Required as "Authorization: Bearer <token>" if set
+    };
+    toolProfiles: {
+        active: string;  // Profile used when neither --profile nor MCP_TOOL_PROFILE is given; "all" lists every tool
+        profiles: {
+            [name: string]: {
+                categories?: string[];  // Tool categories to list (every category if omitted)
+                sideEffects?: Array<'read-only' | 'write' | 'destructive'>;  // Only tools with these side-effect classes
+                include?: string[];     // Extra tools by name
+                exclude?: string[];     // Tools left out even if matched above
+            };
+        };
+    };
+    capabilities: {
+        hideUnavailable: boolean;  // Leave tools whose backends are missing out of tools/list instead of annotating them
+    };
+    prompts: {
+        directory: string;  // YAML/JSON prompt definitions loaded alongside the built-in prompts
+    };
+    redaction: {
+        enabled: boolean;            // Redact secrets from audit log entries
+        redactToolOutput: boolean;   // Also redact command, file and session output before it reaches the model
+        // Extra detectors; a named group "secret" limits the replacement to that part of the match
+        patterns: Array<{ name: string; pattern: string }>;
+        sensitiveKeys: string[];     // Field names whose values are always redacted (case and -/_ insensitive)
+        toolArgs: { [tool: string]: string[] };  // Per-tool argument names that are always redacted
     };
     fileReading: {
         maxLines: number;  // Truncate read_file at this many lines (default: 500)
@@ -41,18 +113,117 @@ export interface Config {
     };
 }
 
+// Shell commands that need approval by default (recursive/forced rm, shutdown, disk formatting)
+const DESTRUCTIVE_COMMAND_PATTERN = '\\b(rm\\s+-\\w*[rf]|shutdown|reboot|mkfs|dd\\s+if=)';
+
 const DEFAULT_CONFIG: Config = {
     storage: {
         type: 'sqlite',
         path: '~/.mcp/workspace.db',
+        backupBeforeMigrate: true,
     },
     cliPolicy: {
         mode: 'allow-all',
         extraBlockedPatterns: [],
         timeoutMs: 30000,
+        // No interpreters or npx: either runs arbitrary code, whatever its arguments
+        allowedCommands: [
+            'ls', 'cat', 'echo', 'pwd', 'head', 'tail', 'wc', 'sort', 'uniq', 'grep', 'find', 'diff',
+            'git', 'npm', 'tsc',
+        ],
+        // Only variables that can't change which program runs or what it loads
+        allowedEnvVars: ['CI', 'LANG', 'LC_ALL', 'TZ', 'NO_COLOR', 'FORCE_COLOR', 'NODE_ENV'],
+        // Also denied: arguments that run other programs (git config, pagers and aliases;
+        // npm scripts and installs; find -exec/-ok) or write files (find -fprint, sort -o)
+        commandRules: {
+            git: {
+                deniedArgs: [
+                    'push --force', 'push -f', 'push --force-with-lease', 'reset --hard', 'clean -f',
+                    '-c', '--config-env', '--exec-path', 'config',
+                ],
+            },
+            npm: {
+                allowedSubcommands: ['ls', 'list', 'view', 'info', 'outdated', 'audit', 'explain', 'why'],
+                deniedArgs: ['audit fix'],
+            },
+            find: {
+                deniedArgs: [
+                    '-delete', '-exec', '-execdir', '-ok', '-okdir',
+                    '-fprint', '-fprint0', '-fprintf', '-fls',
+                ],
+            },
+            sort: { deniedArgs: ['-o', '--output', '--compress-program'] },
+        },
     },
     crud: {
         defaultLimit: 1000,
+        searchFields: {},
+    },
+    filesystemPolicy: {
+        allowedRoots: [],
+        deniedGlobs: ['~/.ssh/**', '~/.mcp/config.json', '~/.mcp/audit.key'],
+        readOnlyRoots: [],
+    },
+    approvals: {
+        enabled: false,
+        rules: [
+            { tool: 'delete_file', args: { recursive: true }, reason: 'Recursive delete' },
+            { tool: 'batch_delete_files', args: { recursive: true }, reason: 'Recursive delete' },
+            { tool: 'kill_process', reason: 'Kills a process' },
+            { tool: 'close_window', args: { force: true }, reason: 'Force-closes a window' },
+            { tool: 'set_environment', args: { persistent: true }, reason: 'Persistent environment change' },
+            { tool: 'exec_cli', argPatterns: { command: DESTRUCTIVE_COMMAND_PATTERN }, reason: 'Destructive shell command' },
+            { tool: 'batch_exec_cli', argPatterns: { commands: DESTRUCTIVE_COMMAND_PATTERN }, reason: 'Destructive shell command' },
+        ],
+        expireAfterMinutes: 60,
+        allowToolDecisions: false,
+        httpPort: 0,
+    },
+    simulate: {
+        enabled: false,
+    },
+    transports: {
+        stdio: true,
+        http: {
+            enabled: false,
+            host: '127.0.0.1',
+            port: 3333,
+            bearerToken: '',
+            allowedOrigins: [],
+        },
+    },
+    metrics: {
+        enabled: false,
+        host: '127.0.0.1',
+        port: 9464,
+        bearerToken: '',
+    },
+    toolProfiles: {
+        active: 'all',
+        profiles: {
+            coding: { categories: ['files', 'diff', 'cli', 'search', 'batch'] },
+            desktop: { categories: ['screen', 'input', 'window', 'clipboard'] },
+            browser: { categories: ['browser'] },
+            readonly: { sideEffects: ['read-only'] },
+        },
+    },
+    capabilities: {
+        hideUnavailable: false,
+    },
+    prompts: {
+        directory: '~/.mcp/prompts',
+    },
+    redaction: {
+        enabled: true,
+        redactToolOutput: false,
+        patterns: [],
+        sensitiveKeys: ['password', 'passwd', 'secret', 'token', 'apiKey', 'accessToken', 'clientSecret', 'privateKey', 'authorization', 'bearerToken'],
+        toolArgs: {
+            type_text: ['text'],
+            keyboard_type: ['text'],
+            set_environment: ['value'],
+            clipboard_write: ['content'],
+        },
     },
     fileReading: {
         maxLines: 500,
@@ -95,6 +266,23 @@ export function loadConfig(): Config {
                 storage: { ...DEFAULT_CONFIG.storage, ...userConfig.storage },
                 cliPolicy: { ...DEFAULT_CONFIG.cliPolicy, ...userConfig.cliPolicy },
                 crud: { ...DEFAULT_CONFIG.crud, ...userConfig.crud },
+                filesystemPolicy: { ...DEFAULT_CONFIG.filesystemPolicy, ...userConfig.filesystemPolicy },
+                approvals: { ...DEFAULT_CONFIG.approvals, ...userConfig.approvals },
+                simulate: { ...DEFAULT_CONFIG.simulate, ...userConfig.simulate },
+                transports: {
+                    ...DEFAULT_CONFIG.transports,
+                    ...userConfig.transports,
+                    http: { ...DEFAULT_CONFIG.transports.http, ...userConfig.transports?.http },
+                },
+                metrics: { ...DEFAULT_CONFIG.metrics, ...userConfig.metrics },
+                toolProfiles: {
+                    ...DEFAULT_CONFIG.toolProfiles,
+                    ...userConfig.toolProfiles,
+                    profiles: { ...DEFAULT_CONFIG.toolProfiles.profiles, ...userConfig.toolProfiles?.profiles },
+                },
+                capabilities: { ...DEFAULT_CONFIG.capabilities, ...userConfig.capabilities },
+                prompts: { ...DEFAULT_CONFIG.prompts, ...userConfig.prompts },
+                redaction: { ...DEFAULT_CONFIG.redaction, ...userConfig.redaction },
                 fileReading: { ...DEFAULT_CONFIG.fileReading, ...userConfig.fileReading },
                 cliOutput: { ...DEFAULT_CONFIG.cliOutput, ...userConfig.cliOutput },
                 batchOperations: {
@@ -122,6 +310,14 @@ export function expandHome(filePath: string): string {
     return filePath;
 }
 
+/**
+ * Sections the config tools refuse to change: they hold the policies that constrain the model,
+ * what the server listens on and where it stores data, so only the operator may edit them, in the config file
+ */
+export const OPERATOR_ONLY_SECTIONS: ReadonlyArray<keyof Config> = [
+    'filesystemPolicy', 'cliPolicy', 'approvals', 'redaction', 'simulate', 'transports', 'metrics', 'storage',
+];
+
 /**
  * Get the path to the config file
  */
@@ -0,0 +1,52 @@
+// Built-in prompts
+// OODA workflows that sequence existing tools; prompt files can override them by name
+
+import { PromptDefinition } from './promptDefinition.js';
+
+export const BUILTIN_PROMPTS: PromptDefinition[] = [
+    {
+        name: 'observe_desktop',
+        description: 'Capture the state of the desktop: displays, a screenshot, open windows and the focused window',
+        arguments: [
+            { name: 'focus', description: 'What to look for on screen', required: false },
+        ],
+        template: 'Observe the current state of the desktop before acting.{{#focus}} Pay particular attention to: {{focus}}.{{/focus}} '
+            + 'Summarize what is on screen, which window has focus and anything that looks unexpected.',
+        steps: [
+            { tool: 'get_screen_info', note: 'monitor layout and resolution' },
+            { tool: 'screenshot' },
+            { tool: 'list_windows' },
+            { tool: 'get_active_window' },
+        ],
+    },
+    {
+        name: 'refactor_file',
+        description: 'Refactor a file with previewed, minimal search/replace edits',
+        arguments: [
+            { name: 'path', description: 'File to refactor', required: true },
+            { name: 'goal', description: 'What the refactoring should achieve', required: true },
+        ],
+        template: 'Refactor {{path}}: {{goal}}. Read the relevant lines first, preview every change, '
+            + 'and only apply edits whose preview matches what you intend. Keep behavior unchanged unless the goal says otherwise.',
+        steps: [
+            { tool: 'read_file_lines', args: { path: '{{path}}' } },
+            { tool: 'get_diff_preview', args: { path: '{{path}}' }, note: 'once per change, with the search and replace text' },
+            { tool: 'apply_diff', args: { path: '{{path}}' }, note: 'with the previewed search/replace blocks' },
+        ],
+    },
+    {
+        name: 'debug_web_page',
+        description: 'Open a web page in a browser and collect its console output to diagnose a problem',
+        arguments: [
+            { name: 'url', description: 'Page to debug', required: true },
+            { name: 'symptom', description: 'What goes wrong on the page', required: false },
+        ],
+        template: 'Debug the web page at {{url}}.{{#symptom}} The reported problem: {{symptom}}.{{/symptom}} '
+            + 'Load the page, collect console errors and warnings, and explain the most likely cause.',
+        steps: [
+            { tool: 'launch_browser' },
+            { tool: 'navigate_page', args: { url: '{{url}}' } },
+            { tool: 'get_console_logs', note: 'errors and warnings logged while the page loaded' },
+        ],
+    },
+];
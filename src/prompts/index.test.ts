@@ -0,0 +1,65 @@
+/**
+ * Tests for MCP prompts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { loadPromptDirectory, renderTemplate, getPrompt } from './index.js';
+
+describe('loadPromptDirectory', () => {
+    it('loads YAML and JSON prompt files and skips invalid ones', () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-prompts-'));
+        try {
+            fs.writeFileSync(path.join(dir, 'release.yaml'), [
+                'name: release_notes',
+                'arguments:',
+                '  - name: tag',
+                '    required: true',
+                'template: Draft release notes for {{tag}}.',
+                'steps:',
+                '  - tool: exec_cli',
+                '    args: { command: "git log {{tag}}..HEAD" }',
+            ].join('\n'));
+            fs.writeFileSync(path.join(dir, 'more.json'), JSON.stringify({ prompts: [{ name: 'a', template: 'A' }, { name: 'b', template: 'B' }] }));
+            fs.writeFileSync(path.join(dir, 'broken.yml'), 'name: bad name\ntemplate: x\n');
+            fs.writeFileSync(path.join(dir, 'notes.txt'), 'ignored');
+
+            const prompts = loadPromptDirectory(dir);
+            assert.deepStrictEqual(prompts.map(prompt => prompt.name), ['a', 'b', 'release_notes']);
+            assert.deepStrictEqual(prompts[2].steps[0].args, { command: 'git log {{tag}}..HEAD' });
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('returns nothing for a missing directory', () => {
+        assert.deepStrictEqual(loadPromptDirectory(path.join(os.tmpdir(), 'mcp-prompts-missing')), []);
+    });
+});
+
+describe('renderTemplate', () => {
+    it('fills arguments and drops sections for missing ones', () => {
+        const template = 'Debug {{url}}.{{#symptom}} Problem: {{symptom}}.{{/symptom}}';
+        assert.strictEqual(renderTemplate(template, { url: 'http://x' }), 'Debug http://x.');
+        assert.strictEqual(renderTemplate(template, { url: 'http://x', symptom: 'blank' }), 'Debug http://x. Problem: blank.');
+    });
+});
+
+describe('getPrompt', () => {
+    it('renders a built-in prompt with its tool sequence', () => {
+        const prompt = getPrompt('refactor_file', { path: 'src/a.ts', goal: 'extract a helper' });
+        const text = prompt.messages[0].content.text;
+        assert.match(text, /^Refactor src\/a\.ts: extract a helper\./);
+        assert.match(text, /1\. read_file_lines \{"path":"src\/a\.ts"\}/);
+        assert.match(text, /3\. apply_diff/);
+    });
+
+    it('rejects unknown prompts and missing required arguments', () => {
+        assert.throws(() => getPrompt('no_such_prompt'), /Unknown prompt/);
+        assert.throws(() => getPrompt('refactor_file', { path: 'src/a.ts' }), /requires argument: goal/);
+    });
+});
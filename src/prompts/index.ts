@@ -0,0 +1,138 @@
+// MCP prompts
+// Built-in OODA workflows plus YAML/JSON prompts from prompts.directory, rendered for prompts/get
+
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+
+import { loadConfig, expandHome } from '../config.js';
+import { getTool } from '../tools/registry.js';
+import { BUILTIN_PROMPTS } from './builtin.js';
+import { PromptDefinition, PromptFileSchema } from './promptDefinition.js';
+
+const PROMPT_FILE_EXTENSIONS = new Set(['.yaml', '.yml', '.json']);
+
+export interface PromptEntry {
+    name: string;
+    description?: string;
+    arguments: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+export interface RenderedPrompt {
+    description?: string;
+    messages: Array<{ role: 'user'; content: { type: 'text'; text: string } }>;
+}
+
+/**
+ * Prompts defined in dir. Files that fail to parse are skipped with a warning on stderr,
+ * so one bad file doesn't hide the rest.
+ */
+export function loadPromptDirectory(dir: string): PromptDefinition[] {
+    let files: string[];
+    try {
+        files = fs.readdirSync(dir).filter(file => PROMPT_FILE_EXTENSIONS.has(path.extname(file).toLowerCase())).sort();
+    } catch {
+        return [];
+    }
+
+    const prompts: PromptDefinition[] = [];
+    for (const file of files) {
+        const filePath = path.join(dir, file);
+        try {
+            const text = fs.readFileSync(filePath, 'utf-8');
+            const parsed = path.extname(file).toLowerCase() === '.json' ? JSON.parse(text) : yaml.load(text);
+            const result = PromptFileSchema.safeParse(parsed);
+            if (!result.success) {
+                const issue = result.error.issues[0];
+                console.error(`Skipping prompt file ${filePath}: ${issue.path.join('.') || 'file'}: ${issue.message}`);
+                continue;
+            }
+            prompts.push(...result.data);
+        } catch (error: any) {
+            console.error(`Skipping prompt file ${filePath}: ${error.message}`);
+        }
+    }
+    return prompts;
+}
+
+/**
+ * Built-in prompts, overridden by name by prompts.directory. The directory is read on
+ * every call so edits show up without a restart.
+ */
+function getPromptDefinitions(): Map<string, PromptDefinition> {
+    const definitions = new Map<string, PromptDefinition>();
+    const custom = loadPromptDirectory(expandHome(loadConfig().prompts.directory));
+    for (const prompt of [...BUILTIN_PROMPTS, ...custom]) {
+        definitions.set(prompt.name, prompt);
+    }
+    return definitions;
+}
+
+export function listPrompts(): PromptEntry[] {
+    return Array.from(getPromptDefinitions().values()).map(prompt => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments,
+    }));
+}
+
+/**
+ * Replace {{arg}} with its value and keep {{#arg}}...{{/arg}} only when arg is non-empty
+ */
+export function renderTemplate(template: string, args: Record<string, string>): string {
+    return template
+        .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name, body) => (args[name] ? body : ''))
+        .replace(/\{\{(\w+)\}\}/g, (_, name) => args[name] ?? '');
+}
+
+function renderStepArgs(value: unknown, args: Record<string, string>): unknown {
+    if (typeof value === 'string') return renderTemplate(value, args);
+    if (Array.isArray(value)) return value.map(item => renderStepArgs(item, args));
+    if (value && typeof value === 'object') {
+        const rendered: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            const renderedItem = renderStepArgs(item, args);
+            // An argument that wasn't given leaves its key out rather than passing ""
+            if (renderedItem !== '') rendered[key] = renderedItem;
+        }
+        return rendered;
+    }
+    return value;
+}
+
+function renderSteps(prompt: PromptDefinition, args: Record<string, string>): string {
+    const lines = prompt.steps.map((step, index) => {
+        const stepArgs = step.args ? renderStepArgs(step.args, args) as Record<string, unknown> : {};
+        let line = `${index + 1}. ${step.tool}`;
+        if (Object.keys(stepArgs).length > 0) line += ` ${JSON.stringify(stepArgs)}`;
+        if (step.note) line += ` - ${renderTemplate(step.note, args)}`;
+        if (!getTool(step.tool)) line += ' (not available in this session)';
+        return line;
+    });
+    return `Use these tools in order:\n${lines.join('\n')}`;
+}
+
+/**
+ * @throws If the prompt doesn't exist or a required argument is missing
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): RenderedPrompt {
+    const prompt = getPromptDefinitions().get(name);
+    if (!prompt) {
+        throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    const missing = prompt.arguments.filter(arg => arg.required && !args[arg.name]).map(arg => arg.name);
+    if (missing.length > 0) {
+        throw new Error(`Prompt ${name} requires argument${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+    }
+
+    let text = renderTemplate(prompt.template, args).trim();
+    if (prompt.steps.length > 0) {
+        text += `\n\n${renderSteps(prompt, args)}`;
+    }
+
+    return {
+        description: prompt.description,
+        messages: [{ role: 'user', content: { type: 'text', text } }],
+    };
+}
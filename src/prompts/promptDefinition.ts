@@ -0,0 +1,31 @@
+// Prompt definitions
+// Shape of built-in prompts and of the YAML/JSON prompt files in prompts.directory
+
+import { z } from 'zod';
+
+export const PromptDefinitionSchema = z.object({
+    name: z.string().regex(/^[A-Za-z0-9_-]+$/, 'Prompt names may only contain letters, digits, _ and -'),
+    description: z.string().optional(),
+    arguments: z.array(z.object({
+        name: z.string().regex(/^[A-Za-z0-9_]+$/, 'Argument names may only contain letters, digits and _'),
+        description: z.string().optional(),
+        required: z.boolean().optional(),
+    })).default([]),
+    // Message text. {{arg}} inserts an argument; {{#arg}}...{{/arg}} is kept only if arg is given.
+    template: z.string(),
+    // Tools to call in order, listed after the message text; string args are templated too
+    steps: z.array(z.object({
+        tool: z.string(),
+        args: z.record(z.any()).optional(),
+        note: z.string().optional(),  // Why the step is there, e.g. what to look for in its result
+    })).default([]),
+});
+
+export type PromptDefinition = z.infer<typeof PromptDefinitionSchema>;
+
+// A prompt file holds one prompt, a list of them, or { prompts: [...] }
+export const PromptFileSchema = z.union([
+    PromptDefinitionSchema.transform(prompt => [prompt]),
+    z.array(PromptDefinitionSchema),
+    z.object({ prompts: z.array(PromptDefinitionSchema) }).transform(file => file.prompts),
+]);
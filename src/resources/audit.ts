@@ -0,0 +1,43 @@
+// Audit log resource
+// audit://recent, the newest audit log entries; subscribers hear about each new row
+
+import { getStorage } from '../storage/storage.js';
+import { onAuditAppended } from '../audit.js';
+import { ResourceProvider } from './resourceProvider.js';
+import { notifyResourceUpdated } from './subscriptions.js';
+import { AUDIT_RECENT_URI } from './uris.js';
+
+const RECENT_ENTRIES = 50;
+
+onAuditAppended(() => notifyResourceUpdated(AUDIT_RECENT_URI));
+
+function parseJson(value: string | null): unknown {
+    if (!value) return null;
+    try {
+        return JSON.parse(value);
+    } catch {
+        return value;
+    }
+}
+
+export const AUDIT_RESOURCES: ResourceProvider<'audit'> = {
+    kind: 'audit',
+    templates: [],
+
+    async list() {
+        return [{
+            uri: AUDIT_RECENT_URI,
+            name: 'Recent audit log entries',
+            description: `The newest ${RECENT_ENTRIES} tool calls, without arguments`,
+            mimeType: 'application/json',
+        }];
+    },
+
+    async read(uri) {
+        const storage = await getStorage();
+        const rows = await storage.queryAuditRows({ order: 'desc', limit: RECENT_ENTRIES });
+        // Arguments may hold more than the entry list should show; hashes are for verify_audit_log
+        const entries = rows.map(({ args, prev_hash, hash, ...row }) => ({ ...row, result: parseJson(row.result), error: parseJson(row.error) }));
+        return [{ uri, mimeType: 'application/json', text: JSON.stringify(entries, null, 2) }];
+    },
+};
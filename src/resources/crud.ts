@@ -0,0 +1,37 @@
+// CRUD resources
+// crud://{collection}/{id} URIs for records in kv_store; the CRUD tools report changes
+
+import { getStorage } from '../storage/storage.js';
+import { loadConfig } from '../config.js';
+import { ResourceProvider } from './resourceProvider.js';
+import { crudRecordUri } from './uris.js';
+
+export const CRUD_RESOURCES: ResourceProvider<'crud'> = {
+    kind: 'crud',
+    templates: [{
+        uriTemplate: 'crud://{collection}/{id}',
+        name: 'CRUD record',
+        description: 'A record stored with the crud_* tools',
+        mimeType: 'application/json',
+    }],
+
+    // Most recently updated first, up to crud.defaultLimit
+    async list() {
+        const storage = await getStorage();
+        const rows = await storage.listRecords({ orderBy: 'updated_at', limit: loadConfig().crud.defaultLimit });
+        return rows.map(row => ({
+            uri: crudRecordUri(row.collection, row.id),
+            name: `${row.collection}/${row.id}`,
+            mimeType: 'application/json',
+        }));
+    },
+
+    async read(uri, target) {
+        const storage = await getStorage();
+        const row = await storage.getRecord(target.collection, target.id);
+        if (!row) {
+            throw new Error(`Record not found: ${target.collection}/${target.id}`);
+        }
+        return [{ uri, mimeType: 'application/json', text: JSON.stringify(JSON.parse(row.data), null, 2) }];
+    },
+};
@@ -0,0 +1,94 @@
+// File resources
+// file:/// URIs for files and directories the filesystem policy lets the client read
+
+import fs from 'fs';
+import path from 'path';
+import { loadConfig, expandHome } from '../config.js';
+import { enforcePathPolicy, checkPathAccess } from '../utils/pathPolicy.js';
+import { redactToolOutput } from '../utils/redact.js';
+import { ResourceProvider } from './resourceProvider.js';
+import { notifyResourceUpdated } from './subscriptions.js';
+import { fileUri } from './uris.js';
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+const TEXT_MIME_TYPES: Record<string, string> = {
+    '.json': 'application/json',
+    '.md': 'text/markdown',
+    '.html': 'text/html',
+    '.css': 'text/css',
+    '.js': 'text/javascript',
+    '.mjs': 'text/javascript',
+    '.ts': 'text/x-typescript',
+    '.csv': 'text/csv',
+    '.xml': 'application/xml',
+    '.yaml': 'application/yaml',
+    '.yml': 'application/yaml',
+};
+
+const BINARY_MIME_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.pdf': 'application/pdf',
+    '.zip': 'application/zip',
+};
+
+// Same heuristic as git: a NUL byte near the start means binary
+function isBinary(buffer: Buffer): boolean {
+    return buffer.subarray(0, 8000).includes(0);
+}
+
+export const FILE_RESOURCES: ResourceProvider<'file'> = {
+    kind: 'file',
+    templates: [{
+        uriTemplate: 'file:///{+path}',
+        name: 'File or directory',
+        description: 'A file (text or base64) or directory listing, subject to filesystemPolicy',
+    }],
+
+    // Only the allowed roots are listed; without allowedRoots there is nothing sensible to list
+    async list() {
+        return loadConfig().filesystemPolicy.allowedRoots
+            .map(root => path.resolve(expandHome(root)))
+            .filter(root => fs.existsSync(root))
+            .map(root => ({ uri: fileUri(root), name: root, description: 'Allowed root', mimeType: 'application/json' }));
+    },
+
+    async read(uri, target) {
+        await enforcePathPolicy('resources/read', target.path, 'read');
+        const stats = await fs.promises.stat(target.path);
+
+        if (stats.isDirectory()) {
+            const entries = await fs.promises.readdir(target.path, { withFileTypes: true });
+            const listing = entries
+                .map(entry => ({ entry, fullPath: path.join(target.path, entry.name) }))
+                .filter(({ fullPath }) => !checkPathAccess(fullPath, 'read'))
+                .map(({ entry, fullPath }) => ({
+                    name: entry.name,
+                    type: entry.isDirectory() ? 'directory' : entry.isFile() ? 'file' : 'other',
+                    uri: fileUri(fullPath),
+                }));
+            return [{ uri, mimeType: 'application/json', text: JSON.stringify(listing, null, 2) }];
+        }
+
+        if (stats.size > MAX_FILE_BYTES) {
+            throw new Error(`${target.path} is ${stats.size} bytes; resources are limited to ${MAX_FILE_BYTES} bytes`);
+        }
+        const content = await fs.promises.readFile(target.path);
+        const extension = path.extname(target.path).toLowerCase();
+        if (isBinary(content) || BINARY_MIME_TYPES[extension]) {
+            return [{ uri, mimeType: BINARY_MIME_TYPES[extension] ?? 'application/octet-stream', blob: content.toString('base64') }];
+        }
+        return [{ uri, mimeType: TEXT_MIME_TYPES[extension] ?? 'text/plain', text: redactToolOutput(content.toString('utf-8')) }];
+    },
+
+    async watch(uri, target) {
+        await enforcePathPolicy('resources/subscribe', target.path, 'read');
+        const watcher = fs.watch(target.path, { persistent: false }, () => notifyResourceUpdated(uri));
+        // A deleted file ends the watch; the client finds out on its next read
+        watcher.on('error', () => watcher.close());
+        return () => watcher.close();
+    },
+};
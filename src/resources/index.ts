@@ -0,0 +1,56 @@
+// MCP resources
+// Routes resources/list, templates, read and subscriptions to the provider for each URI scheme
+
+import { ResourceEntry, ResourceKind, ResourceProvider, ResourceTarget, ResourceTemplateEntry, ResourceContents } from './resourceProvider.js';
+import { subscribe, unsubscribe } from './subscriptions.js';
+import { parseResourceUri } from './uris.js';
+import { FILE_RESOURCES } from './files.js';
+import { CRUD_RESOURCES } from './crud.js';
+import { AUDIT_RESOURCES } from './audit.js';
+import { SESSION_RESOURCES } from './sessions.js';
+
+const PROVIDERS: { [K in ResourceKind]: ResourceProvider<K> } = {
+    file: FILE_RESOURCES,
+    crud: CRUD_RESOURCES,
+    audit: AUDIT_RESOURCES,
+    session: SESSION_RESOURCES,
+};
+
+function providerFor<K extends ResourceKind>(target: ResourceTarget<K>): ResourceProvider<K> {
+    return PROVIDERS[target.kind];
+}
+
+/**
+ * Concrete resources: allowed roots, CRUD records, audit://recent and this connection's sessions
+ */
+export async function listResources(): Promise<ResourceEntry[]> {
+    const lists = await Promise.all(Object.values(PROVIDERS).map(provider => provider.list()));
+    return lists.flat();
+}
+
+export function listResourceTemplates(): ResourceTemplateEntry[] {
+    return Object.values(PROVIDERS).flatMap(provider => provider.templates);
+}
+
+/**
+ * @throws If the URI is unknown, missing or denied by the filesystem policy
+ */
+export async function readResource(uri: string): Promise<ResourceContents[]> {
+    const target = parseResourceUri(uri);
+    return providerFor(target).read(uri, target);
+}
+
+/**
+ * Send the calling connection notifications/resources/updated when uri changes
+ * @throws If the URI is unknown or denied by the filesystem policy
+ */
+export async function subscribeResource(uri: string): Promise<void> {
+    const target = parseResourceUri(uri);
+    const provider = providerFor(target);
+    const stop = provider.watch ? await provider.watch(uri, target) : undefined;
+    subscribe(uri, stop);
+}
+
+export function unsubscribeResource(uri: string): void {
+    unsubscribe(uri);
+}
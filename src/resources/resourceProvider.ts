@@ -0,0 +1,39 @@
+// Resource provider types
+// What each resource module declares; routed by scheme in index.ts
+
+import { ParsedResourceUri } from './uris.js';
+
+export type ResourceKind = ParsedResourceUri['kind'];
+
+export interface ResourceEntry {
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+
+export interface ResourceTemplateEntry {
+    uriTemplate: string;  // RFC 6570 template
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+
+export interface ResourceContents {
+    uri: string;
+    mimeType?: string;
+    text?: string;
+    blob?: string;  // Base64, for binary content
+}
+
+// The parsed URI for kind K; unlike Extract, this stays assignable while K is generic
+export type ResourceTarget<K extends ResourceKind> = ParsedResourceUri & { kind: K };
+
+export interface ResourceProvider<K extends ResourceKind = ResourceKind> {
+    kind: K;
+    templates: ResourceTemplateEntry[];
+    list(): Promise<ResourceEntry[]>;
+    read(uri: string, target: ResourceTarget<K>): Promise<ResourceContents[]>;
+    // Start noticing changes that nothing else reports; returns a function that stops it
+    watch?(uri: string, target: ResourceTarget<K>): Promise<() => void>;
+}
@@ -0,0 +1,34 @@
+// Process session resources
+// session://{id}/output URIs for the calling connection's start_process sessions
+
+import { getConnectionSessions } from '../tools/sessions.js';
+import { redactToolOutput } from '../utils/redact.js';
+import { ResourceProvider } from './resourceProvider.js';
+import { sessionOutputUri } from './uris.js';
+
+export const SESSION_RESOURCES: ResourceProvider<'session'> = {
+    kind: 'session',
+    templates: [{
+        uriTemplate: 'session://{id}/output',
+        name: 'Process session output',
+        description: 'Buffered output of a start_process session (last 1000 lines)',
+        mimeType: 'text/plain',
+    }],
+
+    async list() {
+        return getConnectionSessions().map(session => ({
+            uri: sessionOutputUri(session.id),
+            name: `${session.id} output`,
+            description: `${session.command} (${session.isAlive ? 'running' : 'exited'})`,
+            mimeType: 'text/plain',
+        }));
+    },
+
+    async read(uri, target) {
+        const session = getConnectionSessions().find(s => s.id === target.sessionId);
+        if (!session) {
+            throw new Error(`Session not found: ${target.sessionId}`);
+        }
+        return [{ uri, mimeType: 'text/plain', text: redactToolOutput(session.output.join('\n')) }];
+    },
+};
@@ -0,0 +1,46 @@
+/**
+ * Tests for resource URIs and subscriptions
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+
+import { withAuditCall } from '../audit.js';
+import { releaseConnection } from '../utils/connectionScope.js';
+import { subscribe, unsubscribe, notifyResourceUpdated, onResourceUpdated } from './subscriptions.js';
+import { crudRecordUri, sessionOutputUri, parseResourceUri } from './uris.js';
+
+describe('resource URIs', () => {
+    it('round-trips CRUD and session URIs with reserved characters', () => {
+        assert.deepStrictEqual(parseResourceUri(crudRecordUri('my notes', 'a/b')), { kind: 'crud', collection: 'my notes', id: 'a/b' });
+        assert.deepStrictEqual(parseResourceUri(sessionOutputUri('session_1')), { kind: 'session', sessionId: 'session_1' });
+        assert.deepStrictEqual(parseResourceUri('audit://recent'), { kind: 'audit' });
+        assert.throws(() => parseResourceUri('crud://notes'), /Unknown resource/);
+    });
+});
+
+describe('resource subscriptions', () => {
+    it('notifies subscribed connections once per burst and stops watchers on release', async () => {
+        const received: Array<[string | null, string]> = [];
+        onResourceUpdated((connectionId, uri) => received.push([connectionId, uri]));
+        const inSession = <T>(sessionId: string, fn: () => T) => withAuditCall(fn, { sessionId, clientName: null });
+
+        let stopped = 0;
+        inSession('session_a', () => subscribe('crud://notes/1', () => { stopped++; }));
+        inSession('session_b', () => subscribe('crud://notes/2'));
+
+        notifyResourceUpdated('crud://notes/1');
+        notifyResourceUpdated('crud://notes/1');
+        notifyResourceUpdated('crud://notes/3');
+        await new Promise(resolve => setTimeout(resolve, 150));
+        assert.deepStrictEqual(received, [['session_a', 'crud://notes/1']]);
+
+        inSession('session_b', () => unsubscribe('crud://notes/2'));
+        notifyResourceUpdated('crud://notes/2');
+        await releaseConnection('session_a');
+        assert.strictEqual(stopped, 1);
+        notifyResourceUpdated('crud://notes/1');
+        await new Promise(resolve => setTimeout(resolve, 150));
+        assert.strictEqual(received.length, 1);
+    });
+});
@@ -0,0 +1,86 @@
+// Resource subscriptions
+// Tracks the URIs each connection watches and fans change notifications out to them
+
+import { connectionScoped, currentConnectionId } from '../utils/connectionScope.js';
+
+// Bursts of changes (process output, audit rows) are sent as one notification per window
+const NOTIFY_COALESCE_MS = 100;
+
+interface ConnectionSubscriptions {
+    connectionId: string | null;
+    watchers: Map<string, (() => void) | null>;  // URI -> stops its watcher, if it has one
+}
+
+const subscriptions = connectionScoped<ConnectionSubscriptions>(
+    () => ({ connectionId: currentConnectionId(), watchers: new Map() }),
+    state => {
+        for (const stop of state.watchers.values()) stop?.();
+        state.watchers.clear();
+    }
+);
+
+const updatedListeners: Array<(connectionId: string | null, uri: string) => void> = [];
+const listChangedListeners: Array<() => void> = [];
+const pending = new Map<string, { connectionId: string | null; uri: string }>();
+let flushTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Watch a URI for the calling connection. stop ends whatever the provider started to
+ * notice changes; it runs on unsubscribe or when the connection closes.
+ */
+export function subscribe(uri: string, stop?: () => void): void {
+    const state = subscriptions.get();
+    if (state.watchers.has(uri)) {
+        stop?.();
+        return;
+    }
+    state.watchers.set(uri, stop ?? null);
+}
+
+export function unsubscribe(uri: string): void {
+    const state = subscriptions.get();
+    state.watchers.get(uri)?.();
+    state.watchers.delete(uri);
+}
+
+function flush(): void {
+    flushTimer = null;
+    const batch = Array.from(pending.values());
+    pending.clear();
+    for (const { connectionId, uri } of batch) {
+        for (const listener of updatedListeners) {
+            listener(connectionId, uri);
+        }
+    }
+}
+
+/**
+ * Tell every connection subscribed to uri that it changed
+ */
+export function notifyResourceUpdated(uri: string): void {
+    for (const state of subscriptions.all()) {
+        if (!state.watchers.has(uri)) continue;
+        pending.set(`${state.connectionId}\n${uri}`, { connectionId: state.connectionId, uri });
+    }
+    if (pending.size > 0 && !flushTimer) {
+        flushTimer = setTimeout(flush, NOTIFY_COALESCE_MS);
+        flushTimer.unref();
+    }
+}
+
+/**
+ * Tell every connection that resources were added or removed
+ */
+export function notifyResourceListChanged(): void {
+    for (const listener of listChangedListeners) {
+        listener();
+    }
+}
+
+export function onResourceUpdated(listener: (connectionId: string | null, uri: string) => void): void {
+    updatedListeners.push(listener);
+}
+
+export function onResourceListChanged(listener: () => void): void {
+    listChangedListeners.push(listener);
+}
@@ -0,0 +1,48 @@
+// Resource URIs
+// Builds and parses the URIs of files, CRUD records, the audit log and process session output
+
+import { fileURLToPath, pathToFileURL } from 'url';
+
+export const AUDIT_RECENT_URI = 'audit://recent';
+
+export type ParsedResourceUri =
+    | { kind: 'file'; path: string }
+    | { kind: 'crud'; collection: string; id: string }
+    | { kind: 'audit' }
+    | { kind: 'session'; sessionId: string };
+
+export function fileUri(filePath: string): string {
+    return pathToFileURL(filePath).href;
+}
+
+export function crudRecordUri(collection: string, id: string): string {
+    return `crud://${encodeURIComponent(collection)}/${encodeURIComponent(id)}`;
+}
+
+export function sessionOutputUri(sessionId: string): string {
+    return `session://${encodeURIComponent(sessionId)}/output`;
+}
+
+/**
+ * Parse a resource URI
+ * @throws If the URI is not one this server serves
+ */
+export function parseResourceUri(uri: string): ParsedResourceUri {
+    if (uri.startsWith('file://')) {
+        return { kind: 'file', path: fileURLToPath(uri) };
+    }
+    if (uri === AUDIT_RECENT_URI) {
+        return { kind: 'audit' };
+    }
+
+    const crud = uri.match(/^crud:\/\/([^/]+)\/([^/]+)$/);
+    if (crud) {
+        return { kind: 'crud', collection: decodeURIComponent(crud[1]), id: decodeURIComponent(crud[2]) };
+    }
+    const session = uri.match(/^session:\/\/([^/]+)\/output$/);
+    if (session) {
+        return { kind: 'session', sessionId: decodeURIComponent(session[1]) };
+    }
+
+    throw new Error(`Unknown resource: ${uri}`);
+}
@@ -1,50 +1,72 @@
+// SQLite connection
+// Opens workspace databases and upgrades their schema; used by the sqlite storage backend
+
 import sqlite3 from 'sqlite3';
 import { open, Database } from 'sqlite';
 import fs from 'fs';
 import path from 'path';
 import { loadConfig, expandHome } from '../config.js';
+import { migrateDatabase } from './migrations/index.js';
 
-let dbInstance: Database | null = null;
+// One connection per database file
+const connections = new Map<string, Promise<Database>>();
 
+/**
+ * The database at storage.path, whatever storage.type is set to
+ */
 export async function getDb(): Promise<Database> {
-    if (dbInstance) {
-        return dbInstance;
+    return openDatabase(expandHome(loadConfig().storage.path));
+}
+
+/**
+ * Open (and on first use create or upgrade) a workspace database. Connections are shared per file.
+ */
+export function openDatabase(dbPath: string): Promise<Database> {
+    const resolved = path.resolve(dbPath);
+    let connection = connections.get(resolved);
+    if (!connection) {
+        connection = initDatabase(resolved);
+        connections.set(resolved, connection);
+        connection.catch(() => connections.delete(resolved));
     }
+    return connection;
+}
 
-    const config = loadConfig();
-    const dbPath = expandHome(config.storage.path);
+/**
+ * Close a database opened with openDatabase
+ */
+export async function closeDatabase(dbPath: string): Promise<void> {
+    const resolved = path.resolve(dbPath);
+    const connection = connections.get(resolved);
+    connections.delete(resolved);
+    if (connection) await (await connection).close();
+}
 
+async function initDatabase(dbPath: string): Promise<Database> {
     // Ensure directory exists
     const dbDir = path.dirname(dbPath);
     if (!fs.existsSync(dbDir)) {
         fs.mkdirSync(dbDir, { recursive: true });
     }
 
-    dbInstance = await open({
+    const dbInstance = await open({
         filename: dbPath,
         driver: sqlite3.Database
     });
 
-    // Initialize tables
-    await dbInstance.exec(`
-    CREATE TABLE IF NOT EXISTS audit_log (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      timestamp TEXT DEFAULT CURRENT_TIMESTAMP,
-      tool TEXT NOT NULL,
-      args TEXT,
-      result TEXT,
-      error TEXT
-    );
-
-    CREATE TABLE IF NOT EXISTS kv_store (
-      collection TEXT NOT NULL,
-      id TEXT NOT NULL,
-      data TEXT NOT NULL,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      PRIMARY KEY (collection, id)
-    );
-  `);
+    try {
+        // Wait for another process's write transaction to finish instead of failing with SQLITE_BUSY
+        await dbInstance.exec('PRAGMA busy_timeout = 5000');
+        const { from, to, created, backupPath } = await migrateDatabase(dbInstance, dbPath, {
+            backup: loadConfig().storage.backupBeforeMigrate,
+        });
+        if (!created && to !== from) {
+            console.error(`Upgraded ${dbPath} from schema version ${from} to ${to}${backupPath ? `; backup at ${backupPath}` : ''}`);
+        }
+    } catch (error) {
+        await dbInstance.close();
+        throw error;
+    }
 
     return dbInstance;
 }
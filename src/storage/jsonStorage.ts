@@ -0,0 +1,176 @@
+// JSON file storage backend
+// The in-memory tables, saved to one file shortly after each write; needs no native modules.
+// One server process per file, and for small stores only: every save rewrites the whole file.
+
+import fs from 'fs';
+import path from 'path';
+import { MemoryStorage, StorageSnapshot } from './memoryStorage.js';
+import { StorageType, StorageInfo } from './storage.js';
+
+const FORMAT_VERSION = 1;
+
+// Writes within this window are saved together
+const WRITE_DELAY_MS = 100;
+
+// Saved and unlocked when the process exits, including on SIGINT and SIGTERM
+const openStores = new Set<JsonStorage>();
+let exitHandlersInstalled = false;
+
+function releaseAll(): void {
+    for (const store of openStores) {
+        try {
+            store.release();
+        } catch (error: any) {
+            console.error(`Could not save ${store.path}: ${error.message}`);
+        }
+    }
+}
+
+function installExitHandlers(): void {
+    if (exitHandlersInstalled) return;
+    exitHandlersInstalled = true;
+    process.on('exit', releaseAll);
+    // Pending saves are on an unref'd timer, so the event loop can empty before they fire
+    process.on('beforeExit', () => {
+        for (const store of openStores) store.flush();
+    });
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+        process.once(signal, () => {
+            releaseAll();
+            // Without our listener the signal ends the process as it would have
+            process.kill(process.pid, signal);
+        });
+    }
+}
+
+function isRunning(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error: any) {
+        return error.code === 'EPERM';
+    }
+}
+
+/**
+ * Take the lock file next to the store, or fail if a running process holds it.
+ * A lock left by a process that has died is taken over.
+ */
+function acquireLock(filePath: string, lockPath: string): void {
+    try {
+        fs.writeFileSync(lockPath, String(process.pid), { flag: 'wx' });
+        return;
+    } catch (error: any) {
+        if (error.code !== 'EEXIST') throw error;
+    }
+    const holder = Number(fs.readFileSync(lockPath, 'utf-8'));
+    if (holder && isRunning(holder)) {
+        throw new Error(`${filePath} is in use by process ${holder}; the json backend serves one process at a time (lock: ${lockPath})`);
+    }
+    fs.writeFileSync(lockPath, String(process.pid));
+}
+
+export class JsonStorage extends MemoryStorage {
+    readonly type: StorageType = 'json';
+    readonly path: string;
+    private readonly lockPath: string;
+    private saveTimer: NodeJS.Timeout | null = null;
+    private dirty = false;
+
+    private constructor(filePath: string) {
+        super();
+        this.path = filePath;
+        this.lockPath = `${filePath}.lock`;
+    }
+
+    static async open(filePath: string): Promise<JsonStorage> {
+        const storage = new JsonStorage(filePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        acquireLock(filePath, storage.lockPath);
+        try {
+            storage.load();
+        } catch (error) {
+            fs.rmSync(storage.lockPath, { force: true });
+            throw error;
+        }
+        openStores.add(storage);
+        installExitHandlers();
+        return storage;
+    }
+
+    private load(): void {
+        const filePath = this.path;
+        if (fs.existsSync(filePath)) {
+            const { version, ...snapshot } = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+            if (version !== FORMAT_VERSION) {
+                throw new Error(`${filePath} has storage format version ${version}; this server reads version ${FORMAT_VERSION}`);
+            }
+            this.restore(snapshot as StorageSnapshot);
+        } else {
+            this.dirty = true;
+            this.save();
+        }
+    }
+
+    async info(): Promise<StorageInfo> {
+        return {
+            ...await super.info(),
+            schemaVersion: FORMAT_VERSION,
+            latestSchemaVersion: FORMAT_VERSION,
+            fileSizeBytes: fs.statSync(this.path).size,
+        };
+    }
+
+    async close(): Promise<void> {
+        this.release();
+    }
+
+    /**
+     * Save any pending writes and give up the lock
+     * @throws If the file can't be written; the lock is released anyway
+     */
+    release(): void {
+        if (!openStores.delete(this)) return;
+        try {
+            this.save();
+        } finally {
+            fs.rmSync(this.lockPath, { force: true });
+        }
+    }
+
+    /**
+     * Save pending writes now. No call is waiting on a delayed save, so a failure is
+     * reported on stderr and the writes stay pending for the next attempt.
+     */
+    flush(): void {
+        try {
+            this.save();
+        } catch (error: any) {
+            console.error(`Could not save ${this.path}: ${error.message}; will retry on the next save`);
+        }
+    }
+
+    /**
+     * Save within WRITE_DELAY_MS, together with any other writes made meanwhile
+     */
+    protected changed(): void {
+        this.dirty = true;
+        if (this.saveTimer) return;
+        this.saveTimer = setTimeout(() => this.flush(), WRITE_DELAY_MS);
+        // Pending writes are saved on exit instead
+        this.saveTimer.unref();
+    }
+
+    /**
+     * Write the whole file next to the old one, then swap it in, so a crash never leaves half a file
+     */
+    private save(): void {
+        if (this.saveTimer) clearTimeout(this.saveTimer);
+        this.saveTimer = null;
+        if (!this.dirty) return;
+        const temp = `${this.path}.${process.pid}.tmp`;
+        fs.writeFileSync(temp, JSON.stringify({ version: FORMAT_VERSION, ...this.snapshot() }), { mode: 0o600 });
+        fs.renameSync(temp, this.path);
+        this.dirty = false;
+    }
+}
@@ -0,0 +1,385 @@
+// In-memory storage backend
+// Tables as plain arrays and maps; for tests, and the base of the JSON file backend
+
+import {
+    Storage, StorageType, AuditRow, NewAuditRow, AuditQuery, RecordRow, NewRecordRow, RecordQuery,
+    ApprovalRow, NewApprovalRow, ApprovalChanges, ApprovalStatus, StorageCounts, StorageInfo, storageTimestamp,
+    RecordIndexRow, NewRecordIndexRow, RecordHistoryRow, RecordHistoryQuery, AuditGroupColumn, AuditGroupStats, AuditActivity,
+} from './storage.js';
+import { RecordFind, matchesFilter, compareRecords, recordIndexName, parseDataField } from './recordQuery.js';
+import { RecordSearch, SearchHit, SearchFields, searchText, searchDocuments } from './recordSearch.js';
+
+/**
+ * Everything a MemoryStorage holds; also the JSON backend's file format
+ */
+export interface StorageSnapshot {
+    nextAuditId: number;            // Like AUTOINCREMENT, ids of pruned rows are never reused
+    audit_log: AuditRow[];
+    kv_store: RecordRow[];              // version is missing from files written before versions
+    kv_history: RecordHistoryRow[];     // Missing from files written before versions
+    approvals: ApprovalRow[];
+    record_indexes: RecordIndexRow[];   // Declarations only; missing from files written before indexes
+}
+
+function matchesAuditQuery(row: AuditRow, query: AuditQuery): boolean {
+    return (query.fromId === undefined || row.id >= query.fromId)
+        && (query.toId === undefined || row.id <= query.toId)
+        && (query.since === undefined || row.timestamp >= query.since)
+        && (query.until === undefined || row.timestamp <= query.until)
+        && (query.before === undefined || row.timestamp < query.before)
+        && (query.tool === undefined || row.tool === query.tool)
+        && (query.sessionId === undefined || row.session_id === query.sessionId)
+        && (query.clientName === undefined || row.client_name === query.clientName)
+        && (query.callId === undefined || row.call_id === query.callId)
+        && (query.parentId === undefined || row.parent_id === query.parentId);
+}
+
+/**
+ * Nearest-rank percentile of an ascending list: rank ceil(p * n / 100), at least 1
+ */
+function percentile(sorted: number[], p: number): number | null {
+    if (sorted.length === 0) return null;
+    return sorted[Math.max(1, Math.ceil((p * sorted.length) / 100)) - 1];
+}
+
+// Entries of a map in key order
+function byKey<T>(map: Map<string, T>): T[] {
+    return Array.from(map).sort(([a], [b]) => a.localeCompare(b)).map(([, value]) => value);
+}
+
+function recordKey(collection: string, id: string): string {
+    return `${collection}\u0000${id}`;
+}
+
+// Newest first; ties keep insertion order reversed, like SQLite's rowid order
+function newestFirst<T>(rows: T[], timestamp: (row: T) => string): T[] {
+    return rows.map((row, index) => ({ row, index }))
+        .sort((a, b) => timestamp(b.row).localeCompare(timestamp(a.row)) || b.index - a.index)
+        .map(({ row }) => row);
+}
+
+export class MemoryStorage implements Storage {
+    readonly type: StorageType = 'memory';
+    readonly path: string | null = null;
+
+    protected nextAuditId = 1;
+    protected auditRows: AuditRow[] = [];          // Ascending by id
+    protected records = new Map<string, RecordRow>();
+    protected history: RecordHistoryRow[] = [];     // Oldest first
+    protected approvals = new Map<string, ApprovalRow>();
+    protected recordIndexes = new Map<string, RecordIndexRow>();
+    private searchPaths = new Map<string, string[][]>();       // Collections with search fields configured
+
+    /**
+     * Called after every write; the JSON backend saves its file here
+     */
+    protected changed(): void {}
+
+    snapshot(): StorageSnapshot {
+        return {
+            nextAuditId: this.nextAuditId,
+            audit_log: this.auditRows,
+            kv_store: Array.from(this.records.values()),
+            kv_history: this.history,
+            approvals: Array.from(this.approvals.values()),
+            record_indexes: Array.from(this.recordIndexes.values()),
+        };
+    }
+
+    protected restore(snapshot: StorageSnapshot): void {
+        this.auditRows = [...snapshot.audit_log].sort((a, b) => a.id - b.id);
+        this.nextAuditId = Math.max(snapshot.nextAuditId ?? 1, (this.auditRows.at(-1)?.id ?? 0) + 1);
+        this.records = new Map(snapshot.kv_store.map(row => [recordKey(row.collection, row.id), { ...row, version: row.version ?? 1 }]));
+        this.history = snapshot.kv_history ?? [];
+        this.approvals = new Map(snapshot.approvals.map(row => [row.id, row]));
+        this.recordIndexes = new Map((snapshot.record_indexes ?? []).map(row => [recordKey(row.collection, row.field), row]));
+    }
+
+    async appendAuditRow(row: NewAuditRow): Promise<number> {
+        const id = row.id ?? this.nextAuditId;
+        if (row.id !== undefined && this.auditRows.some(existing => existing.id === id)) {
+            throw new Error(`Audit row ${id} already exists`);
+        }
+        this.auditRows.push({ ...row, id });
+        if (id < (this.auditRows.at(-2)?.id ?? 0)) {
+            this.auditRows.sort((a, b) => a.id - b.id);
+        }
+        this.nextAuditId = Math.max(this.nextAuditId, id + 1);
+        this.changed();
+        return id;
+    }
+
+    // No await between reading the tail and appending, so nothing runs in between
+    async appendChainedAuditRow(build: (last: AuditRow | undefined) => NewAuditRow): Promise<number> {
+        const last = this.auditRows.at(-1);
+        return this.appendAuditRow(build(last && { ...last }));
+    }
+
+    async getLastAuditRow(): Promise<AuditRow | undefined> {
+        const last = this.auditRows.at(-1);
+        return last && { ...last };
+    }
+
+    async queryAuditRows(query: AuditQuery = {}): Promise<AuditRow[]> {
+        const rows = query.order === 'desc' ? [...this.auditRows].reverse() : this.auditRows;
+        const matches: AuditRow[] = [];
+        for (const row of rows) {
+            if (query.limit !== undefined && matches.length >= query.limit) break;
+            if (matchesAuditQuery(row, query)) matches.push({ ...row });
+        }
+        return matches;
+    }
+
+    async countAuditRows(query: AuditQuery = {}): Promise<number> {
+        return this.auditRows.filter(row => matchesAuditQuery(row, query)).length;
+    }
+
+    async listAuditTools(): Promise<string[]> {
+        return Array.from(new Set(this.auditRows.map(row => row.tool))).sort();
+    }
+
+    async groupAuditRows(query: AuditQuery, column: AuditGroupColumn): Promise<AuditGroupStats[]> {
+        const groups = new Map<string | null, { calls: number; errors: number; durations: number[]; first_call: string; last_call: string }>();
+        for (const row of this.auditRows) {
+            if (!matchesAuditQuery(row, query)) continue;
+            const group = groups.get(row[column]) ?? { calls: 0, errors: 0, durations: [], first_call: row.timestamp, last_call: row.timestamp };
+            group.calls++;
+            if (row.error !== null) group.errors++;
+            if (row.duration_ms !== null) group.durations.push(row.duration_ms);
+            if (row.timestamp < group.first_call) group.first_call = row.timestamp;
+            if (row.timestamp > group.last_call) group.last_call = row.timestamp;
+            groups.set(row[column], group);
+        }
+
+        return Array.from(groups, ([key, { durations, ...group }]) => {
+            const sorted = durations.sort((a, b) => a - b);
+            return {
+                key,
+                ...group,
+                avg_duration_ms: sorted.length ? Math.round(sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length) : null,
+                p50_ms: percentile(sorted, 50),
+                p90_ms: percentile(sorted, 90),
+                p99_ms: percentile(sorted, 99),
+            };
+        }).sort((a, b) => b.calls - a.calls);
+    }
+
+    async auditActivity(query: AuditQuery, bucket: 'hour' | 'day'): Promise<AuditActivity> {
+        const tools = new Set<string>();
+        const hours = new Map<string, { hour: string; count: number }>();
+        const buckets = new Map<string, { bucket: string; calls: number; errors: number }>();
+        const errors = new Map<string, { tool: string; error: string; count: number; last_seen: string }>();
+        for (const row of this.auditRows) {
+            if (!matchesAuditQuery(row, query)) continue;
+            tools.add(row.tool);
+
+            const hour = row.timestamp.slice(11, 13);
+            const hourCount = hours.get(hour) ?? { hour, count: 0 };
+            hourCount.count++;
+            hours.set(hour, hourCount);
+
+            const key = bucket === 'hour' ? `${row.timestamp.slice(0, 13)}:00` : row.timestamp.slice(0, 10);
+            const point = buckets.get(key) ?? { bucket: key, calls: 0, errors: 0 };
+            point.calls++;
+            buckets.set(key, point);
+
+            if (row.error === null) continue;
+            point.errors++;
+            const errorKey = JSON.stringify([row.tool, row.error]);
+            const entry = errors.get(errorKey) ?? { tool: row.tool, error: row.error, count: 0, last_seen: row.timestamp };
+            entry.count++;
+            if (row.timestamp > entry.last_seen) entry.last_seen = row.timestamp;
+            errors.set(errorKey, entry);
+        }
+        return { tools: tools.size, hours: byKey(hours), buckets: byKey(buckets), errors: Array.from(errors.values()) };
+    }
+
+    async deleteAuditRowsThrough(through: number): Promise<number> {
+        const before = this.auditRows.length;
+        this.auditRows = this.auditRows.filter(row => row.id > through);
+        const deleted = before - this.auditRows.length;
+        if (deleted) this.changed();
+        return deleted;
+    }
+
+    async insertRecord(row: NewRecordRow): Promise<void> {
+        const key = recordKey(row.collection, row.id);
+        if (this.records.has(key)) {
+            throw new Error(`Record ${row.collection}/${row.id} already exists`);
+        }
+        const now = storageTimestamp();
+        const previous = this.history.filter(old => old.collection === row.collection && old.id === row.id);
+        const version = row.version ?? Math.max(0, ...previous.map(old => old.version)) + 1;
+        this.records.set(key, { ...row, created_at: row.created_at ?? now, updated_at: row.updated_at ?? now, version });
+        this.changed();
+    }
+
+    async getRecord(collection: string, id: string): Promise<RecordRow | undefined> {
+        const row = this.records.get(recordKey(collection, id));
+        return row && { ...row };
+    }
+
+    // Like SQLite's kv_store_history triggers
+    private keepVersion(row: RecordRow, replacedBy: RecordHistoryRow['replaced_by']): void {
+        this.history.push({ ...row, replaced_at: storageTimestamp(), replaced_by: replacedBy });
+    }
+
+    async updateRecord(collection: string, id: string, data: string, ifVersion?: number): Promise<boolean> {
+        const row = this.records.get(recordKey(collection, id));
+        if (!row || (ifVersion !== undefined && row.version !== ifVersion)) return false;
+        this.keepVersion(row, 'update');
+        this.records.set(recordKey(collection, id), { ...row, data, updated_at: storageTimestamp(), version: row.version + 1 });
+        this.changed();
+        return true;
+    }
+
+    async deleteRecord(collection: string, id: string, ifVersion?: number): Promise<boolean> {
+        const row = this.records.get(recordKey(collection, id));
+        if (!row || (ifVersion !== undefined && row.version !== ifVersion)) return false;
+        this.keepVersion(row, 'delete');
+        this.records.delete(recordKey(collection, id));
+        this.changed();
+        return true;
+    }
+
+    async listRecords(query: RecordQuery): Promise<RecordRow[]> {
+        const rows = Array.from(this.records.values())
+            .filter(row => query.collection === undefined || row.collection === query.collection);
+        return newestFirst(rows, row => row[query.orderBy]).slice(0, query.limit).map(row => ({ ...row }));
+    }
+
+    async queryRecordHistory(query: RecordHistoryQuery): Promise<RecordHistoryRow[]> {
+        return this.history
+            .filter(row => (query.collection === undefined || row.collection === query.collection)
+                && (query.id === undefined || row.id === query.id)
+                && (query.version === undefined || row.version === query.version))
+            .sort((a, b) => a.collection.localeCompare(b.collection) || a.id.localeCompare(b.id) || b.version - a.version)
+            .slice(0, query.limit)
+            .map(row => ({ ...row }));
+    }
+
+    async insertRecordHistory(row: RecordHistoryRow): Promise<void> {
+        if (this.history.some(old => old.collection === row.collection && old.id === row.id && old.version === row.version)) {
+            throw new Error(`Version ${row.version} of ${row.collection}/${row.id} already exists`);
+        }
+        this.history.push({ ...row });
+        this.changed();
+    }
+
+    async findRecords(query: RecordFind): Promise<{ rows: RecordRow[]; total: number }> {
+        const matches = Array.from(this.records.values(), (row, index) => ({ row, index, ...row, data: JSON.parse(row.data) }))
+            .filter(view => view.row.collection === query.collection && matchesFilter(view, query.filter))
+            .sort(compareRecords(query.sort));
+        return {
+            rows: matches.slice(query.offset, query.offset + query.limit).map(({ row }) => ({ ...row })),
+            total: matches.length,
+        };
+    }
+
+    // Every query here is a scan; declared indexes are kept for a later move to SQLite
+    async explainFindRecords(): Promise<null> {
+        return null;
+    }
+
+    async createRecordIndex(row: NewRecordIndexRow): Promise<boolean> {
+        const key = recordKey(row.collection, row.field);
+        if (this.recordIndexes.has(key)) return false;
+        this.recordIndexes.set(key, {
+            collection: row.collection,
+            field: row.field,
+            name: recordIndexName(row.collection, row.field),
+            created_at: row.created_at ?? storageTimestamp(),
+        });
+        this.changed();
+        return true;
+    }
+
+    async dropRecordIndex(collection: string, field: string): Promise<boolean> {
+        if (!this.recordIndexes.delete(recordKey(collection, field))) return false;
+        this.changed();
+        return true;
+    }
+
+    async listRecordIndexes(collection?: string): Promise<RecordIndexRow[]> {
+        return Array.from(this.recordIndexes.values())
+            .filter(row => collection === undefined || row.collection === collection)
+            .sort((a, b) => a.collection.localeCompare(b.collection) || a.field.localeCompare(b.field))
+            .map(row => ({ ...row }));
+    }
+
+    async configureSearch(fields: SearchFields): Promise<void> {
+        this.searchPaths = new Map(Object.entries(fields)
+            .filter(([, names]) => names.length > 0)
+            .map(([collection, names]) => [collection, names.map(name => parseDataField(name, `crud.searchFields.${collection}`))]));
+    }
+
+    async searchRecords(search: RecordSearch): Promise<{ hits: SearchHit[]; total: number }> {
+        const documents = Array.from(this.records.values(), row =>
+            ({ row, text: searchText(JSON.parse(row.data), this.searchPaths.get(row.collection) ?? null) }));
+        return searchDocuments(documents, search);
+    }
+
+    async insertApproval(row: NewApprovalRow): Promise<void> {
+        if (this.approvals.has(row.id)) {
+            throw new Error(`Approval ${row.id} already exists`);
+        }
+        this.approvals.set(row.id, {
+            status: 'pending',
+            created_at: storageTimestamp(),
+            decided_at: null,
+            decided_by: null,
+            note: null,
+            result: null,
+            error: null,
+            session_id: null,
+            client_name: null,
+            ...row,
+        });
+        this.changed();
+    }
+
+    async getApproval(id: string): Promise<ApprovalRow | undefined> {
+        const row = this.approvals.get(id);
+        return row && { ...row };
+    }
+
+    async listApprovals(status: ApprovalStatus | 'all', limit: number): Promise<ApprovalRow[]> {
+        const rows = Array.from(this.approvals.values()).filter(row => status === 'all' || row.status === status);
+        return newestFirst(rows, row => row.created_at).slice(0, limit).map(row => ({ ...row }));
+    }
+
+    async updateApproval(id: string, changes: ApprovalChanges, ifStatus?: ApprovalStatus): Promise<boolean> {
+        const row = this.approvals.get(id);
+        if (!row || (ifStatus && row.status !== ifStatus)) return false;
+        Object.assign(row, Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)));
+        this.changed();
+        return true;
+    }
+
+    async expireApprovals(createdBefore: string): Promise<number> {
+        let expired = 0;
+        const now = storageTimestamp();
+        for (const row of this.approvals.values()) {
+            if (row.status === 'pending' && row.created_at < createdBefore) {
+                row.status = 'expired';
+                row.decided_at = now;
+                expired++;
+            }
+        }
+        if (expired) this.changed();
+        return expired;
+    }
+
+    async counts(): Promise<StorageCounts> {
+        return { auditRows: this.auditRows.length, records: this.records.size, approvals: this.approvals.size };
+    }
+
+    async info(): Promise<StorageInfo> {
+        return {
+            schemaVersion: null, latestSchemaVersion: null, migrations: [],
+            fileSizeBytes: null, journalMode: null, walSizeBytes: null,
+        };
+    }
+
+    async close(): Promise<void> {}
+}
@@ -0,0 +1,98 @@
+// Storage migration
+// Copies the audit log, CRUD records and their history, approvals and declared indexes from one backend to another
+
+import { loadConfig } from '../config.js';
+import { Storage, StorageType, StorageCounts, openStorage } from './storage.js';
+
+const STORAGE_TYPES: StorageType[] = ['sqlite', 'json', 'memory'];
+
+// Audit rows are copied in pages, so large logs aren't held in memory twice
+const PAGE_SIZE = 1000;
+
+/**
+ * Copy every row, keeping ids and timestamps so the audit hash chain still verifies.
+ * The target must be empty.
+ */
+export async function copyStorage(source: Storage, target: Storage): Promise<StorageCounts> {
+    const existing = await target.counts();
+    if (existing.auditRows || existing.records || existing.approvals) {
+        throw new Error(
+            `Target ${target.type} storage${target.path ? ` at ${target.path}` : ''} is not empty ` +
+            `(${existing.auditRows} audit rows, ${existing.records} records, ${existing.approvals} approvals)`
+        );
+    }
+
+    let auditRows = 0;
+    let fromId = 0;
+    while (true) {
+        const rows = await source.queryAuditRows({ fromId, limit: PAGE_SIZE });
+        if (rows.length === 0) break;
+        for (const row of rows) {
+            await target.appendAuditRow(row);
+        }
+        auditRows += rows.length;
+        fromId = rows[rows.length - 1].id + 1;
+    }
+
+    const { records: recordCount, approvals: approvalCount } = await source.counts();
+    const records = await source.listRecords({ orderBy: 'created_at', limit: recordCount });
+    // Oldest first, so created_at ties keep their order in the target
+    for (const row of records.reverse()) {
+        await target.insertRecord(row);
+    }
+    for (const row of await source.queryRecordHistory({})) {
+        await target.insertRecordHistory(row);
+    }
+    const approvals = await source.listApprovals('all', approvalCount);
+    for (const row of approvals.reverse()) {
+        await target.insertApproval(row);
+    }
+    for (const row of await source.listRecordIndexes()) {
+        await target.createRecordIndex(row);
+    }
+
+    return { auditRows, records: records.length, approvals: approvals.length };
+}
+
+function parseType(value: string | undefined, flag: string): StorageType | undefined {
+    if (value === undefined) return undefined;
+    if (!STORAGE_TYPES.includes(value as StorageType)) {
+        throw new Error(`${flag} must be one of ${STORAGE_TYPES.join(', ')}`);
+    }
+    return value as StorageType;
+}
+
+/**
+ * `migrate-storage --to <type> --to-path <file> [--from <type>] [--from-path <file>]`.
+ * The source defaults to the configured backend.
+ */
+export async function runMigrateStorageCommand(argv: string[]): Promise<void> {
+    const options = new Map<string, string>();
+    for (let i = 0; i < argv.length; i++) {
+        const [flag, inline] = argv[i].split(/=(.*)/s, 2);
+        if (!flag.startsWith('--')) throw new Error(`Unexpected argument: ${argv[i]}`);
+        options.set(flag, inline ?? argv[++i]);
+    }
+
+    const configured = loadConfig().storage;
+    const fromType = parseType(options.get('--from'), '--from') ?? configured.type;
+    const fromPath = options.get('--from-path') ?? (fromType === configured.type ? configured.path : undefined);
+    const toType = parseType(options.get('--to'), '--to');
+    const toPath = options.get('--to-path');
+    if (!toType) throw new Error('Usage: migrate-storage --to <sqlite|json> --to-path <file> [--from <type>] [--from-path <file>]');
+    if (fromType === 'memory' || toType === 'memory') throw new Error('The memory backend keeps nothing to migrate');
+
+    const source = await openStorage(fromType, fromPath);
+    const target = await openStorage(toType, toPath);
+    try {
+        const copied = await copyStorage(source, target);
+        console.error(
+            `Copied ${copied.auditRows} audit rows, ${copied.records} records and ${copied.approvals} approvals ` +
+            `from ${fromType} (${source.path}) to ${toType} (${target.path}).`
+        );
+        console.error(`Set storage.type to "${toType}" and storage.path to "${toPath}" in ~/.mcp/config.json to use it.`);
+    } finally {
+        await source.close();
+        await target.close();
+    }
+}
@@ -0,0 +1,29 @@
+// Migration 1: audit log and CRUD tables
+
+import { Migration } from './index.js';
+
+export const migration: Migration = {
+    version: 1,
+    name: 'initial',
+    async up(db) {
+        await db.exec(`
+        CREATE TABLE IF NOT EXISTS audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          timestamp TEXT DEFAULT CURRENT_TIMESTAMP,
+          tool TEXT NOT NULL,
+          args TEXT,
+          result TEXT,
+          error TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS kv_store (
+          collection TEXT NOT NULL,
+          id TEXT NOT NULL,
+          data TEXT NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (collection, id)
+        );
+      `);
+    },
+};
@@ -0,0 +1,22 @@
+// Migration 2: audit log correlation columns
+
+import { Migration } from './index.js';
+import { addColumnsIfMissing } from './columns.js';
+
+export const migration: Migration = {
+    version: 2,
+    name: 'audit_correlation',
+    async up(db) {
+        await addColumnsIfMissing(db, 'audit_log', [
+            ['session_id', 'TEXT'],
+            ['call_id', 'TEXT'],
+            ['parent_id', 'TEXT'],
+            ['duration_ms', 'INTEGER'],
+            ['client_name', 'TEXT'],
+        ]);
+        await db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_audit_log_session ON audit_log (session_id);
+        CREATE INDEX IF NOT EXISTS idx_audit_log_parent ON audit_log (parent_id);
+      `);
+    },
+};
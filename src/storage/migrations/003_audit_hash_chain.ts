@@ -0,0 +1,15 @@
+// Migration 3: audit log hash chain columns
+
+import { Migration } from './index.js';
+import { addColumnsIfMissing } from './columns.js';
+
+export const migration: Migration = {
+    version: 3,
+    name: 'audit_hash_chain',
+    async up(db) {
+        await addColumnsIfMissing(db, 'audit_log', [
+            ['prev_hash', 'TEXT'],
+            ['hash', 'TEXT'],
+        ]);
+    },
+};
@@ -0,0 +1,25 @@
+// Migration 4: approval queue table
+
+import { Migration } from './index.js';
+
+export const migration: Migration = {
+    version: 4,
+    name: 'approvals',
+    async up(db) {
+        await db.exec(`
+        CREATE TABLE IF NOT EXISTS approvals (
+          id TEXT PRIMARY KEY,
+          tool TEXT NOT NULL,
+          args TEXT NOT NULL,
+          reason TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          decided_at TEXT,
+          decided_by TEXT,
+          note TEXT,
+          result TEXT,
+          error TEXT
+        );
+      `);
+    },
+};
@@ -0,0 +1,19 @@
+// Migration 5: declared CRUD field indexes
+
+import { Migration } from './index.js';
+
+export const migration: Migration = {
+    version: 5,
+    name: 'record_indexes',
+    async up(db) {
+        await db.exec(`
+        CREATE TABLE IF NOT EXISTS record_indexes (
+          collection TEXT NOT NULL,
+          field TEXT NOT NULL,
+          name TEXT NOT NULL UNIQUE,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (collection, field)
+        );
+      `);
+    },
+};
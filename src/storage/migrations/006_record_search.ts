@@ -0,0 +1,70 @@
+// Migration 6: full-text search index over kv_store, kept in sync by triggers
+
+import { Migration } from './index.js';
+
+// The strings of a record under its collection's search_fields, or all of them if it has none
+function searchText(row: string): string {
+    return `(
+          SELECT group_concat(leaf.value, ' ') FROM json_tree(${row}.data) AS leaf
+          WHERE leaf.type = 'text' AND (
+            NOT EXISTS (SELECT 1 FROM search_fields WHERE collection = ${row}.collection)
+            OR EXISTS (
+              SELECT 1 FROM search_fields AS field
+              WHERE field.collection = ${row}.collection
+                AND (leaf.fullkey = field.path OR substr(leaf.fullkey, 1, length(field.path) + 1) IN (field.path || '.', field.path || '['))
+            )
+          )
+        )`;
+}
+
+// kv_store rowids can change on VACUUM, so search rows are keyed through kv_fts_docs instead
+const DOC_ROWID = (row: string) => `(SELECT rowid FROM kv_fts_docs WHERE collection = ${row}.collection AND id = ${row}.id)`;
+
+export const migration: Migration = {
+    version: 6,
+    name: 'record_search',
+    async up(db) {
+        await db.exec(`
+        CREATE TABLE IF NOT EXISTS search_fields (
+          collection TEXT NOT NULL,
+          path TEXT NOT NULL,
+          PRIMARY KEY (collection, path)
+        );
+
+        CREATE TABLE IF NOT EXISTS kv_fts_docs (
+          rowid INTEGER PRIMARY KEY,
+          collection TEXT NOT NULL,
+          id TEXT NOT NULL,
+          UNIQUE (collection, id)
+        );
+
+        CREATE VIRTUAL TABLE IF NOT EXISTS kv_fts USING fts5(
+          content,
+          tokenize = 'unicode61 remove_diacritics 2',
+          prefix = '2 3'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS kv_store_search_insert AFTER INSERT ON kv_store BEGIN
+          INSERT INTO kv_fts_docs (collection, id) VALUES (NEW.collection, NEW.id);
+          INSERT INTO kv_fts (rowid, content) VALUES (${DOC_ROWID('NEW')}, ${searchText('NEW')});
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS kv_store_search_update AFTER UPDATE OF collection, id, data ON kv_store BEGIN
+          DELETE FROM kv_fts WHERE rowid = ${DOC_ROWID('OLD')};
+          UPDATE kv_fts_docs SET collection = NEW.collection, id = NEW.id WHERE collection = OLD.collection AND id = OLD.id;
+          INSERT INTO kv_fts (rowid, content) VALUES (${DOC_ROWID('NEW')}, ${searchText('NEW')});
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS kv_store_search_delete AFTER DELETE ON kv_store BEGIN
+          DELETE FROM kv_fts WHERE rowid = ${DOC_ROWID('OLD')};
+          DELETE FROM kv_fts_docs WHERE collection = OLD.collection AND id = OLD.id;
+        END;
+
+        INSERT OR IGNORE INTO kv_fts_docs (collection, id) SELECT collection, id FROM kv_store;
+        INSERT INTO kv_fts (rowid, content)
+          SELECT doc.rowid, ${searchText('record')}
+          FROM kv_store AS record JOIN kv_fts_docs AS doc ON doc.collection = record.collection AND doc.id = record.id
+          WHERE doc.rowid NOT IN (SELECT rowid FROM kv_fts);
+      `);
+    },
+};
@@ -0,0 +1,37 @@
+// Migration 7: record versions, and kv_history of the versions updates and deletes replaced
+
+import { Migration } from './index.js';
+import { addColumnsIfMissing } from './columns.js';
+
+export const migration: Migration = {
+    version: 7,
+    name: 'record_history',
+    async up(db) {
+        await addColumnsIfMissing(db, 'kv_store', [['version', 'INTEGER NOT NULL DEFAULT 1']]);
+        await db.exec(`
+        CREATE TABLE IF NOT EXISTS kv_history (
+          collection TEXT NOT NULL,
+          id TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          data TEXT NOT NULL,
+          created_at TEXT,
+          updated_at TEXT,
+          replaced_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          replaced_by TEXT NOT NULL,
+          PRIMARY KEY (collection, id, version)
+        );
+
+        -- Only writes that bump the version; re-indexing rewrites data in place
+        CREATE TRIGGER IF NOT EXISTS kv_store_history_update AFTER UPDATE OF version ON kv_store
+        WHEN NEW.version <> OLD.version BEGIN
+          INSERT INTO kv_history (collection, id, version, data, created_at, updated_at, replaced_by)
+          VALUES (OLD.collection, OLD.id, OLD.version, OLD.data, OLD.created_at, OLD.updated_at, 'update');
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS kv_store_history_delete AFTER DELETE ON kv_store BEGIN
+          INSERT INTO kv_history (collection, id, version, data, created_at, updated_at, replaced_by)
+          VALUES (OLD.collection, OLD.id, OLD.version, OLD.data, OLD.created_at, OLD.updated_at, 'delete');
+        END;
+      `);
+    },
+};
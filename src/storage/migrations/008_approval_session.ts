@@ -0,0 +1,12 @@
+// Migration 8: the connection an approval was requested from, so the approved call runs in it
+
+import { Migration } from './index.js';
+import { addColumnsIfMissing } from './columns.js';
+
+export const migration: Migration = {
+    version: 8,
+    name: 'approval_session',
+    async up(db) {
+        await addColumnsIfMissing(db, 'approvals', [['session_id', 'TEXT'], ['client_name', 'TEXT']]);
+    },
+};
@@ -0,0 +1,16 @@
+// Column helpers for migrations
+// Databases created before versioning may already have some of the columns a migration adds
+
+import { Database } from 'sqlite';
+
+/**
+ * ALTER TABLE ADD COLUMN for each column the table doesn't have yet
+ */
+export async function addColumnsIfMissing(db: Database, table: string, columns: Array<[string, string]>): Promise<void> {
+    const existing = new Set((await db.all(`PRAGMA table_info(${table})`)).map((column: { name: string }) => column.name));
+    for (const [column, type] of columns) {
+        if (!existing.has(column)) {
+            await db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+        }
+    }
+}
@@ -0,0 +1,107 @@
+// SQLite schema migrations
+// Ordered schema changes, recorded in schema_migrations and applied when a database is opened
+
+import { Database } from 'sqlite';
+import { storageTimestamp } from '../storage.js';
+import { migration as initial } from './001_initial.js';
+import { migration as auditCorrelation } from './002_audit_correlation.js';
+import { migration as auditHashChain } from './003_audit_hash_chain.js';
+import { migration as approvals } from './004_approvals.js';
+import { migration as recordIndexes } from './005_record_indexes.js';
+import { migration as recordSearch } from './006_record_search.js';
+import { migration as recordHistory } from './007_record_history.js';
+import { migration as approvalSession } from './008_approval_session.js';
+
+export interface Migration {
+    version: number;        // Applied in ascending order; never renumber a released migration
+    name: string;
+    up(db: Database): Promise<void>;
+}
+
+export interface AppliedMigration {
+    version: number;
+    name: string;
+    applied_at: string;
+}
+
+export interface MigrationOptions {
+    backup: boolean;        // Copy the database before applying anything to one that already has tables
+}
+
+export interface MigrationResult {
+    from: number;
+    to: number;
+    created: boolean;       // The database had no tables yet
+    backupPath: string | null;
+}
+
+export const MIGRATIONS: Migration[] = [initial, auditCorrelation, auditHashChain, approvals, recordIndexes, recordSearch, recordHistory, approvalSession];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+MIGRATIONS.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+        throw new Error(`Migration ${migration.name} has version ${migration.version}, expected ${index + 1}`);
+    }
+});
+
+/**
+ * Migrations recorded in the database, oldest first
+ */
+export async function appliedMigrations(db: Database): Promise<AppliedMigration[]> {
+    await db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+    return db.all(`SELECT version, name, applied_at FROM schema_migrations ORDER BY version`);
+}
+
+/**
+ * Bring a database up to LATEST_SCHEMA_VERSION. Each migration runs in its own
+ * transaction, so a failure leaves the database at the last version that applied.
+ * Databases created before versioning start at version 0; the early migrations
+ * skip tables and columns that already exist.
+ */
+export async function migrateDatabase(db: Database, dbPath: string, options: MigrationOptions): Promise<MigrationResult> {
+    const applied = await appliedMigrations(db);
+    const from = applied.length ? applied[applied.length - 1].version : 0;
+    if (from > LATEST_SCHEMA_VERSION) {
+        throw new Error(
+            `${dbPath} has schema version ${from}, newer than this server supports (${LATEST_SCHEMA_VERSION}); upgrade the server`
+        );
+    }
+
+    const pending = MIGRATIONS.filter(migration => migration.version > from);
+    if (pending.length === 0) {
+        return { from, to: from, created: false, backupPath: null };
+    }
+
+    let backupPath: string | null = null;
+    const { tables } = await db.get(
+        `SELECT COUNT(*) as tables FROM sqlite_master WHERE type = 'table' AND name NOT IN ('schema_migrations', 'sqlite_sequence')`
+    );
+    if (options.backup && tables > 0) {
+        backupPath = `${dbPath}.v${from}-${storageTimestamp().replace(/\D/g, '')}.bak`;
+        await db.run(`VACUUM INTO ?`, backupPath);
+    }
+
+    for (const migration of pending) {
+        await db.exec('BEGIN IMMEDIATE');
+        try {
+            await migration.up(db);
+            await db.run(
+                `INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)`,
+                migration.version, migration.name, storageTimestamp()
+            );
+            await db.exec('COMMIT');
+        } catch (error: any) {
+            await db.exec('ROLLBACK');
+            throw new Error(`Migration ${migration.version} (${migration.name}) failed on ${dbPath}: ${error.message}`);
+        }
+    }
+
+    return { from, to: LATEST_SCHEMA_VERSION, created: tables === 0, backupPath };
+}
@@ -0,0 +1,116 @@
+/**
+ * Tests for the crud_query language: SQL and JS evaluation must agree
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+import { openStorage, Storage } from './storage.js';
+import { parseFilter, parseSort, parseProjection, projectRecord, RecordQueryError } from './recordQuery.js';
+
+const RECORDS: Array<[string, unknown]> = [
+    ['a', { title: 'Alpha', priority: 3, tags: ['x', 'y'], meta: { owner: 'kim' }, done: false }],
+    ['b', { title: 'beta', priority: 1, tags: ['y'], meta: { owner: 'lee' }, done: true }],
+    ['c', { title: 'Gamma*', priority: 2, meta: { owner: null } }],
+    ['d', { title: 'alphabet', priority: '2', done: 1 }],
+    ['e', { title: 'Delta', priority: 2.5, meta: { owner: 'kim', score: 10 } }],
+];
+
+// filter, sort, expected ids in order
+const CASES: Array<[string, unknown, unknown, string[]]> = [
+    ['empty filter, default order', {}, {}, ['e', 'd', 'c', 'b', 'a']],
+    ['equality on a string', { title: 'beta' }, {}, ['b']],
+    ['numbers only match numbers', { priority: 2 }, {}, ['c']],
+    ['booleans only match booleans', { done: true }, {}, ['b']],
+    ['null matches missing and null', { 'meta.owner': null }, { id: 1 }, ['c', 'd']],
+    ['$gt on numbers skips strings', { priority: { $gt: 1.5 } }, { priority: 1 }, ['c', 'e', 'a']],
+    ['$gte and $lt together', { priority: { $gte: 1, $lt: 3 } }, { priority: -1 }, ['e', 'c', 'b']],
+    ['$ne includes missing fields', { done: { $ne: true } }, { id: 1 }, ['a', 'c', 'd', 'e']],
+    ['$in', { 'meta.owner': { $in: ['lee', 'kim'] } }, { id: 1 }, ['a', 'b', 'e']],
+    ['$nin', { 'meta.owner': { $nin: ['kim'] } }, { id: 1 }, ['b', 'c', 'd']],
+    ['$exists', { 'meta.score': { $exists: true } }, {}, ['e']],
+    ['$exists false', { meta: { $exists: false } }, {}, ['d']],
+    ['array index path', { 'tags.0': 'y' }, {}, ['b']],
+    ['whole array equality', { tags: ['x', 'y'] }, {}, ['a']],
+    ['$or', { $or: [{ priority: 1 }, { 'meta.owner': 'kim' }] }, { id: -1 }, ['e', 'b', 'a']],
+    ['$and inside $or', { $or: [{ $and: [{ done: false }, { priority: 3 }] }, { title: 'Delta' }] }, { id: 1 }, ['a', 'e']],
+    ['$regex with a literal prefix', { title: { $regex: '^alpha' } }, {}, ['d']],
+    ['$regex case-insensitive', { title: { $regex: '^alpha', $options: 'i' } }, { id: 1 }, ['a', 'd']],
+    ['$regex prefix with glob characters', { title: { $regex: '^Gamma\\*' } }, {}, ['c']],
+    ['$regex with an optional last character', { title: { $regex: '^Deltax?' } }, {}, ['e']],
+    ['$regex inside $or', { $or: [{ title: { $regex: 'ta$' } }, { priority: 3 }] }, { id: 1 }, ['a', 'b', 'e']],
+    ['sort puts missing, then numbers, then text', {}, { 'meta.score': -1, id: 1 }, ['e', 'a', 'b', 'c', 'd']],
+    ['filter on id', { id: { $in: ['a', 'c'] } }, { id: -1 }, ['c', 'a']],
+];
+
+describe('record queries', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'record-query-test-'));
+    const backends: Storage[] = [];
+
+    before(async () => {
+        for (const type of ['memory', 'json', 'sqlite'] as const) {
+            const storage = await openStorage(type, path.join(tempDir, `records.${type}`));
+            for (const [index, [id, data]] of RECORDS.entries()) {
+                await storage.insertRecord({ collection: 'tasks', id, data: JSON.stringify(data), created_at: `2026-01-0${index + 1} 00:00:00` });
+            }
+            await storage.insertRecord({ collection: 'other', id: 'z', data: JSON.stringify({ title: 'beta' }) });
+            backends.push(storage);
+        }
+    });
+
+    after(async () => {
+        for (const storage of backends) await storage.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    for (const [name, filter, sort, expected] of CASES) {
+        it(name, async () => {
+            for (const storage of backends) {
+                const { rows, total } = await storage.findRecords({
+                    collection: 'tasks', filter: parseFilter(filter), sort: parseSort(sort), offset: 0, limit: 100,
+                });
+                assert.deepStrictEqual(rows.map(row => row.id), expected, `${storage.type} backend`);
+                assert.strictEqual(total, expected.length, `${storage.type} backend total`);
+            }
+        });
+    }
+
+    it('pages with offset and limit while counting every match', async () => {
+        for (const storage of backends) {
+            for (const filter of [{}, { title: { $regex: 'a' } }]) {
+                const { rows, total } = await storage.findRecords({
+                    collection: 'tasks', filter: parseFilter(filter), sort: parseSort({ id: 1 }), offset: 1, limit: 2,
+                });
+                assert.deepStrictEqual(rows.map(row => row.id), ['b', 'c'], `${storage.type} backend`);
+                assert.strictEqual(total, 5);
+            }
+        }
+    });
+
+    it('rejects unknown operators and malformed operands with the failing path', () => {
+        const cases: Array<[() => unknown, string]> = [
+            [() => parseFilter({ age: { $between: [1, 2] } }), 'filter.age.$between'],
+            [() => parseFilter({ age: { $gt: true } }), 'filter.age.$gt'],
+            [() => parseFilter({ $or: [] }), 'filter.$or'],
+            [() => parseFilter({ $or: [{ a: { $in: 1 } }] }), 'filter.$or[0].a.$in'],
+            [() => parseFilter({ a: { $regex: '(' } }), 'filter.a.$regex'],
+            [() => parseFilter({ a: { $eq: 1, b: 2 } }), 'filter.a'],
+            [() => parseSort({ a: 2 }), 'sort.a'],
+            [() => parseProjection({ a: 1, b: 0 }), 'projection'],
+        ];
+        for (const [parse, where] of cases) {
+            assert.throws(parse, (error: any) => error instanceof RecordQueryError && error.violation.path === where, where);
+        }
+    });
+
+    it('projects included or excluded paths', () => {
+        const record = { id: 'a', title: 'Alpha', meta: { owner: 'kim', score: 1 }, tags: ['x'] };
+        assert.deepStrictEqual(projectRecord(record, parseProjection({ 'meta.owner': 1 })), { id: 'a', meta: { owner: 'kim' } });
+        assert.deepStrictEqual(projectRecord(record, parseProjection({ title: 1, id: 0 })), { title: 'Alpha' });
+        assert.deepStrictEqual(projectRecord(record, parseProjection({ 'meta.score': 0, tags: 0 })), { id: 'a', title: 'Alpha', meta: { owner: 'kim' } });
+        assert.deepStrictEqual(record.meta, { owner: 'kim', score: 1 }, 'the record itself is unchanged');
+    });
+});
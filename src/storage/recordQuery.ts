@@ -0,0 +1,484 @@
+// CRUD record queries
+// A Mongo-style filter, sort and projection language; compiled to SQL for SQLite and evaluated in JS for the other backends
+
+import crypto from 'crypto';
+
+type RecordColumn = 'id' | 'created_at' | 'updated_at' | 'version';
+
+/**
+ * A record field: one of the row's own columns, or a path into its JSON data.
+ * Numeric path segments index arrays, like SQLite's `$.tags[0]`.
+ */
+export type FieldRef =
+    | { column: RecordColumn }
+    | { path: string[] };
+
+export type FilterNode =
+    | { op: 'and' | 'or'; children: FilterNode[] }
+    | { op: 'eq' | 'ne'; field: FieldRef; value: unknown }
+    | { op: 'gt' | 'gte' | 'lt' | 'lte'; field: FieldRef; value: number | string }
+    | { op: 'in' | 'nin'; field: FieldRef; values: unknown[] }
+    | { op: 'exists'; field: FieldRef; exists: boolean }
+    | { op: 'regex'; field: FieldRef; pattern: string; flags: string };
+
+export interface SortKey {
+    field: FieldRef;
+    direction: 1 | -1;
+}
+
+/**
+ * A parsed crud_query, as the storage backends receive it
+ */
+export interface RecordFind {
+    collection: string;
+    filter: FilterNode;
+    sort: SortKey[];         // Empty: newest first
+    offset: number;
+    limit: number;
+}
+
+export type Projection = { mode: 'include' | 'exclude'; paths: string[][]; includeId: boolean };
+
+/**
+ * A filter, sort or projection the language doesn't accept
+ */
+export interface RecordQueryViolation {
+    code: 'INVALID_ARGUMENTS';
+    message: string;
+    path: string;            // Where in the query, e.g. filter.age.$gt
+}
+
+export class RecordQueryError extends Error {
+    readonly violation: RecordQueryViolation;
+
+    constructor(path: string, message: string) {
+        super(`${path}: ${message}`);
+        this.name = 'RecordQueryError';
+        this.violation = { code: 'INVALID_ARGUMENTS', message: this.message, path };
+    }
+}
+
+// Row columns reachable by name; everything else is a path into the data
+const COLUMN_FIELDS: Record<string, RecordColumn> = {
+    id: 'id',
+    _created_at: 'created_at',
+    _updated_at: 'updated_at',
+    _version: 'version',
+};
+
+const COMPARISONS = new Set(['$eq', '$ne', '$gt', '$gte', '$lt', '$lte']);
+const REGEX_FLAGS = /^[imsu]*$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseField(name: string, where: string): FieldRef {
+    if (COLUMN_FIELDS[name]) return { column: COLUMN_FIELDS[name] };
+    const path = name.split('.');
+    if (path.some(segment => segment === '' || segment.includes('"'))) {
+        throw new RecordQueryError(where, `"${name}" is not a valid field path`);
+    }
+    return { path };
+}
+
+/**
+ * Parse a field to index or search: a path into the record data, since id, the timestamps and the version are row columns
+ */
+export function parseDataField(name: string, where = 'field'): string[] {
+    const field = parseField(name, where);
+    if ('column' in field) throw new RecordQueryError(where, `${name} is a row column, not a data field`);
+    return field.path;
+}
+
+function parseOperators(field: FieldRef, operators: Record<string, unknown>, where: string): FilterNode[] {
+    const nodes: FilterNode[] = [];
+    for (const [operator, operand] of Object.entries(operators)) {
+        const at = `${where}.${operator}`;
+        if (COMPARISONS.has(operator)) {
+            const op = operator.slice(1) as 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte';
+            if (op !== 'eq' && op !== 'ne' && typeof operand !== 'number' && typeof operand !== 'string') {
+                throw new RecordQueryError(at, 'expects a number or a string');
+            }
+            nodes.push({ op, field, value: operand } as FilterNode);
+        } else if (operator === '$in' || operator === '$nin') {
+            if (!Array.isArray(operand)) throw new RecordQueryError(at, 'expects an array');
+            nodes.push({ op: operator === '$in' ? 'in' : 'nin', field, values: operand });
+        } else if (operator === '$exists') {
+            if (typeof operand !== 'boolean') throw new RecordQueryError(at, 'expects true or false');
+            nodes.push({ op: 'exists', field, exists: operand });
+        } else if (operator === '$regex') {
+            const flags = operators.$options ?? '';
+            if (typeof operand !== 'string') throw new RecordQueryError(at, 'expects a pattern string');
+            if (typeof flags !== 'string' || !REGEX_FLAGS.test(flags)) {
+                throw new RecordQueryError(`${where}.$options`, 'may only contain the flags i, m, s and u');
+            }
+            try {
+                new RegExp(operand, flags);
+            } catch (error: any) {
+                throw new RecordQueryError(at, error.message);
+            }
+            nodes.push({ op: 'regex', field, pattern: operand, flags });
+        } else if (operator === '$options') {
+            if (!('$regex' in operators)) throw new RecordQueryError(at, 'needs $regex');
+        } else {
+            throw new RecordQueryError(at, `unknown operator ${operator}`);
+        }
+    }
+    return nodes;
+}
+
+/**
+ * Parse a filter: `{ field: value }` for equality, `{ field: { $op: operand } }`
+ * for comparisons, and `$and`/`$or` arrays of filters. `{}` matches everything.
+ */
+export function parseFilter(filter: unknown, where = 'filter'): FilterNode {
+    if (!isPlainObject(filter)) throw new RecordQueryError(where, 'must be an object');
+    const children: FilterNode[] = [];
+    for (const [key, value] of Object.entries(filter)) {
+        const at = `${where}.${key}`;
+        if (key === '$and' || key === '$or') {
+            if (!Array.isArray(value) || value.length === 0) {
+                throw new RecordQueryError(at, 'expects a non-empty array of filters');
+            }
+            children.push({
+                op: key === '$and' ? 'and' : 'or',
+                children: value.map((child, index) => parseFilter(child, `${at}[${index}]`)),
+            });
+        } else if (key.startsWith('$')) {
+            throw new RecordQueryError(at, `unknown operator ${key}`);
+        } else {
+            const field = parseField(key, at);
+            const operatorKeys = isPlainObject(value) ? Object.keys(value).filter(name => name.startsWith('$')) : [];
+            if (operatorKeys.length === 0) {
+                children.push({ op: 'eq', field, value });
+            } else if (operatorKeys.length !== Object.keys(value as object).length) {
+                throw new RecordQueryError(at, 'mixes operators with plain fields');
+            } else {
+                children.push(...parseOperators(field, value as Record<string, unknown>, at));
+            }
+        }
+    }
+    return children.length === 1 ? children[0] : { op: 'and', children };
+}
+
+/**
+ * Parse `{ field: 1 | -1 | "asc" | "desc" }`; keys are applied in order
+ */
+export function parseSort(sort: unknown): SortKey[] {
+    if (!isPlainObject(sort)) throw new RecordQueryError('sort', 'must be an object of field: 1 or -1');
+    return Object.entries(sort).map(([name, direction]) => {
+        const at = `sort.${name}`;
+        if (direction === 1 || direction === 'asc') return { field: parseField(name, at), direction: 1 };
+        if (direction === -1 || direction === 'desc') return { field: parseField(name, at), direction: -1 };
+        throw new RecordQueryError(at, 'must be 1, -1, "asc" or "desc"');
+    });
+}
+
+/**
+ * Parse `{ field: 1 }` (only these fields) or `{ field: 0 }` (all but these).
+ * `id` is always included unless excluded with `id: 0`.
+ */
+export function parseProjection(projection: unknown): Projection {
+    if (!isPlainObject(projection)) throw new RecordQueryError('projection', 'must be an object of field: 1 or 0');
+    let includeId = true;
+    const include: string[][] = [];
+    const exclude: string[][] = [];
+    for (const [name, flag] of Object.entries(projection)) {
+        const at = `projection.${name}`;
+        if (flag !== 0 && flag !== 1 && typeof flag !== 'boolean') throw new RecordQueryError(at, 'must be 1 or 0');
+        const field = parseField(name, at);
+        if (!('path' in field)) {
+            if (name !== 'id') throw new RecordQueryError(at, 'only data fields and id can be projected');
+            includeId = !!flag;
+        } else {
+            (flag ? include : exclude).push(field.path);
+        }
+    }
+    if (include.length && exclude.length) {
+        throw new RecordQueryError('projection', 'cannot mix included and excluded fields');
+    }
+    return include.length ? { mode: 'include', paths: include, includeId } : { mode: 'exclude', paths: exclude, includeId };
+}
+
+// --- JS evaluation (memory and JSON backends, and $regex on SQLite) ---
+
+/**
+ * A record as the evaluator sees it: its columns and parsed data
+ */
+export interface RecordView {
+    id: string;
+    created_at: string;
+    updated_at: string;
+    version: number;
+    data: unknown;
+}
+
+function getPath(value: unknown, path: string[]): unknown {
+    let current = value;
+    for (const segment of path) {
+        if (Array.isArray(current)) {
+            current = /^\d+$/.test(segment) ? current[Number(segment)] : undefined;
+        } else if (isPlainObject(current) && !/^\d+$/.test(segment)) {
+            current = current[segment];
+        } else {
+            return undefined;
+        }
+    }
+    return current;
+}
+
+function fieldValue(record: RecordView, field: FieldRef): unknown {
+    return 'column' in field ? record[field.column] : getPath(record.data, field.path);
+}
+
+// SQLite's json_type, with numbers folded together
+function jsonType(value: unknown): string | undefined {
+    if (value === undefined) return undefined;
+    if (value === null) return 'null';
+    if (typeof value === 'boolean') return String(value);
+    if (typeof value === 'number') return 'number';
+    if (typeof value === 'string') return 'text';
+    return Array.isArray(value) ? 'array' : 'object';
+}
+
+function valueEquals(actual: unknown, expected: unknown): boolean {
+    if (expected === null) return actual === undefined || actual === null;
+    if (jsonType(actual) !== jsonType(expected)) return false;
+    return typeof expected === 'object' ? JSON.stringify(actual) === JSON.stringify(expected) : actual === expected;
+}
+
+export function matchesFilter(record: RecordView, node: FilterNode): boolean {
+    switch (node.op) {
+        case 'and': return node.children.every(child => matchesFilter(record, child));
+        case 'or': return node.children.some(child => matchesFilter(record, child));
+        case 'exists': return (fieldValue(record, node.field) !== undefined) === node.exists;
+    }
+    const actual = fieldValue(record, node.field);
+    switch (node.op) {
+        case 'eq': return valueEquals(actual, node.value);
+        case 'ne': return !valueEquals(actual, node.value);
+        case 'in': return node.values.some(value => valueEquals(actual, value));
+        case 'nin': return !node.values.some(value => valueEquals(actual, value));
+        case 'regex': return typeof actual === 'string' && new RegExp(node.pattern, node.flags).test(actual);
+    }
+    if (jsonType(actual) !== jsonType(node.value)) return false;
+    const [a, b] = [actual as number | string, node.value];
+    switch (node.op) {
+        case 'gt': return a > b;
+        case 'gte': return a >= b;
+        case 'lt': return a < b;
+        case 'lte': return a <= b;
+    }
+}
+
+// SQLite's ORDER BY over json_extract: NULL, then numbers (booleans as 0/1), then text (objects as JSON)
+function sortRank(value: unknown): [number, number | string] {
+    if (value === undefined || value === null) return [0, 0];
+    if (typeof value === 'number') return [1, value];
+    if (typeof value === 'boolean') return [1, value ? 1 : 0];
+    return [2, typeof value === 'string' ? value : JSON.stringify(value)];
+}
+
+/**
+ * Order records like the SQL compiled by compileSort. Each record's index is its
+ * insertion order, which breaks ties the way SQLite's rowid does.
+ */
+export function compareRecords(sort: SortKey[]): (a: RecordView & { index: number }, b: RecordView & { index: number }) => number {
+    if (sort.length === 0) {
+        return (a, b) => b.created_at.localeCompare(a.created_at) || b.index - a.index;
+    }
+    return (a, b) => {
+        for (const { field, direction } of sort) {
+            const [rankA, keyA] = sortRank(fieldValue(a, field));
+            const [rankB, keyB] = sortRank(fieldValue(b, field));
+            const order = rankA - rankB || (keyA < keyB ? -1 : keyA > keyB ? 1 : 0);
+            if (order) return order * direction;
+        }
+        return a.index - b.index;
+    };
+}
+
+// --- SQL compilation (SQLite backend) ---
+
+/**
+ * The JSON path SQLite is given for a field, e.g. `$.address.city` or `$.tags[0]`.
+ * Always spelled the same way, so expression indexes on it can be used.
+ */
+export function jsonPath(path: string[]): string {
+    return '$' + path.map(segment =>
+        /^\d+$/.test(segment) ? `[${segment}]`
+            : /^[A-Za-z_][A-Za-z0-9_]*$/.test(segment) ? `.${segment}`
+                : `."${segment}"`
+    ).join('');
+}
+
+function sqlString(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+}
+
+function fieldSql(field: FieldRef): { type: string; value: string } {
+    if ('column' in field) return { type: field.column === 'version' ? `'integer'` : `'text'`, value: field.column };
+    const path = sqlString(jsonPath(field.path));
+    return { type: `json_type(data, ${path})`, value: `json_extract(data, ${path})` };
+}
+
+interface CompiledFilter {
+    sql: string;
+    params: unknown[];
+    exact: boolean;          // false when the SQL only narrows the rows ($regex) and matchesFilter decides
+}
+
+function equalsSql(field: FieldRef, expected: unknown, params: unknown[]): string {
+    const { type, value } = fieldSql(field);
+    if (expected === null) return `(${type} IS NULL OR ${type} = 'null')`;
+    if (typeof expected === 'boolean') return `${type} = '${expected}'`;
+    if (typeof expected === 'number') {
+        params.push(expected);
+        return `(${type} IN ('integer', 'real') AND ${value} = ?)`;
+    }
+    if (typeof expected === 'string') {
+        params.push(expected);
+        return `(${type} = 'text' AND ${value} = ?)`;
+    }
+    params.push(JSON.stringify(expected));
+    return `(${type} = '${Array.isArray(expected) ? 'array' : 'object'}' AND ${value} = json(?))`;
+}
+
+// One IN list when the values are all strings or all numbers, so an index on the field can serve it
+function inSql(field: FieldRef, values: unknown[], params: unknown[]): string {
+    const kind = typeof values[0];
+    if (values.length > 1 && (kind === 'string' || kind === 'number') && values.every(value => typeof value === kind)) {
+        const { type, value } = fieldSql(field);
+        params.push(...values);
+        const types = kind === 'number' ? `IN ('integer', 'real')` : `= 'text'`;
+        return `(${type} ${types} AND ${value} IN (${values.map(() => '?').join(', ')}))`;
+    }
+    return `(${values.map(value => equalsSql(field, value, params)).join(' OR ')})`;
+}
+
+// GLOB needs its wildcards and brackets escaped as one-character classes
+function globLiteral(text: string): string {
+    return text.replace(/[*?[]/g, char => `[${char}]`);
+}
+
+function compileNode(node: FilterNode, params: unknown[]): { sql: string; exact: boolean } {
+    switch (node.op) {
+        case 'and':
+        case 'or': {
+            const parts = node.children.map(child => compileNode(child, params));
+            return {
+                sql: parts.length ? `(${parts.map(part => part.sql).join(node.op === 'and' ? ' AND ' : ' OR ')})` : '1',
+                exact: parts.every(part => part.exact),
+            };
+        }
+        case 'eq':
+            return { sql: equalsSql(node.field, node.value, params), exact: true };
+        case 'ne':
+            return { sql: `NOT IFNULL(${equalsSql(node.field, node.value, params)}, 0)`, exact: true };
+        case 'in':
+        case 'nin': {
+            const any = node.values.length ? inSql(node.field, node.values, params) : '0';
+            return { sql: node.op === 'in' ? any : `NOT IFNULL(${any}, 0)`, exact: true };
+        }
+        case 'exists': {
+            const { type } = fieldSql(node.field);
+            return { sql: `${type} IS ${node.exists ? 'NOT ' : ''}NULL`, exact: true };
+        }
+        case 'regex': {
+            // SQLite has no REGEXP here; keep text values, and for ^literal patterns only the matching prefix
+            const { type, value } = fieldSql(node.field);
+            const literal = node.flags.includes('i') || node.flags.includes('m') ? null : /^\^([^\\^$.|?*+()[\]{}]*)(.?)/.exec(node.pattern);
+            // In ^ab?c only "a" is certain
+            const prefix = literal ? (/^[?*{]$/.test(literal[2]) ? literal[1].slice(0, -1) : literal[1]) : '';
+            if (!prefix) return { sql: `${type} = 'text'`, exact: false };
+            params.push(`${globLiteral(prefix)}*`);
+            return { sql: `(${type} = 'text' AND ${value} GLOB ?)`, exact: false };
+        }
+        default: {
+            const { type, value } = fieldSql(node.field);
+            const operator = { gt: '>', gte: '>=', lt: '<', lte: '<=' }[node.op];
+            params.push(node.value);
+            const types = typeof node.value === 'number' ? `IN ('integer', 'real')` : `= 'text'`;
+            return { sql: `(${type} ${types} AND ${value} ${operator} ?)`, exact: true };
+        }
+    }
+}
+
+/**
+ * A WHERE condition over kv_store for a filter
+ */
+export function compileFilter(node: FilterNode): CompiledFilter {
+    const params: unknown[] = [];
+    const { sql, exact } = compileNode(node, params);
+    return { sql, params, exact };
+}
+
+/**
+ * The condition selecting one collection. A literal rather than a parameter, so SQLite
+ * can tell that the collection's partial indexes apply.
+ */
+export function compileCollection(collection: string): string {
+    return `collection = ${sqlString(collection)}`;
+}
+
+/**
+ * The SQLite index behind a declared field, named from a hash since collections and paths can hold any character
+ */
+export function recordIndexName(collection: string, field: string): string {
+    return `kv_idx_${crypto.createHash('sha256').update(`${collection}\u0000${field}`).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * CREATE INDEX for a declared field: the json_extract the filters compile to, over one collection's rows
+ */
+export function compileIndex(name: string, collection: string, path: string[]): string {
+    return `CREATE INDEX IF NOT EXISTS ${name} ON kv_store (${fieldSql({ path }).value}) WHERE ${compileCollection(collection)}`;
+}
+
+/**
+ * An ORDER BY list over kv_store; ties go to the older row
+ */
+export function compileSort(sort: SortKey[]): string {
+    if (sort.length === 0) return 'created_at DESC, rowid DESC';
+    return [
+        ...sort.map(({ field, direction }) => `${fieldSql(field).value} ${direction === 1 ? 'ASC' : 'DESC'}`),
+        'rowid ASC',
+    ].join(', ');
+}
+
+// --- Projection ---
+
+function setPath(target: Record<string, unknown>, path: string[], value: unknown): void {
+    let current = target;
+    for (const segment of path.slice(0, -1)) {
+        if (!isPlainObject(current[segment])) current[segment] = {};
+        current = current[segment] as Record<string, unknown>;
+    }
+    current[path[path.length - 1]] = value;
+}
+
+function deletePath(target: unknown, path: string[]): void {
+    const parent = getPath(target, path.slice(0, -1));
+    if (isPlainObject(parent)) delete parent[path[path.length - 1]];
+}
+
+/**
+ * Apply a projection to a record as crud_query returns it (`{ id, ...data }`)
+ */
+export function projectRecord(record: Record<string, unknown>, projection: Projection): Record<string, unknown> {
+    let result: Record<string, unknown>;
+    if (projection.mode === 'include') {
+        result = {};
+        for (const path of projection.paths) {
+            const value = getPath(record, path);
+            if (value !== undefined) setPath(result, path, value);
+        }
+        if (projection.includeId) result = { id: record.id, ...result };
+    } else {
+        result = structuredClone(record);
+        for (const path of projection.paths) deletePath(result, path);
+        if (!projection.includeId) delete result.id;
+    }
+    return result;
+}
@@ -0,0 +1,110 @@
+/**
+ * Tests for crud_search: the FTS5 index and the JS search must agree
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+import { openStorage, Storage } from './storage.js';
+import { parseSearchQuery, RecordSearch } from './recordSearch.js';
+import { RecordQueryError } from './recordQuery.js';
+
+const NOTES: Array<[string, unknown]> = [
+    ['a', { title: 'Deploy checklist', body: 'Run the migrations before you deploy the release.', tags: ['ops'] }],
+    ['b', { title: 'Release notes', body: 'The café menu now lists résumé templates.', meta: { author: 'kim' } }],
+    ['c', { title: 'Deployment', body: 'Deploy deploy deploy: three times is a charm.', secret: 'hidden words' }],
+    ['d', { title: 'Unrelated', body: 'Nothing to see here.', secret: 'deploy' }],
+];
+
+function search(query: string, options: Partial<RecordSearch> & { prefix?: boolean } = {}): RecordSearch {
+    return {
+        collection: 'notes', terms: parseSearchQuery(query, options.prefix), offset: 0, limit: 10,
+        snippetTokens: 8, highlight: ['[', ']'], ...options,
+    };
+}
+
+describe('record search', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'record-search-test-'));
+    const backends: Storage[] = [];
+
+    before(async () => {
+        for (const type of ['memory', 'json', 'sqlite'] as const) {
+            const storage = await openStorage(type, path.join(tempDir, `search.${type}`));
+            await storage.configureSearch({ notes: ['title', 'body', 'tags', 'meta.author'] });
+            for (const [id, data] of NOTES) {
+                await storage.insertRecord({ collection: 'notes', id, data: JSON.stringify(data) });
+            }
+            await storage.insertRecord({ collection: 'pages', id: 'p', data: JSON.stringify({ html: 'deploy guide', nested: { text: 'kim' } }) });
+            backends.push(storage);
+        }
+    });
+
+    after(async () => {
+        for (const storage of backends) await storage.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    async function ids(storage: Storage, query: RecordSearch): Promise<string[]> {
+        const { hits, total } = await storage.searchRecords(query);
+        assert.strictEqual(total, hits.length, `${storage.type} backend total`);
+        return hits.map(hit => hit.row.id);
+    }
+
+    const CASES: Array<[string, RecordSearch, string[]]> = [
+        ['ranks by term frequency', search('deploy'), ['c', 'a']],
+        ['needs every word', search('deploy release'), ['a']],
+        ['matches phrases in order only', search('"the release"'), ['a']],
+        ['ignores case and diacritics', search('CAFE resume'), ['b']],
+        ['matches prefixes with *', search('deploy*'), ['c', 'a']],
+        ['matches prefixes of every word with prefix', search('templ caf', { prefix: true }), ['b']],
+        ['searches only the configured fields', search('hidden'), []],
+        ['searches nested fields and arrays', search('ops'), ['a']],
+        ['searches every string without configured fields', search('kim', { collection: 'pages' }), ['p']],
+        ['searches all collections, shorter texts first', search('kim', { collection: undefined }), ['p', 'b']],
+        ['reads FTS5 operators as words', search('NOT -release (notes) AND'), []],
+    ];
+
+    for (const [name, query, expected] of CASES) {
+        it(name, async () => {
+            for (const storage of backends) {
+                assert.deepStrictEqual(await ids(storage, query), expected, `${storage.type} backend`);
+            }
+        });
+    }
+
+    it('highlights matched words in snippets', async () => {
+        for (const storage of backends) {
+            const { hits } = await storage.searchRecords(search('"release notes"'));
+            assert.strictEqual(hits[0].snippet, '[Release notes] The café menu now lists résumé…', storage.type);
+            const { hits: deploys } = await storage.searchRecords(search('deploy'));
+            assert.strictEqual(deploys[0].snippet, 'Deployment [Deploy] [deploy] [deploy]: three times is a…', storage.type);
+            const { hits: tail } = await storage.searchRecords(search('charm'));
+            assert.strictEqual(tail[0].snippet, '…three times is a [charm].', storage.type);
+        }
+    });
+
+    it('keeps the index in step with updates and deletes', async () => {
+        for (const storage of backends) {
+            await storage.updateRecord('notes', 'd', JSON.stringify({ title: 'Now about deploys', body: '' }));
+            assert.deepStrictEqual(await ids(storage, search('deploys')), ['d'], `${storage.type} backend`);
+            await storage.deleteRecord('notes', 'd');
+            assert.deepStrictEqual(await ids(storage, search('deploys')), [], `${storage.type} backend`);
+        }
+    });
+
+    it('re-indexes a collection when its fields change', async () => {
+        for (const storage of backends) {
+            await storage.configureSearch({ notes: ['secret'] });
+            assert.deepStrictEqual(await ids(storage, search('hidden')), ['c'], `${storage.type} backend`);
+            await storage.configureSearch({});
+            assert.deepStrictEqual(await ids(storage, search('hidden charm')), ['c'], `${storage.type} backend`);
+        }
+    });
+
+    it('rejects a query without words', () => {
+        assert.throws(() => parseSearchQuery(' "" * - '), (error: any) => error instanceof RecordQueryError && error.violation.path === 'query');
+    });
+});
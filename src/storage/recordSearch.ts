@@ -0,0 +1,170 @@
+// CRUD full-text search
+// The crud_search query syntax, compiled to an FTS5 MATCH for SQLite and evaluated in JS for the other backends
+
+import { RecordQueryError } from './recordQuery.js';
+import { RecordRow } from './storage.js';
+
+/**
+ * Data fields crud_search indexes, by collection, as dotted paths. Collections not listed
+ * (or listed with no fields) index every string in their records.
+ */
+export type SearchFields = Record<string, string[]>;
+
+/**
+ * A word, or a quoted phrase; with prefix, the last token also matches longer words
+ */
+export interface SearchTerm {
+    tokens: string[];
+    prefix: boolean;
+}
+
+/**
+ * A parsed crud_search, as the storage backends receive it. Every term must match.
+ */
+export interface RecordSearch {
+    collection?: string;     // Default: all collections
+    terms: SearchTerm[];
+    offset: number;
+    limit: number;
+    snippetTokens: number;   // Words in each snippet
+    highlight: [string, string];
+}
+
+export interface SearchHit {
+    row: RecordRow;
+    score: number;           // Higher is better
+    snippet: string;
+}
+
+// Words as FTS5's unicode61 tokenizer sees them: letters and digits, lowercased, without diacritics
+const WORD = /[\p{L}\p{N}]+/gu;
+
+interface Token {
+    text: string;
+    start: number;
+    end: number;
+}
+
+function tokenize(text: string): Token[] {
+    return Array.from(text.matchAll(WORD), match => ({
+        text: match[0].normalize('NFD').replace(/\p{M}/gu, '').toLowerCase(),
+        start: match.index!,
+        end: match.index! + match[0].length,
+    }));
+}
+
+/**
+ * Parse a search: words and "quoted phrases", each of which must appear. A trailing `*`
+ * makes a word or phrase match as a prefix; `prefix` does that for every term.
+ */
+export function parseSearchQuery(query: string, prefix = false): SearchTerm[] {
+    const terms: SearchTerm[] = [];
+    for (const match of query.matchAll(/"([^"]*)"(\*?)|([^\s"]+)/g)) {
+        const [, phrase, phraseStar, word] = match;
+        const tokens = tokenize(phrase ?? word).map(token => token.text);
+        if (tokens.length === 0) continue;
+        terms.push({ tokens, prefix: prefix || phraseStar === '*' || (word?.endsWith('*') ?? false) });
+    }
+    if (terms.length === 0) throw new RecordQueryError('query', 'has no words to search for');
+    return terms;
+}
+
+/**
+ * The FTS5 MATCH expression for a search; every term is quoted, so no input is read as FTS5 syntax
+ */
+export function compileSearch(terms: SearchTerm[]): string {
+    return terms.map(term => `"${term.tokens.join(' ')}"${term.prefix ? '*' : ''}`).join(' ');
+}
+
+// --- JS evaluation (memory and JSON backends) ---
+
+function collectStrings(value: unknown, path: string[], paths: string[][] | null, out: string[]): void {
+    if (typeof value === 'string') {
+        const wanted = !paths || paths.some(prefix => prefix.every((segment, index) => path[index] === segment));
+        if (wanted) out.push(value);
+    } else if (Array.isArray(value)) {
+        value.forEach((item, index) => collectStrings(item, [...path, String(index)], paths, out));
+    } else if (typeof value === 'object' && value !== null) {
+        for (const [key, item] of Object.entries(value)) collectStrings(item, [...path, key], paths, out);
+    }
+}
+
+/**
+ * The text a record is searched by: its strings under the given paths (all of them for null),
+ * in document order, as SQLite's search index holds it
+ */
+export function searchText(data: unknown, paths: string[][] | null): string {
+    const out: string[] = [];
+    collectStrings(data, [], paths, out);
+    return out.join(' ');
+}
+
+// Where a term occurs, as [first, last] token indexes
+function occurrences(tokens: Token[], term: SearchTerm): Array<[number, number]> {
+    const found: Array<[number, number]> = [];
+    const last = term.tokens.length - 1;
+    for (let start = 0; start + last < tokens.length; start++) {
+        const matches = term.tokens.every((word, offset) => offset === last && term.prefix
+            ? tokens[start + offset].text.startsWith(word)
+            : tokens[start + offset].text === word);
+        if (matches) found.push([start, start + last]);
+    }
+    return found;
+}
+
+// Like FTS5's snippet(): the first match centred in the window, each matched word or phrase marked once
+function snippet(text: string, tokens: Token[], spans: Array<[number, number]>, search: RecordSearch): string {
+    const [first, last] = spans[0];
+    const start = Math.max(0, first - Math.floor((search.snippetTokens - (last - first)) / 2));
+    const end = Math.min(tokens.length, start + search.snippetTokens);
+    const ends = new Map(spans);
+    const [open, close] = search.highlight;
+    let out = start > 0 ? '…' : '';
+    let cursor = start > 0 ? tokens[start].start : 0;
+    let closeAt = -1;
+    for (let index = start; index < end; index++) {
+        const token = tokens[index];
+        out += text.slice(cursor, token.start);
+        if (closeAt < index && ends.has(index)) {
+            out += open;
+            closeAt = ends.get(index)!;
+        }
+        out += text.slice(token.start, token.end);
+        if (index === closeAt || (index === end - 1 && closeAt > index)) out += close;
+        cursor = token.end;
+    }
+    return end < tokens.length ? `${out}…` : out + text.slice(cursor);
+}
+
+/**
+ * Match, rank (BM25, like FTS5) and page a search. Pass every record: like FTS5, term
+ * statistics come from all collections, and search.collection only limits the hits.
+ */
+export function searchDocuments(documents: Array<{ row: RecordRow; text: string }>, search: RecordSearch): { hits: SearchHit[]; total: number } {
+    const tokenized = documents.map(document => ({ ...document, tokens: tokenize(document.text) }));
+    const averageLength = tokenized.reduce((sum, document) => sum + document.tokens.length, 0) / (tokenized.length || 1);
+    const found = tokenized.map(document => search.terms.map(term => occurrences(document.tokens, term)));
+    const idf = search.terms.map((_, term) => {
+        const containing = found.filter(terms => terms[term].length > 0).length;
+        return Math.max(Math.log((tokenized.length - containing + 0.5) / (containing + 0.5)), 1e-6);
+    });
+
+    const [k1, b] = [1.2, 0.75];
+    const matches = tokenized.flatMap((document, index) => {
+        const terms = found[index];
+        if (terms.some(places => places.length === 0)) return [];
+        if (search.collection !== undefined && document.row.collection !== search.collection) return [];
+        const lengthNorm = k1 * (1 - b + b * document.tokens.length / (averageLength || 1));
+        const score = terms.reduce((sum, places, term) => sum + idf[term] * places.length * (k1 + 1) / (places.length + lengthNorm), 0);
+        return [{ document, terms, score, index }];
+    }).sort((x, y) => y.score - x.score || x.index - y.index);
+
+    return {
+        hits: matches.slice(search.offset, search.offset + search.limit).map(({ document, terms, score }) => ({
+            row: { ...document.row },
+            score,
+            snippet: snippet(document.text, document.tokens, terms.flat().sort((x, y) => x[0] - y[0]), search),
+        })),
+        total: matches.length,
+    };
+}
@@ -0,0 +1,391 @@
+// SQLite storage backend
+// The default: tables in the workspace database opened by db.ts
+
+import { Database } from 'sqlite';
+import fs from 'fs';
+import { openDatabase, closeDatabase } from './db.js';
+import { appliedMigrations, LATEST_SCHEMA_VERSION } from './migrations/index.js';
+import {
+    Storage, AuditRow, NewAuditRow, AuditQuery, RecordRow, NewRecordRow, RecordQuery,
+    ApprovalRow, NewApprovalRow, ApprovalChanges, ApprovalStatus, StorageCounts, StorageInfo, storageTimestamp,
+    RecordIndexRow, NewRecordIndexRow, RecordHistoryRow, RecordHistoryQuery, AuditGroupColumn, AuditGroupStats, AuditActivity,
+} from './storage.js';
+import {
+    RecordFind, compileFilter, compileSort, compileCollection, compileIndex, parseDataField, recordIndexName, matchesFilter, jsonPath,
+} from './recordQuery.js';
+import { RecordSearch, SearchHit, SearchFields, compileSearch } from './recordSearch.js';
+
+const AUDIT_COLUMNS = [
+    'timestamp', 'tool', 'args', 'result', 'error', 'session_id', 'call_id',
+    'parent_id', 'duration_ms', 'client_name', 'prev_hash', 'hash',
+] as const;
+
+// WHERE and ORDER BY for a crud_query, shared by findRecords and its EXPLAIN
+function findSql(query: RecordFind): { where: string; order: string; params: unknown[]; exact: boolean } {
+    const { sql, params, exact } = compileFilter(query.filter);
+    return { where: `WHERE ${compileCollection(query.collection)} AND ${sql}`, order: `ORDER BY ${compileSort(query.sort)}`, params, exact };
+}
+
+/**
+ * WHERE clause and parameters for an audit query
+ */
+function auditWhere(query: AuditQuery): { where: string; params: unknown[] } {
+    const filters: Array<[string, unknown]> = [
+        ['id >= ?', query.fromId],
+        ['id <= ?', query.toId],
+        ['timestamp >= ?', query.since],
+        ['timestamp <= ?', query.until],
+        ['timestamp < ?', query.before],
+        ['tool = ?', query.tool],
+        ['session_id = ?', query.sessionId],
+        ['client_name = ?', query.clientName],
+        ['call_id = ?', query.callId],
+        ['parent_id = ?', query.parentId],
+    ];
+    const active = filters.filter(([, value]) => value !== undefined);
+    return {
+        where: active.length ? `WHERE ${active.map(([condition]) => condition).join(' AND ')}` : '',
+        params: active.map(([, value]) => value),
+    };
+}
+
+// Nearest-rank percentile of the ranked durations of a group: rank ceil(p * n / 100), at least 1
+function percentileSql(p: number): string {
+    return `MAX(CASE WHEN duration_rank = MAX(1, (${p} * duration_count + 99) / 100) THEN duration_ms END)`;
+}
+
+export class SqliteStorage implements Storage {
+    readonly type = 'sqlite' as const;
+
+    private constructor(readonly path: string, private readonly db: Database) {}
+
+    static async open(dbPath: string): Promise<SqliteStorage> {
+        return new SqliteStorage(dbPath, await openDatabase(dbPath));
+    }
+
+    async appendAuditRow(row: NewAuditRow): Promise<number> {
+        const columns = row.id === undefined ? AUDIT_COLUMNS : ['id', ...AUDIT_COLUMNS] as const;
+        const { lastID } = await this.db.run(
+            `INSERT INTO audit_log (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+            ...columns.map(column => row[column as keyof NewAuditRow])
+        );
+        return lastID!;
+    }
+
+    // IMMEDIATE takes the write lock before the tail is read; other connections wait out busy_timeout
+    async appendChainedAuditRow(build: (last: AuditRow | undefined) => NewAuditRow): Promise<number> {
+        await this.db.exec('BEGIN IMMEDIATE');
+        try {
+            const id = await this.appendAuditRow(build(await this.getLastAuditRow()));
+            await this.db.exec('COMMIT');
+            return id;
+        } catch (error) {
+            await this.db.exec('ROLLBACK');
+            throw error;
+        }
+    }
+
+    async getLastAuditRow(): Promise<AuditRow | undefined> {
+        return this.db.get(`SELECT * FROM audit_log ORDER BY id DESC LIMIT 1`);
+    }
+
+    async queryAuditRows(query: AuditQuery = {}): Promise<AuditRow[]> {
+        const { where, params } = auditWhere(query);
+        return this.db.all(
+            `SELECT * FROM audit_log ${where} ORDER BY id ${query.order === 'desc' ? 'DESC' : 'ASC'} LIMIT ?`,
+            ...params, query.limit ?? -1
+        );
+    }
+
+    async countAuditRows(query: AuditQuery = {}): Promise<number> {
+        const { where, params } = auditWhere(query);
+        const row = await this.db.get(`SELECT COUNT(*) as count FROM audit_log ${where}`, ...params);
+        return row.count;
+    }
+
+    async listAuditTools(): Promise<string[]> {
+        const rows = await this.db.all(`SELECT DISTINCT tool FROM audit_log ORDER BY tool`);
+        return rows.map((row: { tool: string }) => row.tool);
+    }
+
+    async groupAuditRows(query: AuditQuery, column: AuditGroupColumn): Promise<AuditGroupStats[]> {
+        const { where, params } = auditWhere(query);
+        return this.db.all(`
+            WITH selected AS (SELECT id, ${column} AS group_key, timestamp, error, duration_ms FROM audit_log ${where}),
+            ranked AS (
+                SELECT group_key, duration_ms,
+                       ROW_NUMBER() OVER (PARTITION BY group_key ORDER BY duration_ms) AS duration_rank,
+                       COUNT(*) OVER (PARTITION BY group_key) AS duration_count
+                FROM selected WHERE duration_ms IS NOT NULL
+            ),
+            percentiles AS (
+                SELECT group_key, ${percentileSql(50)} AS p50_ms, ${percentileSql(90)} AS p90_ms, ${percentileSql(99)} AS p99_ms
+                FROM ranked GROUP BY group_key
+            )
+            SELECT s.group_key AS key, COUNT(*) AS calls, COUNT(s.error) AS errors,
+                   ROUND(AVG(s.duration_ms)) AS avg_duration_ms, MIN(s.timestamp) AS first_call, MAX(s.timestamp) AS last_call,
+                   p.p50_ms, p.p90_ms, p.p99_ms
+            FROM selected s LEFT JOIN percentiles p ON p.group_key IS s.group_key
+            GROUP BY s.group_key
+            ORDER BY calls DESC, MIN(s.id)`,
+            ...params
+        );
+    }
+
+    async auditActivity(query: AuditQuery, bucket: 'hour' | 'day'): Promise<AuditActivity> {
+        const { where, params } = auditWhere(query);
+        const bucketSql = bucket === 'hour' ? `substr(timestamp, 1, 13) || ':00'` : `substr(timestamp, 1, 10)`;
+        const { tools } = await this.db.get(`SELECT COUNT(DISTINCT tool) AS tools FROM audit_log ${where}`, ...params);
+        return {
+            tools,
+            hours: await this.db.all(
+                `SELECT substr(timestamp, 12, 2) AS hour, COUNT(*) AS count FROM audit_log ${where} GROUP BY hour ORDER BY hour`,
+                ...params
+            ),
+            buckets: await this.db.all(
+                `SELECT ${bucketSql} AS bucket, COUNT(*) AS calls, COUNT(error) AS errors FROM audit_log ${where} GROUP BY bucket ORDER BY bucket`,
+                ...params
+            ),
+            errors: await this.db.all(
+                `SELECT tool, error, COUNT(*) AS count, MAX(timestamp) AS last_seen
+                 FROM audit_log ${where ? `${where} AND` : 'WHERE'} error IS NOT NULL
+                 GROUP BY tool, error ORDER BY MIN(id)`,
+                ...params
+            ),
+        };
+    }
+
+    async deleteAuditRowsThrough(through: number): Promise<number> {
+        const { changes } = await this.db.run(`DELETE FROM audit_log WHERE id <= ?`, through);
+        return changes ?? 0;
+    }
+
+    async insertRecord(row: NewRecordRow): Promise<void> {
+        const now = storageTimestamp();
+        await this.db.run(
+            `INSERT INTO kv_store (collection, id, data, created_at, updated_at, version)
+             VALUES (?, ?, ?, ?, ?, COALESCE(?, (SELECT MAX(version) FROM kv_history WHERE collection = ? AND id = ?) + 1, 1))`,
+            row.collection, row.id, row.data, row.created_at ?? now, row.updated_at ?? now,
+            row.version ?? null, row.collection, row.id
+        );
+    }
+
+    async getRecord(collection: string, id: string): Promise<RecordRow | undefined> {
+        return this.db.get(`SELECT * FROM kv_store WHERE collection = ? AND id = ?`, collection, id);
+    }
+
+    // The kv_store_history triggers keep the replaced version, in the same statement
+    async updateRecord(collection: string, id: string, data: string, ifVersion?: number): Promise<boolean> {
+        const { changes } = await this.db.run(
+            `UPDATE kv_store SET data = ?, updated_at = ?, version = version + 1
+             WHERE collection = ? AND id = ? ${ifVersion === undefined ? '' : 'AND version = ?'}`,
+            data, storageTimestamp(), collection, id, ...(ifVersion === undefined ? [] : [ifVersion])
+        );
+        return !!changes;
+    }
+
+    async deleteRecord(collection: string, id: string, ifVersion?: number): Promise<boolean> {
+        const { changes } = await this.db.run(
+            `DELETE FROM kv_store WHERE collection = ? AND id = ? ${ifVersion === undefined ? '' : 'AND version = ?'}`,
+            collection, id, ...(ifVersion === undefined ? [] : [ifVersion])
+        );
+        return !!changes;
+    }
+
+    async listRecords(query: RecordQuery): Promise<RecordRow[]> {
+        const order = query.orderBy === 'updated_at' ? 'updated_at' : 'created_at';
+        return query.collection === undefined
+            ? this.db.all(`SELECT * FROM kv_store ORDER BY ${order} DESC LIMIT ?`, query.limit)
+            : this.db.all(`SELECT * FROM kv_store WHERE collection = ? ORDER BY ${order} DESC LIMIT ?`, query.collection, query.limit);
+    }
+
+    async queryRecordHistory(query: RecordHistoryQuery): Promise<RecordHistoryRow[]> {
+        const filters: Array<[string, unknown]> = [
+            ['collection = ?', query.collection],
+            ['id = ?', query.id],
+            ['version = ?', query.version],
+        ];
+        const active = filters.filter(([, value]) => value !== undefined);
+        return this.db.all(
+            `SELECT * FROM kv_history ${active.length ? `WHERE ${active.map(([condition]) => condition).join(' AND ')}` : ''}
+             ORDER BY collection, id, version DESC LIMIT ?`,
+            ...active.map(([, value]) => value), query.limit ?? -1
+        );
+    }
+
+    async insertRecordHistory(row: RecordHistoryRow): Promise<void> {
+        await this.db.run(
+            `INSERT INTO kv_history (collection, id, version, data, created_at, updated_at, replaced_at, replaced_by)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            row.collection, row.id, row.version, row.data, row.created_at, row.updated_at, row.replaced_at, row.replaced_by
+        );
+    }
+
+    async findRecords(query: RecordFind): Promise<{ rows: RecordRow[]; total: number }> {
+        const { where, order, params, exact } = findSql(query);
+        if (exact) {
+            const { total } = await this.db.get(`SELECT COUNT(*) as total FROM kv_store ${where}`, ...params);
+            const rows = await this.db.all(
+                `SELECT * FROM kv_store ${where} ${order} LIMIT ? OFFSET ?`,
+                ...params, query.limit, query.offset
+            );
+            return { rows, total };
+        }
+
+        // The SQL only narrowed the candidates; $regex is checked here, one row at a time
+        const rows: RecordRow[] = [];
+        let total = 0;
+        let failure: Error | null = null;
+        await this.db.each(`SELECT * FROM kv_store ${where} ${order}`, ...params, (error: Error | null, row: RecordRow) => {
+            failure ??= error;
+            if (failure || !matchesFilter({ ...row, data: JSON.parse(row.data) }, query.filter)) return;
+            if (total >= query.offset && rows.length < query.limit) rows.push(row);
+            total++;
+        });
+        if (failure) throw failure;
+        return { rows, total };
+    }
+
+    async explainFindRecords(query: RecordFind): Promise<string[]> {
+        const { where, order, params, exact } = findSql(query);
+        const rows = await this.db.all(
+            `EXPLAIN QUERY PLAN SELECT * FROM kv_store ${where} ${order}${exact ? ' LIMIT ? OFFSET ?' : ''}`,
+            ...params, ...(exact ? [query.limit, query.offset] : [])
+        );
+        return rows.map((row: { detail: string }) => row.detail);
+    }
+
+    async createRecordIndex(row: NewRecordIndexRow): Promise<boolean> {
+        const name = recordIndexName(row.collection, row.field);
+        // The index first, so a declared field always has one
+        await this.db.exec(compileIndex(name, row.collection, parseDataField(row.field)));
+        // Without statistics SQLite guesses the collection key is more selective than any range or IN on the new index
+        await this.db.exec(`ANALYZE kv_store`);
+        const { changes } = await this.db.run(
+            `INSERT OR IGNORE INTO record_indexes (collection, field, name, created_at) VALUES (?, ?, ?, ?)`,
+            row.collection, row.field, name, row.created_at ?? storageTimestamp()
+        );
+        return !!changes;
+    }
+
+    async dropRecordIndex(collection: string, field: string): Promise<boolean> {
+        const row = await this.db.get(`SELECT name FROM record_indexes WHERE collection = ? AND field = ?`, collection, field);
+        if (!row) return false;
+        await this.db.run(`DELETE FROM record_indexes WHERE collection = ? AND field = ?`, collection, field);
+        await this.db.exec(`DROP INDEX IF EXISTS ${row.name}`);
+        return true;
+    }
+
+    async listRecordIndexes(collection?: string): Promise<RecordIndexRow[]> {
+        return collection === undefined
+            ? this.db.all(`SELECT * FROM record_indexes ORDER BY collection, field`)
+            : this.db.all(`SELECT * FROM record_indexes WHERE collection = ? ORDER BY field`, collection);
+    }
+
+    async configureSearch(fields: SearchFields): Promise<void> {
+        const wanted = new Map(Object.entries(fields).map(([collection, names]) =>
+            [collection, names.map(name => jsonPath(parseDataField(name, `crud.searchFields.${collection}`))).sort()]));
+        const current = new Map<string, string[]>();
+        for (const row of await this.db.all(`SELECT collection, path FROM search_fields ORDER BY path`)) {
+            current.set(row.collection, [...current.get(row.collection) ?? [], row.path]);
+        }
+        for (const collection of new Set([...wanted.keys(), ...current.keys()])) {
+            const paths = wanted.get(collection) ?? [];
+            if (paths.join('\n') === (current.get(collection) ?? []).join('\n')) continue;
+            await this.db.run(`DELETE FROM search_fields WHERE collection = ?`, collection);
+            for (const path of paths) {
+                await this.db.run(`INSERT INTO search_fields (collection, path) VALUES (?, ?)`, collection, path);
+            }
+            // Rewriting the data fires the search trigger, which reads the new fields
+            await this.db.run(`UPDATE kv_store SET data = data WHERE collection = ?`, collection);
+        }
+    }
+
+    async searchRecords(search: RecordSearch): Promise<{ hits: SearchHit[]; total: number }> {
+        // CROSS JOIN keeps the MATCH as the outer loop; otherwise SQLite may rerun it once per record in the collection
+        const matches = `FROM kv_fts CROSS JOIN kv_fts_docs AS doc ON doc.rowid = kv_fts.rowid`;
+        const where = `WHERE kv_fts MATCH ?${search.collection === undefined ? '' : ' AND doc.collection = ?'}`;
+        const params = [compileSearch(search.terms), ...(search.collection === undefined ? [] : [search.collection])];
+        const { total } = await this.db.get(`SELECT COUNT(*) as total ${matches} ${where}`, ...params);
+        // FTS5's rank is BM25 negated, so the best match sorts first
+        const rows = await this.db.all(
+            `SELECT record.*, -kv_fts.rank as score, snippet(kv_fts, 0, ?, ?, '…', ?) as snippet
+             ${matches} CROSS JOIN kv_store AS record ON record.collection = doc.collection AND record.id = doc.id
+             ${where} ORDER BY kv_fts.rank, doc.rowid LIMIT ? OFFSET ?`,
+            ...search.highlight, search.snippetTokens, ...params, search.limit, search.offset
+        );
+        return {
+            hits: rows.map(({ score, snippet, ...row }: RecordRow & { score: number; snippet: string }) => ({ row, score, snippet })),
+            total,
+        };
+    }
+
+    async insertApproval(row: NewApprovalRow): Promise<void> {
+        await this.db.run(
+            `INSERT INTO approvals (id, tool, args, reason, status, created_at, decided_at, decided_by, note, result, error,
+                                    session_id, client_name)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            row.id, row.tool, row.args, row.reason, row.status ?? 'pending', row.created_at ?? storageTimestamp(),
+            row.decided_at ?? null, row.decided_by ?? null, row.note ?? null, row.result ?? null, row.error ?? null,
+            row.session_id ?? null, row.client_name ?? null
+        );
+    }
+
+    async getApproval(id: string): Promise<ApprovalRow | undefined> {
+        return this.db.get(`SELECT * FROM approvals WHERE id = ?`, id);
+    }
+
+    async listApprovals(status: ApprovalStatus | 'all', limit: number): Promise<ApprovalRow[]> {
+        return status === 'all'
+            ? this.db.all(`SELECT * FROM approvals ORDER BY created_at DESC LIMIT ?`, limit)
+            : this.db.all(`SELECT * FROM approvals WHERE status = ? ORDER BY created_at DESC LIMIT ?`, status, limit);
+    }
+
+    async updateApproval(id: string, changes: ApprovalChanges, ifStatus?: ApprovalStatus): Promise<boolean> {
+        const entries = Object.entries(changes).filter(([, value]) => value !== undefined);
+        if (entries.length === 0) return false;
+        // One statement, so the status check and the update can't be split by another writer
+        const { changes: updated } = await this.db.run(
+            `UPDATE approvals SET ${entries.map(([column]) => `${column} = ?`).join(', ')}
+             WHERE id = ? ${ifStatus ? 'AND status = ?' : ''}`,
+            ...entries.map(([, value]) => value), id, ...(ifStatus ? [ifStatus] : [])
+        );
+        return !!updated;
+    }
+
+    async expireApprovals(createdBefore: string): Promise<number> {
+        const { changes } = await this.db.run(
+            `UPDATE approvals SET status = 'expired', decided_at = ? WHERE status = 'pending' AND created_at < ?`,
+            storageTimestamp(), createdBefore
+        );
+        return changes ?? 0;
+    }
+
+    async counts(): Promise<StorageCounts> {
+        const row = await this.db.get(`
+            SELECT
+                (SELECT COUNT(*) FROM audit_log) as auditRows,
+                (SELECT COUNT(*) FROM kv_store) as records,
+                (SELECT COUNT(*) FROM approvals) as approvals
+        `);
+        return { auditRows: row.auditRows, records: row.records, approvals: row.approvals };
+    }
+
+    async info(): Promise<StorageInfo> {
+        const migrations = await appliedMigrations(this.db);
+        const { journal_mode } = await this.db.get(`PRAGMA journal_mode`);
+        const sizeOf = (file: string) => fs.existsSync(file) ? fs.statSync(file).size : 0;
+        return {
+            schemaVersion: migrations.length ? migrations[migrations.length - 1].version : 0,
+            latestSchemaVersion: LATEST_SCHEMA_VERSION,
+            migrations,
+            fileSizeBytes: sizeOf(this.path),
+            journalMode: journal_mode,
+            walSizeBytes: sizeOf(`${this.path}-wal`),
+        };
+    }
+
+    async close(): Promise<void> {
+        await closeDatabase(this.path);
+    }
+}
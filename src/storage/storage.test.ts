@@ -0,0 +1,267 @@
+/**
+ * Tests for the storage backends and migration between them
+ */
+
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { spawn } from 'child_process';
+import { fileURLToPath } from 'url';
+
+import sqlite3 from 'sqlite3';
+import { open as openConnection } from 'sqlite';
+
+import { openStorage, Storage, StorageType, NewAuditRow } from './storage.js';
+import { JsonStorage } from './jsonStorage.js';
+import { copyStorage } from './migrate.js';
+import { openDatabase, closeDatabase } from './db.js';
+import { LATEST_SCHEMA_VERSION, MIGRATIONS } from './migrations/index.js';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+after(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+let files = 0;
+function open(type: StorageType): Promise<Storage> {
+    return openStorage(type, path.join(tempDir, `store-${++files}.${type === 'json' ? 'json' : 'db'}`));
+}
+
+function auditRow(tool: string, timestamp: string, fields: Partial<NewAuditRow> = {}): NewAuditRow {
+    return {
+        timestamp, tool, args: '{}', result: null, error: null,
+        session_id: null, call_id: null, parent_id: null, duration_ms: null, client_name: null,
+        prev_hash: null, hash: null,
+        ...fields,
+    };
+}
+
+for (const type of ['memory', 'json', 'sqlite'] as const) {
+    describe(`${type} storage`, () => {
+        it('appends and queries audit rows in id order', async () => {
+            const storage = await open(type);
+            await storage.appendAuditRow(auditRow('read_file', '2026-01-01 10:00:00', { session_id: 's1' }));
+            await storage.appendAuditRow(auditRow('exec_cli', '2026-01-02 10:00:00', { error: '"boom"' }));
+            const third = await storage.appendAuditRow(auditRow('read_file', '2026-01-03 10:00:00', { session_id: 's1' }));
+
+            assert.deepStrictEqual((await storage.queryAuditRows({ sessionId: 's1' })).map(row => row.tool), ['read_file', 'read_file']);
+            assert.strictEqual((await storage.queryAuditRows({ order: 'desc', limit: 1 }))[0].id, third);
+            assert.strictEqual(await storage.countAuditRows({ before: '2026-01-03 00:00:00' }), 2);
+            assert.deepStrictEqual(await storage.listAuditTools(), ['exec_cli', 'read_file']);
+
+            assert.strictEqual(await storage.deleteAuditRowsThrough(third - 1), 2);
+            const next = await storage.appendAuditRow(auditRow('write_file', '2026-01-04 10:00:00'));
+            assert.ok(next > third, 'ids of deleted rows are not reused');
+            await storage.close();
+        });
+
+        it('aggregates audit usage with nearest-rank percentiles', async () => {
+            const storage = await open(type);
+            for (const ms of [30, 10, 20, null]) {
+                await storage.appendAuditRow(auditRow('read_file', '2026-01-01 10:00:00', { duration_ms: ms, session_id: 's1' }));
+            }
+            await storage.appendAuditRow(auditRow('exec_cli', '2026-01-02 09:00:00', { error: '"boom"', duration_ms: 7 }));
+
+            assert.deepStrictEqual(await storage.groupAuditRows({}, 'tool'), [
+                { key: 'read_file', calls: 4, errors: 0, avg_duration_ms: 20, first_call: '2026-01-01 10:00:00', last_call: '2026-01-01 10:00:00', p50_ms: 20, p90_ms: 30, p99_ms: 30 },
+                { key: 'exec_cli', calls: 1, errors: 1, avg_duration_ms: 7, first_call: '2026-01-02 09:00:00', last_call: '2026-01-02 09:00:00', p50_ms: 7, p90_ms: 7, p99_ms: 7 },
+            ]);
+            assert.deepStrictEqual((await storage.groupAuditRows({ since: '2026-01-02 00:00:00' }, 'session_id')).map(group => [group.key, group.calls]), [[null, 1]]);
+            assert.deepStrictEqual(await storage.auditActivity({}, 'day'), {
+                tools: 2,
+                hours: [{ hour: '09', count: 1 }, { hour: '10', count: 4 }],
+                buckets: [{ bucket: '2026-01-01', calls: 4, errors: 0 }, { bucket: '2026-01-02', calls: 1, errors: 1 }],
+                errors: [{ tool: 'exec_cli', error: '"boom"', count: 1, last_seen: '2026-01-02 09:00:00' }],
+            });
+            await storage.close();
+        });
+
+        it('creates, updates and deletes records', async () => {
+            const storage = await open(type);
+            await storage.insertRecord({ collection: 'notes', id: 'a', data: '{"n":1}', created_at: '2026-01-01 00:00:00' });
+            await storage.insertRecord({ collection: 'notes', id: 'b', data: '{"n":2}', created_at: '2026-01-02 00:00:00' });
+            await storage.insertRecord({ collection: 'tasks', id: 'a', data: '{"t":1}' });
+
+            assert.ok(await storage.updateRecord('notes', 'a', '{"n":3}'));
+            assert.ok(!await storage.updateRecord('notes', 'missing', '{}'));
+            assert.strictEqual((await storage.getRecord('notes', 'a'))?.data, '{"n":3}');
+
+            const newest = await storage.listRecords({ collection: 'notes', orderBy: 'created_at', limit: 10 });
+            assert.deepStrictEqual(newest.map(row => row.id), ['b', 'a']);
+
+            assert.ok(await storage.deleteRecord('notes', 'a'));
+            assert.ok(!await storage.deleteRecord('notes', 'a'));
+            assert.deepStrictEqual(await storage.counts(), { auditRows: 0, records: 2, approvals: 0 });
+            await storage.close();
+        });
+
+        it('versions records and keeps the versions updates and deletes replace', async () => {
+            const storage = await open(type);
+            await storage.insertRecord({ collection: 'notes', id: 'a', data: '{"n":1}' });
+            assert.ok(await storage.updateRecord('notes', 'a', '{"n":2}', 1));
+            assert.ok(!await storage.updateRecord('notes', 'a', '{"n":3}', 1), 'version 1 was replaced');
+            assert.ok(!await storage.deleteRecord('notes', 'a', 1));
+            assert.strictEqual((await storage.getRecord('notes', 'a'))?.version, 2);
+
+            assert.ok(await storage.deleteRecord('notes', 'a', 2));
+            const history = await storage.queryRecordHistory({ collection: 'notes', id: 'a' });
+            assert.deepStrictEqual(history.map(row => [row.version, row.data, row.replaced_by]), [[2, '{"n":2}', 'delete'], [1, '{"n":1}', 'update']]);
+
+            await storage.insertRecord({ collection: 'notes', id: 'a', data: '{"n":1}' });
+            assert.strictEqual((await storage.getRecord('notes', 'a'))?.version, 3, 'a re-created record continues its history');
+            assert.deepStrictEqual((await storage.queryRecordHistory({ collection: 'notes', id: 'a', version: 1 })).map(row => row.data), ['{"n":1}']);
+            await storage.close();
+        });
+
+        it('claims a pending approval only once', async () => {
+            const storage = await open(type);
+            await storage.insertApproval({ id: 'ap1', tool: 'exec_cli', args: '{}', reason: null, created_at: '2026-01-01 00:00:00' });
+            await storage.insertApproval({ id: 'ap2', tool: 'exec_cli', args: '{}', reason: null });
+
+            assert.ok(await storage.updateApproval('ap2', { status: 'approved', decided_by: 'me' }, 'pending'));
+            assert.ok(!await storage.updateApproval('ap2', { status: 'rejected' }, 'pending'));
+            assert.strictEqual((await storage.getApproval('ap2'))?.decided_by, 'me');
+
+            assert.strictEqual(await storage.expireApprovals('2026-01-02 00:00:00'), 1);
+            assert.deepStrictEqual((await storage.listApprovals('expired', 10)).map(row => row.id), ['ap1']);
+            await storage.close();
+        });
+    });
+}
+
+describe('JsonStorage', () => {
+    it('keeps its tables across reopening', async () => {
+        const file = path.join(tempDir, 'reopen.json');
+        const first = await JsonStorage.open(file);
+        await first.appendAuditRow(auditRow('read_file', '2026-01-01 10:00:00'));
+        await first.insertRecord({ collection: 'notes', id: 'a', data: '{}' });
+        await first.deleteAuditRowsThrough(1);
+        await first.close();
+
+        const second = await JsonStorage.open(file);
+        assert.deepStrictEqual(await second.counts(), { auditRows: 0, records: 1, approvals: 0 });
+        assert.strictEqual(await second.appendAuditRow(auditRow('read_file', '2026-01-01 10:00:01')), 2);
+        await second.close();
+    });
+
+    it('saves writes together and keeps the file to one opener', async () => {
+        const file = path.join(tempDir, 'locked.json');
+        const store = await JsonStorage.open(file);
+        await assert.rejects(JsonStorage.open(file), /is in use by process/);
+
+        await store.insertRecord({ collection: 'notes', id: 'a', data: '{}' });
+        assert.strictEqual(JSON.parse(fs.readFileSync(file, 'utf-8')).kv_store.length, 0, 'not saved yet');
+        await store.close();
+        assert.strictEqual(JSON.parse(fs.readFileSync(file, 'utf-8')).kv_store.length, 1, 'saved on close');
+
+        // A lock left by a process that is gone is taken over
+        fs.writeFileSync(`${file}.lock`, '2147483646');
+        await (await JsonStorage.open(file)).close();
+        assert.ok(!fs.existsSync(`${file}.lock`));
+    });
+
+    it('saves reported writes and unlocks when the process is terminated', async () => {
+        const file = path.join(tempDir, 'terminated.json');
+        const module = fileURLToPath(new URL('./jsonStorage.ts', import.meta.url));
+        const script = `
+            const { JsonStorage } = await import(${JSON.stringify(module)});
+            const store = await JsonStorage.open(${JSON.stringify(file)});
+            await store.insertRecord({ collection: 'notes', id: 'a', data: '{}' });
+            console.log('written');
+            setInterval(() => {}, 1000);
+        `;
+        const child = spawn(process.execPath, ['--import', 'tsx', '--input-type=module', '-e', script], { stdio: ['ignore', 'pipe', 'inherit'] });
+        await new Promise<void>(resolve => child.stdout.once('data', () => resolve()));
+        const exited = new Promise(resolve => child.once('exit', (code, signal) => resolve(signal)));
+        child.kill('SIGTERM');
+
+        assert.strictEqual(await exited, 'SIGTERM');
+        assert.strictEqual(JSON.parse(fs.readFileSync(file, 'utf-8')).kv_store.length, 1);
+        assert.ok(!fs.existsSync(`${file}.lock`));
+    });
+});
+
+describe('copyStorage', () => {
+    it('copies every table with ids and timestamps, into an empty target only', async () => {
+        const source = await open('sqlite');
+        await source.appendAuditRow(auditRow('read_file', '2026-01-01 10:00:00', { hash: 'h1' }));
+        await source.appendAuditRow(auditRow('exec_cli', '2026-01-01 10:00:01', { prev_hash: 'h1', hash: 'h2' }));
+        await source.deleteAuditRowsThrough(1);
+        await source.insertRecord({ collection: 'notes', id: 'a', data: '{"n":1}', created_at: '2026-01-01 00:00:00' });
+        await source.updateRecord('notes', 'a', '{"n":2}');
+        await source.insertApproval({ id: 'ap1', tool: 'exec_cli', args: '{}', reason: 'rule' });
+
+        const target = await open('json');
+        assert.deepStrictEqual(await copyStorage(source, target), { auditRows: 1, records: 1, approvals: 1 });
+        assert.deepStrictEqual(await target.queryAuditRows(), await source.queryAuditRows());
+        assert.deepStrictEqual(await target.getRecord('notes', 'a'), await source.getRecord('notes', 'a'));
+        assert.deepStrictEqual(await target.queryRecordHistory({}), await source.queryRecordHistory({}));
+        assert.deepStrictEqual(await target.getApproval('ap1'), await source.getApproval('ap1'));
+
+        await assert.rejects(copyStorage(source, target), /not empty/);
+        await source.close();
+    });
+});
+
+describe('appendChainedAuditRow', () => {
+    it('links to a row another connection appended while it waited for the lock', async () => {
+        const storage = await open('sqlite');
+        await storage.appendAuditRow(auditRow('read_file', '2026-01-01 10:00:00', { hash: 'h1' }));
+
+        // Another process, holding the write lock
+        const other = await openConnection({ filename: storage.path!, driver: sqlite3.Database });
+        await other.exec('BEGIN IMMEDIATE');
+        const appended = storage.appendChainedAuditRow(last => auditRow('exec_cli', '2026-01-01 10:00:02', { prev_hash: last?.hash ?? null, hash: 'h3' }));
+        await new Promise(resolve => setTimeout(resolve, 200));
+        await other.run(`INSERT INTO audit_log (timestamp, tool, prev_hash, hash) VALUES ('2026-01-01 10:00:01', 'write_file', 'h1', 'h2')`);
+        await other.exec('COMMIT');
+        await other.close();
+
+        await appended;
+        const rows = await storage.queryAuditRows();
+        assert.deepStrictEqual(rows.map(row => [row.tool, row.prev_hash, row.hash]),
+            [['read_file', null, 'h1'], ['write_file', 'h1', 'h2'], ['exec_cli', 'h2', 'h3']]);
+        await storage.close();
+    });
+});
+
+describe('SQLite schema migrations', () => {
+    it('creates a new database at the latest version without a backup', async () => {
+        const storage = await open('sqlite');
+        const info = await storage.info();
+        assert.strictEqual(info.schemaVersion, LATEST_SCHEMA_VERSION);
+        assert.deepStrictEqual(info.migrations.map(migration => migration.version), MIGRATIONS.map(migration => migration.version));
+        assert.ok(!fs.readdirSync(tempDir).some(file => file.startsWith(path.basename(storage.path!)) && file.endsWith('.bak')));
+        await storage.close();
+    });
+
+    it('upgrades an unversioned database in place after backing it up', async () => {
+        const dbPath = path.join(tempDir, 'legacy.db');
+        const legacy = await openDatabase(dbPath);
+        // Roll back to the tables an unversioned database had, keeping a row in each
+        await legacy.exec(`
+            DROP TABLE schema_migrations; DROP TABLE approvals; DROP TABLE audit_log;
+            CREATE TABLE audit_log (id INTEGER PRIMARY KEY AUTOINCREMENT, timestamp TEXT, tool TEXT NOT NULL, args TEXT, result TEXT, error TEXT, session_id TEXT);
+            INSERT INTO audit_log (timestamp, tool, args) VALUES ('2026-01-01 00:00:00', 'read_file', '{}');
+            INSERT INTO kv_store (collection, id, data) VALUES ('notes', 'a', '{}');
+        `);
+        await closeDatabase(dbPath);
+
+        const storage = await openStorage('sqlite', dbPath);
+        assert.strictEqual((await storage.info()).schemaVersion, LATEST_SCHEMA_VERSION);
+        assert.deepStrictEqual(await storage.counts(), { auditRows: 1, records: 1, approvals: 0 });
+        const [row] = await storage.queryAuditRows();
+        assert.strictEqual(row.hash, null, 'hash chain columns were added');
+        assert.ok(fs.readdirSync(tempDir).some(file => file.startsWith('legacy.db.v0-') && file.endsWith('.bak')));
+        await storage.close();
+    });
+
+    it('refuses a database from a newer server', async () => {
+        const dbPath = path.join(tempDir, 'newer.db');
+        const db = await openDatabase(dbPath);
+        await db.run(`INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, 'future', '2026-01-01 00:00:00')`, LATEST_SCHEMA_VERSION + 1);
+        await closeDatabase(dbPath);
+
+        await assert.rejects(openStorage('sqlite', dbPath), /newer than this server supports/);
+    });
+});
@@ -0,0 +1,295 @@
+// Storage backends
+// The tables behind the audit log, CRUD records and their history, and the approval queue, kept in SQLite, a JSON file or memory
+
+import { loadConfig, expandHome, Config } from '../config.js';
+import { RecordFind } from './recordQuery.js';
+import { RecordSearch, SearchHit, SearchFields } from './recordSearch.js';
+
+export type StorageType = Config['storage']['type'];
+
+export interface AuditRow {
+    id: number;
+    timestamp: string;
+    tool: string;
+    args: string | null;
+    result: string | null;
+    error: string | null;
+    session_id: string | null;
+    call_id: string | null;
+    parent_id: string | null;
+    duration_ms: number | null;
+    client_name: string | null;
+    prev_hash: string | null;
+    hash: string | null;
+}
+
+// id is assigned on append unless given, e.g. when copying between backends
+export type NewAuditRow = Omit<AuditRow, 'id'> & { id?: number };
+
+/**
+ * Audit rows to read; every field narrows the selection. Rows come in id order.
+ */
+export interface AuditQuery {
+    fromId?: number;        // Inclusive
+    toId?: number;          // Inclusive
+    since?: string;         // timestamp >= since
+    until?: string;         // timestamp <= until
+    before?: string;        // timestamp < before
+    tool?: string;
+    sessionId?: string;
+    clientName?: string;
+    callId?: string;
+    parentId?: string;
+    order?: 'asc' | 'desc';
+    limit?: number;
+}
+
+// Audit columns usage can be grouped by
+export type AuditGroupColumn = 'tool' | 'session_id' | 'client_name' | 'parent_id';
+
+/**
+ * Usage of the audit rows sharing one value of the grouped column. Durations are those of rows that have one;
+ * percentiles are nearest-rank.
+ */
+export interface AuditGroupStats {
+    key: string | null;
+    calls: number;
+    errors: number;
+    avg_duration_ms: number | null;
+    first_call: string;
+    last_call: string;
+    p50_ms: number | null;
+    p90_ms: number | null;
+    p99_ms: number | null;
+}
+
+/**
+ * When calls were made and how they failed, over a window of audit rows
+ */
+export interface AuditActivity {
+    tools: number;                                                      // Distinct tools called
+    hours: Array<{ hour: string; count: number }>;                      // By hour of day, "00" to "23"
+    buckets: Array<{ bucket: string; calls: number; errors: number }>;  // By day or hour, in time order
+    errors: Array<{ tool: string; error: string; count: number; last_seen: string }>;  // By tool and recorded error, first seen first
+}
+
+export interface RecordRow {
+    collection: string;
+    id: string;
+    data: string;           // The record as JSON text
+    created_at: string;
+    updated_at: string;
+    version: number;        // 1 when created, +1 on every update; ifVersion checks it
+}
+
+// Timestamps default to now; the version to one past any the record had before it was deleted
+export type NewRecordRow = Omit<RecordRow, 'created_at' | 'updated_at' | 'version'> & Partial<Pick<RecordRow, 'created_at' | 'updated_at' | 'version'>>;
+
+/**
+ * A prior version of a record, kept when an update or delete replaced it
+ */
+export interface RecordHistoryRow {
+    collection: string;
+    id: string;
+    version: number;
+    data: string;
+    created_at: string;
+    updated_at: string;     // When this version was written
+    replaced_at: string;
+    replaced_by: 'update' | 'delete';
+}
+
+/**
+ * History rows to read, by collection, then id, then newest version first; every field narrows the selection
+ */
+export interface RecordHistoryQuery {
+    collection?: string;
+    id?: string;
+    version?: number;
+    limit?: number;
+}
+
+/**
+ * Records to read, newest first by the given timestamp
+ */
+export interface RecordQuery {
+    collection?: string;
+    orderBy: 'created_at' | 'updated_at';
+    limit: number;
+}
+
+/**
+ * A field declared with crud_create_index; SQLite backs it with an expression index
+ */
+export interface RecordIndexRow {
+    collection: string;
+    field: string;          // Dotted path into the record data
+    name: string;           // The SQLite index, see recordIndexName
+    created_at: string;
+}
+
+// The name is derived from the collection and field
+export type NewRecordIndexRow = Omit<RecordIndexRow, 'name' | 'created_at'> & Partial<Pick<RecordIndexRow, 'created_at'>>;
+
+export type ApprovalStatus = 'pending' | 'approved' | 'executed' | 'failed' | 'rejected' | 'expired';
+
+export interface ApprovalRow {
+    id: string;
+    tool: string;
+    args: string;
+    reason: string | null;
+    status: ApprovalStatus;
+    created_at: string;
+    decided_at: string | null;
+    decided_by: string | null;
+    note: string | null;
+    result: string | null;
+    error: string | null;
+    session_id: string | null;   // Connection that requested the call; it runs there once approved
+    client_name: string | null;
+}
+
+export type NewApprovalRow = Pick<ApprovalRow, 'id' | 'tool' | 'args' | 'reason'> & Partial<ApprovalRow>;
+
+export type ApprovalChanges = Partial<Pick<ApprovalRow, 'status' | 'decided_at' | 'decided_by' | 'note' | 'result' | 'error'>>;
+
+export interface StorageCounts {
+    auditRows: number;
+    records: number;
+    approvals: number;
+}
+
+/**
+ * Schema and file details of a backend
+ */
+export interface StorageInfo {
+    schemaVersion: number | null;       // SQLite: last applied migration; JSON: file format version
+    latestSchemaVersion: number | null; // What this server would upgrade to
+    migrations: Array<{ version: number; name: string; applied_at: string }>;  // SQLite only
+    fileSizeBytes: number | null;
+    journalMode: string | null;         // SQLite only
+    walSizeBytes: number | null;        // SQLite only; 0 without a -wal file
+}
+
+/**
+ * What each backend stores. Rows are returned as copies, so callers may change them freely.
+ */
+export interface Storage {
+    readonly type: StorageType;
+    readonly path: string | null;        // File the data lives in; null in memory
+
+    appendAuditRow(row: NewAuditRow): Promise<number>;
+    /**
+     * Append the row build makes from the current last row. The read and the insert are one
+     * transaction, so other processes on the same store can't append in between and fork the chain.
+     */
+    appendChainedAuditRow(build: (last: AuditRow | undefined) => NewAuditRow): Promise<number>;
+    getLastAuditRow(): Promise<AuditRow | undefined>;
+    queryAuditRows(query?: AuditQuery): Promise<AuditRow[]>;
+    countAuditRows(query?: AuditQuery): Promise<number>;
+    listAuditTools(): Promise<string[]>;
+    /** Usage per value of column, busiest first; aggregated by the backend, so only the totals are loaded */
+    groupAuditRows(query: AuditQuery, column: AuditGroupColumn): Promise<AuditGroupStats[]>;
+    /** Calls by hour of day and by day or hour, and errors by tool and message; aggregated like groupAuditRows */
+    auditActivity(query: AuditQuery, bucket: 'hour' | 'day'): Promise<AuditActivity>;
+    /** Delete rows with id <= through; returns how many were deleted */
+    deleteAuditRowsThrough(through: number): Promise<number>;
+
+    insertRecord(row: NewRecordRow): Promise<void>;
+    getRecord(collection: string, id: string): Promise<RecordRow | undefined>;
+    /**
+     * Replace a record's data and bump its version, keeping the old version in the history;
+     * false if it doesn't exist or isn't at ifVersion when given
+     */
+    updateRecord(collection: string, id: string, data: string, ifVersion?: number): Promise<boolean>;
+    /** Delete a record, keeping its last version in the history; false as for updateRecord */
+    deleteRecord(collection: string, id: string, ifVersion?: number): Promise<boolean>;
+    listRecords(query: RecordQuery): Promise<RecordRow[]>;
+    queryRecordHistory(query: RecordHistoryQuery): Promise<RecordHistoryRow[]>;
+    /** Add a prior version as is, e.g. when copying between backends */
+    insertRecordHistory(row: RecordHistoryRow): Promise<void>;
+    /** One page of a crud_query, and how many records match in all */
+    findRecords(query: RecordFind): Promise<{ rows: RecordRow[]; total: number }>;
+    /** The query plan findRecords would use, one line per step; null without a query planner */
+    explainFindRecords(query: RecordFind): Promise<string[] | null>;
+
+    /** Declare an indexed field; false if it already is */
+    createRecordIndex(row: NewRecordIndexRow): Promise<boolean>;
+    dropRecordIndex(collection: string, field: string): Promise<boolean>;
+    /** Declared indexes by collection, then field; all collections without one */
+    listRecordIndexes(collection?: string): Promise<RecordIndexRow[]>;
+
+    /** Choose the fields crud_search indexes, re-indexing collections whose fields changed */
+    configureSearch(fields: SearchFields): Promise<void>;
+    /** One page of crud_search hits, best first, and how many records match in all */
+    searchRecords(search: RecordSearch): Promise<{ hits: SearchHit[]; total: number }>;
+
+    insertApproval(row: NewApprovalRow): Promise<void>;
+    getApproval(id: string): Promise<ApprovalRow | undefined>;
+    listApprovals(status: ApprovalStatus | 'all', limit: number): Promise<ApprovalRow[]>;
+    /** Apply changes, only if the approval is in ifStatus when given; false if nothing changed */
+    updateApproval(id: string, changes: ApprovalChanges, ifStatus?: ApprovalStatus): Promise<boolean>;
+    /** Mark pending approvals created before the cutoff as expired; returns how many */
+    expireApprovals(createdBefore: string): Promise<number>;
+
+    counts(): Promise<StorageCounts>;
+    info(): Promise<StorageInfo>;
+    close(): Promise<void>;
+}
+
+/**
+ * Now in SQLite's CURRENT_TIMESTAMP format (UTC), so rows written by any backend sort together
+ */
+export function storageTimestamp(date = new Date()): string {
+    return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * Open a backend. SQLite is loaded only when asked for, so installs without a working
+ * sqlite3 build can run on the JSON or memory backend.
+ */
+export async function openStorage(type: StorageType, filePath?: string): Promise<Storage> {
+    switch (type) {
+        case 'sqlite': {
+            if (!filePath) throw new Error('The sqlite backend needs a path');
+            const { SqliteStorage } = await import('./sqliteStorage.js');
+            return SqliteStorage.open(expandHome(filePath));
+        }
+        case 'json': {
+            if (!filePath) throw new Error('The json backend needs a path');
+            const { JsonStorage } = await import('./jsonStorage.js');
+            return JsonStorage.open(expandHome(filePath));
+        }
+        case 'memory': {
+            const { MemoryStorage } = await import('./memoryStorage.js');
+            return new MemoryStorage();
+        }
+        default:
+            throw new Error(`Unknown storage type: ${type}; expected sqlite, json or memory`);
+    }
+}
+
+let active: Promise<Storage> | null = null;
+
+/**
+ * The backend selected by storage.type, opened on first use
+ */
+export function getStorage(): Promise<Storage> {
+    if (!active) {
+        const { storage: { type, path }, crud } = loadConfig();
+        active = openStorage(type, path).then(async storage => {
+            await storage.configureSearch(crud.searchFields);
+            return storage;
+        });
+        // A failed open is retried on the next call
+        active.catch(() => { active = null; });
+    }
+    return active;
+}
+
+/**
+ * Replace the active backend, e.g. with a MemoryStorage in tests
+ */
+export function useStorage(storage: Storage): void {
+    active = Promise.resolve(storage);
+}
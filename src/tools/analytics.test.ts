@@ -0,0 +1,83 @@
+/**
+ * Tests for get_usage_stats: latency percentiles, error grouping and baseline comparison
+ */
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+
+import { useStorage, NewAuditRow } from '../storage/storage.js';
+import { MemoryStorage } from '../storage/memoryStorage.js';
+import { handleGetUsageStats, normalizeErrorMessage } from './analytics.js';
+
+function auditRow(tool: string, timestamp: string, duration_ms: number | null, error: string | null = null): NewAuditRow {
+    return {
+        timestamp, tool, args: '{}', result: null, error,
+        session_id: null, call_id: null, parent_id: null, duration_ms, client_name: null,
+        prev_hash: null, hash: null,
+    };
+}
+
+describe('normalizeErrorMessage', () => {
+    it('masks quoted strings, paths, hex and numbers', () => {
+        assert.strictEqual(normalizeErrorMessage(`ENOENT: no such file or directory, open '/tmp/a.txt'`), 'ENOENT: no such file or directory, open <str>');
+        assert.strictEqual(normalizeErrorMessage('Timed out after 5000ms reading /var/log/app.log'), 'Timed out after <n>ms reading <path>');
+        assert.strictEqual(normalizeErrorMessage('Bad handle 0x1F at  offset 12.5'), 'Bad handle <hex> at offset <n>');
+        assert.strictEqual(normalizeErrorMessage('Path not allowed: /home/a/x'), normalizeErrorMessage('Path not allowed: /srv/b/y'));
+    });
+});
+
+describe('handleGetUsageStats', () => {
+    let storage: MemoryStorage;
+
+    beforeEach(async () => {
+        storage = new MemoryStorage();
+        useStorage(storage);
+        // Baseline day: read_file always takes 5ms
+        for (let i = 0; i < 4; i++) {
+            await storage.appendAuditRow(auditRow('read_file', `2026-03-01 10:00:0${i}`, 5));
+        }
+        // Current day: read_file takes 1..10ms, and fails twice on different paths
+        for (let ms = 1; ms <= 10; ms++) {
+            const error = ms <= 2 ? JSON.stringify(`File not found: /data/${ms}.txt`) : null;
+            await storage.appendAuditRow(auditRow('read_file', `2026-03-02 10:00:${String(ms).padStart(2, '0')}`, ms, error));
+        }
+        await storage.appendAuditRow(auditRow('exec_cli', '2026-03-02 11:00:00', null));
+    });
+
+    const period = { since: '2026-03-02T00:00:00Z', until: '2026-03-02T23:59:59Z' };
+
+    it('reports nearest-rank percentiles per tool', async () => {
+        const stats = (await handleGetUsageStats(period)).structuredContent!;
+        const [readFile, execCli] = stats.topTools as any[];
+        assert.deepStrictEqual(
+            [readFile.tool, readFile.call_count, readFile.error_count, readFile.avg_duration_ms, readFile.p50_ms, readFile.p90_ms, readFile.p99_ms],
+            ['read_file', 10, 2, 6, 5, 9, 10]
+        );
+        assert.deepStrictEqual([execCli.tool, execCli.p50_ms, execCli.avg_duration_ms], ['exec_cli', null, null], 'calls without a duration');
+        assert.deepStrictEqual(stats.summary, {
+            total_calls: 11, unique_tools: 2, total_errors: 2, earliest: '2026-03-02 10:00:01', latest: '2026-03-02 11:00:00',
+        });
+        assert.deepStrictEqual(stats.hourlyDistribution, [{ hour: '10', count: 10 }, { hour: '11', count: 1 }]);
+    });
+
+    it('groups errors that differ only in their details', async () => {
+        const stats = (await handleGetUsageStats({ ...period, bucket: 'hour' })).structuredContent!;
+        assert.deepStrictEqual((stats.topErrors as any[]).map(error => [error.message, error.count, error.tools, error.last_seen]),
+            [['File not found: <path>', 2, ['read_file'], '2026-03-02 10:00:02']]);
+        assert.deepStrictEqual((stats.errorTrend as any).points.map((point: any) => [point.bucket, point.error_rate]),
+            [['2026-03-02 10:00', 0.2], ['2026-03-02 11:00', 0]]);
+    });
+
+    it('compares latency and error rate with a baseline window', async () => {
+        const stats = (await handleGetUsageStats({
+            ...period, baselineSince: '2026-03-01T00:00:00Z', baselineUntil: '2026-03-01T23:59:59Z',
+        })).structuredContent!;
+        const [readFile, execCli] = (stats.comparison as any).groups;
+        assert.strictEqual(readFile.tool, 'read_file');
+        assert.deepStrictEqual(readFile.change, { p50_pct: 0, p90_pct: 80, p99_pct: 100, error_rate_delta: 0.2 });
+        assert.deepStrictEqual([execCli.tool, execCli.baseline, execCli.change.p90_pct], ['exec_cli', null, null]);
+
+        const unpaired = await handleGetUsageStats({ ...period, baselineSince: '2026-03-01T00:00:00Z' });
+        assert.strictEqual((unpaired.structuredContent!.error as any).code, 'INVALID_ARGUMENTS');
+    });
+});
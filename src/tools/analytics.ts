@@ -2,104 +2,326 @@
 // Get usage stats, recent tool calls, and log management
 
 import { z } from 'zod';
-import { getDb } from '../storage/db.js';
-import { logAudit } from '../audit.js';
+import { getStorage, AuditRow, AuditGroupStats } from '../storage/storage.js';
+import { logAudit, pruneAuditLog, verifyAuditChain } from '../audit.js';
+import { enforcePathPolicy, PathPolicyError, pathPolicyErrorResponse } from '../utils/pathPolicy.js';
+import { isSimulating, simulatedResponse } from '../utils/simulate.js';
 import fs from 'fs';
 import path from 'path';
-import os from 'os';
+import { ToolDefinition } from './toolDefinition.js';
+import { ToolError, ToolResponse, toolErrorResponse, toolResponse } from './toolResult.js';
 
 // Schemas
 export const GetUsageStatsSchema = {
     since: z.string().optional().describe('ISO date string to filter stats from (e.g., "2024-01-01"). Default: last 30 days.'),
     limit: z.number().optional().describe('Number of top tools to return (default: 20)'),
+    until: z.string().optional().describe('ISO date string to filter stats until (default: now)'),
+    groupBy: z.enum(['tool', 'session', 'client', 'parent']).optional().describe('Group calls by tool, session, client or parent call (default: tool)'),
+    sessionId: z.string().optional().describe('Only count calls from this session'),
+    clientName: z.string().optional().describe('Only count calls from this MCP client'),
+    bucket: z.enum(['hour', 'day']).optional().describe('Time bucket for the error rate trend (default: day)'),
+    baselineSince: z.string().optional().describe('Start of a baseline window to compare latency and error rate against'),
+    baselineUntil: z.string().optional().describe('End of the baseline window (required with baselineSince)'),
 };
 
 export const GetRecentToolCallsSchema = {
     tool: z.string().optional().describe('Filter by tool name'),
     limit: z.number().optional().describe('Number of recent calls to return (default: 50)'),
     includeArgs: z.boolean().optional().describe('Include full arguments in response (default: false for privacy)'),
+    sessionId: z.string().optional().describe('Filter by session ID'),
+    callId: z.string().optional().describe('Filter by call ID (all rows logged by one tool call)'),
+    parentId: z.string().optional().describe('Filter by parent call ID (operations spawned by one batch_tools or approve_call)'),
+    clientName: z.string().optional().describe('Filter by MCP client name'),
 };
 
+// Columns get_usage_stats can group by
+const GROUP_COLUMNS = {
+    tool: 'tool',
+    session: 'session_id',
+    client: 'client_name',
+    parent: 'parent_id',
+} as const;
+
+// Audit timestamps use SQLite's "YYYY-MM-DD HH:MM:SS" (UTC) format
+function toAuditTimestamp(value: string): string {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        throw new ToolError('INVALID_ARGUMENTS', `Invalid date: ${value}`);
+    }
+    return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
 export const GetAuditLogStatsSchema = {};
 
+export const GetStorageInfoSchema = {};
+
 export const ClearOldLogsSchema = {
     olderThanDays: z.number().describe('Delete logs older than this many days'),
     dryRun: z.boolean().optional().describe('If true, show what would be deleted without deleting (default: false)'),
 };
 
+export const VerifyAuditLogSchema = {};
+
+export const ExportAuditLogSchema = {
+    path: z.string().describe('File to write'),
+    format: z.enum(['jsonl', 'csv']).optional().describe('Output format (default: jsonl)'),
+    since: z.string().optional().describe('Only entries at or after this ISO date/time'),
+    until: z.string().optional().describe('Only entries before this ISO date/time'),
+    tool: z.string().optional().describe('Only entries for this tool'),
+    sessionId: z.string().optional().describe('Only entries from this session'),
+};
+
+// Output schemas: structuredContent of a successful call
+const Row = z.record(z.unknown());
+
+export const GetUsageStatsOutput = {
+    period: z.object({ since: z.string(), until: z.string() }),
+    summary: Row,
+    topTools: z.array(Row).optional().describe('Set when grouping by tool'),
+    groupBy: z.string().optional(),
+    groups: z.array(Row).optional().describe('Set when grouping by anything else'),
+    hourlyDistribution: z.array(Row),
+    errorTrend: z.object({ bucket: z.string(), points: z.array(Row) }),
+    topErrors: z.array(Row),
+    comparison: z.object({
+        baseline: z.object({ since: z.string(), until: z.string() }),
+        groups: z.array(Row),
+    }).optional(),
+};
+
+export const GetRecentToolCallsOutput = {
+    filter: z.string(),
+    count: z.number(),
+    calls: z.array(Row),
+};
+
+export const GetAuditLogStatsOutput = {
+    storageType: z.enum(['sqlite', 'json', 'memory']),
+    databasePath: z.string().nullable().describe('null for the memory backend'),
+    databaseSizeBytes: z.number(),
+    databaseSizeMB: z.string(),
+    total_entries: z.number(),
+    unique_tools: z.number(),
+    oldest_entry: z.string().nullable(),
+    newest_entry: z.string().nullable(),
+};
+
+export const GetStorageInfoOutput = {
+    type: z.enum(['sqlite', 'json', 'memory']),
+    path: z.string().nullable().describe('null for the memory backend'),
+    schemaVersion: z.number().nullable().describe('SQLite: last applied migration; JSON: file format version'),
+    latestSchemaVersion: z.number().nullable(),
+    migrations: z.array(z.object({ version: z.number(), name: z.string(), applied_at: z.string() })),
+    counts: z.object({ auditRows: z.number(), records: z.number(), approvals: z.number() }),
+    fileSizeBytes: z.number().nullable(),
+    journalMode: z.string().nullable().describe('SQLite journal mode, e.g. "delete" or "wal"'),
+    walSizeBytes: z.number().nullable(),
+};
+
+export const ClearOldLogsOutput = {
+    dryRun: z.boolean().optional(),
+    wouldDelete: z.number().optional().describe('Set on a dry run'),
+    deleted: z.number().optional(),
+    checkpointId: z.number().nullable().optional(),
+    cutoffDate: z.string(),
+    olderThanDays: z.number(),
+};
+
+export const VerifyAuditLogOutput = {
+    valid: z.boolean(),
+    checked: z.number(),
+    legacyRows: z.number(),
+    firstBrokenLink: Row.nullable(),
+};
+
+export const ExportAuditLogOutput = {
+    path: z.string(),
+    format: z.enum(['jsonl', 'csv']),
+    exported: z.number(),
+    firstId: z.number().nullable(),
+    lastId: z.number().nullable(),
+};
+
+interface WindowStats {
+    calls: number;
+    errors: number;
+    error_rate: number;
+    p50_ms: number | null;
+    p90_ms: number | null;
+    p99_ms: number | null;
+}
+
+function errorRate(errors: number, calls: number): number {
+    return Math.round((errors / calls) * 10000) / 10000;
+}
+
+/**
+ * Error text with quoted strings, paths and numbers replaced, so similar errors group together
+ */
+export function normalizeErrorMessage(message: string): string {
+    return message
+        .replace(/"[^"]*"|'[^']*'|`[^`]*`/g, '<str>')
+        .replace(/(?<=^|[\s(=])(?:[A-Za-z]:)?[\\/][^\s,;)]+/g, '<path>')
+        .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+        .replace(/\d+(?:\.\d+)?/g, '<n>')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .slice(0, 200);
+}
+
+function errorText(error: string): string {
+    try {
+        const parsed = JSON.parse(error);
+        return typeof parsed === 'string' ? parsed : parsed?.message ?? JSON.stringify(parsed);
+    } catch {
+        return error;
+    }
+}
+
+/**
+ * Call count, error rate and latency percentiles per group for one time window
+ */
+function windowStatsByGroup(groups: AuditGroupStats[]): Map<string | null, WindowStats> {
+    return new Map(groups.map(group => [group.key, {
+        calls: group.calls,
+        errors: group.errors,
+        error_rate: errorRate(group.errors, group.calls),
+        p50_ms: group.p50_ms,
+        p90_ms: group.p90_ms,
+        p99_ms: group.p99_ms,
+    }]));
+}
+
+function percentChange(current: number | null | undefined, baseline: number | null | undefined): number | null {
+    if (current == null || baseline == null || baseline === 0) return null;
+    return Math.round(((current - baseline) / baseline) * 1000) / 10;
+}
+
 /**
  * Get usage statistics for tools
  */
 export async function handleGetUsageStats(args: {
     since?: string;
+    until?: string;
     limit?: number;
-}): Promise<{ content: Array<{ type: string; text: string }> }> {
+    groupBy?: keyof typeof GROUP_COLUMNS;
+    sessionId?: string;
+    clientName?: string;
+    bucket?: 'hour' | 'day';
+    baselineSince?: string;
+    baselineUntil?: string;
+}): Promise<ToolResponse> {
     try {
-        const db = await getDb();
+        const storage = await getStorage();
         const limit = args.limit || 20;
+        const groupBy = args.groupBy || 'tool';
+        const groupColumn = GROUP_COLUMNS[groupBy];
+
+        if (!args.baselineSince !== !args.baselineUntil) {
+            throw new ToolError('INVALID_ARGUMENTS', 'baselineSince and baselineUntil must be given together');
+        }
         
         // Default to last 30 days
-        const sinceDate = args.since || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
-
-        // Get tool usage counts
-        const toolStats = await db.all(`
-            SELECT 
-                tool,
-                COUNT(*) as call_count,
-                SUM(CASE WHEN error IS NOT NULL THEN 1 ELSE 0 END) as error_count,
-                MIN(timestamp) as first_call,
-                MAX(timestamp) as last_call
-            FROM audit_log
-            WHERE timestamp >= ?
-            GROUP BY tool
-            ORDER BY call_count DESC
-            LIMIT ?
-        `, sinceDate, limit);
+        const sinceDate = toAuditTimestamp(args.since || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString());
+        const untilDate = toAuditTimestamp(args.until || new Date().toISOString());
+        const selection = { since: sinceDate, until: untilDate, sessionId: args.sessionId, clientName: args.clientName };
+        const groups = await storage.groupAuditRows(selection, groupColumn);
+        const bucket = args.bucket || 'day';
+        const activity = await storage.auditActivity(selection, bucket);
+
+        // Usage counts and latency percentiles per group, busiest first
+        const currentWindow = windowStatsByGroup(groups);
+        const groupStats = groups.slice(0, limit).map(group => ({
+            [groupColumn]: group.key,
+            call_count: group.calls,
+            error_count: group.errors,
+            avg_duration_ms: group.avg_duration_ms,
+            first_call: group.first_call,
+            last_call: group.last_call,
+            p50_ms: group.p50_ms,
+            p90_ms: group.p90_ms,
+            p99_ms: group.p99_ms,
+        }));
 
         // Get total stats
-        const totalStats = await db.get(`
-            SELECT 
-                COUNT(*) as total_calls,
-                COUNT(DISTINCT tool) as unique_tools,
-                SUM(CASE WHEN error IS NOT NULL THEN 1 ELSE 0 END) as total_errors,
-                MIN(timestamp) as earliest,
-                MAX(timestamp) as latest
-            FROM audit_log
-            WHERE timestamp >= ?
-        `, sinceDate);
-
-        // Get hourly distribution
-        const hourlyDist = await db.all(`
-            SELECT 
-                strftime('%H', timestamp) as hour,
-                COUNT(*) as count
-            FROM audit_log
-            WHERE timestamp >= ?
-            GROUP BY hour
-            ORDER BY hour
-        `, sinceDate);
+        const firstCalls = groups.map(group => group.first_call).sort();
+        const lastCalls = groups.map(group => group.last_call).sort();
+        const totalStats = {
+            total_calls: groups.reduce((sum, group) => sum + group.calls, 0),
+            unique_tools: activity.tools,
+            total_errors: groups.reduce((sum, group) => sum + group.errors, 0),
+            earliest: firstCalls[0] ?? null,
+            latest: lastCalls[lastCalls.length - 1] ?? null,
+        };
 
-        await logAudit('get_usage_stats', args, 'success');
+        // Error rate per day or hour
+        const errorTrend = activity.buckets.map(point => ({ ...point, error_rate: errorRate(point.errors, point.calls) }));
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    period: {
-                        since: sinceDate,
-                        until: new Date().toISOString(),
+        // Most frequent errors, grouped by normalized message
+        const errorGroups = new Map<string, { message: string; count: number; tools: Set<string>; example: string; last_seen: string }>();
+        for (const entry of activity.errors) {
+            const text = errorText(entry.error);
+            const message = normalizeErrorMessage(text);
+            const group = errorGroups.get(message) ?? { message, count: 0, tools: new Set<string>(), example: text, last_seen: entry.last_seen };
+            group.count += entry.count;
+            group.tools.add(entry.tool);
+            if (entry.last_seen > group.last_seen) group.last_seen = entry.last_seen;
+            errorGroups.set(message, group);
+        }
+        const topErrors = Array.from(errorGroups.values())
+            .sort((a, b) => b.count - a.count)
+            .slice(0, 10)
+            .map(group => ({ ...group, tools: Array.from(group.tools), example: group.example.slice(0, 300) }));
+
+        // Compare against a baseline window, largest p90 regression first
+        let comparison: any[] | undefined;
+        if (args.baselineSince && args.baselineUntil) {
+            const baselineWindow = windowStatsByGroup(await storage.groupAuditRows({
+                since: toAuditTimestamp(args.baselineSince),
+                until: toAuditTimestamp(args.baselineUntil),
+                sessionId: args.sessionId,
+                clientName: args.clientName,
+            }, groupColumn));
+            const keys = new Set([...currentWindow.keys(), ...baselineWindow.keys()]);
+            comparison = Array.from(keys).map(key => {
+                const current = currentWindow.get(key) ?? null;
+                const base = baselineWindow.get(key) ?? null;
+                return {
+                    [groupColumn]: key,
+                    current,
+                    baseline: base,
+                    change: {
+                        p50_pct: percentChange(current?.p50_ms, base?.p50_ms),
+                        p90_pct: percentChange(current?.p90_ms, base?.p90_ms),
+                        p99_pct: percentChange(current?.p99_ms, base?.p99_ms),
+                        error_rate_delta: current && base ? Math.round((current.error_rate - base.error_rate) * 10000) / 10000 : null,
                     },
-                    summary: totalStats,
-                    topTools: toolStats,
-                    hourlyDistribution: hourlyDist,
-                }, null, 2)
-            }],
-        };
+                };
+            }).sort((a, b) => (b.change.p90_pct ?? -Infinity) - (a.change.p90_pct ?? -Infinity)).slice(0, limit);
+        }
+
+        await logAudit('get_usage_stats', args, 'success');
+
+        return toolResponse({
+            period: {
+                since: sinceDate,
+                until: untilDate,
+            },
+            summary: totalStats,
+            ...(groupBy === 'tool' ? { topTools: groupStats } : { groupBy, groups: groupStats }),
+            hourlyDistribution: activity.hours,
+            errorTrend: { bucket, points: errorTrend },
+            topErrors,
+            ...(comparison && {
+                comparison: {
+                    baseline: { since: toAuditTimestamp(args.baselineSince!), until: toAuditTimestamp(args.baselineUntil!) },
+                    groups: comparison,
+                },
+            }),
+        });
     } catch (error: any) {
         await logAudit('get_usage_stats', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -110,38 +332,28 @@ export async function handleGetRecentToolCalls(args: {
     tool?: string;
     limit?: number;
     includeArgs?: boolean;
-}): Promise<{ content: Array<{ type: string; text: string }> }> {
+    sessionId?: string;
+    callId?: string;
+    parentId?: string;
+    clientName?: string;
+}): Promise<ToolResponse> {
     try {
-        const db = await getDb();
+        const storage = await getStorage();
         const limit = args.limit || 50;
         const includeArgs = args.includeArgs || false;
 
-        let query: string;
-        let params: any[];
-
-        if (args.tool) {
-            query = `
-                SELECT id, timestamp, tool, ${includeArgs ? 'args,' : ''} result, error
-                FROM audit_log
-                WHERE tool = ?
-                ORDER BY timestamp DESC
-                LIMIT ?
-            `;
-            params = [args.tool, limit];
-        } else {
-            query = `
-                SELECT id, timestamp, tool, ${includeArgs ? 'args,' : ''} result, error
-                FROM audit_log
-                ORDER BY timestamp DESC
-                LIMIT ?
-            `;
-            params = [limit];
-        }
-
-        const calls = await db.all(query, ...params);
+        const calls = await storage.queryAuditRows({
+            tool: args.tool,
+            sessionId: args.sessionId,
+            callId: args.callId,
+            parentId: args.parentId,
+            clientName: args.clientName,
+            order: 'desc',
+            limit,
+        });
 
-        // Parse JSON fields
-        const parsedCalls = calls.map((call: any) => ({
+        // Parse JSON fields; hashes are for verify_audit_log
+        const parsedCalls = calls.map(({ prev_hash, hash, ...call }) => ({
             ...call,
             args: includeArgs && call.args ? JSON.parse(call.args) : undefined,
             result: call.result ? JSON.parse(call.result) : null,
@@ -150,70 +362,76 @@ export async function handleGetRecentToolCalls(args: {
 
         await logAudit('get_recent_tool_calls', args, `returned ${calls.length} calls`);
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    filter: args.tool || 'all',
-                    count: parsedCalls.length,
-                    calls: parsedCalls,
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            filter: args.tool || 'all',
+            count: parsedCalls.length,
+            calls: parsedCalls,
+        });
     } catch (error: any) {
         await logAudit('get_recent_tool_calls', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-        };
+        return toolErrorResponse(error);
     }
 }
 
 /**
  * Get audit log statistics (size, entries, etc.)
  */
-export async function handleGetAuditLogStats(): Promise<{ content: Array<{ type: string; text: string }> }> {
+export async function handleGetAuditLogStats(): Promise<ToolResponse> {
     try {
-        const db = await getDb();
+        const storage = await getStorage();
 
         // Get counts
-        const stats = await db.get(`
-            SELECT 
-                COUNT(*) as total_entries,
-                COUNT(DISTINCT tool) as unique_tools,
-                MIN(timestamp) as oldest_entry,
-                MAX(timestamp) as newest_entry
-            FROM audit_log
-        `);
-
-        // Get database file size
-        const homeDir = os.homedir();
-        const dbPath = path.join(homeDir, '.mcp', 'workspace.db');
+        const [oldest] = await storage.queryAuditRows({ limit: 1 });
+        const newest = await storage.getLastAuditRow();
+        const stats = {
+            total_entries: await storage.countAuditRows(),
+            unique_tools: (await storage.listAuditTools()).length,
+            oldest_entry: oldest?.timestamp ?? null,
+            newest_entry: newest?.timestamp ?? null,
+        };
+
+        // Get database file size, including SQLite's write-ahead log
         let dbSize = 0;
-        try {
-            const stat = fs.statSync(dbPath);
-            dbSize = stat.size;
-        } catch {
-            // File might not exist
+        for (const file of storage.path ? [storage.path, `${storage.path}-wal`] : []) {
+            try {
+                dbSize += fs.statSync(file).size;
+            } catch {
+                // File might not exist
+            }
         }
 
         await logAudit('get_audit_log_stats', {}, 'success');
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    databasePath: dbPath,
-                    databaseSizeBytes: dbSize,
-                    databaseSizeMB: (dbSize / 1024 / 1024).toFixed(2),
-                    ...stats,
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            storageType: storage.type,
+            databasePath: storage.path,
+            databaseSizeBytes: dbSize,
+            databaseSizeMB: (dbSize / 1024 / 1024).toFixed(2),
+            ...stats,
+        });
     } catch (error: any) {
         await logAudit('get_audit_log_stats', {}, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
+        return toolErrorResponse(error);
+    }
+}
+
+/**
+ * Report the storage backend, its schema version, row counts and file sizes
+ */
+export async function handleGetStorageInfo(): Promise<ToolResponse> {
+    try {
+        const storage = await getStorage();
+        const info = {
+            type: storage.type,
+            path: storage.path,
+            ...await storage.info(),
+            counts: await storage.counts(),
         };
+        await logAudit('get_storage_info', {}, 'success');
+        return toolResponse(info);
+    } catch (error: any) {
+        await logAudit('get_storage_info', {}, null, error.message);
+        return toolErrorResponse(error);
     }
 }
 
@@ -223,50 +441,181 @@ export async function handleGetAuditLogStats(): Promise<{ content: Array<{ type:
 export async function handleClearOldLogs(args: {
     olderThanDays: number;
     dryRun?: boolean;
-}): Promise<{ content: Array<{ type: string; text: string }> }> {
+}): Promise<ToolResponse> {
     try {
-        const db = await getDb();
+        const storage = await getStorage();
         const cutoffDate = new Date(Date.now() - args.olderThanDays * 24 * 60 * 60 * 1000).toISOString();
-        const dryRun = args.dryRun !== false;
+        // Simulation mode turns every cleanup into a preview
+        const dryRun = args.dryRun !== false || isSimulating();
 
-        // Count entries to delete
-        const countResult = await db.get(`
-            SELECT COUNT(*) as count FROM audit_log WHERE timestamp < ?
-        `, cutoffDate);
+        // Count entries to delete (everything up to the newest entry older than the cutoff)
+        const [through] = await storage.queryAuditRows({ before: cutoffDate, order: 'desc', limit: 1 });
+        const wouldDelete = through ? await storage.countAuditRows({ toId: through.id }) : 0;
 
         if (dryRun) {
-            return {
-                content: [{
-                    type: 'text',
-                    text: JSON.stringify({
-                        dryRun: true,
-                        wouldDelete: countResult.count,
-                        cutoffDate,
-                        olderThanDays: args.olderThanDays,
-                    }, null, 2)
-                }],
-            };
+            return toolResponse({
+                dryRun: true,
+                wouldDelete,
+                cutoffDate,
+                olderThanDays: args.olderThanDays,
+            });
         }
 
-        // Actually delete
-        await db.run(`DELETE FROM audit_log WHERE timestamp < ?`, cutoffDate);
+        // Actually delete, leaving a signed checkpoint so the hash chain still verifies
+        const { deleted, checkpointId } = await pruneAuditLog(cutoffDate);
 
-        await logAudit('clear_old_logs', args, `deleted ${countResult.count} entries`);
+        await logAudit('clear_old_logs', args, `deleted ${deleted} entries`);
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    deleted: countResult.count,
-                    cutoffDate,
-                    olderThanDays: args.olderThanDays,
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            deleted,
+            checkpointId,
+            cutoffDate,
+            olderThanDays: args.olderThanDays,
+        });
     } catch (error: any) {
         await logAudit('clear_old_logs', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-        };
+        return toolErrorResponse(error);
     }
 }
+
+/**
+ * Verify the audit log hash chain
+ */
+export async function handleVerifyAuditLog(): Promise<ToolResponse> {
+    try {
+        const report = await verifyAuditChain();
+
+        await logAudit('verify_audit_log', {}, { valid: report.valid, checked: report.checked, brokenAt: report.firstBrokenLink?.id });
+
+        return toolResponse({ ...report });
+    } catch (error: any) {
+        await logAudit('verify_audit_log', {}, null, error.message);
+        return toolErrorResponse(error);
+    }
+}
+
+function csvField(value: unknown): string {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Export audit log entries, including their chain hashes, as JSON Lines or CSV
+ */
+export async function handleExportAuditLog(args: {
+    path: string;
+    format?: 'jsonl' | 'csv';
+    since?: string;
+    until?: string;
+    tool?: string;
+    sessionId?: string;
+}): Promise<ToolResponse> {
+    try {
+        await enforcePathPolicy('export_audit_log', args.path, 'write');
+
+        const format = args.format || 'jsonl';
+        const storage = await getStorage();
+        const rows = await storage.queryAuditRows({
+            since: args.since ? toAuditTimestamp(args.since) : undefined,
+            before: args.until ? toAuditTimestamp(args.until) : undefined,
+            tool: args.tool,
+            sessionId: args.sessionId,
+        });
+
+        if (isSimulating()) {
+            return await simulatedResponse('export_audit_log', args, { action: 'export', path: args.path, format, entries: rows.length });
+        }
+
+        const columns: Array<keyof AuditRow> = [
+            'id', 'timestamp', 'tool', 'args', 'result', 'error',
+            'session_id', 'call_id', 'parent_id', 'duration_ms', 'client_name', 'prev_hash', 'hash',
+        ];
+        const lines = format === 'csv'
+            ? [columns.join(','), ...rows.map(row => columns.map(column => csvField(row[column])).join(','))]
+            : rows.map(row => JSON.stringify(row));
+
+        fs.mkdirSync(path.dirname(path.resolve(args.path)), { recursive: true });
+        fs.writeFileSync(args.path, lines.join('\n') + (lines.length ? '\n' : ''), 'utf-8');
+
+        await logAudit('export_audit_log', args, { exported: rows.length });
+
+        return toolResponse({
+            path: args.path,
+            format,
+            exported: rows.length,
+            firstId: rows[0]?.id ?? null,
+            lastId: rows[rows.length - 1]?.id ?? null,
+        });
+    } catch (error: any) {
+        if (error instanceof PathPolicyError) return pathPolicyErrorResponse(error);
+        await logAudit('export_audit_log', args, null, error.message);
+        return toolErrorResponse(error);
+    }
+}
+
+// Tool definitions, collected by registry.ts
+export const ANALYTICS_TOOLS: ToolDefinition[] = [
+    {
+        name: 'get_usage_stats',
+        description: 'Get tool usage statistics including call counts, error rates, and hourly distribution.',
+        category: 'analytics',
+        schema: GetUsageStatsSchema,
+        outputSchema: GetUsageStatsOutput,
+        handler: handleGetUsageStats,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'get_recent_tool_calls',
+        description: 'Get recent tool call history from the audit log. Useful for debugging.',
+        category: 'analytics',
+        schema: GetRecentToolCallsSchema,
+        outputSchema: GetRecentToolCallsOutput,
+        handler: handleGetRecentToolCalls,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'get_audit_log_stats',
+        description: 'Get audit log statistics including total entries and database size.',
+        category: 'analytics',
+        schema: GetAuditLogStatsSchema,
+        outputSchema: GetAuditLogStatsOutput,
+        handler: handleGetAuditLogStats,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'get_storage_info',
+        description: 'Get the storage backend, schema version and applied migrations, row counts, file size and SQLite journal/WAL status.',
+        category: 'analytics',
+        schema: GetStorageInfoSchema,
+        outputSchema: GetStorageInfoOutput,
+        handler: handleGetStorageInfo,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'clear_old_logs',
+        description: 'Delete audit log entries older than specified days. Use dryRun=true to preview. Leaves a signed checkpoint so the hash chain still verifies.',
+        category: 'analytics',
+        schema: ClearOldLogsSchema,
+        outputSchema: ClearOldLogsOutput,
+        handler: handleClearOldLogs,
+        sideEffects: 'destructive',
+    },
+    {
+        name: 'verify_audit_log',
+        description: 'Verify the audit log hash chain. Reports the first entry that was edited, deleted or reordered.',
+        category: 'analytics',
+        schema: VerifyAuditLogSchema,
+        outputSchema: VerifyAuditLogOutput,
+        handler: handleVerifyAuditLog,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'export_audit_log',
+        description: 'Export audit log entries with their chain hashes to a JSON Lines or CSV file. Filter by time range or tool.',
+        category: 'analytics',
+        schema: ExportAuditLogSchema,
+        outputSchema: ExportAuditLogOutput,
+        handler: handleExportAuditLog,
+        sideEffects: 'write',
+    },
+];
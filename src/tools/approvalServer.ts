@@ -0,0 +1,139 @@
+// Local approval page
+// Tiny HTTP server on 127.0.0.1 so an operator can approve parked tool calls from a browser
+
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { listApprovals, decideApproval, ApprovalRecord } from './approvals.js';
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function renderPage(approvals: ApprovalRecord[], token: string, message?: string): string {
+    const rows = approvals.map(a => `
+      <tr>
+        <td><code>${escapeHtml(a.id)}</code><br><small>${escapeHtml(a.created_at)}</small></td>
+        <td><b>${escapeHtml(a.tool)}</b><br><small>${escapeHtml(a.reason ?? '')}</small></td>
+        <td><pre>${escapeHtml(JSON.stringify(a.args, null, 2))}</pre></td>
+        <td>
+          <form method="post" action="/approvals/${encodeURIComponent(a.id)}/approve">
+            <input type="hidden" name="token" value="${token}">
+            <input name="note" placeholder="note (optional)">
+            <button>Approve</button>
+          </form>
+          <form method="post" action="/approvals/${encodeURIComponent(a.id)}/reject">
+            <input type="hidden" name="token" value="${token}">
+            <input name="note" placeholder="reason (optional)">
+            <button>Reject</button>
+          </form>
+        </td>
+      </tr>`).join('');
+
+    return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Pending approvals</title>
+  <style>
+    body { font-family: sans-serif; margin: 2em; }
+    table { border-collapse: collapse; width: 100%; }
+    td, th { border: 1px solid #ccc; padding: 0.5em; vertical-align: top; text-align: left; }
+    pre { margin: 0; max-width: 40em; overflow-x: auto; }
+    form { margin-bottom: 0.5em; }
+  </style>
+</head>
+<body>
+  <h1>Pending approvals</h1>
+  ${message ? `<p><b>${escapeHtml(message)}</b></p>` : ''}
+  ${approvals.length === 0
+        ? '<p>Nothing waiting for approval.</p>'
+        : `<table><tr><th>ID</th><th>Tool</th><th>Arguments</th><th>Decision</th></tr>${rows}</table>`}
+  <p><a href="/?token=${token}">Refresh</a></p>
+</body>
+</html>`;
+}
+
+function readBody(req: http.IncomingMessage): Promise<URLSearchParams> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.on('data', chunk => {
+            body += chunk;
+            if (body.length > 64 * 1024) {
+                reject(new Error('Request body too large'));
+                req.destroy();
+            }
+        });
+        req.on('end', () => resolve(new URLSearchParams(body)));
+        req.on('error', reject);
+    });
+}
+
+/**
+ * Start the approval page on 127.0.0.1.
+ * Every request must carry the random token printed at startup, so other
+ * local pages can't approve calls on the operator's behalf.
+ * @returns The URL (including token) to open in a browser
+ */
+export function startApprovalServer(port: number): Promise<string> {
+    const token = crypto.randomBytes(16).toString('hex');
+
+    const server = http.createServer(async (req, res) => {
+        const url = new URL(req.url ?? '/', `http://127.0.0.1:${port}`);
+
+        const send = (status: number, html: string) => {
+            res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+            res.end(html);
+        };
+
+        try {
+            if (req.method === 'GET' && url.pathname === '/') {
+                if (url.searchParams.get('token') !== token) {
+                    send(403, 'Forbidden: missing or invalid token');
+                    return;
+                }
+                send(200, renderPage(await listApprovals('pending'), token, url.searchParams.get('message') ?? undefined));
+                return;
+            }
+
+            const match = url.pathname.match(/^\/approvals\/([^/]+)\/(approve|reject)$/);
+            if (req.method === 'POST' && match) {
+                const form = await readBody(req);
+                if (form.get('token') !== token) {
+                    send(403, 'Forbidden: missing or invalid token');
+                    return;
+                }
+                const id = decodeURIComponent(match[1]);
+                let message: string;
+                try {
+                    const record = await decideApproval(id, match[2] as 'approve' | 'reject', 'http', form.get('note') || undefined);
+                    message = `${record.tool} (${id}): ${record.status}`;
+                } catch (error: any) {
+                    message = error.message;
+                }
+                res.writeHead(303, { Location: `/?token=${token}&message=${encodeURIComponent(message)}` });
+                res.end();
+                return;
+            }
+
+            send(404, 'Not found');
+        } catch (error: any) {
+            send(500, escapeHtml(error.message));
+        }
+    });
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, '127.0.0.1', () => {
+            // Don't keep the process alive just for the approval page
+            server.unref();
+            // The port actually bound: the server only starts on a configured port, but tests pass 0 for a free one
+            const { port: listening } = server.address() as AddressInfo;
+            resolve(`http://127.0.0.1:${listening}/?token=${token}`);
+        });
+    });
+}
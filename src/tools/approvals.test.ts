@@ -0,0 +1,158 @@
+/**
+ * Tests for the approval queue and the local approval page
+ */
+
+import { describe, it, beforeEach, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+// Keep the config file and audit key in a throwaway home
+const tempHome = fs.mkdtempSync(path.join(os.tmpdir(), 'approvals-test-'));
+const originalHome = process.env.HOME;
+process.env.HOME = tempHome;
+process.env.USERPROFILE = tempHome;
+
+const { loadConfig, saveConfig } = await import('../config.js');
+const { useStorage, getStorage } = await import('../storage/storage.js');
+const { MemoryStorage } = await import('../storage/memoryStorage.js');
+const { withAuditCall, getAuditContext } = await import('../audit.js');
+const { invokeTool } = await import('./registry.js');
+const { dispatchToolCall } = await import('./batchDispatcher.js');
+const approvals = await import('./approvals.js');
+const { startApprovalServer } = await import('./approvalServer.js');
+
+const config = loadConfig();
+saveConfig({
+    ...config,
+    approvals: { ...config.approvals, enabled: true, rules: [{ tool: 'crud_create', args: { collection: 'guarded' }, reason: 'Guarded collection' }] },
+});
+
+// Lets a test backdate a parked call
+class TestStorage extends MemoryStorage {
+    backdate(id: string): void {
+        this.approvals.get(id)!.created_at = '2000-01-01 00:00:00';
+    }
+}
+
+let storage: TestStorage;
+let executed: string[];
+
+async function park(title: string): Promise<string> {
+    const response = await dispatchToolCall('crud_create', { collection: 'guarded', data: { title } }, 5000);
+    assert.strictEqual(response.structuredContent!.status, 'pending_approval');
+    return response.structuredContent!.approvalId as string;
+}
+
+async function guardedTitles(): Promise<string[]> {
+    const rows = await (await getStorage()).listRecords({ collection: 'guarded', orderBy: 'created_at', limit: 10 });
+    return rows.map(row => JSON.parse(row.data).title);
+}
+
+describe('approval queue', () => {
+    beforeEach(() => {
+        storage = new TestStorage();
+        useStorage(storage);
+        executed = [];
+        approvals.setApprovalExecutor(async (tool, args) => {
+            executed.push(tool);
+            return invokeTool(tool, args);
+        });
+    });
+
+    after(() => {
+        process.env.HOME = originalHome;
+        process.env.USERPROFILE = originalHome;
+        fs.rmSync(tempHome, { recursive: true, force: true });
+    });
+
+    it('parks a matching call without running it', async () => {
+        const id = await park('first');
+        assert.deepStrictEqual(await guardedTitles(), []);
+
+        const record = await approvals.getApproval(id);
+        assert.deepStrictEqual([record!.tool, record!.status, record!.reason], ['crud_create', 'pending', 'Guarded collection']);
+
+        const other = await dispatchToolCall('crud_create', { collection: 'open', data: { title: 'free' } }, 5000);
+        assert.ok(!other.isError);
+        assert.strictEqual(other.structuredContent!.status, undefined, 'calls no rule matches run straight away');
+    });
+
+    it('runs an approved call once, however many approvers race for it', async () => {
+        const id = await park('raced');
+
+        const outcomes = await Promise.allSettled([
+            approvals.decideApproval(id, 'approve', 'http'),
+            approvals.decideApproval(id, 'approve', 'http'),
+        ]);
+        const rejected = outcomes.filter(outcome => outcome.status === 'rejected') as PromiseRejectedResult[];
+        assert.strictEqual(rejected.length, 1);
+        assert.strictEqual(rejected[0].reason.code, 'CONFLICT');
+        assert.deepStrictEqual(executed, ['crud_create']);
+
+        const record = await approvals.getApproval(id);
+        assert.strictEqual(record!.status, 'executed');
+        assert.strictEqual(record!.result.structuredContent.title, 'raced');
+        assert.deepStrictEqual(await guardedTitles(), ['raced']);
+    });
+
+    it('runs an approved call in the connection that asked for it', async () => {
+        const id = await withAuditCall(() => park('from a'), { sessionId: 'session_a', clientName: 'client a' });
+        let ranIn: unknown;
+        approvals.setApprovalExecutor(async (tool, args) => {
+            ranIn = { sessionId: getAuditContext()?.sessionId, clientName: getAuditContext()?.clientName };
+            return invokeTool(tool, args);
+        });
+
+        // Decided from another connection, as the approval page or another client would
+        await withAuditCall(() => approvals.decideApproval(id, 'approve', 'http'), { sessionId: 'session_b', clientName: null });
+        assert.deepStrictEqual(ranIn, { sessionId: 'session_a', clientName: 'client a' });
+        assert.strictEqual((await approvals.getApproval(id))!.session_id, 'session_a');
+    });
+
+    it('never runs a rejected or expired call', async () => {
+        const rejected = await park('rejected');
+        assert.strictEqual((await approvals.decideApproval(rejected, 'reject', 'http', 'no')).status, 'rejected');
+
+        const stale = await park('stale');
+        storage.backdate(stale);
+        assert.strictEqual((await approvals.getApproval(stale))!.status, 'expired');
+        await assert.rejects(approvals.decideApproval(stale, 'approve', 'http'), { code: 'CONFLICT' });
+
+        assert.deepStrictEqual(executed, []);
+        assert.deepStrictEqual(await guardedTitles(), []);
+    });
+
+    it('refuses decisions from tools unless allowToolDecisions is set', async () => {
+        const id = await park('self-approved');
+        const response = await approvals.handleApproveCall({ approvalId: id });
+        assert.strictEqual((response.structuredContent!.error as any).code, 'UNAVAILABLE');
+        assert.strictEqual((await approvals.getApproval(id))!.status, 'pending');
+        assert.deepStrictEqual(executed, []);
+    });
+
+    it('lets the operator approve from the page, with its token only', async () => {
+        const id = await park('from the page');
+        const url = new URL(await startApprovalServer(0));
+        const token = url.searchParams.get('token')!;
+
+        assert.strictEqual((await fetch(`${url.origin}/?token=wrong`)).status, 403);
+        const page = await fetch(url);
+        assert.strictEqual(page.status, 200);
+        assert.ok((await page.text()).includes(id));
+
+        const approve = (formToken: string) => fetch(`${url.origin}/approvals/${id}/approve`, {
+            method: 'POST',
+            body: new URLSearchParams({ token: formToken }),
+            redirect: 'manual',
+        });
+        assert.strictEqual((await approve('wrong')).status, 403);
+        assert.strictEqual((await approvals.getApproval(id))!.status, 'pending');
+
+        const approved = await approve(token);
+        assert.strictEqual(approved.status, 303);
+        assert.strictEqual((await approvals.getApproval(id))!.decided_by, 'http');
+        assert.deepStrictEqual(await guardedTitles(), ['from the page']);
+    });
+});
@@ -0,0 +1,349 @@
+// Human-in-the-loop approval queue
+// Parks tool calls matching approval rules in storage until an operator approves or rejects them
+
+import { z } from 'zod';
+import { getStorage, storageTimestamp, ApprovalRow, ApprovalStatus } from '../storage/storage.js';
+import { getAuditContext, logAudit, withAuditCall } from '../audit.js';
+import { loadConfig, Config } from '../config.js';
+import { isSimulating } from '../utils/simulate.js';
+import { ToolDefinition } from './toolDefinition.js';
+import { ToolError, ToolResponse, toolErrorResponse, toolResponse } from './toolResult.js';
+
+export type ApprovalRule = Config['approvals']['rules'][number];
+
+export type { ApprovalStatus } from '../storage/storage.js';
+
+export interface ApprovalRecord {
+    id: string;
+    tool: string;
+    args: any;
+    reason: string | null;
+    status: ApprovalStatus;
+    created_at: string;
+    decided_at: string | null;
+    decided_by: string | null;
+    note: string | null;
+    result: any;
+    error: string | null;
+    session_id: string | null;
+    client_name: string | null;
+}
+
+type ToolExecutor = (tool: string, args: any) => Promise<any>;
+
+let executor: ToolExecutor | null = null;
+
+/**
+ * Register the function that runs a tool call once it is approved.
+ * The executor must bypass the approval gate.
+ */
+export function setApprovalExecutor(fn: ToolExecutor): void {
+    executor = fn;
+}
+
+// Schemas
+export const ListPendingApprovalsSchema = {
+    status: z.enum(['pending', 'approved', 'executed', 'failed', 'rejected', 'expired', 'all']).optional()
+        .describe('Filter by status (default: pending)'),
+    limit: z.number().optional().describe('Max entries to return (default: 50)'),
+};
+
+export const GetApprovalStatusSchema = {
+    approvalId: z.string().describe('Approval ID returned when the call was parked'),
+};
+
+export const ApproveCallSchema = {
+    approvalId: z.string().describe('Approval ID to approve. The parked call runs immediately.'),
+    note: z.string().optional().describe('Optional note recorded with the decision'),
+};
+
+export const RejectCallSchema = {
+    approvalId: z.string().describe('Approval ID to reject'),
+    note: z.string().optional().describe('Optional reason recorded with the decision'),
+};
+
+const ApprovalRecordOutput = {
+    id: z.string(),
+    tool: z.string(),
+    args: z.unknown(),
+    reason: z.string().nullable(),
+    status: z.enum(['pending', 'approved', 'executed', 'failed', 'rejected', 'expired']),
+    created_at: z.string(),
+    decided_at: z.string().nullable(),
+    decided_by: z.string().nullable(),
+    note: z.string().nullable(),
+    error: z.string().nullable(),
+    session_id: z.string().nullable(),
+    client_name: z.string().nullable(),
+};
+
+function generateApprovalId(): string {
+    return `approval_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+}
+
+function argMatchesPattern(value: unknown, pattern: string): boolean {
+    if (value === undefined) return false;
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    try {
+        return new RegExp(pattern).test(text);
+    } catch {
+        // An invalid pattern should not silently let dangerous calls through
+        return true;
+    }
+}
+
+/**
+ * Find the first approval rule matching a tool call
+ */
+export function findApprovalRule(tool: string, args: any, rules: ApprovalRule[]): ApprovalRule | undefined {
+    return rules.find(rule =>
+        rule.tool === tool &&
+        Object.entries(rule.args ?? {}).every(([key, expected]) => args?.[key] === expected) &&
+        Object.entries(rule.argPatterns ?? {}).every(([key, pattern]) => argMatchesPattern(args?.[key], pattern))
+    );
+}
+
+function rowToRecord(row: ApprovalRow): ApprovalRecord {
+    return {
+        ...row,
+        args: JSON.parse(row.args),
+        result: row.result ? JSON.parse(row.result) : null,
+    };
+}
+
+/**
+ * Mark pending approvals older than approvals.expireAfterMinutes as expired
+ */
+async function expireStaleApprovals(): Promise<void> {
+    const { expireAfterMinutes } = loadConfig().approvals;
+    const storage = await getStorage();
+    await storage.expireApprovals(storageTimestamp(new Date(Date.now() - expireAfterMinutes * 60 * 1000)));
+}
+
+/**
+ * Approval gate run before every tool call.
+ * @returns An MCP response telling the model the call is parked, or null if it may run now
+ */
+export async function requestApprovalIfRequired(tool: string, args: any) {
+    const config = loadConfig().approvals;
+    // A simulated call has no side effects, so there is nothing to approve
+    if (!config.enabled || isSimulating()) return null;
+
+    const rule = findApprovalRule(tool, args, config.rules);
+    if (!rule) return null;
+
+    const id = generateApprovalId();
+    const reason = rule.reason ?? `Matches approval rule for ${tool}`;
+    const storage = await getStorage();
+    const context = getAuditContext();
+    await storage.insertApproval({
+        id, tool, args: JSON.stringify(args ?? {}), reason,
+        session_id: context?.sessionId ?? null,
+        client_name: context?.clientName ?? null,
+    });
+
+    await logAudit(tool, args, { status: 'pending_approval', approvalId: id });
+
+    return toolResponse({
+        status: 'pending_approval',
+        approvalId: id,
+        tool,
+        reason,
+        expiresInMinutes: config.expireAfterMinutes,
+        message: `This call needs operator approval and has not run. Poll get_approval_status with approvalId "${id}" to get the outcome.`,
+    });
+}
+
+/**
+ * Fetch a single approval record
+ */
+export async function getApproval(id: string): Promise<ApprovalRecord | null> {
+    await expireStaleApprovals();
+    const storage = await getStorage();
+    const row = await storage.getApproval(id);
+    return row ? rowToRecord(row) : null;
+}
+
+/**
+ * List approvals, newest first
+ */
+export async function listApprovals(status: ApprovalStatus | 'all' = 'pending', limit = 50): Promise<ApprovalRecord[]> {
+    await expireStaleApprovals();
+    const storage = await getStorage();
+    const rows = await storage.listApprovals(status, limit);
+    return rows.map(rowToRecord);
+}
+
+/**
+ * Approve or reject a pending call. Approving runs the call and stores its result.
+ * Shared by the approve_call/reject_call tools and the local approval page.
+ */
+export async function decideApproval(
+    id: string,
+    decision: 'approve' | 'reject',
+    decidedBy: string,
+    note?: string
+): Promise<ApprovalRecord> {
+    await expireStaleApprovals();
+    const storage = await getStorage();
+
+    // Claim the row atomically so two approvers can't run the call twice
+    const claimed = await storage.updateApproval(id, {
+        status: decision === 'approve' ? 'approved' : 'rejected',
+        decided_at: storageTimestamp(),
+        decided_by: decidedBy,
+        note: note ?? null,
+    }, 'pending');
+
+    if (!claimed) {
+        const existing = await storage.getApproval(id);
+        throw existing
+            ? new ToolError('CONFLICT', `Approval ${id} is ${existing.status}, not pending`, { details: { status: existing.status } })
+            : new ToolError('NOT_FOUND', `Approval not found: ${id}`);
+    }
+
+    if (decision === 'approve') {
+        const row = (await storage.getApproval(id))!;
+        let status: ApprovalStatus = 'executed';
+        let result: any = null;
+        let error: string | null = null;
+
+        try {
+            if (!executor) {
+                throw new Error('No approval executor registered');
+            }
+            // Runs as its own audit call, with the decision as parent, in the connection that
+            // asked for it so its processes, browser pages and audit rows land there
+            const session = row.session_id ? { sessionId: row.session_id, clientName: row.client_name } : undefined;
+            result = await withAuditCall(() => executor!(row.tool, JSON.parse(row.args)), session);
+            if (result?.isError) status = 'failed';
+        } catch (e: any) {
+            status = 'failed';
+            error = e.message;
+        }
+
+        await storage.updateApproval(id, { status, result: result ? JSON.stringify(result) : null, error });
+    }
+
+    const record = (await getApproval(id))!;
+    await logAudit(decision === 'approve' ? 'approve_call' : 'reject_call',
+        { approvalId: id, decidedBy, note },
+        { tool: record.tool, status: record.status },
+        record.error ?? undefined);
+    return record;
+}
+
+/**
+ * List parked tool calls
+ */
+export async function handleListPendingApprovals(args: {
+    status?: ApprovalStatus | 'all';
+    limit?: number;
+}): Promise<ToolResponse> {
+    try {
+        const approvals = await listApprovals(args.status ?? 'pending', args.limit ?? 50);
+        return toolResponse({
+            count: approvals.length,
+            approvals: approvals.map(({ result, ...rest }) => rest),
+        });
+    } catch (error: any) {
+        await logAudit('list_pending_approvals', args, null, error.message);
+        return toolErrorResponse(error);
+    }
+}
+
+/**
+ * Poll the outcome of a parked call
+ */
+export async function handleGetApprovalStatus(args: {
+    approvalId: string;
+}): Promise<ToolResponse> {
+    try {
+        const record = await getApproval(args.approvalId);
+        if (!record) {
+            return toolErrorResponse(new ToolError('NOT_FOUND', `Approval not found: ${args.approvalId}`));
+        }
+        return toolResponse({ ...record });
+    } catch (error: any) {
+        await logAudit('get_approval_status', args, null, error.message);
+        return toolErrorResponse(error);
+    }
+}
+
+async function handleDecision(
+    tool: 'approve_call' | 'reject_call',
+    args: { approvalId: string; note?: string }
+): Promise<ToolResponse> {
+    try {
+        if (!loadConfig().approvals.allowToolDecisions) {
+            throw new ToolError('UNAVAILABLE', `${tool} is disabled (approvals.allowToolDecisions = false). Use the local approval page.`);
+        }
+        const record = await decideApproval(args.approvalId, tool === 'approve_call' ? 'approve' : 'reject', 'tool', args.note);
+        if (record.status === 'failed') {
+            return toolErrorResponse(new ToolError('TOOL_ERROR', `Approved call to ${record.tool} failed: ${record.error ?? 'the tool returned an error'}`, {
+                details: { approval: record },
+            }));
+        }
+        return toolResponse({ ...record });
+    } catch (error: any) {
+        await logAudit(tool, args, null, error.message);
+        return toolErrorResponse(error);
+    }
+}
+
+/**
+ * Approve a parked call and run it
+ */
+export async function handleApproveCall(args: { approvalId: string; note?: string }) {
+    return handleDecision('approve_call', args);
+}
+
+/**
+ * Reject a parked call
+ */
+export async function handleRejectCall(args: { approvalId: string; note?: string }) {
+    return handleDecision('reject_call', args);
+}
+
+// Tool definitions, collected by registry.ts
+export const APPROVAL_TOOLS: ToolDefinition[] = [
+    {
+        name: 'list_pending_approvals',
+        description: 'List tool calls parked for operator approval. Filter by status (default: pending).',
+        category: 'approvals',
+        schema: ListPendingApprovalsSchema,
+        outputSchema: {
+            count: z.number(),
+            approvals: z.array(z.object(ApprovalRecordOutput)),  // Without the stored result
+        },
+        handler: handleListPendingApprovals,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'get_approval_status',
+        description: 'Poll a parked call by approvalId. Returns its status and, once approved, the tool result.',
+        category: 'approvals',
+        schema: GetApprovalStatusSchema,
+        outputSchema: { ...ApprovalRecordOutput, result: z.unknown() },
+        handler: handleGetApprovalStatus,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'approve_call',
+        description: 'Approve a parked tool call. The call runs immediately and its result is stored.',
+        category: 'approvals',
+        schema: ApproveCallSchema,
+        outputSchema: { ...ApprovalRecordOutput, result: z.unknown() },
+        handler: handleApproveCall,
+        sideEffects: 'destructive',
+    },
+    {
+        name: 'reject_call',
+        description: 'Reject a parked tool call so it never runs.',
+        category: 'approvals',
+        schema: RejectCallSchema,
+        outputSchema: { ...ApprovalRecordOutput, result: z.unknown() },
+        handler: handleRejectCall,
+        sideEffects: 'write',
+    },
+];
@@ -4,6 +4,7 @@ import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import { handleBatchTools } from './batchDispatcher.js';
+import { withCallControl } from '../utils/callControl.js';
 
 // Test directory for file operations
 const TEST_DIR = path.join(os.tmpdir(), 'batch-dispatcher-test-' + Date.now());
@@ -134,7 +135,7 @@ describe('batchDispatcher', () => {
             
             assert.strictEqual(parsed.summary.failed, 1);
             assert.strictEqual(parsed.results[0].success, false);
-            assert.ok(parsed.results[0].error.includes('Unknown tool'));
+            assert.ok(parsed.results[0].error.message.includes('Unknown tool'));
         });
 
         it('should preserve operation labels in results', async () => {
@@ -211,5 +212,24 @@ describe('batchDispatcher', () => {
             
             assert.strictEqual(parsed.summary.executionMode, 'parallel');
         });
+
+        it('should stop remaining operations when the call is cancelled', async () => {
+            const controller = new AbortController();
+            const pending = withCallControl(() => handleBatchTools({
+                operations: [
+                    { tool: 'execute_code', args: { language: 'bash', code: 'sleep 10' } },
+                    { tool: 'list_directory', args: { path: TEST_DIR } }
+                ],
+                executionMode: 'sequential'
+            }), { signal: controller.signal });
+            setTimeout(() => controller.abort(), 200);
+
+            const parsed = JSON.parse((await pending).content[0].text);
+
+            assert.strictEqual(parsed.summary.cancelled, true);
+            assert.strictEqual(parsed.summary.successful, 0);
+            assert.strictEqual(parsed.results[0].error.code, 'CANCELLED');
+            assert.strictEqual(parsed.results[1].error.code, 'CANCELLED');
+        });
     });
 });
@@ -1,119 +1,10 @@
 import { getBatchSafetyLimits } from '../config.js';
-import { logAudit } from '../audit.js';
-import * as cliTools from './cli.js';
-import * as crudTools from './crud.js';
-import * as filesystemTools from './filesystem.js';
-import * as screenTools from './screen.js';
-import * as inputTools from './input.js';
-import * as windowTools from './window.js';
-import * as clipboardTools from './clipboard.js';
-import * as systemTools from './system.js';
-import * as diffTools from './diff/index.js';
-import * as sessionTools from './sessions.js';
-import * as configTools from './configTools.js';
-import * as analyticsTools from './analytics.js';
-import * as executeCodeTools from './executeCode.js';
-
-// Tool Registry - maps tool name to handler function
-// NOTE: Batch tools are excluded to avoid recursion
-type ToolHandler = (args: any) => Promise<any>;
-const TOOL_REGISTRY = new Map<string, ToolHandler>([
-    // CLI Tools (non-batch)
-    ['exec_cli', cliTools.handleExecCli],
-    ['read_file', cliTools.handleReadFile],
-    ['write_file', cliTools.handleWriteFile],
-    ['list_directory', cliTools.handleListDirectory],
-    ['str_replace', cliTools.handleStrReplace],
-    ['read_file_lines', cliTools.handleReadFileLines],
-    ['search_in_file', cliTools.handleSearchInFile],
-
-    // CRUD Tools (non-batch)
-    ['crud_create', crudTools.handleCrudCreate],
-    ['crud_read', crudTools.handleCrudRead],
-    ['crud_update', crudTools.handleCrudUpdate],
-    ['crud_delete', crudTools.handleCrudDelete],
-    ['crud_query', crudTools.handleCrudQuery],
-
-    // Filesystem Tools (non-batch)
-    ['copy_file', filesystemTools.handleCopyFile],
-    ['move_file', filesystemTools.handleMoveFile],
-    ['delete_file', filesystemTools.handleDeleteFile],
-    ['file_info', filesystemTools.handleFileInfo],
-    ['search_files', filesystemTools.handleSearchFiles],
-
-    // Screen Tools
-    ['screenshot', screenTools.handleScreenshot],
-    ['get_screen_info', screenTools.handleGetScreenInfo],
-    ['wait_for_screen_change', screenTools.handleWaitForScreenChange],
-    ['find_on_screen', screenTools.handleFindOnScreen],
-
-    // Input Tools (non-batch)
-    ['keyboard_type', inputTools.handleKeyboardType],
-    ['keyboard_press', inputTools.handleKeyboardPress],
-    ['keyboard_shortcut', inputTools.handleKeyboardShortcut],
-    ['mouse_move', inputTools.handleMouseMove],
-    ['mouse_click', inputTools.handleMouseClick],
-    ['mouse_drag', inputTools.handleMouseDrag],
-    ['mouse_scroll', inputTools.handleMouseScroll],
-    ['get_mouse_position', inputTools.handleGetMousePosition],
-
-    // Window Tools
-    ['list_windows', windowTools.handleListWindows],
-    ['get_active_window', windowTools.handleGetActiveWindow],
-    ['focus_window', windowTools.handleFocusWindow],
-    ['minimize_window', windowTools.handleMinimizeWindow],
-    ['maximize_window', windowTools.handleMaximizeWindow],
-    ['restore_window', windowTools.handleRestoreWindow],
-    ['close_window', windowTools.handleCloseWindow],
-    ['resize_window', windowTools.handleResizeWindow],
-    ['move_window', windowTools.handleMoveWindow],
-    ['launch_application', windowTools.handleLaunchApplication],
-    ['wait_for_window', windowTools.handleWaitForWindow],
-
-    // Clipboard Tools
-    ['clipboard_read', clipboardTools.handleClipboardRead],
-    ['clipboard_write', clipboardTools.handleClipboardWrite],
-    ['clipboard_clear', clipboardTools.handleClipboardClear],
-    ['clipboard_has_format', clipboardTools.handleClipboardHasFormat],
-
-    // System Tools
-    ['get_system_info', systemTools.handleGetSystemInfo],
-    ['list_processes', systemTools.handleListProcesses],
-    ['kill_process', systemTools.handleKillProcess],
-    ['get_environment', systemTools.handleGetEnvironment],
-    ['set_environment', systemTools.handleSetEnvironment],
-    ['get_network_info', systemTools.handleGetNetworkInfo],
-    ['wait', systemTools.handleWait],
-    ['notify', systemTools.handleNotify],
-
-    // Diff Editing Tools
-    ['edit_block', diffTools.handleEditBlock],
-    ['apply_diff', diffTools.handleApplyDiff],
-    ['get_diff_preview', diffTools.handleGetDiffPreview],
-    ['batch_edit_blocks', diffTools.handleBatchEditBlocksMcp],
-    ['write_from_line', diffTools.handleWriteFromLineMcp],
-
-    // Interactive Process Sessions
-    ['start_process', sessionTools.handleStartProcess],
-    ['interact_with_process', sessionTools.handleInteractWithProcess],
-    ['read_process_output', sessionTools.handleReadProcessOutput],
-    ['list_sessions', sessionTools.handleListSessions],
-    ['terminate_process', sessionTools.handleTerminateProcess],
-
-    // Configuration Management
-    ['get_config', configTools.handleGetConfig],
-    ['set_config_value', configTools.handleSetConfigValue],
-    ['reset_config', configTools.handleResetConfig],
-
-    // Analytics and Usage Stats
-    ['get_usage_stats', analyticsTools.handleGetUsageStats],
-    ['get_recent_tool_calls', analyticsTools.handleGetRecentToolCalls],
-    ['get_audit_log_stats', analyticsTools.handleGetAuditLogStats],
-    ['clear_old_logs', analyticsTools.handleClearOldLogs],
-
-    // Execute Code
-    ['execute_code', executeCodeTools.handleExecuteCode],
-]);
+import { logAudit, withAuditCall } from '../audit.js';
+import { observeToolCall, recordToolCall } from '../utils/metrics.js';
+import { CallCancelledError, isCancelled, reportProgress, whenCancelled, withoutProgress } from '../utils/callControl.js';
+import * as approvalTools from './approvals.js';
+import { getTool, getBatchableToolNames, checkToolCall, invokeTool } from './registry.js';
+import { ToolErrorEnvelope, ToolResponse, reportResponse, toToolError, withStructuredContent } from './toolResult.js';
 
 interface ToolOperation {
     tool: string;
@@ -138,8 +29,8 @@ interface BatchOperationResult {
     tool: string;
     label?: string;
     success: boolean;
-    result?: any;
-    error?: string;
+    result?: any;                 // The operation's structuredContent
+    error?: ToolErrorEnvelope;
     truncated?: boolean;
 }
 
@@ -164,14 +55,18 @@ class SafetyEnforcer {
      */
     static enforcePerOperationLimit(result: any, toolName: string, limits: any): any {
         // Truncate file read operations
-        if (toolName === 'read_file' && result?.content) {
+        if (toolName === 'read_file' && typeof result?.content === 'string') {
             const lines = result.content.split('\n');
             if (lines.length > limits.maxLinesPerFile) {
-                result.content = lines.slice(0, limits.maxLinesPerFile).join('\n');
-                result.truncated = true;
-                result.totalLines = lines.length;
-                result.shownLines = limits.maxLinesPerFile;
-                result.warning = `Truncated at ${limits.maxLinesPerFile} of ${lines.length} lines`;
+                const totalLines = result.totalLines ?? lines.length;
+                return {
+                    ...result,
+                    content: lines.slice(0, limits.maxLinesPerFile).join('\n'),
+                    truncated: true,
+                    totalLines,
+                    shownLines: limits.maxLinesPerFile,
+                    warning: `Truncated at ${limits.maxLinesPerFile} of ${totalLines} lines`,
+                };
             }
         }
         return result;
@@ -204,25 +99,64 @@ class SafetyEnforcer {
 /**
  * Dispatch a single tool call with timeout protection
  */
-async function dispatchToolCall(
+export async function dispatchToolCall(
     tool: string,
     args: any,
     timeout: number
-): Promise<any> {
-    const handler = TOOL_REGISTRY.get(tool);
-    if (!handler) {
+): Promise<ToolResponse> {
+    // batch_tools itself is not batchable, so batches can't recurse
+    const definition = getTool(tool);
+    if (!definition || definition.batchable === false) {
         throw new Error(
-            `Unknown tool: ${tool}. Available tools: ${Array.from(TOOL_REGISTRY.keys()).slice(0, 10).join(', ')}...`
+            `Unknown tool: ${tool}. Available tools: ${getBatchableToolNames().slice(0, 10).join(', ')}...`
         );
     }
 
-    // Race between handler execution and timeout
-    return await Promise.race([
-        handler(args),
-        new Promise((_, reject) =>
-            setTimeout(() => reject(new Error(`Operation timed out after ${timeout}ms`)), timeout)
-        )
-    ]);
+    // Each operation is its own audit call, with the batch_tools call as parent.
+    // It is cancelled with the batch but reports no progress of its own.
+    return withoutProgress(() => withAuditCall(async () => {
+        const invalid = await checkToolCall(tool, args);
+        if (invalid) {
+            return invalid;
+        }
+
+        // Calls needing operator approval are parked instead of run
+        const pending = await approvalTools.requestApprovalIfRequired(tool, args);
+        if (pending) {
+            recordToolCall(tool, 'pending_approval');
+            return pending;
+        }
+
+        // Race between handler execution, timeout and cancellation of the batch
+        return await observeToolCall(tool, () => Promise.race([
+            invokeTool(tool, args),
+            new Promise<never>((_, reject) =>
+                setTimeout(() => reject(new Error(`Operation timed out after ${timeout}ms`)), timeout)
+            ),
+            whenCancelled(),
+        ]));
+    }));
+}
+
+/**
+ * Run one operation of a batch. A failure is its error envelope; a success its structuredContent,
+ * with per-operation safety limits applied.
+ */
+async function runOperation(op: ToolOperation, index: number, timeout: number, limits: any): Promise<BatchOperationResult> {
+    const base = { index, tool: op.tool, label: op.label };
+    try {
+        const response = withStructuredContent(await dispatchToolCall(op.tool, op.args, timeout));
+        if (response.isError) {
+            return { ...base, success: false, error: response.structuredContent!.error as ToolErrorEnvelope };
+        }
+        return {
+            ...base,
+            success: true,
+            result: SafetyEnforcer.enforcePerOperationLimit(response.structuredContent, op.tool, limits),
+        };
+    } catch (error: any) {
+        return { ...base, success: false, error: toToolError(error) };
+    }
 }
 
 /**
@@ -247,31 +181,30 @@ export async function handleBatchTools(args: BatchToolsArgs) {
     const timeout = args.timeout || limits.timeout;
 
     const results: BatchOperationResult[] = [];
+    const total = args.operations.length;
+    let completed = 0;
+    const operationDone = () => {
+        completed++;
+        reportProgress(completed, total, `${completed}/${total} operations done`);
+    };
+    const notStarted = (op: ToolOperation, index: number): BatchOperationResult => ({
+        index,
+        tool: op.tool,
+        label: op.label,
+        success: false,
+        error: toToolError(new CallCancelledError()),
+    });
 
     if (executionMode === 'parallel') {
         // Parallel execution - all operations run concurrently
         const promises = args.operations.map(async (op, index) => {
+            if (isCancelled()) {
+                return notStarted(op, index);
+            }
             try {
-                let result = await dispatchToolCall(op.tool, op.args, timeout);
-
-                // Apply per-operation safety limits (truncation, etc.)
-                result = SafetyEnforcer.enforcePerOperationLimit(result, op.tool, limits);
-
-                return {
-                    index,
-                    tool: op.tool,
-                    label: op.label,
-                    success: true,
-                    result
-                };
-            } catch (error: any) {
-                return {
-                    index,
-                    tool: op.tool,
-                    label: op.label,
-                    success: false,
-                    error: error.message
-                };
+                return await runOperation(op, index, timeout, limits);
+            } finally {
+                operationDone();
             }
         });
 
@@ -281,32 +214,20 @@ export async function handleBatchTools(args: BatchToolsArgs) {
         // Sequential execution - operations run one after another
         for (let index = 0; index < args.operations.length; index++) {
             const op = args.operations[index];
-            try {
-                let result = await dispatchToolCall(op.tool, op.args, timeout);
 
-                // Apply per-operation safety limits
-                result = SafetyEnforcer.enforcePerOperationLimit(result, op.tool, limits);
+            // Operations after a cancellation are reported but never started
+            if (isCancelled()) {
+                results.push(notStarted(op, index));
+                continue;
+            }
 
-                results.push({
-                    index,
-                    tool: op.tool,
-                    label: op.label,
-                    success: true,
-                    result
-                });
-            } catch (error: any) {
-                results.push({
-                    index,
-                    tool: op.tool,
-                    label: op.label,
-                    success: false,
-                    error: error.message
-                });
+            const result = await runOperation(op, index, timeout, limits);
+            results.push(result);
+            operationDone();
 
-                // Stop on error if requested (sequential mode only)
-                if (stopOnError) {
-                    break;
-                }
+            // Stop on error if requested (sequential mode only)
+            if (!result.success && stopOnError) {
+                break;
             }
         }
     }
@@ -318,6 +239,8 @@ export async function handleBatchTools(args: BatchToolsArgs) {
     const failed = results.filter(r => !r.success).length;
     const elapsed = Date.now() - startTime;
 
+    const cancelled = isCancelled();
+
     // Log audit trail
     await logAudit('batch_tools', {
         count: args.operations.length,
@@ -326,24 +249,20 @@ export async function handleBatchTools(args: BatchToolsArgs) {
     }, {
         successful,
         failed,
-        elapsed
+        elapsed,
+        ...(cancelled && { cancelled })
     });
 
-    return {
-        content: [{
-            type: 'text',
-            text: JSON.stringify({
-                summary: {
-                    total: args.operations.length,
-                    successful,
-                    failed,
-                    elapsed_ms: elapsed,
-                    executionMode,
-                    warnings
-                },
-                results: results.sort((a, b) => a.index - b.index)
-            }, null, 2)
-        }],
-        isError: failed > 0 && successful === 0,
-    };
+    return reportResponse({
+        summary: {
+            total: args.operations.length,
+            successful,
+            failed,
+            elapsed_ms: elapsed,
+            executionMode,
+            ...(cancelled && { cancelled }),
+            warnings
+        },
+        results: results.sort((a, b) => a.index - b.index)
+    }, failed > 0 && successful === 0 ? `All ${failed} items failed` : null);
 }
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { handleBatchTools } from './batchDispatcher.js';
+import { ToolDefinition } from './toolDefinition.js';
+import { BatchReportOutput, ToolErrorOutput } from './toolResult.js';
 
 /**
  * Schema for batch_tools - generic dispatcher for batching ANY tool operations
@@ -30,5 +32,38 @@ export const BatchToolsSchema = {
     }).optional().describe('Override default safety limits for this batch. Configure globally in ~/.mcp/config.json')
 };
 
+/**
+ * structuredContent of batch_tools: each operation's own structuredContent or error envelope
+ */
+export const BatchToolsOutput = {
+    summary: BatchReportOutput.summary.extend({
+        executionMode: z.enum(['parallel', 'sequential']),
+        cancelled: z.boolean().optional(),
+        warnings: z.array(z.string()),
+    }),
+    results: z.array(z.object({
+        index: z.number(),
+        tool: z.string(),
+        label: z.string().optional(),
+        success: z.boolean(),
+        result: z.record(z.unknown()).optional(),
+        error: ToolErrorOutput.error.optional(),
+    })),
+};
+
 // Re-export handler
 export { handleBatchTools };
+
+// Tool definitions, collected by registry.ts
+export const BATCH_TOOLS: ToolDefinition[] = [
+    {
+        name: 'batch_tools',
+        description: 'Execute multiple tool operations in parallel or sequential mode. Can batch ANY tool type (read_file, exec_cli, create_directory, etc.) with unified safety limits. Each operation: {tool: "tool_name", args: {...}}. Enforces: 500 lines/file, 50 ops max, 200KB aggregate (configurable via ~/.mcp/config.json). Use executionMode="parallel" (default) for concurrent execution or "sequential" for ordered execution with stopOnError support.',
+        category: 'batch',
+        schema: BatchToolsSchema,
+        outputSchema: BatchToolsOutput,
+        handler: handleBatchTools,
+        sideEffects: 'destructive',
+        batchable: false,
+    },
+];
@@ -1,23 +1,33 @@
 // Browser Manager
-// Singleton managing the active provider and fallback logic
+// One manager per client connection, managing the active provider and fallback logic
 
 import { BrowserProvider } from './interfaces.js';
 import { PuppeteerProvider } from './providers/puppeteerProvider.js';
 import { PlaywrightProvider } from './providers/playwrightProvider.js';
 import { logAudit } from '../../audit.js';
+import { connectionScoped } from '../../utils/connectionScope.js';
+import { ToolError } from '../toolResult.js';
 
 export class BrowserManager {
-    private static instance: BrowserManager;
+    // Each connection drives its own browser, closed when it disconnects
+    private static instances = connectionScoped(() => new BrowserManager(), manager => manager.close());
     private provider: BrowserProvider | null = null;
     private activeEngine: 'puppeteer' | 'playwright' | null = null;
 
     private constructor() {}
 
+    /**
+     * The manager of the connection the running tool call came from
+     */
     static getInstance(): BrowserManager {
-        if (!BrowserManager.instance) {
-            BrowserManager.instance = new BrowserManager();
-        }
-        return BrowserManager.instance;
+        return BrowserManager.instances.get();
+    }
+
+    /**
+     * Managers of every connection
+     */
+    static getAllInstances(): BrowserManager[] {
+        return BrowserManager.instances.all();
     }
 
     async launch(engine: 'auto' | 'puppeteer' | 'playwright' = 'auto', headless: boolean = true) {
@@ -65,7 +75,7 @@ export class BrowserManager {
 
     getProvider(): BrowserProvider {
         if (!this.provider) {
-            throw new Error('Browser not started. Call launch_browser first.');
+            throw new ToolError('UNAVAILABLE', 'Browser not started. Call launch_browser first.');
         }
         return this.provider;
     }
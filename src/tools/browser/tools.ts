@@ -4,6 +4,9 @@ import { z } from 'zod';
 import { BrowserManager } from './browserManager.js';
 import { logAudit } from '../../audit.js';
 import { loadConfig } from '../../config.js';
+import { isSimulating, simulatedResponse } from '../../utils/simulate.js';
+import { ToolDefinition } from '../toolDefinition.js';
+import { toolErrorResponse, toolResponse } from '../toolResult.js';
 
 const config = loadConfig();
 
@@ -72,8 +75,45 @@ export const ScreenshotPageSchema = {};
 
 export const GetConsoleLogsSchema = {};
 
+// Output schemas: structuredContent of a successful call
+export const LaunchBrowserOutput = {
+    success: z.literal(true),
+    engine: z.enum(['puppeteer', 'playwright']),
+    mode: z.enum(['headless', 'headful']),
+};
+
+export const CloseBrowserOutput = { closed: z.literal(true) };
+
+export const NavigatePageOutput = { url: z.string() };
+
+export const GetPageContentOutput = {
+    format: z.enum(['html', 'text', 'markdown']),
+    content: z.string(),
+    truncated: z.boolean(),
+    originalLength: z.number(),
+};
+
+export const ClickElementOutput = { clicked: z.literal(true), selector: z.string() };
+
+export const TypeTextOutput = { typed: z.literal(true), selector: z.string() };
+
+export const EvalJsOutput = {
+    result: z.unknown().describe('The value the script returned; null when it was truncated'),
+    truncated: z.boolean(),
+    length: z.number().describe('Characters in the JSON-encoded result'),
+};
+
+// The screenshot itself is the image content block
+export const ScreenshotPageOutput = { mimeType: z.string() };
+
+export const GetConsoleLogsOutput = {
+    total: z.number(),
+    returned: z.number(),
+    truncated: z.boolean(),
+    logs: z.array(z.string()).optional(),
+};
+
 // Handlers
-const manager = BrowserManager.getInstance();
 
 export async function handleLaunchBrowser(args: { 
     engine?: 'auto' | 'puppeteer' | 'playwright'; 
@@ -82,60 +122,56 @@ export async function handleLaunchBrowser(args: {
     try {
         const engine = args.engine || 'auto';
         const headless = args.headless !== false;
-        
-        await manager.launch(engine, headless);
-        const activeEngine = manager.getActiveEngine();
+
+        if (isSimulating()) {
+            return await simulatedResponse('launch_browser', args, {
+                action: 'launch', engine, mode: headless ? 'headless' : 'headful',
+            });
+        }
+
+        await BrowserManager.getInstance().launch(engine, headless);
+        const activeEngine = BrowserManager.getInstance().getActiveEngine();
 
         await logAudit('launch_browser', args, { success: true, engine: activeEngine });
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    success: true,
-                    engine: activeEngine,
-                    mode: headless ? 'headless' : 'headful'
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            success: true,
+            engine: activeEngine,
+            mode: headless ? 'headless' : 'headful'
+        });
     } catch (error: any) {
         await logAudit('launch_browser', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleCloseBrowser() {
     try {
-        await manager.close();
+        if (isSimulating()) {
+            return await simulatedResponse('close_browser', {}, { action: 'close' });
+        }
+
+        await BrowserManager.getInstance().close();
         await logAudit('close_browser', {}, 'closed');
-        return {
-            content: [{ type: 'text', text: 'Browser closed' }],
-        };
+        return toolResponse({ closed: true }, 'Browser closed');
     } catch (error: any) {
         await logAudit('close_browser', {}, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleNavigatePage(args: { url: string }) {
     try {
-        await manager.getProvider().navigateTo(args.url);
+        if (isSimulating()) {
+            return await simulatedResponse('navigate_page', args, { action: 'navigate', url: args.url });
+        }
+
+        await BrowserManager.getInstance().getProvider().navigateTo(args.url);
         await logAudit('navigate_page', args, 'success');
-        return {
-            content: [{ type: 'text', text: `Navigated to ${args.url}` }],
-        };
+        return toolResponse({ url: args.url }, `Navigated to ${args.url}`);
     } catch (error: any) {
         await logAudit('navigate_page', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -144,101 +180,99 @@ export async function handleGetPageContent(args: { format?: 'html' | 'text' | 'm
         const format = args.format || 'text';
         const outputConfig = config.cliOutput ?? { maxOutputChars: 50000, warnAtChars: 10000, truncateMode: 'both' as const };
 
-        const rawContent = await manager.getProvider().getContent(format);
+        const rawContent = await BrowserManager.getInstance().getProvider().getContent(format);
         const result = truncateOutput(rawContent, outputConfig.maxOutputChars, outputConfig.truncateMode);
 
         await logAudit('get_page_content', args, `retrieved ${rawContent.length} chars${result.truncated ? ' (truncated)' : ''}`);
 
-        return {
-            content: [{
-                type: 'text',
-                text: result.truncated
-                    ? `${result.text}\n\n📄 Page content truncated from ${result.originalLength.toLocaleString()} characters.`
-                    : result.text
-            }],
-        };
+        return toolResponse({
+            format,
+            content: result.text,
+            truncated: result.truncated,
+            originalLength: result.originalLength,
+        }, result.truncated
+            ? `${result.text}\n\n📄 Page content truncated from ${result.originalLength.toLocaleString()} characters.`
+            : result.text);
     } catch (error: any) {
         await logAudit('get_page_content', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleClickElement(args: { selector: string }) {
     try {
-        await manager.getProvider().click(args.selector);
+        if (isSimulating()) {
+            return await simulatedResponse('click_element', args, { action: 'click', selector: args.selector });
+        }
+
+        await BrowserManager.getInstance().getProvider().click(args.selector);
         await logAudit('click_element', args, 'success');
-        return {
-            content: [{ type: 'text', text: `Clicked ${args.selector}` }],
-        };
+        return toolResponse({ clicked: true, selector: args.selector }, `Clicked ${args.selector}`);
     } catch (error: any) {
         await logAudit('click_element', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleTypeText(args: { selector: string; text: string }) {
     try {
-        await manager.getProvider().type(args.selector, args.text);
+        if (isSimulating()) {
+            return await simulatedResponse('type_text', { ...args, text: '***' }, {
+                action: 'type', selector: args.selector, length: args.text.length,
+            });
+        }
+
+        await BrowserManager.getInstance().getProvider().type(args.selector, args.text);
         await logAudit('type_text', { ...args, text: '***' }, 'success'); // Redact text in logs
-        return {
-            content: [{ type: 'text', text: `Typed into ${args.selector}` }],
-        };
+        return toolResponse({ typed: true, selector: args.selector }, `Typed into ${args.selector}`);
     } catch (error: any) {
         await logAudit('type_text', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleEvalJs(args: { script: string }) {
     try {
+        if (isSimulating()) {
+            return await simulatedResponse('evaluate_js', { scriptLength: args.script.length }, {
+                action: 'evaluate', script: args.script,
+            });
+        }
+
         const outputConfig = config.cliOutput ?? { maxOutputChars: 50000, warnAtChars: 10000, truncateMode: 'both' as const };
 
-        const result = await manager.getProvider().evaluate(args.script);
+        const result = await BrowserManager.getInstance().getProvider().evaluate(args.script);
         const rawOutput = JSON.stringify(result, null, 2);
         const truncated = truncateOutput(rawOutput, outputConfig.maxOutputChars, outputConfig.truncateMode);
 
         await logAudit('evaluate_js', { scriptLength: args.script.length }, `result ${rawOutput.length} chars${truncated.truncated ? ' (truncated)' : ''}`);
 
-        return {
-            content: [{
-                type: 'text',
-                text: truncated.text
-            }],
-        };
+        // A truncated result is only available as text
+        return toolResponse({
+            result: truncated.truncated ? null : result ?? null,
+            truncated: truncated.truncated,
+            length: rawOutput.length,
+        }, truncated.text);
     } catch (error: any) {
         await logAudit('evaluate_js', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleScreenshotPage() {
     try {
-        const base64 = await manager.getProvider().screenshot();
+        const base64 = await BrowserManager.getInstance().getProvider().screenshot();
         await logAudit('screenshot_page', {}, 'success');
         return {
             content: [
-                { type: 'text', text: 'Screenshot captured (base64 data)' },
-                { type: 'image', data: base64, mimeType: 'image/png' }
+                { type: 'text' as const, text: 'Screenshot captured (base64 data)' },
+                { type: 'image' as const, data: base64, mimeType: 'image/png' }
             ],
+            structuredContent: { mimeType: 'image/png' },
         };
     } catch (error: any) {
         await logAudit('screenshot_page', {}, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -247,7 +281,7 @@ export async function handleGetConsoleLogs() {
         const outputConfig = config.cliOutput ?? { maxOutputChars: 50000, warnAtChars: 10000, truncateMode: 'both' as const };
         const maxLogs = 500; // Limit number of log entries
 
-        let logs = await manager.getProvider().getConsoleLogs();
+        let logs = await BrowserManager.getInstance().getProvider().getConsoleLogs();
         const totalLogs = logs.length;
 
         // Limit number of log entries
@@ -260,21 +294,104 @@ export async function handleGetConsoleLogs() {
 
         await logAudit('get_console_logs', {}, `retrieved ${totalLogs} logs${logs.length < totalLogs ? ` (showing last ${logs.length})` : ''}`);
 
-        return {
-            content: [{
-                type: 'text',
-                text: truncated.truncated
-                    ? `${truncated.text}\n\n📋 Console logs: ${totalLogs} total, showing last ${logs.length}`
-                    : (totalLogs > logs.length
-                        ? `${truncated.text}\n\n📋 Showing last ${logs.length} of ${totalLogs} console logs`
-                        : truncated.text)
-            }],
-        };
+        // Logs cut by the character limit are only available as text
+        return toolResponse({
+            total: totalLogs,
+            returned: logs.length,
+            truncated: truncated.truncated,
+            ...(!truncated.truncated && { logs }),
+        }, truncated.truncated
+            ? `${truncated.text}\n\n📋 Console logs: ${totalLogs} total, showing last ${logs.length}`
+            : (totalLogs > logs.length
+                ? `${truncated.text}\n\n📋 Showing last ${logs.length} of ${totalLogs} console logs`
+                : truncated.text));
     } catch (error: any) {
         await logAudit('get_console_logs', {}, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
+
+// Tool definitions, collected by registry.ts
+export const BROWSER_TOOLS: ToolDefinition[] = [
+    {
+        name: 'launch_browser',
+        description: 'Launch a browser instance (Puppeteer or Playwright). Toggles headless mode.',
+        category: 'browser',
+        schema: LaunchBrowserSchema,
+        outputSchema: LaunchBrowserOutput,
+        handler: handleLaunchBrowser,
+        sideEffects: 'write',
+    },
+    {
+        name: 'close_browser',
+        description: 'Close the browser instance and cleanup.',
+        category: 'browser',
+        schema: CloseBrowserSchema,
+        outputSchema: CloseBrowserOutput,
+        handler: handleCloseBrowser,
+        sideEffects: 'write',
+    },
+    {
+        name: 'navigate_page',
+        description: 'Navigate to a URL and wait for load.',
+        category: 'browser',
+        schema: NavigatePageSchema,
+        outputSchema: NavigatePageOutput,
+        handler: handleNavigatePage,
+        sideEffects: 'write',
+    },
+    {
+        name: 'get_page_content',
+        description: 'Get page content in HTML, text, or markdown format.',
+        category: 'browser',
+        schema: GetPageContentSchema,
+        outputSchema: GetPageContentOutput,
+        handler: handleGetPageContent,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'click_element',
+        description: 'Click an element identified by CSS/XPath selector.',
+        category: 'browser',
+        schema: ClickElementSchema,
+        outputSchema: ClickElementOutput,
+        handler: handleClickElement,
+        sideEffects: 'write',
+    },
+    {
+        name: 'type_text',
+        description: 'Type text into an input field.',
+        category: 'browser',
+        schema: TypeTextSchema,
+        outputSchema: TypeTextOutput,
+        handler: handleTypeText,
+        sideEffects: 'write',
+    },
+    {
+        name: 'evaluate_js',
+        description: 'Execute JavaScript code in the page context.',
+        category: 'browser',
+        schema: EvalJsSchema,
+        outputSchema: EvalJsOutput,
+        handler: handleEvalJs,
+        sideEffects: 'write',
+    },
+    {
+        name: 'screenshot_page',
+        description: 'Capture a full-page screenshot (returns base64).',
+        category: 'browser',
+        schema: ScreenshotPageSchema,
+        outputSchema: ScreenshotPageOutput,
+        handler: handleScreenshotPage,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'get_console_logs',
+        description: 'Retrieve captured console logs from the browser.',
+        category: 'browser',
+        schema: GetConsoleLogsSchema,
+        outputSchema: GetConsoleLogsOutput,
+        handler: handleGetConsoleLogs,
+        sideEffects: 'read-only',
+    },
+];
@@ -4,6 +4,13 @@ import fs from 'fs';
 import path from 'path';
 import { loadConfig } from '../config.js';
 import { logAudit } from '../audit.js';
+import { enforcePathPolicy, PathPolicyError, PathPolicyViolation, pathPolicyErrorResponse } from '../utils/pathPolicy.js';
+import { enforceCommandPolicy, CommandPolicyViolation, commandPolicyErrorResponse } from '../utils/commandPolicy.js';
+import { isSimulating, planCommand, planFileWrite, simulatedResponse } from '../utils/simulate.js';
+import { redactToolOutput } from '../utils/redact.js';
+import { CallCancelledError, getCallSignal, reportProgress } from '../utils/callControl.js';
+import { ToolDefinition } from './toolDefinition.js';
+import { ToolError, ToolResponse, reportResponse, toolErrorResponse, toolResponse, toToolError, BatchReportOutput } from './toolResult.js';
 
 const config = loadConfig();
 
@@ -58,25 +65,43 @@ export const ExecCliSchema = {
     cwd: z.string().optional().describe('Current working directory for the command'),
 };
 
-export async function handleExecCli(args: { command: string; cwd?: string }) {
+export async function handleExecCli(args: { command: string; cwd?: string }): Promise<ToolResponse> {
     const { command, cwd } = args;
     const outputConfig = config.cliOutput ?? { maxOutputChars: 50000, warnAtChars: 10000, truncateMode: 'both' as const };
 
     if (isBlocked(command)) {
         const error = 'Command blocked by safety policy';
         await logAudit('exec_cli', args, null, error);
-        throw new Error(error);
+        return toolErrorResponse(new ToolError('BLOCKED', error));
     }
 
-    return new Promise((resolve, reject) => {
+    try {
+        await enforceCommandPolicy('exec_cli', command);
+    } catch (error: any) {
+        return commandPolicyErrorResponse(error);
+    }
+
+    if (cwd) {
+        try {
+            await enforcePathPolicy('exec_cli', cwd, 'read');
+        } catch (error: any) {
+            return pathPolicyErrorResponse(error);
+        }
+    }
+
+    if (isSimulating()) {
+        return simulatedResponse('exec_cli', args, planCommand(command, cwd));
+    }
+
+    return new Promise(resolve => {
         exec(command, {
             cwd: cwd || process.cwd(),
             timeout: config.cliPolicy.timeoutMs,
             maxBuffer: 10 * 1024 * 1024,  // 10MB buffer to capture output before truncating
         }, async (error, stdout, stderr) => {
-            // Apply output truncation to prevent context stuffing
-            const stdoutResult = truncateOutput(stdout || '', outputConfig.maxOutputChars, outputConfig.truncateMode);
-            const stderrResult = truncateOutput(stderr || '', Math.floor(outputConfig.maxOutputChars / 2), outputConfig.truncateMode);
+            // Redact before truncating so a secret is never cut in half
+            const stdoutResult = truncateOutput(redactToolOutput(stdout || ''), outputConfig.maxOutputChars, outputConfig.truncateMode);
+            const stderrResult = truncateOutput(redactToolOutput(stderr || ''), Math.floor(outputConfig.maxOutputChars / 2), outputConfig.truncateMode);
 
             const result = {
                 stdout: stdoutResult.text,
@@ -94,10 +119,7 @@ export async function handleExecCli(args: { command: string; cwd?: string }) {
 
             if (error && !stdout && !stderr) {
                 // If there was an error executing (e.g. command not found) and no output
-                resolve({
-                    content: [{ type: 'text', text: `Error: ${error.message}` }],
-                    isError: true
-                });
+                resolve(toolErrorResponse(error));
                 return;
             }
 
@@ -107,13 +129,23 @@ export async function handleExecCli(args: { command: string; cwd?: string }) {
                 warning = `\n💡 Large output (${stdoutResult.originalLength.toLocaleString()} chars). Consider using --quiet or filtering output to preserve context.`;
             }
 
-            resolve({
-                content: [
-                    { type: 'text', text: stdoutResult.text + warning },
-                    { type: 'text', text: stderrResult.text ? `STDERR:\n${stderrResult.text}` : '' }
-                ],
-                isError: !!error
-            });
+            const content: ToolResponse['content'] = [
+                { type: 'text', text: stdoutResult.text + warning },
+                { type: 'text', text: stderrResult.text ? `STDERR:\n${stderrResult.text}` : '' }
+            ];
+            if (error) {
+                // A non-zero exit keeps its output as text; the envelope carries it as details
+                const message = error.killed
+                    ? `Command timed out after ${config.cliPolicy.timeoutMs}ms`
+                    : `Command exited with code ${result.exitCode}`;
+                resolve({
+                    content,
+                    structuredContent: { error: { ...toToolError(error), message, details: result } },
+                    isError: true,
+                });
+                return;
+            }
+            resolve({ content, structuredContent: result });
         });
     });
 }
@@ -206,11 +238,73 @@ export const BatchSearchInFilesSchema = {
     maxMatchesPerFile: z.number().optional().describe('Maximum matches per file (default: 50)'),
 };
 
+// Output schemas: structuredContent of a successful call
+export const ExecCliOutput = {
+    stdout: z.string(),
+    stderr: z.string(),
+    exitCode: z.number(),
+    truncated: z.object({
+        stdout: z.boolean(),
+        stderr: z.boolean(),
+        originalStdoutLength: z.number(),
+        originalStderrLength: z.number(),
+    }),
+};
+
+export const ReadFileOutput = {
+    path: z.string(),
+    content: z.string().describe('File contents, cut at fileReading.maxLines'),
+    totalLines: z.number(),
+    truncated: z.boolean(),
+};
+
+export const WriteFileOutput = {
+    path: z.string(),
+    bytesWritten: z.number(),
+};
+
+export const ListDirectoryOutput = {
+    path: z.string(),
+    entries: z.array(z.object({
+        name: z.string(),
+        type: z.enum(['file', 'directory']),
+    })),
+};
+
+export const StrReplaceOutput = {
+    path: z.string(),
+    replacements: z.number(),
+};
+
+export const ReadFileLinesOutput = {
+    path: z.string(),
+    totalLines: z.number(),
+    startLine: z.number(),
+    endLine: z.number(),
+    linesReturned: z.number(),
+    content: z.string(),
+};
+
+const LineSchema = z.object({ lineNumber: z.number(), line: z.string() });
+
+export const SearchInFileOutput = {
+    path: z.string(),
+    pattern: z.string(),
+    totalLines: z.number(),
+    matchCount: z.number(),
+    truncated: z.boolean(),
+    matches: z.array(LineSchema.extend({
+        context: z.object({ before: z.array(LineSchema), after: z.array(LineSchema) }).optional(),
+    })),
+};
+
 export async function handleReadFile(args: { path: string }) {
     try {
         const config = loadConfig();
         const maxLines = config.fileReading?.maxLines ?? 500;
         const warnAtLines = config.fileReading?.warnAtLines ?? 100;
+
+        await enforcePathPolicy('read_file', args.path, 'read');
         
         const content = fs.readFileSync(args.path, 'utf-8');
         const lines = content.split('\n');
@@ -236,15 +330,17 @@ export async function handleReadFile(args: { path: string }) {
         }
         
         await logAudit('read_file', { path: args.path, totalLines, truncated: totalLines > maxLines }, 'success');
-        return {
-            content: [{ type: 'text', text: output + warning }],
-        };
+        const redacted = redactToolOutput(output);
+        return toolResponse({
+            path: args.path,
+            content: redacted,
+            totalLines,
+            truncated: totalLines > maxLines,
+        }, redacted + warning);
     } catch (error: any) {
+        if (error instanceof PathPolicyError) return pathPolicyErrorResponse(error);
         await logAudit('read_file', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error reading file: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -257,6 +353,8 @@ export async function handleReadFileLines(args: {
     includeLineNumbers?: boolean;
 }) {
     try {
+        await enforcePathPolicy('read_file_lines', args.path, 'read');
+
         const content = fs.readFileSync(args.path, 'utf-8');
         const allLines = content.split('\n');
         const totalLines = allLines.length;
@@ -278,19 +376,14 @@ export async function handleReadFileLines(args: {
                 endLine = Math.min(totalLines, args.offset);
             } else {
                 // offset = 0, read nothing
-                return {
-                    content: [{
-                        type: 'text',
-                        text: JSON.stringify({
-                            path: args.path,
-                            totalLines,
-                            startLine: 0,
-                            endLine: 0,
-                            linesReturned: 0,
-                            content: ''
-                        }, null, 2)
-                    }],
-                };
+                return toolResponse({
+                    path: args.path,
+                    totalLines,
+                    startLine: 0,
+                    endLine: 0,
+                    linesReturned: 0,
+                    content: ''
+                });
             }
         } else {
             // Use startLine/endLine parameters
@@ -299,10 +392,7 @@ export async function handleReadFileLines(args: {
         }
 
         if (startLine > totalLines) {
-            return {
-                content: [{ type: 'text', text: `Error: startLine ${startLine} exceeds total lines ${totalLines}` }],
-                isError: true,
-            };
+            return toolErrorResponse(new ToolError('INVALID_ARGUMENTS', `startLine ${startLine} exceeds total lines ${totalLines}`));
         }
 
         // Extract the requested lines (convert to 0-indexed)
@@ -321,25 +411,18 @@ export async function handleReadFileLines(args: {
 
         await logAudit('read_file_lines', { path: args.path, startLine, endLine, offset: args.offset }, `read ${selectedLines.length} lines`);
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    path: args.path,
-                    totalLines,
-                    startLine,
-                    endLine,
-                    linesReturned: selectedLines.length,
-                    content: output
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            path: args.path,
+            totalLines,
+            startLine,
+            endLine,
+            linesReturned: selectedLines.length,
+            content: redactToolOutput(output)
+        });
     } catch (error: any) {
+        if (error instanceof PathPolicyError) return pathPolicyErrorResponse(error);
         await logAudit('read_file_lines', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error reading file: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -353,6 +436,8 @@ export async function handleSearchInFile(args: {
     maxMatches?: number;
 }) {
     try {
+        await enforcePathPolicy('search_in_file', args.path, 'read');
+
         const content = fs.readFileSync(args.path, 'utf-8');
         const lines = content.split('\n');
         const totalLines = lines.length;
@@ -373,10 +458,7 @@ export async function handleSearchInFile(args: {
                 regex = new RegExp(escaped, caseSensitive ? 'g' : 'gi');
             }
         } catch (regexError: any) {
-            return {
-                content: [{ type: 'text', text: `Error: Invalid regex pattern: ${regexError.message}` }],
-                isError: true,
-            };
+            return toolErrorResponse(new ToolError('INVALID_ARGUMENTS', `Invalid regex: ${regexError.message}`));
         }
 
         interface Match {
@@ -425,65 +507,61 @@ export async function handleSearchInFile(args: {
 
         await logAudit('search_in_file', { path: args.path, pattern: args.pattern }, `found ${matches.length} matches`);
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    path: args.path,
-                    pattern: args.pattern,
-                    totalLines,
-                    matchCount: matches.length,
-                    truncated: matches.length >= maxMatches,
-                    matches
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            path: args.path,
+            pattern: args.pattern,
+            totalLines,
+            matchCount: matches.length,
+            truncated: matches.length >= maxMatches,
+            matches
+        });
     } catch (error: any) {
+        if (error instanceof PathPolicyError) return pathPolicyErrorResponse(error);
         await logAudit('search_in_file', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error searching file: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleWriteFile(args: { path: string; content: string }) {
     try {
+        await enforcePathPolicy('write_file', args.path, 'write');
+
+        if (isSimulating()) {
+            return simulatedResponse('write_file', { path: args.path }, planFileWrite(args.path, args.content));
+        }
+
         const dir = path.dirname(args.path);
         if (!fs.existsSync(dir)) {
             fs.mkdirSync(dir, { recursive: true });
         }
         fs.writeFileSync(args.path, args.content, 'utf-8');
         await logAudit('write_file', args, 'success');
-        return {
-            content: [{ type: 'text', text: `Successfully wrote to ${args.path}` }],
-        };
+        return toolResponse({ path: args.path, bytesWritten: Buffer.byteLength(args.content, 'utf-8') }, `Successfully wrote to ${args.path}`);
     } catch (error: any) {
+        if (error instanceof PathPolicyError) return pathPolicyErrorResponse(error);
         await logAudit('write_file', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error writing file: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleListDirectory(args: { path: string }) {
     try {
+        await enforcePathPolicy('list_directory', args.path, 'read');
+
         const entries = fs.readdirSync(args.path, { withFileTypes: true });
         const formatted = entries.map(entry => {
             return `${entry.isDirectory() ? '[DIR]' : '[FILE]'} ${entry.name}`;
         }).join('\n');
 
         await logAudit('list_directory', args, 'success');
-        return {
-            content: [{ type: 'text', text: formatted }],
-        };
+        return toolResponse({
+            path: args.path,
+            entries: entries.map(entry => ({ name: entry.name, type: entry.isDirectory() ? 'directory' : 'file' })),
+        }, formatted);
     } catch (error: any) {
+        if (error instanceof PathPolicyError) return pathPolicyErrorResponse(error);
         await logAudit('list_directory', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error listing directory: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -496,20 +574,16 @@ export async function handleStrReplace(args: { path: string; oldText?: string; n
         const newStr = args.newText ?? args.new_str ?? '';
         
         if (!oldStr) {
-            return {
-                content: [{ type: 'text', text: 'Error: oldText parameter is required' }],
-                isError: true,
-            };
+            return toolErrorResponse(new ToolError('INVALID_ARGUMENTS', 'oldText parameter is required'));
         }
 
+        await enforcePathPolicy('str_replace', args.path, 'write');
+
         // Read the file
         if (!fs.existsSync(args.path)) {
             const error = `File not found: ${args.path}`;
             await logAudit('str_replace', args, null, error);
-            return {
-                content: [{ type: 'text', text: `Error: ${error}` }],
-                isError: true,
-            };
+            return toolErrorResponse(new ToolError('NOT_FOUND', error));
         }
 
         const content = fs.readFileSync(args.path, 'utf-8');
@@ -520,36 +594,31 @@ export async function handleStrReplace(args: { path: string; oldText?: string; n
         if (occurrences === 0) {
             const error = `String not found in file: "${oldStr.substring(0, 50)}${oldStr.length > 50 ? '...' : ''}"`;
             await logAudit('str_replace', args, null, error);
-            return {
-                content: [{ type: 'text', text: `Error: ${error}` }],
-                isError: true,
-            };
+            return toolErrorResponse(new ToolError('NOT_FOUND', error));
         }
 
         if (occurrences > 1) {
             const error = `String appears ${occurrences} times in file. The string to replace must be unique. Add more context to make it unique.`;
             await logAudit('str_replace', args, null, error);
-            return {
-                content: [{ type: 'text', text: `Error: ${error}` }],
-                isError: true,
-            };
+            return toolErrorResponse(new ToolError('CONFLICT', error, { details: { occurrences } }));
         }
 
         // Replace the string
         const newContent = content.replace(oldStr, newStr);
+
+        if (isSimulating()) {
+            return simulatedResponse('str_replace', { path: args.path }, planFileWrite(args.path, newContent));
+        }
+
         fs.writeFileSync(args.path, newContent, 'utf-8');
 
         await logAudit('str_replace', { path: args.path, oldText_length: oldStr.length, newText_length: newStr.length }, 'success');
 
-        return {
-            content: [{ type: 'text', text: `Successfully replaced string in ${args.path}` }],
-        };
+        return toolResponse({ path: args.path, replacements: 1 }, `Successfully replaced string in ${args.path}`);
     } catch (error: any) {
+        if (error instanceof PathPolicyError) return pathPolicyErrorResponse(error);
         await logAudit('str_replace', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -559,6 +628,7 @@ interface BatchResult {
     success: boolean;
     result?: any;
     error?: string;
+    policyViolation?: PathPolicyViolation | CommandPolicyViolation;
 }
 
 export async function handleBatchExecCli(args: { commands: Array<{ command: string; cwd?: string }> }) {
@@ -567,6 +637,8 @@ export async function handleBatchExecCli(args: { commands: Array<{ command: stri
     // For batch operations, use smaller limits per command to prevent aggregate overflow
     const perCommandLimit = Math.floor(outputConfig.maxOutputChars / Math.max(args.commands.length, 1));
     const effectiveLimit = Math.max(perCommandLimit, 5000); // At least 5KB per command
+    const total = args.commands.length;
+    let finished = 0;
 
     const results = await Promise.all(
         args.commands.map(async (cmd, index): Promise<BatchResult> => {
@@ -575,18 +647,40 @@ export async function handleBatchExecCli(args: { commands: Array<{ command: stri
                 return { index, success: false, error: 'Command blocked by safety policy' };
             }
 
-            return new Promise((resolve) => {
+            try {
+                await enforceCommandPolicy('batch_exec_cli', cmd.command);
+            } catch (error: any) {
+                return { index, success: false, error: error.message, policyViolation: error.violation };
+            }
+
+            if (cmd.cwd) {
+                try {
+                    await enforcePathPolicy('batch_exec_cli', cmd.cwd, 'read');
+                } catch (error: any) {
+                    return { index, success: false, error: error.message, policyViolation: error.violation };
+                }
+            }
+
+            if (isSimulating()) {
+                return { index, success: true, result: { simulated: true, ...planCommand(cmd.command, cmd.cwd) } };
+            }
+
+            return new Promise<BatchResult>((resolve) => {
+                // Cancelling the call kills commands still running
                 exec(cmd.command, {
                     cwd: cmd.cwd || process.cwd(),
                     timeout: config.cliPolicy.timeoutMs,
                     maxBuffer: 10 * 1024 * 1024,
+                    signal: getCallSignal(),
                 }, async (error, stdout, stderr) => {
-                    if (error && !stdout && !stderr) {
+                    if (error?.name === 'AbortError') {
+                        resolve({ index, success: false, error: new CallCancelledError().message });
+                    } else if (error && !stdout && !stderr) {
                         resolve({ index, success: false, error: error.message });
                     } else {
                         // Apply truncation to batch results
-                        const stdoutResult = truncateOutput(stdout || '', effectiveLimit, outputConfig.truncateMode);
-                        const stderrResult = truncateOutput(stderr || '', Math.floor(effectiveLimit / 2), outputConfig.truncateMode);
+                        const stdoutResult = truncateOutput(redactToolOutput(stdout || ''), effectiveLimit, outputConfig.truncateMode);
+                        const stderrResult = truncateOutput(redactToolOutput(stderr || ''), Math.floor(effectiveLimit / 2), outputConfig.truncateMode);
                         resolve({
                             index,
                             success: !error,
@@ -600,7 +694,10 @@ export async function handleBatchExecCli(args: { commands: Array<{ command: stri
                     }
                 });
             });
-        })
+        }).map(result => result.finally(() => {
+            finished++;
+            reportProgress(finished, total, `${finished}/${total} commands finished`);
+        }))
     );
 
     const successful = results.filter(r => r.success).length;
@@ -609,16 +706,10 @@ export async function handleBatchExecCli(args: { commands: Array<{ command: stri
 
     await logAudit('batch_exec_cli', { count: args.commands.length }, { successful, failed, elapsed });
 
-    return {
-        content: [{
-            type: 'text',
-            text: JSON.stringify({
-                summary: { total: args.commands.length, successful, failed, elapsed_ms: elapsed },
-                results: results.sort((a, b) => a.index - b.index)
-            }, null, 2)
-        }],
-        isError: failed > 0 && successful === 0,
-    };
+    return reportResponse({
+        summary: { total: args.commands.length, successful, failed, elapsed_ms: elapsed },
+        results: results.sort((a, b) => a.index - b.index)
+    }, failed > 0 && successful === 0 ? `All ${failed} items failed` : null);
 }
 
 export async function handleBatchReadFiles(args: { paths: string[] }) {
@@ -631,6 +722,8 @@ export async function handleBatchReadFiles(args: { paths: string[] }) {
     const results = await Promise.all(
         args.paths.map(async (filePath, index): Promise<BatchResult> => {
             try {
+                await enforcePathPolicy('batch_read_files', filePath, 'read');
+
                 const content = fs.readFileSync(filePath, 'utf-8');
                 const lines = content.split('\n');
                 const totalLines = lines.length;
@@ -648,7 +741,7 @@ export async function handleBatchReadFiles(args: { paths: string[] }) {
                     success: true,
                     result: {
                         path: filePath,
-                        content: output,
+                        content: redactToolOutput(output),
                         totalLines,
                         truncated,
                         ...(truncated && {
@@ -657,7 +750,7 @@ export async function handleBatchReadFiles(args: { paths: string[] }) {
                     }
                 };
             } catch (error: any) {
-                return { index, success: false, error: `${filePath}: ${error.message}` };
+                return { index, success: false, error: `${filePath}: ${error.message}`, policyViolation: error.violation };
             }
         })
     );
@@ -681,23 +774,17 @@ export async function handleBatchReadFiles(args: { paths: string[] }) {
 
     await logAudit('batch_read_files', { count: args.paths.length }, { successful, failed, elapsed });
 
-    return {
-        content: [{
-            type: 'text',
-            text: JSON.stringify({
-                summary: {
-                    total: args.paths.length,
-                    successful,
-                    failed,
-                    elapsed_ms: elapsed,
-                    totalChars,
-                    warnings
-                },
-                results: results.sort((a, b) => a.index - b.index)
-            }, null, 2)
-        }],
-        isError: failed > 0 && successful === 0,
-    };
+    return reportResponse({
+        summary: {
+            total: args.paths.length,
+            successful,
+            failed,
+            elapsed_ms: elapsed,
+            totalChars,
+            warnings
+        },
+        results: results.sort((a, b) => a.index - b.index)
+    }, failed > 0 && successful === 0 ? `All ${failed} items failed` : null);
 }
 
 export async function handleBatchWriteFiles(args: { files: Array<{ path: string; content: string }> }) {
@@ -706,6 +793,12 @@ export async function handleBatchWriteFiles(args: { files: Array<{ path: string;
     const results = await Promise.all(
         args.files.map(async (file, index): Promise<BatchResult> => {
             try {
+                await enforcePathPolicy('batch_write_files', file.path, 'write');
+
+                if (isSimulating()) {
+                    return { index, success: true, result: { simulated: true, ...planFileWrite(file.path, file.content) } };
+                }
+
                 const dir = path.dirname(file.path);
                 if (!fs.existsSync(dir)) {
                     fs.mkdirSync(dir, { recursive: true });
@@ -713,7 +806,7 @@ export async function handleBatchWriteFiles(args: { files: Array<{ path: string;
                 fs.writeFileSync(file.path, file.content, 'utf-8');
                 return { index, success: true, result: { path: file.path, written: true } };
             } catch (error: any) {
-                return { index, success: false, error: `${file.path}: ${error.message}` };
+                return { index, success: false, error: `${file.path}: ${error.message}`, policyViolation: error.violation };
             }
         })
     );
@@ -724,16 +817,10 @@ export async function handleBatchWriteFiles(args: { files: Array<{ path: string;
 
     await logAudit('batch_write_files', { count: args.files.length }, { successful, failed, elapsed });
 
-    return {
-        content: [{
-            type: 'text',
-            text: JSON.stringify({
-                summary: { total: args.files.length, successful, failed, elapsed_ms: elapsed },
-                results: results.sort((a, b) => a.index - b.index)
-            }, null, 2)
-        }],
-        isError: failed > 0,
-    };
+    return reportResponse({
+        summary: { total: args.files.length, successful, failed, elapsed_ms: elapsed },
+        results: results.sort((a, b) => a.index - b.index)
+    }, failed > 0 ? `${failed} items failed` : null);
 }
 
 export async function handleBatchListDirectories(args: { paths: string[] }) {
@@ -742,6 +829,8 @@ export async function handleBatchListDirectories(args: { paths: string[] }) {
     const results = await Promise.all(
         args.paths.map(async (dirPath, index): Promise<BatchResult> => {
             try {
+                await enforcePathPolicy('batch_list_directories', dirPath, 'read');
+
                 const entries = fs.readdirSync(dirPath, { withFileTypes: true });
                 const formatted = entries.map(entry => ({
                     name: entry.name,
@@ -749,7 +838,7 @@ export async function handleBatchListDirectories(args: { paths: string[] }) {
                 }));
                 return { index, success: true, result: { path: dirPath, entries: formatted } };
             } catch (error: any) {
-                return { index, success: false, error: `${dirPath}: ${error.message}` };
+                return { index, success: false, error: `${dirPath}: ${error.message}`, policyViolation: error.violation };
             }
         })
     );
@@ -760,16 +849,10 @@ export async function handleBatchListDirectories(args: { paths: string[] }) {
 
     await logAudit('batch_list_directories', { count: args.paths.length }, { successful, failed, elapsed });
 
-    return {
-        content: [{
-            type: 'text',
-            text: JSON.stringify({
-                summary: { total: args.paths.length, successful, failed, elapsed_ms: elapsed },
-                results: results.sort((a, b) => a.index - b.index)
-            }, null, 2)
-        }],
-        isError: failed > 0 && successful === 0,
-    };
+    return reportResponse({
+        summary: { total: args.paths.length, successful, failed, elapsed_ms: elapsed },
+        results: results.sort((a, b) => a.index - b.index)
+    }, failed > 0 && successful === 0 ? `All ${failed} items failed` : null);
 }
 
 // Batch str_replace handler - supports multiple replacements with replaceAll option
@@ -792,6 +875,8 @@ export async function handleBatchStrReplace(args: {
         const replaceAll = op.replaceAll ?? false;
 
         try {
+            await enforcePathPolicy('batch_str_replace', op.path, 'write');
+
             // Check file exists
             if (!fs.existsSync(op.path)) {
                 const result: BatchResult = { index, success: false, error: `File not found: ${op.path}` };
@@ -836,6 +921,15 @@ export async function handleBatchStrReplace(args: {
                 newContent = content.replace(op.oldText, newStr);
             }
 
+            if (isSimulating()) {
+                results.push({
+                    index,
+                    success: true,
+                    result: { simulated: true, replacements: replaceAll ? occurrences : 1, ...planFileWrite(op.path, newContent) }
+                });
+                continue;
+            }
+
             fs.writeFileSync(op.path, newContent, 'utf-8');
 
             results.push({
@@ -850,7 +944,7 @@ export async function handleBatchStrReplace(args: {
             });
 
         } catch (error: any) {
-            const result: BatchResult = { index, success: false, error: `${op.path}: ${error.message}` };
+            const result: BatchResult = { index, success: false, error: `${op.path}: ${error.message}`, policyViolation: error.violation };
             results.push(result);
             if (stopOnError) break;
         }
@@ -865,22 +959,16 @@ export async function handleBatchStrReplace(args: {
 
     await logAudit('batch_str_replace', { count: args.replacements.length }, { successful, failed, totalReplacements, elapsed });
 
-    return {
-        content: [{
-            type: 'text',
-            text: JSON.stringify({
-                summary: {
-                    total: args.replacements.length,
-                    successful,
-                    failed,
-                    totalReplacements,
-                    elapsed_ms: elapsed
-                },
-                results: results.sort((a, b) => a.index - b.index)
-            }, null, 2)
-        }],
-        isError: failed > 0 && successful === 0,
-    };
+    return reportResponse({
+        summary: {
+            total: args.replacements.length,
+            successful,
+            failed,
+            totalReplacements,
+            elapsed_ms: elapsed
+        },
+        results: results.sort((a, b) => a.index - b.index)
+    }, failed > 0 && successful === 0 ? `All ${failed} items failed` : null);
 }
 
 // Levenshtein distance for fuzzy matching
@@ -995,6 +1083,7 @@ export async function handleBatchSearchInFiles(args: {
         pattern: string;
         success: boolean;
         error?: string;
+        policyViolation?: PathPolicyViolation;
         totalLines?: number;
         matchCount?: number;
         matches?: Array<{
@@ -1012,6 +1101,8 @@ export async function handleBatchSearchInFiles(args: {
     const results = await Promise.all(
         args.searches.map(async (search): Promise<FileSearchResult> => {
             try {
+                await enforcePathPolicy('batch_search_in_files', search.path, 'read');
+
                 const content = fs.readFileSync(search.path, 'utf-8');
                 const lines = content.split('\n');
                 const totalLines = lines.length;
@@ -1109,7 +1200,8 @@ export async function handleBatchSearchInFiles(args: {
                     path: search.path,
                     pattern: search.pattern,
                     success: false,
-                    error: error.message
+                    error: error.message,
+                    policyViolation: error.violation
                 };
             }
         })
@@ -1127,21 +1219,136 @@ export async function handleBatchSearchInFiles(args: {
         fuzzyThreshold: isFuzzy ? fuzzyThreshold : undefined
     }, { successful, failed, totalMatches, elapsed });
 
-    return {
-        content: [{
-            type: 'text',
-            text: JSON.stringify({
-                summary: {
-                    total: args.searches.length,
-                    successful,
-                    failed,
-                    totalMatches,
-                    searchMode: isFuzzy ? 'fuzzy' : (isRegex ? 'regex' : 'literal'),
-                    elapsed_ms: elapsed
-                },
-                results
-            }, null, 2)
-        }],
-        isError: failed > 0 && successful === 0,
-    };
+    return reportResponse({
+        summary: {
+            total: args.searches.length,
+            successful,
+            failed,
+            totalMatches,
+            searchMode: isFuzzy ? 'fuzzy' : (isRegex ? 'regex' : 'literal'),
+            elapsed_ms: elapsed
+        },
+        results
+    }, failed > 0 && successful === 0 ? `All ${failed} items failed` : null);
 }
+
+// Tool definitions, collected by registry.ts
+export const CLI_TOOLS: ToolDefinition[] = [
+    {
+        name: 'exec_cli',
+        description: 'Execute shell commands on the host system (YOLO mode)',
+        category: 'cli',
+        schema: ExecCliSchema,
+        outputSchema: ExecCliOutput,
+        handler: handleExecCli,
+        sideEffects: 'destructive',
+    },
+    {
+        name: 'read_file',
+        description: 'Read file contents. ⚠️ CONTEXT WARNING: Truncates at 500 lines. For large files or targeted access, PREFER these surgical alternatives:\n• read_file_lines - Read specific line ranges (use offset: -50 for last 50 lines)\n• search_in_file - Find patterns with context lines\n• edit_block - Search/replace without full read\nFull file reads consume context rapidly. Be surgical.',
+        category: 'files',
+        schema: ReadFileSchema,
+        outputSchema: ReadFileOutput,
+        handler: handleReadFile,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'write_file',
+        description: 'Write content to a file',
+        category: 'files',
+        schema: WriteFileSchema,
+        outputSchema: WriteFileOutput,
+        handler: handleWriteFile,
+        sideEffects: 'write',
+    },
+    {
+        name: 'list_directory',
+        description: 'List contents of a directory',
+        category: 'files',
+        schema: ListDirectorySchema,
+        outputSchema: ListDirectoryOutput,
+        handler: handleListDirectory,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'str_replace',
+        description: 'Replace a unique string in a file with another string. The string to replace must appear exactly once in the file.',
+        category: 'files',
+        schema: StrReplaceSchema,
+        outputSchema: StrReplaceOutput,
+        handler: handleStrReplace,
+        sideEffects: 'write',
+    },
+    {
+        name: 'read_file_lines',
+        description: 'Read specific lines from a file (token-efficient). Returns line range with optional line numbers. Use this instead of read_file when you only need a portion of a large file.',
+        category: 'files',
+        schema: ReadFileLinesSchema,
+        outputSchema: ReadFileLinesOutput,
+        handler: handleReadFileLines,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'search_in_file',
+        description: 'Search for text or regex patterns within a file. Returns matching lines with optional context. More efficient than reading entire file when looking for specific content.',
+        category: 'files',
+        schema: SearchInFileSchema,
+        outputSchema: SearchInFileOutput,
+        handler: handleSearchInFile,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'batch_exec_cli',
+        description: 'Execute multiple shell commands in parallel.',
+        category: 'cli',
+        schema: BatchExecCliSchema,
+        outputSchema: BatchReportOutput,
+        handler: handleBatchExecCli,
+        sideEffects: 'destructive',
+    },
+    {
+        name: 'batch_read_files',
+        description: 'Read multiple files in parallel.',
+        category: 'files',
+        schema: BatchReadFilesSchema,
+        outputSchema: BatchReportOutput,
+        handler: handleBatchReadFiles,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'batch_write_files',
+        description: 'Write multiple files in parallel.',
+        category: 'files',
+        schema: BatchWriteFilesSchema,
+        outputSchema: BatchReportOutput,
+        handler: handleBatchWriteFiles,
+        sideEffects: 'write',
+    },
+    {
+        name: 'batch_list_directories',
+        description: 'List multiple directories in parallel.',
+        category: 'files',
+        schema: BatchListDirectoriesSchema,
+        outputSchema: BatchReportOutput,
+        handler: handleBatchListDirectories,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'batch_str_replace',
+        description: 'Replace strings across multiple files in parallel. Supports replaceAll option to replace multiple occurrences per file.',
+        category: 'files',
+        schema: BatchStrReplaceSchema,
+        outputSchema: BatchReportOutput,
+        handler: handleBatchStrReplace,
+        sideEffects: 'write',
+    },
+    {
+        name: 'batch_search_in_files',
+        description: 'Search for patterns across multiple files in parallel. Supports regex, literal, and fuzzy/approximate matching with configurable similarity threshold.',
+        category: 'files',
+        schema: BatchSearchInFilesSchema,
+        outputSchema: BatchReportOutput,
+        handler: handleBatchSearchInFiles,
+        sideEffects: 'read-only',
+    },
+];
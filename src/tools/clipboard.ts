@@ -6,6 +6,10 @@ import fs from 'fs';
 import path from 'path';
 import { logAudit } from '../audit.js';
 import { loadConfig } from '../config.js';
+import { isSimulating, simulatedResponse } from '../utils/simulate.js';
+import { ToolDefinition } from './toolDefinition.js';
+import { toolErrorResponse, toolResponse } from './toolResult.js';
+import { BackendRequirement } from '../utils/capabilities.js';
 
 const execAsync = promisify(exec);
 const platform = os.platform();
@@ -27,6 +31,30 @@ export const ClipboardHasFormatSchema = {
     format: z.enum(['text', 'html', 'image', 'files']).describe('Format to check for'),
 };
 
+// Output schemas: structuredContent of a successful call
+export const ClipboardReadOutput = {
+    format: z.enum(['text', 'html', 'image']),
+    hasContent: z.boolean(),
+    content: z.string().nullable().describe('Base64 for images'),
+    length: z.number(),
+    truncated: z.object({ originalLength: z.number(), returnedLength: z.number() }).optional(),
+};
+
+export const ClipboardWriteOutput = {
+    written: z.literal(true),
+    format: z.enum(['text', 'html']),
+    length: z.number(),
+};
+
+export const ClipboardClearOutput = {
+    cleared: z.literal(true),
+};
+
+export const ClipboardHasFormatOutput = {
+    format: z.enum(['text', 'html', 'image', 'files']),
+    available: z.boolean(),
+};
+
 // Tool handlers
 export async function handleClipboardRead(args: { format?: 'text' | 'html' | 'image' }) {
     try {
@@ -98,24 +126,16 @@ export async function handleClipboardRead(args: { format?: 'text' | 'html' | 'im
 
         await logAudit('clipboard_read', args, content ? `success${truncated ? ' (truncated)' : ''}` : 'empty');
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    format,
-                    hasContent: !!content,
-                    content: content || null,
-                    length: originalLength,
-                    truncated: truncated ? { originalLength, returnedLength: content?.length } : undefined
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            format,
+            hasContent: !!content,
+            content: content || null,
+            length: originalLength,
+            truncated: truncated ? { originalLength, returnedLength: content?.length } : undefined
+        });
     } catch (error: any) {
         await logAudit('clipboard_read', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -123,6 +143,12 @@ export async function handleClipboardWrite(args: { content: string; format?: 'te
     try {
         const format = args.format || 'text';
 
+        if (isSimulating()) {
+            return await simulatedResponse('clipboard_write', { format, length: args.content.length }, {
+                action: 'write', format, length: args.content.length,
+            });
+        }
+
         if (platform === 'win32') {
             if (format === 'text') {
                 // Use stdin to handle special characters
@@ -155,27 +181,23 @@ export async function handleClipboardWrite(args: { content: string; format?: 'te
 
         await logAudit('clipboard_write', { format, length: args.content.length }, 'success');
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    written: true,
-                    format,
-                    length: args.content.length
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            written: true,
+            format,
+            length: args.content.length
+        });
     } catch (error: any) {
         await logAudit('clipboard_write', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleClipboardClear() {
     try {
+        if (isSimulating()) {
+            return await simulatedResponse('clipboard_clear', {}, { action: 'clear' });
+        }
+
         if (platform === 'win32') {
             await execAsync('powershell -Command "Set-Clipboard -Value $null"', { timeout: 5000 });
         } else if (platform === 'darwin') {
@@ -190,15 +212,10 @@ export async function handleClipboardClear() {
 
         await logAudit('clipboard_clear', {}, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ cleared: true }, null, 2) }],
-        };
+        return toolResponse({ cleared: true });
     } catch (error: any) {
         await logAudit('clipboard_clear', {}, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -226,7 +243,7 @@ export async function handleClipboardHasFormat(args: { format: 'text' | 'html' |
             if (args.format === 'text') {
                 try {
                     const result = await handleClipboardRead({ format: 'text' });
-                    hasFormat = !!(result.content[0] as any).text?.includes('"hasContent": true');
+                    hasFormat = result.structuredContent?.hasContent === true;
                 } catch {
                     hasFormat = false;
                 }
@@ -235,17 +252,56 @@ export async function handleClipboardHasFormat(args: { format: 'text' | 'html' |
 
         await logAudit('clipboard_has_format', args, hasFormat);
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({ format: args.format, available: hasFormat }, null, 2)
-            }],
-        };
+        return toolResponse({ format: args.format, available: hasFormat });
     } catch (error: any) {
         await logAudit('clipboard_has_format', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
+
+// Backends each platform's implementation shells out to
+const CLIPBOARD_BACKENDS: BackendRequirement = { linux: [['display'], ['xclip', 'xsel']], win32: [['powershell']] };
+
+// Tool definitions, collected by registry.ts
+export const CLIPBOARD_TOOLS: ToolDefinition[] = [
+    {
+        name: 'clipboard_read',
+        description: 'Read clipboard contents (text, HTML, or image as base64).',
+        category: 'clipboard',
+        schema: ClipboardReadSchema,
+        outputSchema: ClipboardReadOutput,
+        handler: handleClipboardRead,
+        sideEffects: 'read-only',
+        requires: CLIPBOARD_BACKENDS,
+    },
+    {
+        name: 'clipboard_write',
+        description: 'Write text or HTML to clipboard.',
+        category: 'clipboard',
+        schema: ClipboardWriteSchema,
+        outputSchema: ClipboardWriteOutput,
+        handler: handleClipboardWrite,
+        sideEffects: 'write',
+        requires: CLIPBOARD_BACKENDS,
+    },
+    {
+        name: 'clipboard_clear',
+        description: 'Clear the clipboard.',
+        category: 'clipboard',
+        schema: ClipboardClearSchema,
+        outputSchema: ClipboardClearOutput,
+        handler: handleClipboardClear,
+        sideEffects: 'write',
+        requires: CLIPBOARD_BACKENDS,
+    },
+    {
+        name: 'clipboard_has_format',
+        description: 'Check if clipboard contains a specific format.',
+        category: 'clipboard',
+        schema: ClipboardHasFormatSchema,
+        outputSchema: ClipboardHasFormatOutput,
+        handler: handleClipboardHasFormat,
+        sideEffects: 'read-only',
+        requires: CLIPBOARD_BACKENDS,
+    },
+];
@@ -0,0 +1,99 @@
+/**
+ * Tests for the configuration tools
+ */
+
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+// Keep the config file and audit database in a throwaway home
+const tempHome = fs.mkdtempSync(path.join(os.tmpdir(), 'config-tools-test-'));
+const originalHome = process.env.HOME;
+process.env.HOME = tempHome;
+process.env.USERPROFILE = tempHome;
+
+const { loadConfig, saveConfig, getConfigPath } = await import('../config.js');
+const { handleGetConfig, handleSetConfigValue, handleResetConfig, handleSetSimulateMode } = await import('./configTools.js');
+const { isSimulating } = await import('../utils/simulate.js');
+const { getStorage } = await import('../storage/storage.js');
+
+describe('config tools', () => {
+    after(() => {
+        process.env.HOME = originalHome;
+        process.env.USERPROFILE = originalHome;
+        fs.rmSync(tempHome, { recursive: true, force: true });
+    });
+
+    it('refuses to change the policy sections', async () => {
+        const response = await handleSetConfigValue({ key: 'filesystemPolicy.allowedRoots', value: ['/'] });
+        const error = response.structuredContent!.error as any;
+        assert.strictEqual(error.code, 'PERMISSION_DENIED');
+        assert.strictEqual(error.details.section, 'filesystemPolicy');
+        assert.ok(!fs.existsSync(getConfigPath()), 'nothing was written');
+
+        for (const key of ['cliPolicy', 'approvals.enabled', 'redaction.enabled', 'simulate.enabled']) {
+            assert.strictEqual(((await handleSetConfigValue({ key, value: false })).structuredContent!.error as any).code, 'PERMISSION_DENIED', key);
+        }
+        assert.strictEqual(((await handleResetConfig({ section: 'cliPolicy' })).structuredContent!.error as any).code, 'PERMISSION_DENIED');
+    });
+
+    it('refuses to expose the server or move its storage', async () => {
+        for (const [key, value] of [
+            ['transports.http.enabled', true], ['transports.http.host', '0.0.0.0'], ['transports.http.bearerToken', ''],
+            ['metrics.host', '0.0.0.0'], ['storage.path', '/tmp/elsewhere.db'],
+        ] as const) {
+            assert.strictEqual(((await handleSetConfigValue({ key, value })).structuredContent!.error as any).code, 'PERMISSION_DENIED', key);
+        }
+        for (const section of ['transports', 'metrics', 'storage']) {
+            assert.strictEqual(((await handleResetConfig({ section })).structuredContent!.error as any).code, 'PERMISSION_DENIED', section);
+        }
+        assert.ok(!fs.existsSync(getConfigPath()), 'nothing was written');
+    });
+
+    it('lets set_simulate_mode add simulation but never remove the configured one', async () => {
+        const config = loadConfig();
+        const denied = async (args: { enabled: boolean; persist?: boolean }) =>
+            ((await handleSetSimulateMode(args)).structuredContent!.error as any)?.code;
+
+        assert.strictEqual(await denied({ enabled: true, persist: true }), 'PERMISSION_DENIED');
+        assert.strictEqual(loadConfig().simulate.enabled, false, 'nothing was written');
+
+        assert.deepStrictEqual((await handleSetSimulateMode({ enabled: true })).structuredContent, { simulating: true, previous: false });
+        saveConfig({ ...config, simulate: { ...config.simulate, enabled: true } });
+        assert.strictEqual(await denied({ enabled: false }), 'PERMISSION_DENIED');
+        assert.strictEqual(isSimulating(), true);
+
+        saveConfig(config);
+        assert.deepStrictEqual((await handleSetSimulateMode({ enabled: false })).structuredContent, { simulating: false, previous: true });
+    });
+
+    it('resets everything but the policy sections', async () => {
+        const config = loadConfig();
+        saveConfig({ ...config, crud: { ...config.crud, defaultLimit: 5 }, cliPolicy: { ...config.cliPolicy, mode: 'restricted' } });
+
+        const response = await handleResetConfig({});
+        assert.ok(!response.isError);
+        assert.strictEqual(loadConfig().crud.defaultLimit, 1000);
+        assert.strictEqual(loadConfig().cliPolicy.mode, 'restricted');
+    });
+
+    it('masks bearer tokens in what it returns and logs', async () => {
+        const config = loadConfig();
+        saveConfig({ ...config, transports: { ...config.transports, http: { ...config.transports.http, bearerToken: 'old-http-token' } } });
+
+        const got = await handleGetConfig({});
+        assert.ok(!JSON.stringify(got).includes('old-http-token'));
+        assert.match((got.structuredContent!.config as any).transports.http.bearerToken, /^\[REDACTED:bearerToken:/);
+
+        // Refused, but the attempt is still logged
+        const set = await handleSetConfigValue({ key: 'transports.http.bearerToken', value: 'new-http-token' });
+        assert.ok(set.isError);
+        assert.strictEqual(loadConfig().transports.http.bearerToken, 'old-http-token');
+        const [row] = await (await getStorage()).queryAuditRows({ tool: 'set_config_value', order: 'desc', limit: 1 });
+        for (const text of [JSON.stringify(set), row.args!]) {
+            assert.ok(!text.includes('old-http-token') && !text.includes('new-http-token'), text);
+        }
+    });
+});
@@ -2,8 +2,14 @@
 // Get and set runtime configuration values
 
 import { z } from 'zod';
-import { loadConfig, getConfigPath, updateConfigValue, getDefaultConfig, Config } from '../config.js';
+import { loadConfig, getConfigPath, updateConfigValue, getDefaultConfig, Config, OPERATOR_ONLY_SECTIONS } from '../config.js';
 import { logAudit } from '../audit.js';
+import { isSimulating, setSimulating } from '../utils/simulate.js';
+import { redactValue } from '../utils/redact.js';
+import { getActiveProfile, setActiveProfile, listProfileNames } from '../utils/toolProfiles.js';
+import { ToolDefinition } from './toolDefinition.js';
+import { ToolError, ToolResponse, toolErrorResponse, toolResponse } from './toolResult.js';
+import { listToolDescriptors } from './registry.js';
 
 // Schemas
 export const GetConfigSchema = {
@@ -11,20 +17,87 @@ export const GetConfigSchema = {
 };
 
 export const SetConfigValueSchema = {
-    key: z.string().describe('Dot-notation path to the config value (e.g., "cliPolicy.timeoutMs", "crud.defaultLimit")'),
-    value: z.any().describe('New value to set. Type must match the existing value type.'),
+    key: z.string().describe('Dot-notation path to the config value (e.g., "crud.defaultLimit", "cliOutput.maxOutputChars")'),
+    value: z.any().refine(value => value !== undefined, 'Required').describe('New value to set. Type must match the existing value type.'),
 };
 
 export const ResetConfigSchema = {
     section: z.string().optional().describe('Section to reset to defaults. Leave empty to reset all.'),
 };
 
+export const SetSimulateModeSchema = {
+    enabled: z.boolean().describe('true to simulate side-effecting tools, false to run them for real'),
+    persist: z.boolean().optional().describe('Refused: simulate.enabled in the config file can only be changed by the operator'),
+};
+
+export const SetToolProfileSchema = {
+    profile: z.string().describe('Profile to switch to: "all", a built-in profile (coding, desktop, browser, readonly) or one from toolProfiles.profiles'),
+};
+
+// Output schemas: structuredContent of a successful call
+// With a section: section and values. Without: configPath, config and defaults.
+export const GetConfigOutput = {
+    section: z.string().optional(),
+    values: z.unknown().optional(),
+    configPath: z.string().optional(),
+    config: z.record(z.unknown()).optional(),
+    defaults: z.record(z.unknown()).optional(),
+};
+
+export const SetConfigValueOutput = {
+    key: z.string(),
+    oldValue: z.unknown(),
+    newValue: z.unknown(),
+    currentConfig: z.record(z.unknown()),
+};
+
+export const ResetConfigOutput = {
+    reset: z.string().describe('The section reset, or "all"'),
+    kept: z.array(z.string()).describe('Operator-only sections left as they were'),
+    newConfig: z.record(z.unknown()),
+};
+
+export const SetSimulateModeOutput = {
+    simulating: z.boolean(),
+    previous: z.boolean(),
+};
+
+export const SetToolProfileOutput = {
+    profile: z.string(),
+    previous: z.string(),
+    availableProfiles: z.array(z.string()),
+    tools: z.array(z.string()),
+};
+
+/**
+ * Refuse changes to the operator-only sections; the model must not loosen its own limits or expose the server
+ */
+function assertToolWritable(section: string): void {
+    if ((OPERATOR_ONLY_SECTIONS as readonly string[]).includes(section)) {
+        throw new ToolError('PERMISSION_DENIED', `${section} can only be changed by the operator, in ${getConfigPath()}`, { details: { section } });
+    }
+}
+
+// Masked by the config tools even if left out of redaction.sensitiveKeys: they guard the HTTP endpoints
+const CONFIG_SECRET_KEYS = ['bearerToken'];
+
+/**
+ * A config value as the model may see it, with values under sensitive keys replaced by placeholders.
+ * Given the value's dot-notation key, a secret set on its own is masked too.
+ */
+function maskSecrets(value: unknown, key?: string): any {
+    const sensitiveKeys = [...CONFIG_SECRET_KEYS, ...loadConfig().redaction.sensitiveKeys];
+    if (key === undefined) return redactValue(value, [], sensitiveKeys);
+    const field = key.split('.').at(-1)!;
+    return redactValue({ [field]: value }, [], sensitiveKeys)[field];
+}
+
 /**
  * Get current configuration
  */
 export async function handleGetConfig(args: {
     section?: string;
-}): Promise<{ content: Array<{ type: string; text: string }> }> {
+}): Promise<ToolResponse> {
     try {
         const config = loadConfig();
         const configPath = getConfigPath();
@@ -33,38 +106,27 @@ export async function handleGetConfig(args: {
         if (args.section) {
             const section = args.section as keyof Config;
             if (config[section] === undefined) {
-                return {
-                    content: [{
-                        type: 'text',
-                        text: `Error: Unknown config section: ${args.section}. Valid sections: storage, cliPolicy, crud`
-                    }],
-                };
+                return toolErrorResponse(new ToolError('INVALID_ARGUMENTS',
+                    `Unknown config section: ${args.section}. Valid sections: ${Object.keys(config).join(', ')}`));
             }
             result = {
                 section: args.section,
-                values: config[section],
+                values: maskSecrets(config[section]),
             };
         } else {
             result = {
                 configPath,
-                config,
+                config: maskSecrets(config),
                 defaults: getDefaultConfig(),
             };
         }
 
         await logAudit('get_config', args, 'success');
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     } catch (error: any) {
         await logAudit('get_config', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -74,8 +136,9 @@ export async function handleGetConfig(args: {
 export async function handleSetConfigValue(args: {
     key: string;
     value: any;
-}): Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }> {
+}): Promise<ToolResponse> {
     try {
+        assertToolWritable(args.key.split('.')[0]);
         const oldConfig = loadConfig();
         
         // Get old value for logging
@@ -88,25 +151,16 @@ export async function handleSetConfigValue(args: {
         // Update the value
         const newConfig = updateConfigValue(args.key, args.value);
 
-        await logAudit('set_config_value', { key: args.key, oldValue, newValue: args.value }, 'updated');
-
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    key: args.key,
-                    oldValue,
-                    newValue: args.value,
-                    currentConfig: newConfig,
-                }, null, 2)
-            }],
-        };
+        const change = { key: args.key, oldValue: maskSecrets(oldValue, args.key), newValue: maskSecrets(args.value, args.key) };
+        await logAudit('set_config_value', change, 'updated');
+
+        return toolResponse({
+            ...change,
+            currentConfig: maskSecrets(newConfig),
+        });
     } catch (error: any) {
-        await logAudit('set_config_value', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        await logAudit('set_config_value', { key: args.key, value: maskSecrets(args.value, args.key) }, null, error.message);
+        return toolErrorResponse(error);
     }
 }
 
@@ -115,7 +169,7 @@ export async function handleSetConfigValue(args: {
  */
 export async function handleResetConfig(args: {
     section?: string;
-}): Promise<{ content: Array<{ type: string; text: string }> }> {
+}): Promise<ToolResponse> {
     try {
         const defaults = getDefaultConfig();
         const currentConfig = loadConfig();
@@ -125,21 +179,18 @@ export async function handleResetConfig(args: {
         if (args.section) {
             const section = args.section as keyof Config;
             if (defaults[section] === undefined) {
-                return {
-                    content: [{
-                        type: 'text',
-                        text: `Error: Unknown config section: ${args.section}. Valid sections: storage, cliPolicy, crud`
-                    }],
-                };
+                return toolErrorResponse(new ToolError('INVALID_ARGUMENTS',
+                    `Unknown config section: ${args.section}. Valid sections: ${Object.keys(defaults).join(', ')}`));
             }
+            assertToolWritable(args.section);
             // Reset just one section
             newConfig = {
                 ...currentConfig,
                 [section]: { ...defaults[section] },
             };
         } else {
-            // Reset all
-            newConfig = { ...defaults };
+            // Reset all but the operator-only sections
+            newConfig = { ...defaults, ...Object.fromEntries(OPERATOR_ONLY_SECTIONS.map(section => [section, currentConfig[section]])) };
         }
 
         // Save the config using the existing function
@@ -149,19 +200,115 @@ export async function handleResetConfig(args: {
 
         await logAudit('reset_config', args, 'reset');
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    reset: args.section || 'all',
-                    newConfig,
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            reset: args.section || 'all',
+            kept: args.section ? [] : [...OPERATOR_ONLY_SECTIONS],
+            newConfig: maskSecrets(newConfig),
+        });
     } catch (error: any) {
         await logAudit('reset_config', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-        };
+        return toolErrorResponse(error);
+    }
+}
+
+/**
+ * Turn simulation mode on or off for this connection; off only while the config leaves it off
+ */
+export async function handleSetSimulateMode(args: {
+    enabled: boolean;
+    persist?: boolean;
+}): Promise<ToolResponse> {
+    try {
+        if (args.persist) assertToolWritable('simulate');
+        if (!args.enabled && loadConfig().simulate.enabled) {
+            throw new ToolError('PERMISSION_DENIED', `Simulation is on in ${getConfigPath()} and can only be turned off by the operator`, { details: { section: 'simulate' } });
+        }
+        const previous = isSimulating();
+        setSimulating(args.enabled);
+
+        await logAudit('set_simulate_mode', args, { previous, simulating: isSimulating() });
+
+        return toolResponse({
+            simulating: isSimulating(),
+            previous,
+        });
+    } catch (error: any) {
+        await logAudit('set_simulate_mode', args, null, error.message);
+        return toolErrorResponse(error);
     }
 }
+
+/**
+ * Switch this connection's tool profile; the client is sent tools/list_changed
+ */
+export async function handleSetToolProfile(args: {
+    profile: string;
+}): Promise<ToolResponse> {
+    try {
+        const previous = getActiveProfile();
+        setActiveProfile(args.profile);
+        const tools = listToolDescriptors().map(tool => tool.name);
+
+        await logAudit('set_tool_profile', args, { previous, profile: args.profile, tools: tools.length });
+
+        return toolResponse({
+            profile: args.profile,
+            previous,
+            availableProfiles: listProfileNames(),
+            tools,
+        });
+    } catch (error: any) {
+        await logAudit('set_tool_profile', args, null, error.message);
+        return toolErrorResponse(error);
+    }
+}
+
+// Tool definitions, collected by registry.ts
+export const CONFIG_TOOLS: ToolDefinition[] = [
+    {
+        name: 'get_config',
+        description: 'Get current MCP server configuration. Optionally specify a section (storage, cliPolicy, crud). Bearer tokens and values under redaction.sensitiveKeys are masked.',
+        category: 'config',
+        schema: GetConfigSchema,
+        outputSchema: GetConfigOutput,
+        handler: handleGetConfig,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'set_config_value',
+        description: 'Set a configuration value using dot notation (e.g., "crud.defaultLimit", "cliOutput.maxOutputChars"). Changes persist to disk. The policy, transport and storage sections (filesystemPolicy, cliPolicy, approvals, redaction, simulate, transports, metrics, storage) can only be changed by the operator.',
+        category: 'config',
+        schema: SetConfigValueSchema,
+        outputSchema: SetConfigValueOutput,
+        handler: handleSetConfigValue,
+        sideEffects: 'write',
+    },
+    {
+        name: 'reset_config',
+        description: 'Reset configuration to defaults. Optionally specify a section to reset only that section. The policy, transport and storage sections (filesystemPolicy, cliPolicy, approvals, redaction, simulate, transports, metrics, storage) are left as they are.',
+        category: 'config',
+        schema: ResetConfigSchema,
+        outputSchema: ResetConfigOutput,
+        handler: handleResetConfig,
+        sideEffects: 'destructive',
+    },
+    {
+        name: 'set_simulate_mode',
+        description: 'Turn simulation mode on or off for this connection; it cannot be turned off while simulate.enabled is set in the config. While on, side-effecting tools (writes, deletes, commands, input, window actions) return a plan of what they would do instead of doing it. Read-only tools still run.',
+        category: 'config',
+        schema: SetSimulateModeSchema,
+        outputSchema: SetSimulateModeOutput,
+        handler: handleSetSimulateMode,
+        sideEffects: 'write',
+    },
+    {
+        name: 'set_tool_profile',
+        description: 'Switch the tool profile of this connection, changing which tools are listed and callable. Profiles: "all", coding (files, diff, CLI, search), desktop (screen, input, window, clipboard), browser, readonly, plus any configured in toolProfiles.profiles.',
+        category: 'config',
+        schema: SetToolProfileSchema,
+        outputSchema: SetToolProfileOutput,
+        handler: handleSetToolProfile,
+        sideEffects: 'write',
+        batchable: false,
+    },
+];
@@ -1,14 +1,39 @@
 import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
-import { getDb } from '../storage/db.js';
+import crypto from 'crypto';
+import { getStorage } from '../storage/storage.js';
+import { parseFilter, parseSort, parseProjection, projectRecord } from '../storage/recordQuery.js';
 import { logAudit } from '../audit.js';
 import { loadConfig } from '../config.js';
+import { isSimulating, simulatedResponse } from '../utils/simulate.js';
+import { notifyResourceUpdated, notifyResourceListChanged } from '../resources/subscriptions.js';
+import { crudRecordUri } from '../resources/uris.js';
+import { ToolDefinition } from './toolDefinition.js';
+import {
+    validateRecord, assertWritableCollection, handleCrudDefineCollection, CrudDefineCollectionSchema, CrudDefineCollectionOutput,
+} from './crudCollections.js';
+import {
+    handleCrudCreateIndex, handleCrudDropIndex, handleCrudListIndexes, explainQuery, QueryPlanOutput,
+    CrudCreateIndexSchema, CrudCreateIndexOutput, CrudDropIndexSchema, CrudDropIndexOutput, CrudListIndexesSchema, CrudListIndexesOutput,
+} from './crudIndexes.js';
+import { handleCrudSearch, CrudSearchSchema, CrudSearchOutput } from './crudSearch.js';
+import {
+    handleCrudHistory, handleCrudRestore, recordOutput, assertVersion, versionedWriteError, IfVersionSchema,
+    CrudHistorySchema, CrudHistoryOutput, CrudRestoreSchema, CrudRestoreOutput,
+} from './crudHistory.js';
+import { ToolError, reportResponse, toolErrorResponse, toolResponse, BatchReportOutput } from './toolResult.js';
 
 const config = loadConfig();
 
+// Tell crud:// resource subscribers about a write; inserts and deletes also change the resource list
+function recordChanged(collection: string, id: string, listChanged: boolean): void {
+    notifyResourceUpdated(crudRecordUri(collection, id));
+    if (listChanged) notifyResourceListChanged();
+}
+
 export const CrudCreateSchema = {
     collection: z.string(),
-    data: z.any(),
+    data: z.any().refine(value => value !== undefined, 'Required'),
 };
 
 export const CrudReadSchema = {
@@ -19,18 +44,45 @@ export const CrudReadSchema = {
 export const CrudUpdateSchema = {
     collection: z.string(),
     id: z.string(),
-    data: z.any(),
+    data: z.any().refine(value => value !== undefined, 'Required'),
+    ifVersion: IfVersionSchema,
 };
 
 export const CrudDeleteSchema = {
     collection: z.string(),
     id: z.string(),
+    ifVersion: IfVersionSchema,
 };
 
 export const CrudQuerySchema = {
     collection: z.string(),
-    filter: z.any().optional(),
-    limit: z.number().optional(),
+    filter: z.any().optional().describe('Mongo-style filter, e.g. {"status": "open", "meta.priority": {"$gte": 2}}. Operators: $eq $ne $gt $gte $lt $lte $in $nin $exists $regex (+ $options), $and, $or'),
+    sort: z.any().optional().describe('Fields to order by, e.g. {"meta.priority": -1, "title": 1} (default: newest first)'),
+    projection: z.any().optional().describe('Fields to return, e.g. {"title": 1} or {"body": 0}'),
+    limit: z.number().int().positive().optional(),
+    offset: z.number().int().min(0).optional().describe('Records to skip'),
+    cursor: z.string().optional().describe('nextCursor from the previous page of the same query'),
+    explain: z.boolean().optional().describe('Debug: also return the query plan and which crud_create_index fields it uses'),
+};
+
+// Output schemas: structuredContent of a successful call
+// A record is its stored data plus its id and version
+export const CrudRecordOutput = {
+    id: z.string(),
+    _version: z.number().describe('1 when created, +1 on every update; pass as ifVersion'),
+};
+
+export const CrudDeleteOutput = {
+    id: z.string(),
+    deleted: z.literal(true),
+};
+
+export const CrudQueryOutput = {
+    records: z.array(z.object(CrudRecordOutput).partial().passthrough()).describe('Without id only if the projection excludes it'),
+    total: z.number().describe('Records matching the filter, across all pages'),
+    offset: z.number(),
+    nextCursor: z.string().nullable().describe('Pass as cursor for the next page; null on the last page'),
+    queryPlan: QueryPlanOutput.optional().describe('With explain: true'),
 };
 
 // Batch operation schemas for parallel execution
@@ -53,6 +105,7 @@ export const CrudBatchUpdateSchema = {
         collection: z.string(),
         id: z.string(),
         data: z.any(),
+        ifVersion: IfVersionSchema,
     })).describe('Array of update operations to execute in parallel'),
 };
 
@@ -60,169 +113,217 @@ export const CrudBatchDeleteSchema = {
     operations: z.array(z.object({
         collection: z.string(),
         id: z.string(),
+        ifVersion: IfVersionSchema,
     })).describe('Array of delete operations to execute in parallel'),
 };
 
 export async function handleCrudCreate(args: { collection: string; data: any }) {
     try {
         const id = uuidv4();
-        const db = await getDb();
+        const storage = await getStorage();
 
-        // Parse data if it's a string
-        const parsedData = typeof args.data === 'string' ? JSON.parse(args.data) : args.data;
+        // Parse data if it's a string, then check it against the collection's schema
+        const parsedData = await validateRecord(storage, args.collection,
+            typeof args.data === 'string' ? JSON.parse(args.data) : args.data);
+
+        if (isSimulating()) {
+            return simulatedResponse('crud_create', args, {
+                action: 'insert',
+                collection: args.collection,
+                after: recordOutput(id, parsedData, 1),
+            });
+        }
 
-        await db.run(
-            `INSERT INTO kv_store (collection, id, data) VALUES (?, ?, ?)`,
-            args.collection, id, JSON.stringify(parsedData)
-        );
+        // A new id has no history, so the record starts at version 1
+        await storage.insertRecord({ collection: args.collection, id, data: JSON.stringify(parsedData) });
+        recordChanged(args.collection, id, true);
 
         await logAudit('crud_create', args, { id });
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ id, ...parsedData }, null, 2) }],
-        };
+        return toolResponse(recordOutput(id, parsedData, 1));
     } catch (error: any) {
         await logAudit('crud_create', args, null, error.message);
-        throw error;
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleCrudRead(args: { collection: string; id: string }) {
     try {
-        const db = await getDb();
-        const row = await db.get(
-            `SELECT data FROM kv_store WHERE collection = ? AND id = ?`,
-            args.collection, args.id
-        );
+        const storage = await getStorage();
+        const row = await storage.getRecord(args.collection, args.id);
 
         if (!row) {
-            throw new Error(`Record not found in collection ${args.collection} with id ${args.id}`);
+            throw new ToolError('NOT_FOUND', `Record not found in collection ${args.collection} with id ${args.id}`);
         }
 
         const data = JSON.parse(row.data);
         await logAudit('crud_read', args, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ id: args.id, ...data }, null, 2) }],
-        };
+        return toolResponse(recordOutput(args.id, data, row.version));
     } catch (error: any) {
         await logAudit('crud_read', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
-export async function handleCrudUpdate(args: { collection: string; id: string; data: any }) {
+export async function handleCrudUpdate(args: { collection: string; id: string; data: any; ifVersion?: number }) {
     try {
-        const db = await getDb();
+        const storage = await getStorage();
 
         // Parse data if it's a string
         const parsedData = typeof args.data === 'string' ? JSON.parse(args.data) : args.data;
 
         // First get existing data to merge
-        const row = await db.get(
-            `SELECT data FROM kv_store WHERE collection = ? AND id = ?`,
-            args.collection, args.id
-        );
+        const row = await storage.getRecord(args.collection, args.id);
 
         if (!row) {
-            throw new Error(`Record not found`);
+            throw new ToolError('NOT_FOUND', `Record not found`);
         }
+        assertVersion(row, args.ifVersion);
 
         const existingData = JSON.parse(row.data);
-        const newData = { ...existingData, ...parsedData };
+        const newData = await validateRecord(storage, args.collection, { ...existingData, ...parsedData });
+
+        if (isSimulating()) {
+            return simulatedResponse('crud_update', args, {
+                action: 'update',
+                collection: args.collection,
+                before: recordOutput(args.id, existingData, row.version),
+                after: recordOutput(args.id, newData, row.version + 1),
+            });
+        }
 
-        await db.run(
-            `UPDATE kv_store SET data = ?, updated_at = CURRENT_TIMESTAMP WHERE collection = ? AND id = ?`,
-            JSON.stringify(newData), args.collection, args.id
-        );
+        // Only over the version merged above, so a write in between isn't lost
+        if (!await storage.updateRecord(args.collection, args.id, JSON.stringify(newData), row.version)) {
+            throw await versionedWriteError(storage, args.collection, args.id, row.version, args.ifVersion === undefined);
+        }
+        recordChanged(args.collection, args.id, false);
 
         await logAudit('crud_update', args, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ id: args.id, ...newData }, null, 2) }],
-        };
+        return toolResponse(recordOutput(args.id, newData, row.version + 1));
     } catch (error: any) {
         await logAudit('crud_update', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
-export async function handleCrudDelete(args: { collection: string; id: string }) {
+export async function handleCrudDelete(args: { collection: string; id: string; ifVersion?: number }) {
     try {
-        const db = await getDb();
-        const result = await db.run(
-            `DELETE FROM kv_store WHERE collection = ? AND id = ?`,
-            args.collection, args.id
-        );
-
-        await logAudit('crud_delete', args, result.changes && result.changes > 0 ? 'success' : 'not_found');
-
-        if (!result.changes || result.changes === 0) {
-            return {
-                content: [{ type: 'text', text: `Record not found` }],
-                isError: true,
-            };
+        assertWritableCollection(args.collection);
+        const storage = await getStorage();
+
+        if (isSimulating()) {
+            const row = await storage.getRecord(args.collection, args.id);
+            if (!row) {
+                return toolErrorResponse(new ToolError('NOT_FOUND', 'Record not found'));
+            }
+            assertVersion(row, args.ifVersion);
+            return simulatedResponse('crud_delete', args, {
+                action: 'delete',
+                collection: args.collection,
+                before: recordOutput(args.id, JSON.parse(row.data), row.version),
+            });
         }
 
-        return {
-            content: [{ type: 'text', text: `Successfully deleted record ${args.id}` }],
-        };
+        const deleted = await storage.deleteRecord(args.collection, args.id, args.ifVersion);
+
+        if (!deleted) {
+            const error = args.ifVersion === undefined
+                ? new ToolError('NOT_FOUND', 'Record not found')
+                : await versionedWriteError(storage, args.collection, args.id, args.ifVersion);
+            await logAudit('crud_delete', args, error.code === 'CONFLICT' ? 'conflict' : 'not_found');
+            return toolErrorResponse(error);
+        }
+        await logAudit('crud_delete', args, 'success');
+        recordChanged(args.collection, args.id, true);
+
+        return toolResponse({ id: args.id, deleted: true }, `Successfully deleted record ${args.id}`);
     } catch (error: any) {
         await logAudit('crud_delete', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
-export async function handleCrudQuery(args: { collection: string; filter?: any; limit?: number }) {
+// Filter, sort and projection may also arrive as JSON strings
+function parseJsonArgument(name: string, value: unknown): unknown {
+    if (typeof value !== 'string') return value;
     try {
-        const limit = args.limit || config.crud.defaultLimit;
-        const db = await getDb();
-
-        // For now, we'll do simple filtering in memory since data is JSON
-        const rows = await db.all(
-            `SELECT id, data FROM kv_store WHERE collection = ? ORDER BY created_at DESC LIMIT ?`,
-            args.collection, limit * 5
-        );
-
-        let results = rows.map((row: any) => ({
-            id: row.id,
-            ...JSON.parse(row.data)
-        }));
-
-        if (args.filter) {
-            // Parse filter if it's a string
-            const parsedFilter = typeof args.filter === 'string' ? JSON.parse(args.filter) : args.filter;
-
-            results = results.filter((item: any) => {
-                return Object.entries(parsedFilter as Record<string, any>).every(([key, value]) => {
-                    return item[key] === value;
-                });
-            });
-        }
+        return JSON.parse(value);
+    } catch {
+        throw new ToolError('INVALID_ARGUMENTS', `${name} is not valid JSON`);
+    }
+}
 
-        // Apply limit after filtering
-        results = results.slice(0, limit);
+// A cursor is the next offset, tied to the query it came from
+function queryFingerprint(args: { collection: string; filter?: unknown; sort?: unknown }): string {
+    return crypto.createHash('sha256').update(JSON.stringify([args.collection, args.filter ?? {}, args.sort ?? {}])).digest('hex').slice(0, 16);
+}
 
-        await logAudit('crud_query', args, `found ${results.length} records`);
+function decodeCursor(cursor: string, fingerprint: string): number {
+    let decoded: any;
+    try {
+        decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    } catch {
+        decoded = null;
+    }
+    if (!Number.isInteger(decoded?.offset) || decoded.offset < 0) {
+        throw new ToolError('INVALID_ARGUMENTS', 'cursor is not a crud_query cursor');
+    }
+    if (decoded.query !== fingerprint) {
+        throw new ToolError('INVALID_ARGUMENTS', 'cursor belongs to a different collection, filter or sort');
+    }
+    return decoded.offset;
+}
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
+export async function handleCrudQuery(args: {
+    collection: string;
+    filter?: any;
+    sort?: any;
+    projection?: any;
+    limit?: number;
+    offset?: number;
+    cursor?: string;
+    explain?: boolean;
+}) {
+    try {
+        const limit = args.limit || config.crud.defaultLimit;
+        const filter = parseJsonArgument('filter', args.filter) ?? {};
+        const sort = parseJsonArgument('sort', args.sort) ?? {};
+        const projection = args.projection === undefined ? null : parseProjection(parseJsonArgument('projection', args.projection));
+        const fingerprint = queryFingerprint({ collection: args.collection, filter, sort });
+        if (args.cursor !== undefined && args.offset !== undefined) {
+            throw new ToolError('INVALID_ARGUMENTS', 'Pass either offset or cursor, not both');
+        }
+        const offset = args.cursor !== undefined ? decodeCursor(args.cursor, fingerprint) : args.offset ?? 0;
+
+        const storage = await getStorage();
+        const query = {
+            collection: args.collection,
+            filter: parseFilter(filter),
+            sort: parseSort(sort),
+            offset,
+            limit,
         };
+        const { rows, total } = await storage.findRecords(query);
+        const queryPlan = args.explain ? await explainQuery(storage, query) : undefined;
+
+        const results = rows.map(row => {
+            const record = recordOutput(row.id, JSON.parse(row.data), row.version);
+            return projection ? projectRecord(record, projection) : record;
+        });
+        const nextOffset = offset + rows.length;
+        const nextCursor = nextOffset < total
+            ? Buffer.from(JSON.stringify({ offset: nextOffset, query: fingerprint })).toString('base64url')
+            : null;
+
+        await logAudit('crud_query', args, `found ${results.length} of ${total} records`);
+
+        // The text stays a plain array of records
+        return toolResponse({ records: results, total, offset, nextCursor, ...(queryPlan && { queryPlan }) }, JSON.stringify(results, null, 2));
     } catch (error: any) {
         await logAudit('crud_query', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -241,15 +342,18 @@ export async function handleCrudBatchCreate(args: { operations: Array<{ collecti
         args.operations.map(async (op, index): Promise<BatchResult> => {
             try {
                 const id = uuidv4();
-                const db = await getDb();
-                const parsedData = typeof op.data === 'string' ? JSON.parse(op.data) : op.data;
+                const storage = await getStorage();
+                const parsedData = await validateRecord(storage, op.collection,
+                    typeof op.data === 'string' ? JSON.parse(op.data) : op.data);
+
+                if (isSimulating()) {
+                    return { index, success: true, result: { simulated: true, action: 'insert', collection: op.collection, after: recordOutput(id, parsedData, 1) } };
+                }
 
-                await db.run(
-                    `INSERT INTO kv_store (collection, id, data) VALUES (?, ?, ?)`,
-                    op.collection, id, JSON.stringify(parsedData)
-                );
+                await storage.insertRecord({ collection: op.collection, id, data: JSON.stringify(parsedData) });
+                recordChanged(op.collection, id, true);
 
-                return { index, success: true, result: { id, ...parsedData } };
+                return { index, success: true, result: recordOutput(id, parsedData, 1) };
             } catch (error: any) {
                 return { index, success: false, error: error.message };
             }
@@ -262,16 +366,10 @@ export async function handleCrudBatchCreate(args: { operations: Array<{ collecti
 
     await logAudit('crud_batch_create', { count: args.operations.length }, { successful, failed, elapsed });
 
-    return {
-        content: [{
-            type: 'text',
-            text: JSON.stringify({
-                summary: { total: args.operations.length, successful, failed, elapsed_ms: elapsed },
-                results: results.sort((a, b) => a.index - b.index)
-            }, null, 2)
-        }],
-        isError: failed > 0,
-    };
+    return reportResponse({
+        summary: { total: args.operations.length, successful, failed, elapsed_ms: elapsed },
+        results: results.sort((a, b) => a.index - b.index)
+    }, failed > 0 ? `${failed} items failed` : null);
 }
 
 export async function handleCrudBatchRead(args: { operations: Array<{ collection: string; id: string }> }) {
@@ -280,18 +378,15 @@ export async function handleCrudBatchRead(args: { operations: Array<{ collection
     const results = await Promise.all(
         args.operations.map(async (op, index): Promise<BatchResult> => {
             try {
-                const db = await getDb();
-                const row = await db.get(
-                    `SELECT data FROM kv_store WHERE collection = ? AND id = ?`,
-                    op.collection, op.id
-                );
+                const storage = await getStorage();
+                const row = await storage.getRecord(op.collection, op.id);
 
                 if (!row) {
                     return { index, success: false, error: `Record not found: ${op.collection}/${op.id}` };
                 }
 
                 const data = JSON.parse(row.data);
-                return { index, success: true, result: { id: op.id, collection: op.collection, ...data } };
+                return { index, success: true, result: { collection: op.collection, ...recordOutput(op.id, data, row.version) } };
             } catch (error: any) {
                 return { index, success: false, error: error.message };
             }
@@ -304,45 +399,51 @@ export async function handleCrudBatchRead(args: { operations: Array<{ collection
 
     await logAudit('crud_batch_read', { count: args.operations.length }, { successful, failed, elapsed });
 
-    return {
-        content: [{
-            type: 'text',
-            text: JSON.stringify({
-                summary: { total: args.operations.length, successful, failed, elapsed_ms: elapsed },
-                results: results.sort((a, b) => a.index - b.index)
-            }, null, 2)
-        }],
-        isError: failed > 0 && successful === 0,
-    };
+    return reportResponse({
+        summary: { total: args.operations.length, successful, failed, elapsed_ms: elapsed },
+        results: results.sort((a, b) => a.index - b.index)
+    }, failed > 0 && successful === 0 ? `All ${failed} items failed` : null);
 }
 
-export async function handleCrudBatchUpdate(args: { operations: Array<{ collection: string; id: string; data: any }> }) {
+export async function handleCrudBatchUpdate(args: { operations: Array<{ collection: string; id: string; data: any; ifVersion?: number }> }) {
     const startTime = Date.now();
 
     const results = await Promise.all(
         args.operations.map(async (op, index): Promise<BatchResult> => {
             try {
-                const db = await getDb();
+                const storage = await getStorage();
                 const parsedData = typeof op.data === 'string' ? JSON.parse(op.data) : op.data;
 
-                const row = await db.get(
-                    `SELECT data FROM kv_store WHERE collection = ? AND id = ?`,
-                    op.collection, op.id
-                );
+                const row = await storage.getRecord(op.collection, op.id);
 
                 if (!row) {
                     return { index, success: false, error: `Record not found: ${op.collection}/${op.id}` };
                 }
+                assertVersion(row, op.ifVersion);
 
                 const existingData = JSON.parse(row.data);
-                const newData = { ...existingData, ...parsedData };
+                const newData = await validateRecord(storage, op.collection, { ...existingData, ...parsedData });
+
+                if (isSimulating()) {
+                    return {
+                        index,
+                        success: true,
+                        result: {
+                            simulated: true,
+                            action: 'update',
+                            collection: op.collection,
+                            before: recordOutput(op.id, existingData, row.version),
+                            after: recordOutput(op.id, newData, row.version + 1),
+                        }
+                    };
+                }
 
-                await db.run(
-                    `UPDATE kv_store SET data = ?, updated_at = CURRENT_TIMESTAMP WHERE collection = ? AND id = ?`,
-                    JSON.stringify(newData), op.collection, op.id
-                );
+                if (!await storage.updateRecord(op.collection, op.id, JSON.stringify(newData), row.version)) {
+                    throw await versionedWriteError(storage, op.collection, op.id, row.version);
+                }
+                recordChanged(op.collection, op.id, false);
 
-                return { index, success: true, result: { id: op.id, collection: op.collection, ...newData } };
+                return { index, success: true, result: { collection: op.collection, ...recordOutput(op.id, newData, row.version + 1) } };
             } catch (error: any) {
                 return { index, success: false, error: error.message };
             }
@@ -355,33 +456,37 @@ export async function handleCrudBatchUpdate(args: { operations: Array<{ collecti
 
     await logAudit('crud_batch_update', { count: args.operations.length }, { successful, failed, elapsed });
 
-    return {
-        content: [{
-            type: 'text',
-            text: JSON.stringify({
-                summary: { total: args.operations.length, successful, failed, elapsed_ms: elapsed },
-                results: results.sort((a, b) => a.index - b.index)
-            }, null, 2)
-        }],
-        isError: failed > 0 && successful === 0,
-    };
+    return reportResponse({
+        summary: { total: args.operations.length, successful, failed, elapsed_ms: elapsed },
+        results: results.sort((a, b) => a.index - b.index)
+    }, failed > 0 && successful === 0 ? `All ${failed} items failed` : null);
 }
 
-export async function handleCrudBatchDelete(args: { operations: Array<{ collection: string; id: string }> }) {
+export async function handleCrudBatchDelete(args: { operations: Array<{ collection: string; id: string; ifVersion?: number }> }) {
     const startTime = Date.now();
 
     const results = await Promise.all(
         args.operations.map(async (op, index): Promise<BatchResult> => {
             try {
-                const db = await getDb();
-                const result = await db.run(
-                    `DELETE FROM kv_store WHERE collection = ? AND id = ?`,
-                    op.collection, op.id
-                );
+                assertWritableCollection(op.collection);
+                const storage = await getStorage();
+
+                if (isSimulating()) {
+                    const row = await storage.getRecord(op.collection, op.id);
+                    if (!row) {
+                        return { index, success: false, error: `Record not found: ${op.collection}/${op.id}` };
+                    }
+                    assertVersion(row, op.ifVersion);
+                    return { index, success: true, result: { simulated: true, action: 'delete', collection: op.collection, before: recordOutput(op.id, JSON.parse(row.data), row.version) } };
+                }
 
-                if (!result.changes || result.changes === 0) {
-                    return { index, success: false, error: `Record not found: ${op.collection}/${op.id}` };
+                const deleted = await storage.deleteRecord(op.collection, op.id, op.ifVersion);
+
+                if (!deleted) {
+                    const error = op.ifVersion === undefined ? null : await versionedWriteError(storage, op.collection, op.id, op.ifVersion);
+                    return { index, success: false, error: error?.code === 'CONFLICT' ? error.message : `Record not found: ${op.collection}/${op.id}` };
                 }
+                recordChanged(op.collection, op.id, true);
 
                 return { index, success: true, result: { id: op.id, collection: op.collection, deleted: true } };
             } catch (error: any) {
@@ -396,14 +501,156 @@ export async function handleCrudBatchDelete(args: { operations: Array<{ collecti
 
     await logAudit('crud_batch_delete', { count: args.operations.length }, { successful, failed, elapsed });
 
-    return {
-        content: [{
-            type: 'text',
-            text: JSON.stringify({
-                summary: { total: args.operations.length, successful, failed, elapsed_ms: elapsed },
-                results: results.sort((a, b) => a.index - b.index)
-            }, null, 2)
-        }],
-        isError: failed > 0 && successful === 0,
-    };
+    return reportResponse({
+        summary: { total: args.operations.length, successful, failed, elapsed_ms: elapsed },
+        results: results.sort((a, b) => a.index - b.index)
+    }, failed > 0 && successful === 0 ? `All ${failed} items failed` : null);
 }
+
+// Tool definitions, collected by registry.ts
+export const CRUD_TOOLS: ToolDefinition[] = [
+    {
+        name: 'crud_create',
+        description: 'Create a new record in a collection',
+        category: 'crud',
+        schema: CrudCreateSchema,
+        outputSchema: CrudRecordOutput,
+        handler: handleCrudCreate,
+        sideEffects: 'write',
+    },
+    {
+        name: 'crud_read',
+        description: 'Read a record by ID',
+        category: 'crud',
+        schema: CrudReadSchema,
+        outputSchema: CrudRecordOutput,
+        handler: handleCrudRead,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'crud_update',
+        description: 'Update an existing record, merging data into it. Pass the _version you read as ifVersion to fail with CONFLICT instead of overwriting a change made since.',
+        category: 'crud',
+        schema: CrudUpdateSchema,
+        outputSchema: CrudRecordOutput,
+        handler: handleCrudUpdate,
+        sideEffects: 'write',
+    },
+    {
+        name: 'crud_delete',
+        description: 'Delete a record; with ifVersion, only if it is still at that _version. crud_restore can bring it back.',
+        category: 'crud',
+        schema: CrudDeleteSchema,
+        outputSchema: CrudDeleteOutput,
+        handler: handleCrudDelete,
+        sideEffects: 'destructive',
+    },
+    {
+        name: 'crud_query',
+        description: 'Query records in a collection with a Mongo-style filter ($gt, $in, $regex, $exists, $and, $or, dot paths), sort, projection and offset/cursor pagination. Returns the total match count and a nextCursor.',
+        category: 'crud',
+        schema: CrudQuerySchema,
+        outputSchema: CrudQueryOutput,
+        handler: handleCrudQuery,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'crud_search',
+        description: 'Full-text search over record text, across collections or in one: words and "quoted phrases" (all must appear), prefix matching with word*, results ranked by relevance with highlighted snippets. crud.searchFields chooses which fields each collection indexes.',
+        category: 'crud',
+        schema: CrudSearchSchema,
+        outputSchema: CrudSearchOutput,
+        handler: handleCrudSearch,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'crud_history',
+        description: 'List the versions of a record, newest first: the current one and every version an update or delete replaced, even after the record is deleted.',
+        category: 'crud',
+        schema: CrudHistorySchema,
+        outputSchema: CrudHistoryOutput,
+        handler: handleCrudHistory,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'crud_restore',
+        description: 'Roll a record back to a version from crud_history, or bring back a deleted record. The restored data becomes a new version, so the one it replaces stays in the history.',
+        category: 'crud',
+        schema: CrudRestoreSchema,
+        outputSchema: CrudRestoreOutput,
+        handler: handleCrudRestore,
+        sideEffects: 'write',
+    },
+    {
+        name: 'crud_define_collection',
+        description: 'Attach a JSON Schema to a collection. crud_create, crud_update and the batch variants then reject records that do not match, with the failing paths, and fill in schema defaults. strict rejects unlisted properties. Reports existing records that do not match.',
+        category: 'crud',
+        schema: CrudDefineCollectionSchema,
+        outputSchema: CrudDefineCollectionOutput,
+        handler: handleCrudDefineCollection,
+        sideEffects: 'write',
+    },
+    {
+        name: 'crud_create_index',
+        description: 'Index a field of a collection, e.g. "status" or "meta.owner", so crud_query filters and sorts on it stop scanning the whole collection. Backed by a SQLite expression index; the json and memory backends only record it.',
+        category: 'crud',
+        schema: CrudCreateIndexSchema,
+        outputSchema: CrudCreateIndexOutput,
+        handler: handleCrudCreateIndex,
+        sideEffects: 'write',
+    },
+    {
+        name: 'crud_drop_index',
+        description: 'Remove a field index created with crud_create_index. Records are unchanged.',
+        category: 'crud',
+        schema: CrudDropIndexSchema,
+        outputSchema: CrudDropIndexOutput,
+        handler: handleCrudDropIndex,
+        sideEffects: 'write',
+    },
+    {
+        name: 'crud_list_indexes',
+        description: 'List indexed fields, for one collection or all. crud_query with explain: true shows whether a query uses them.',
+        category: 'crud',
+        schema: CrudListIndexesSchema,
+        outputSchema: CrudListIndexesOutput,
+        handler: handleCrudListIndexes,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'crud_batch_create',
+        description: 'Create multiple records in parallel.',
+        category: 'crud',
+        schema: CrudBatchCreateSchema,
+        outputSchema: BatchReportOutput,
+        handler: handleCrudBatchCreate,
+        sideEffects: 'write',
+    },
+    {
+        name: 'crud_batch_read',
+        description: 'Read multiple records in parallel.',
+        category: 'crud',
+        schema: CrudBatchReadSchema,
+        outputSchema: BatchReportOutput,
+        handler: handleCrudBatchRead,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'crud_batch_update',
+        description: 'Update multiple records in parallel.',
+        category: 'crud',
+        schema: CrudBatchUpdateSchema,
+        outputSchema: BatchReportOutput,
+        handler: handleCrudBatchUpdate,
+        sideEffects: 'write',
+    },
+    {
+        name: 'crud_batch_delete',
+        description: 'Delete multiple records in parallel.',
+        category: 'crud',
+        schema: CrudBatchDeleteSchema,
+        outputSchema: BatchReportOutput,
+        handler: handleCrudBatchDelete,
+        sideEffects: 'destructive',
+    },
+];
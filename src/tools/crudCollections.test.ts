@@ -0,0 +1,108 @@
+/**
+ * Tests for CRUD collection schemas
+ */
+
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert';
+
+import { useStorage } from '../storage/storage.js';
+import { MemoryStorage } from '../storage/memoryStorage.js';
+import { jsonSchemaToZod, JsonSchemaError } from '../utils/jsonSchema.js';
+import { handleCrudCreate, handleCrudUpdate, handleCrudBatchCreate, handleCrudDelete } from './crud.js';
+import { handleCrudDefineCollection } from './crudCollections.js';
+
+const TASK_SCHEMA = {
+    type: 'object',
+    required: ['title'],
+    properties: {
+        title: { type: 'string', minLength: 1 },
+        done: { type: 'boolean', default: false },
+        priority: { type: 'integer', minimum: 1, maximum: 5 },
+        tags: { type: 'array', items: { type: 'string' } },
+        owner: { type: ['string', 'null'] },
+    },
+};
+
+describe('jsonSchemaToZod', () => {
+    it('converts types, bounds, enums and nested objects', () => {
+        const schema = jsonSchemaToZod({
+            type: 'object',
+            properties: {
+                status: { enum: ['open', 'closed'] },
+                meta: { type: 'object', required: ['score'], properties: { score: { type: 'number', exclusiveMinimum: 0 } } },
+            },
+        }, { strict: false });
+        assert.ok(schema.safeParse({ status: 'open', meta: { score: 1 }, extra: 1 }).success);
+        assert.ok(!schema.safeParse({ status: 'pending' }).success);
+        assert.ok(!schema.safeParse({ meta: { score: 0 } }).success);
+        assert.ok(!schema.safeParse({ meta: {} }).success);
+    });
+
+    it('rejects unsupported keywords and invalid defaults with their schema path', () => {
+        for (const [schema, where] of [
+            [{ type: 'object', properties: { a: { type: 'string', $ref: '#/x' } } }, 'schema.properties.a.$ref'],
+            [{ type: 'object', properties: { a: { type: 'string', default: 1 } } }, 'schema.properties.a.default'],
+            [{ type: 'string', format: 'phone' }, 'schema.format'],
+            [{ type: 'text' }, 'schema.type'],
+        ] as const) {
+            assert.throws(() => jsonSchemaToZod(schema, { strict: false }), (error: any) =>
+                error instanceof JsonSchemaError && error.violation.path === where, where);
+        }
+    });
+});
+
+describe('crud_define_collection', () => {
+    before(() => useStorage(new MemoryStorage()));
+
+    it('reports existing records the new schema rejects', async () => {
+        await handleCrudCreate({ collection: 'tasks', data: { title: 'old' } });
+        await handleCrudCreate({ collection: 'tasks', data: { name: 'no title' } });
+
+        const response = await handleCrudDefineCollection({ collection: 'tasks', schema: TASK_SCHEMA });
+        assert.ok(!response.isError);
+        assert.strictEqual(response.structuredContent!.existingRecords, 2);
+        assert.strictEqual(response.structuredContent!.invalidRecords, 1);
+        assert.deepStrictEqual((response.structuredContent!.invalidExamples as any)[0].issues, [{ path: 'title', message: 'Required' }]);
+    });
+
+    it('fills in defaults and rejects invalid records with path-level issues', async () => {
+        const created = await handleCrudCreate({ collection: 'tasks', data: { title: 'write tests', tags: ['a'] } });
+        assert.strictEqual(created.structuredContent!.done, false);
+
+        const rejected = await handleCrudCreate({ collection: 'tasks', data: { title: '', priority: 9, tags: [1] } });
+        const error = rejected.structuredContent!.error as any;
+        assert.strictEqual(error.code, 'INVALID_ARGUMENTS');
+        assert.deepStrictEqual(error.details.issues.map((issue: any) => issue.path), ['title', 'priority', 'tags.0']);
+
+        const updated = await handleCrudUpdate({ collection: 'tasks', id: created.structuredContent!.id as string, data: { priority: 0 } });
+        assert.strictEqual((updated.structuredContent!.error as any).details.issues[0].path, 'priority');
+    });
+
+    it('checks each batch operation on its own', async () => {
+        const response = await handleCrudBatchCreate({ operations: [
+            { collection: 'tasks', data: { title: 'ok' } },
+            { collection: 'tasks', data: { title: 'bad', owner: 3 } },
+        ] });
+        // Batch create fails as a whole if any item does, with the report in the envelope
+        const results = (response.structuredContent!.error as any).details.results;
+        assert.strictEqual(results[0].success, true);
+        assert.match(results[1].error, /owner: /);
+    });
+
+    it('rejects unlisted properties only when strict', async () => {
+        const loose = await handleCrudCreate({ collection: 'tasks', data: { title: 'extra', note: 'kept' } });
+        assert.strictEqual(loose.structuredContent!.note, 'kept');
+
+        await handleCrudDefineCollection({ collection: 'tasks', schema: TASK_SCHEMA, strict: true });
+        const strict = await handleCrudCreate({ collection: 'tasks', data: { title: 'extra', note: 'kept' } });
+        assert.match((strict.structuredContent!.error as any).message, /Unrecognized key/);
+    });
+
+    it('stops validating once the schema is removed, and keeps _collections read-only', async () => {
+        await handleCrudDefineCollection({ collection: 'tasks', schema: null });
+        assert.ok(!(await handleCrudCreate({ collection: 'tasks', data: { anything: true } })).isError);
+
+        const direct = await handleCrudDelete({ collection: '_collections', id: 'tasks' });
+        assert.strictEqual((direct.structuredContent!.error as any).code, 'INVALID_ARGUMENTS');
+    });
+});
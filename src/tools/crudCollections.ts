@@ -0,0 +1,176 @@
+// CRUD collection schemas
+// JSON Schemas attached to collections, stored in kv_store and checked on every write
+
+import { z } from 'zod';
+import { Storage, getStorage } from '../storage/storage.js';
+import { parseFilter } from '../storage/recordQuery.js';
+import { jsonSchemaToZod, describeIssues } from '../utils/jsonSchema.js';
+import { logAudit } from '../audit.js';
+import { isSimulating, simulatedResponse } from '../utils/simulate.js';
+import { notifyResourceUpdated, notifyResourceListChanged } from '../resources/subscriptions.js';
+import { crudRecordUri } from '../resources/uris.js';
+import { ToolError, ToolResponse, toolErrorResponse, toolResponse } from './toolResult.js';
+
+// Definitions live next to the records, one per collection, keyed by collection name
+export const SCHEMA_COLLECTION = '_collections';
+
+// How many invalid existing records a definition reports by id
+const MAX_INVALID_EXAMPLES = 5;
+const SCAN_PAGE_SIZE = 1000;
+
+interface CollectionDefinition {
+    schema: unknown;
+    strict: boolean;
+}
+
+export interface RecordIssue {
+    path: string;
+    message: string;
+}
+
+/**
+ * Details of a record its collection's schema rejects, returned to the model and stored in audit_log
+ */
+export interface RecordValidationViolation {
+    code: 'INVALID_ARGUMENTS';
+    message: string;
+    collection: string;
+    issues: RecordIssue[];
+}
+
+export class RecordValidationError extends Error {
+    readonly violation: RecordValidationViolation;
+
+    constructor(collection: string, issues: RecordIssue[]) {
+        super(`Record does not match the ${collection} schema: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`);
+        this.name = 'RecordValidationError';
+        this.violation = { code: 'INVALID_ARGUMENTS', message: this.message, collection, issues };
+    }
+}
+
+// Compiled validators, keyed by collection and rebuilt when the stored definition changes
+const validators = new Map<string, { source: string; validator: z.ZodTypeAny }>();
+
+function compileDefinition(definition: CollectionDefinition): z.ZodTypeAny {
+    return jsonSchemaToZod(definition.schema, { strict: definition.strict });
+}
+
+async function getValidator(storage: Storage, collection: string): Promise<z.ZodTypeAny | null> {
+    const row = await storage.getRecord(SCHEMA_COLLECTION, collection);
+    if (!row) {
+        validators.delete(collection);
+        return null;
+    }
+    const cached = validators.get(collection);
+    if (cached?.source === row.data) return cached.validator;
+    const validator = compileDefinition(JSON.parse(row.data));
+    validators.set(collection, { source: row.data, validator });
+    return validator;
+}
+
+/**
+ * Check a whole record against its collection's schema, if it has one.
+ * @returns The record with schema defaults filled in
+ */
+export async function validateRecord(storage: Storage, collection: string, data: unknown): Promise<any> {
+    assertWritableCollection(collection);
+    const validator = await getValidator(storage, collection);
+    if (!validator) return data;
+    const parsed = validator.safeParse(data);
+    if (!parsed.success) throw new RecordValidationError(collection, describeIssues(parsed.error));
+    return parsed.data;
+}
+
+/**
+ * Refuse direct writes to the definitions collection
+ */
+export function assertWritableCollection(collection: string): void {
+    if (collection === SCHEMA_COLLECTION) {
+        throw new ToolError('INVALID_ARGUMENTS', `${SCHEMA_COLLECTION} is reserved; use crud_define_collection`);
+    }
+}
+
+export const CrudDefineCollectionSchema = {
+    collection: z.string(),
+    schema: z.any().refine(value => value !== undefined, 'Required').describe('JSON Schema for each record, e.g. {"type": "object", "required": ["title"], "properties": {"title": {"type": "string"}, "done": {"type": "boolean", "default": false}}}; null removes it'),
+    strict: z.boolean().optional().describe('Reject properties the schema does not list, unless it sets additionalProperties (default: false)'),
+};
+
+// Output schemas: structuredContent of a successful call
+export const CrudDefineCollectionOutput = {
+    collection: z.string(),
+    defined: z.boolean().describe('false when the schema was removed'),
+    strict: z.boolean().optional(),
+    existingRecords: z.number().describe('Records already in the collection'),
+    invalidRecords: z.number().describe('Existing records the schema rejects; they stay, but updates to them must fix them'),
+    invalidExamples: z.array(z.object({ id: z.string(), issues: z.array(z.object({ path: z.string(), message: z.string() })) })),
+};
+
+// Check what's already stored, so a new schema doesn't silently strand old records
+async function scanExisting(storage: Storage, collection: string, validator: z.ZodTypeAny | null) {
+    let existingRecords = 0;
+    let invalidRecords = 0;
+    const invalidExamples: Array<{ id: string; issues: RecordIssue[] }> = [];
+    const everything = parseFilter({});
+    for (let offset = 0; ; offset += SCAN_PAGE_SIZE) {
+        const { rows } = await storage.findRecords({ collection, filter: everything, sort: [], offset, limit: SCAN_PAGE_SIZE });
+        existingRecords += rows.length;
+        for (const row of validator ? rows : []) {
+            const parsed = validator!.safeParse(JSON.parse(row.data));
+            if (parsed.success) continue;
+            invalidRecords++;
+            if (invalidExamples.length < MAX_INVALID_EXAMPLES) {
+                invalidExamples.push({ id: row.id, issues: describeIssues(parsed.error) });
+            }
+        }
+        if (rows.length < SCAN_PAGE_SIZE) break;
+    }
+    return { existingRecords, invalidRecords, invalidExamples };
+}
+
+export async function handleCrudDefineCollection(args: { collection: string; schema: unknown; strict?: boolean }): Promise<ToolResponse> {
+    try {
+        assertWritableCollection(args.collection);
+        const storage = await getStorage();
+        const schema = typeof args.schema === 'string' ? JSON.parse(args.schema) : args.schema;
+        const definition: CollectionDefinition | null = schema === null || schema === undefined
+            ? null
+            : { schema, strict: args.strict ?? false };
+        const validator = definition && compileDefinition(definition);
+        const existing = await storage.getRecord(SCHEMA_COLLECTION, args.collection);
+        const scan = await scanExisting(storage, args.collection, validator);
+        const result = {
+            collection: args.collection,
+            defined: definition !== null,
+            ...(definition && { strict: definition.strict }),
+            ...scan,
+        };
+
+        if (isSimulating()) {
+            return simulatedResponse('crud_define_collection', args, {
+                action: definition ? (existing ? 'update' : 'insert') : 'delete',
+                collection: SCHEMA_COLLECTION,
+                before: existing ? { id: args.collection, ...JSON.parse(existing.data) } : null,
+                after: definition && { id: args.collection, ...definition },
+                ...scan,
+            });
+        }
+
+        if (!definition) {
+            await storage.deleteRecord(SCHEMA_COLLECTION, args.collection);
+        } else if (existing) {
+            await storage.updateRecord(SCHEMA_COLLECTION, args.collection, JSON.stringify(definition));
+        } else {
+            await storage.insertRecord({ collection: SCHEMA_COLLECTION, id: args.collection, data: JSON.stringify(definition) });
+        }
+        validators.delete(args.collection);
+        notifyResourceUpdated(crudRecordUri(SCHEMA_COLLECTION, args.collection));
+        if (definition ? !existing : existing) notifyResourceListChanged();
+
+        await logAudit('crud_define_collection', args, { defined: result.defined, invalidRecords: scan.invalidRecords });
+        return toolResponse(result);
+    } catch (error: any) {
+        await logAudit('crud_define_collection', args, null, error.message);
+        return toolErrorResponse(error);
+    }
+}
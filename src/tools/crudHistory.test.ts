@@ -0,0 +1,76 @@
+/**
+ * Tests for CRUD record versions: ifVersion, crud_history and crud_restore
+ */
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+
+import { useStorage } from '../storage/storage.js';
+import { MemoryStorage } from '../storage/memoryStorage.js';
+import { handleCrudCreate, handleCrudRead, handleCrudUpdate, handleCrudDelete, handleCrudQuery } from './crud.js';
+import { handleCrudHistory, handleCrudRestore } from './crudHistory.js';
+
+describe('crud record versions', () => {
+    let id: string;
+
+    beforeEach(async () => {
+        useStorage(new MemoryStorage());
+        const created = await handleCrudCreate({ collection: 'notes', data: { title: 'draft' } });
+        assert.strictEqual(created.structuredContent!._version, 1);
+        id = created.structuredContent!.id as string;
+    });
+
+    it('refuses an update or delete over a version it did not read', async () => {
+        const first = await handleCrudUpdate({ collection: 'notes', id, data: { title: 'mine' }, ifVersion: 1 });
+        assert.strictEqual(first.structuredContent!._version, 2);
+
+        const stale = await handleCrudUpdate({ collection: 'notes', id, data: { title: 'theirs' }, ifVersion: 1 });
+        const error = stale.structuredContent!.error as any;
+        assert.strictEqual(error.code, 'CONFLICT');
+        assert.deepStrictEqual([error.details.expectedVersion, error.details.currentVersion, error.retryable], [1, 2, false]);
+        const staleDelete = await handleCrudDelete({ collection: 'notes', id, ifVersion: 1 });
+        assert.strictEqual((staleDelete.structuredContent!.error as any).code, 'CONFLICT');
+
+        const read = await handleCrudRead({ collection: 'notes', id });
+        assert.deepStrictEqual(read.structuredContent, { id, title: 'mine', _version: 2 });
+    });
+
+    it('lists every version, newest first, and filters on _version', async () => {
+        await handleCrudUpdate({ collection: 'notes', id, data: { title: 'second' } });
+        await handleCrudUpdate({ collection: 'notes', id, data: { title: 'third' } });
+
+        const history = (await handleCrudHistory({ collection: 'notes', id })).structuredContent!;
+        assert.strictEqual(history.currentVersion, 3);
+        assert.deepStrictEqual((history.versions as any[]).map(entry => [entry.version, entry.record.title, entry.replacedBy]),
+            [[3, 'third', null], [2, 'second', 'update'], [1, 'draft', 'update']]);
+
+        const query = await handleCrudQuery({ collection: 'notes', filter: { _version: { $gte: 3 } } });
+        assert.strictEqual(query.structuredContent!.total, 1);
+    });
+
+    it('rolls back to an old version as a new one', async () => {
+        await handleCrudUpdate({ collection: 'notes', id, data: { title: 'oops', extra: true } });
+
+        const restored = await handleCrudRestore({ collection: 'notes', id, version: 1, ifVersion: 2 });
+        assert.deepStrictEqual(restored.structuredContent, { record: { id, title: 'draft', _version: 3 }, restoredFrom: 1, undeleted: false });
+        const history = (await handleCrudHistory({ collection: 'notes', id })).structuredContent!;
+        assert.strictEqual(history.total, 3, 'the rolled-back version stays in the history');
+
+        const current = await handleCrudRestore({ collection: 'notes', id, version: 3 });
+        assert.strictEqual((current.structuredContent!.error as any).code, 'INVALID_ARGUMENTS');
+    });
+
+    it('brings back a deleted record', async () => {
+        await handleCrudDelete({ collection: 'notes', id });
+        const history = (await handleCrudHistory({ collection: 'notes', id })).structuredContent!;
+        assert.strictEqual(history.currentVersion, null);
+        assert.strictEqual((history.versions as any[])[0].replacedBy, 'delete');
+
+        const restored = await handleCrudRestore({ collection: 'notes', id, version: 1 });
+        assert.strictEqual(restored.structuredContent!.undeleted, true);
+        assert.deepStrictEqual((await handleCrudRead({ collection: 'notes', id })).structuredContent, { id, title: 'draft', _version: 2 });
+
+        const missing = await handleCrudHistory({ collection: 'notes', id: 'nope' });
+        assert.strictEqual((missing.structuredContent!.error as any).code, 'NOT_FOUND');
+    });
+});
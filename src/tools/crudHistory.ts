@@ -0,0 +1,174 @@
+// CRUD record versions
+// ifVersion checks for crud_update and crud_delete, and crud_history / crud_restore over the versions they replaced
+
+import { z } from 'zod';
+import { Storage, RecordRow, RecordHistoryRow, getStorage } from '../storage/storage.js';
+import { logAudit } from '../audit.js';
+import { loadConfig } from '../config.js';
+import { isSimulating, simulatedResponse } from '../utils/simulate.js';
+import { notifyResourceUpdated, notifyResourceListChanged } from '../resources/subscriptions.js';
+import { crudRecordUri } from '../resources/uris.js';
+import { validateRecord } from './crudCollections.js';
+import { ToolError, ToolResponse, toolErrorResponse, toolResponse } from './toolResult.js';
+
+const config = loadConfig();
+
+export const IfVersionSchema = z.number().int().positive().optional()
+    .describe('The _version last read; if the record has changed since, nothing is written and the call fails with CONFLICT');
+
+export const CrudHistorySchema = {
+    collection: z.string(),
+    id: z.string(),
+    limit: z.number().int().positive().optional(),
+    offset: z.number().int().min(0).optional(),
+};
+
+export const CrudRestoreSchema = {
+    collection: z.string(),
+    id: z.string(),
+    version: z.number().int().positive().describe('The _version to bring back, from crud_history'),
+    ifVersion: IfVersionSchema,
+};
+
+// Output schemas: structuredContent of a successful call
+const VersionedRecordOutput = z.object({ id: z.string(), _version: z.number() }).passthrough();
+
+export const CrudHistoryOutput = {
+    collection: z.string(),
+    id: z.string(),
+    currentVersion: z.number().nullable().describe('null once the record is deleted'),
+    versions: z.array(z.object({
+        version: z.number(),
+        record: VersionedRecordOutput,
+        updatedAt: z.string().describe('When this version was written'),
+        replacedAt: z.string().nullable().describe('null for the current version'),
+        replacedBy: z.enum(['update', 'delete']).nullable(),
+    })).describe('Newest first'),
+    total: z.number(),
+    offset: z.number(),
+};
+
+export const CrudRestoreOutput = {
+    record: VersionedRecordOutput.describe('The record as restored, at a new version'),
+    restoredFrom: z.number(),
+    undeleted: z.boolean().describe('true if the record had been deleted'),
+};
+
+/**
+ * A record as the CRUD tools return it: its data, after its id and before its _version
+ */
+export function recordOutput(id: string, data: object, version: number) {
+    return { id, ...data, _version: version };
+}
+
+function conflictError(collection: string, id: string, expected: number, current: number | null, retryable = false): ToolError {
+    return new ToolError(
+        'CONFLICT',
+        current === null
+            ? `Record ${collection}/${id} was deleted`
+            : `Record ${collection}/${id} is at version ${current}, not ${expected}`,
+        { retryable, details: { collection, id, expectedVersion: expected, currentVersion: current } }
+    );
+}
+
+/**
+ * Refuse a write when ifVersion is given and the record has moved past it
+ */
+export function assertVersion(row: RecordRow, ifVersion: number | undefined): void {
+    if (ifVersion !== undefined && row.version !== ifVersion) {
+        throw conflictError(row.collection, row.id, ifVersion, row.version);
+    }
+}
+
+/**
+ * Why a write at an expected version changed nothing: the record is gone, or another write got
+ * there first. retryable when the caller didn't ask for the version, so a fresh read would do.
+ */
+export async function versionedWriteError(storage: Storage, collection: string, id: string, expected: number, retryable = false): Promise<ToolError> {
+    const row = await storage.getRecord(collection, id);
+    return row ? conflictError(collection, id, expected, row.version, retryable) : new ToolError('NOT_FOUND', 'Record not found');
+}
+
+function describeVersion(row: RecordRow | RecordHistoryRow) {
+    const replaced = 'replaced_by' in row ? row : null;
+    return {
+        version: row.version,
+        record: recordOutput(row.id, JSON.parse(row.data), row.version),
+        updatedAt: row.updated_at,
+        replacedAt: replaced?.replaced_at ?? null,
+        replacedBy: replaced?.replaced_by ?? null,
+    };
+}
+
+export async function handleCrudHistory(args: { collection: string; id: string; limit?: number; offset?: number }): Promise<ToolResponse> {
+    try {
+        const storage = await getStorage();
+        const current = await storage.getRecord(args.collection, args.id);
+        const history = await storage.queryRecordHistory({ collection: args.collection, id: args.id });
+        if (!current && history.length === 0) {
+            throw new ToolError('NOT_FOUND', `Record not found in collection ${args.collection} with id ${args.id}`);
+        }
+
+        const versions = [...(current ? [current] : []), ...history].map(describeVersion);
+        const offset = args.offset ?? 0;
+        await logAudit('crud_history', args, `${versions.length} versions`);
+        return toolResponse({
+            collection: args.collection,
+            id: args.id,
+            currentVersion: current?.version ?? null,
+            versions: versions.slice(offset, offset + (args.limit || config.crud.defaultLimit)),
+            total: versions.length,
+            offset,
+        });
+    } catch (error: any) {
+        await logAudit('crud_history', args, null, error.message);
+        return toolErrorResponse(error);
+    }
+}
+
+export async function handleCrudRestore(args: { collection: string; id: string; version: number; ifVersion?: number }): Promise<ToolResponse> {
+    try {
+        const storage = await getStorage();
+        const current = await storage.getRecord(args.collection, args.id);
+        const [old] = await storage.queryRecordHistory({ collection: args.collection, id: args.id, version: args.version });
+        if (!old) {
+            throw current?.version === args.version
+                ? new ToolError('INVALID_ARGUMENTS', `Version ${args.version} is the current version of ${args.collection}/${args.id}`)
+                : new ToolError('NOT_FOUND', `No version ${args.version} of ${args.collection}/${args.id} in its history`);
+        }
+        if (current) {
+            assertVersion(current, args.ifVersion);
+        } else if (args.ifVersion !== undefined) {
+            throw conflictError(args.collection, args.id, args.ifVersion, null);
+        }
+
+        // The old data must still fit the collection's schema
+        const data = await validateRecord(storage, args.collection, JSON.parse(old.data));
+        // A deleted record's last version heads its history
+        const [latest] = current ? [current] : await storage.queryRecordHistory({ collection: args.collection, id: args.id, limit: 1 });
+        const version = latest.version + 1;
+
+        if (isSimulating()) {
+            return simulatedResponse('crud_restore', args, {
+                action: current ? 'update' : 'insert',
+                collection: args.collection,
+                before: current ? recordOutput(args.id, JSON.parse(current.data), current.version) : null,
+                after: recordOutput(args.id, data, version),
+            });
+        }
+
+        if (!current) {
+            await storage.insertRecord({ collection: args.collection, id: args.id, data: JSON.stringify(data) });
+        } else if (!await storage.updateRecord(args.collection, args.id, JSON.stringify(data), current.version)) {
+            throw await versionedWriteError(storage, args.collection, args.id, current.version, args.ifVersion === undefined);
+        }
+        notifyResourceUpdated(crudRecordUri(args.collection, args.id));
+        if (!current) notifyResourceListChanged();
+
+        await logAudit('crud_restore', args, { version });
+        return toolResponse({ record: recordOutput(args.id, data, version), restoredFrom: args.version, undeleted: !current });
+    } catch (error: any) {
+        await logAudit('crud_restore', args, null, error.message);
+        return toolErrorResponse(error);
+    }
+}
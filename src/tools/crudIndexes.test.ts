@@ -0,0 +1,101 @@
+/**
+ * Tests for CRUD field indexes
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+import { openStorage, useStorage, Storage } from '../storage/storage.js';
+import { MemoryStorage } from '../storage/memoryStorage.js';
+import { parseFilter, parseSort, recordIndexName } from '../storage/recordQuery.js';
+import { copyStorage } from '../storage/migrate.js';
+import { handleCrudQuery } from './crud.js';
+import { handleCrudCreateIndex, handleCrudDropIndex, handleCrudListIndexes, explainQuery } from './crudIndexes.js';
+
+describe('record indexes on sqlite', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'record-index-test-'));
+    let storage: Storage;
+
+    before(async () => {
+        storage = await openStorage('sqlite', path.join(tempDir, 'records.db'));
+        for (let i = 0; i < 50; i++) {
+            await storage.insertRecord({ collection: 'tasks', id: `t${i}`, data: JSON.stringify({ status: i % 5 ? 'open' : 'done', meta: { owner: `u${i}` } }) });
+        }
+        await storage.insertRecord({ collection: 'notes', id: 'n1', data: JSON.stringify({ status: 'done' }) });
+    });
+
+    after(async () => {
+        await storage.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    const find = (filter: unknown, sort: unknown = {}) => ({
+        collection: 'tasks', filter: parseFilter(filter), sort: parseSort(sort), offset: 0, limit: 10,
+    });
+
+    it('uses a declared field index for filters on that collection only', async () => {
+        assert.deepStrictEqual((await explainQuery(storage, find({ 'meta.owner': 'u3' }))).indexedFields, []);
+
+        await storage.createRecordIndex({ collection: 'tasks', field: 'meta.owner' });
+        const plan = await explainQuery(storage, find({ 'meta.owner': 'u3' }));
+        assert.deepStrictEqual(plan.indexedFields, ['meta.owner']);
+        assert.ok(plan.steps.some(step => step.includes(recordIndexName('tasks', 'meta.owner'))));
+        assert.deepStrictEqual(
+            (await explainQuery(storage, { ...find({ 'meta.owner': 'u3' }), collection: 'notes' })).indexedFields, [],
+            'the index covers tasks only'
+        );
+        assert.deepStrictEqual((await storage.findRecords(find({ 'meta.owner': 'u3' }))).rows.map(row => row.id), ['t3']);
+    });
+
+    it('uses the index for $in and range filters', async () => {
+        assert.deepStrictEqual((await explainQuery(storage, find({ 'meta.owner': { $gte: 'u8' } }))).indexedFields, ['meta.owner']);
+        assert.deepStrictEqual((await explainQuery(storage, find({ 'meta.owner': { $in: ['u1', 'u2'] } }))).indexedFields, ['meta.owner']);
+
+        const { rows } = await storage.findRecords(find({ 'meta.owner': { $in: ['u1', 'u2'] } }, { id: 1 }));
+        assert.deepStrictEqual(rows.map(row => row.id), ['t1', 't2']);
+    });
+
+    it('drops the SQLite index with the declaration, and copies declarations between backends', async () => {
+        await storage.createRecordIndex({ collection: 'tasks', field: 'status' });
+        const target = new MemoryStorage();
+        await copyStorage(storage, target);
+        assert.deepStrictEqual((await target.listRecordIndexes('tasks')).map(index => index.field), ['meta.owner', 'status']);
+
+        assert.strictEqual(await storage.dropRecordIndex('tasks', 'meta.owner'), true);
+        assert.strictEqual(await storage.dropRecordIndex('tasks', 'meta.owner'), false);
+        assert.deepStrictEqual((await explainQuery(storage, find({ 'meta.owner': 'u3' }))).indexedFields, []);
+    });
+});
+
+describe('crud index tools', () => {
+    before(() => useStorage(new MemoryStorage()));
+
+    it('declares, lists and drops an index', async () => {
+        const created = await handleCrudCreateIndex({ collection: 'tasks', field: 'meta.owner' });
+        assert.strictEqual(created.structuredContent!.created, true);
+        assert.strictEqual(created.structuredContent!.backed, false);
+        assert.strictEqual((await handleCrudCreateIndex({ collection: 'tasks', field: 'meta.owner' })).structuredContent!.created, false);
+
+        const listed = await handleCrudListIndexes({});
+        assert.deepStrictEqual((listed.structuredContent!.indexes as any[]).map(index => index.field), ['meta.owner']);
+
+        assert.ok(!(await handleCrudDropIndex({ collection: 'tasks', field: 'meta.owner' })).isError);
+        const missing = await handleCrudDropIndex({ collection: 'tasks', field: 'meta.owner' });
+        assert.strictEqual((missing.structuredContent!.error as any).code, 'NOT_FOUND');
+    });
+
+    it('rejects row columns and malformed paths', async () => {
+        for (const field of ['id', '_created_at', 'a..b']) {
+            const response = await handleCrudCreateIndex({ collection: 'tasks', field });
+            assert.strictEqual((response.structuredContent!.error as any).code, 'INVALID_ARGUMENTS', field);
+        }
+    });
+
+    it('returns an empty plan from crud_query explain without a query planner', async () => {
+        const response = await handleCrudQuery({ collection: 'tasks', filter: { status: 'open' }, explain: true });
+        assert.deepStrictEqual(response.structuredContent!.queryPlan, { steps: [], indexedFields: [] });
+    });
+});
@@ -0,0 +1,131 @@
+// CRUD field indexes
+// Declared per collection; SQLite backs each with an expression index that crud_query filters and sorts can use
+
+import { z } from 'zod';
+import { Storage, RecordIndexRow, getStorage } from '../storage/storage.js';
+import { RecordFind, parseDataField, recordIndexName } from '../storage/recordQuery.js';
+import { logAudit } from '../audit.js';
+import { isSimulating, simulatedResponse } from '../utils/simulate.js';
+import { ToolError, ToolResponse, toolErrorResponse, toolResponse } from './toolResult.js';
+
+export const CrudCreateIndexSchema = {
+    collection: z.string(),
+    field: z.string().describe('Dotted path into the record data, e.g. "status" or "meta.owner"'),
+};
+
+export const CrudDropIndexSchema = {
+    collection: z.string(),
+    field: z.string(),
+};
+
+export const CrudListIndexesSchema = {
+    collection: z.string().optional().describe('Only this collection (default: all)'),
+};
+
+// Output schemas: structuredContent of a successful call
+const RecordIndexOutput = z.object({
+    collection: z.string(),
+    field: z.string(),
+    name: z.string().describe('The SQLite index'),
+    createdAt: z.string(),
+});
+
+export const CrudCreateIndexOutput = {
+    ...RecordIndexOutput.shape,
+    created: z.boolean().describe('false if the field was already indexed'),
+    backed: z.boolean().describe('false on the json and memory backends, which keep the declaration but always scan'),
+};
+
+export const CrudDropIndexOutput = {
+    collection: z.string(),
+    field: z.string(),
+    dropped: z.literal(true),
+};
+
+export const CrudListIndexesOutput = {
+    indexes: z.array(RecordIndexOutput),
+    backed: z.boolean(),
+};
+
+export const QueryPlanOutput = z.object({
+    steps: z.array(z.string()).describe('EXPLAIN QUERY PLAN lines; empty on backends without a query planner'),
+    indexedFields: z.array(z.string()).describe('Declared fields whose index the plan uses'),
+});
+
+function describeIndex(row: RecordIndexRow) {
+    return { collection: row.collection, field: row.field, name: row.name, createdAt: row.created_at };
+}
+
+/**
+ * The plan for a crud_query, and which of the collection's declared indexes it uses
+ */
+export async function explainQuery(storage: Storage, query: RecordFind): Promise<z.infer<typeof QueryPlanOutput>> {
+    const steps = await storage.explainFindRecords(query) ?? [];
+    const used = new Set(steps.flatMap(step => [...step.matchAll(/USING (?:COVERING )?INDEX (\w+)/g)].map(match => match[1])));
+    const indexes = await storage.listRecordIndexes(query.collection);
+    return { steps, indexedFields: indexes.filter(index => used.has(index.name)).map(index => index.field) };
+}
+
+export async function handleCrudCreateIndex(args: { collection: string; field: string }): Promise<ToolResponse> {
+    try {
+        const path = parseDataField(args.field);
+        const field = path.join('.');
+        const storage = await getStorage();
+        const name = recordIndexName(args.collection, field);
+        const existing = (await storage.listRecordIndexes(args.collection)).find(index => index.field === field);
+
+        if (isSimulating()) {
+            return simulatedResponse('crud_create_index', args, {
+                action: existing ? 'none' : 'create_index',
+                collection: args.collection,
+                field,
+                name,
+            });
+        }
+
+        const created = await storage.createRecordIndex({ collection: args.collection, field });
+        const row = (await storage.listRecordIndexes(args.collection)).find(index => index.field === field)!;
+        await logAudit('crud_create_index', args, { name, created });
+        return toolResponse({ ...describeIndex(row), created, backed: storage.type === 'sqlite' });
+    } catch (error: any) {
+        await logAudit('crud_create_index', args, null, error.message);
+        return toolErrorResponse(error);
+    }
+}
+
+export async function handleCrudDropIndex(args: { collection: string; field: string }): Promise<ToolResponse> {
+    try {
+        const field = parseDataField(args.field).join('.');
+        const storage = await getStorage();
+        const existing = (await storage.listRecordIndexes(args.collection)).find(index => index.field === field);
+        if (!existing) throw new ToolError('NOT_FOUND', `${args.collection} has no index on ${field}`);
+
+        if (isSimulating()) {
+            return simulatedResponse('crud_drop_index', args, {
+                action: 'drop_index',
+                collection: args.collection,
+                field,
+                name: existing.name,
+            });
+        }
+
+        await storage.dropRecordIndex(args.collection, field);
+        await logAudit('crud_drop_index', args, { name: existing.name });
+        return toolResponse({ collection: args.collection, field, dropped: true as const });
+    } catch (error: any) {
+        await logAudit('crud_drop_index', args, null, error.message);
+        return toolErrorResponse(error);
+    }
+}
+
+export async function handleCrudListIndexes(args: { collection?: string }): Promise<ToolResponse> {
+    try {
+        const storage = await getStorage();
+        const indexes = (await storage.listRecordIndexes(args.collection)).map(describeIndex);
+        await logAudit('crud_list_indexes', args, `${indexes.length} indexes`);
+        return toolResponse({ indexes, backed: storage.type === 'sqlite' });
+    } catch (error: any) {
+        await logAudit('crud_list_indexes', args, null, error.message);
+        return toolErrorResponse(error);
+    }
+}
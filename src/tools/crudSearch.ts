@@ -0,0 +1,73 @@
+// CRUD full-text search
+// crud_search: ranked word and phrase search over record text, with snippets
+
+import { z } from 'zod';
+import { getStorage } from '../storage/storage.js';
+import { parseSearchQuery } from '../storage/recordSearch.js';
+import { logAudit } from '../audit.js';
+import { loadConfig } from '../config.js';
+import { recordOutput } from './crudHistory.js';
+import { ToolResponse, toolErrorResponse, toolResponse } from './toolResult.js';
+
+const config = loadConfig();
+
+export const CrudSearchSchema = {
+    query: z.string().describe('Words and "quoted phrases", all of which must appear; a trailing * matches a prefix, e.g. deploy* "release notes"'),
+    collection: z.string().optional().describe('Only this collection (default: all)'),
+    prefix: z.boolean().optional().describe('Match every word as a prefix (default: false)'),
+    limit: z.number().int().positive().optional(),
+    offset: z.number().int().min(0).optional(),
+    snippetTokens: z.number().int().min(1).max(64).optional().describe('Words in each snippet (default: 16)'),
+    highlight: z.tuple([z.string(), z.string()]).optional().describe('Marks put around matched words in snippets (default: ["**", "**"])'),
+    includeRecords: z.boolean().optional().describe('Return each matching record too (default: false)'),
+};
+
+// Output schemas: structuredContent of a successful call
+export const CrudSearchOutput = {
+    results: z.array(z.object({
+        collection: z.string(),
+        id: z.string(),
+        score: z.number().describe('BM25 relevance; higher is better'),
+        snippet: z.string(),
+        record: z.object({ id: z.string() }).passthrough().optional(),
+    })),
+    total: z.number().describe('Records matching the query, across all pages'),
+    offset: z.number(),
+};
+
+export async function handleCrudSearch(args: {
+    query: string;
+    collection?: string;
+    prefix?: boolean;
+    limit?: number;
+    offset?: number;
+    snippetTokens?: number;
+    highlight?: [string, string];
+    includeRecords?: boolean;
+}): Promise<ToolResponse> {
+    try {
+        const offset = args.offset ?? 0;
+        const storage = await getStorage();
+        const { hits, total } = await storage.searchRecords({
+            collection: args.collection,
+            terms: parseSearchQuery(args.query, args.prefix),
+            offset,
+            limit: args.limit || config.crud.defaultLimit,
+            snippetTokens: args.snippetTokens ?? 16,
+            highlight: args.highlight ?? ['**', '**'],
+        });
+
+        const results = hits.map(({ row, score, snippet }) => ({
+            collection: row.collection,
+            id: row.id,
+            score,
+            snippet,
+            ...(args.includeRecords && { record: recordOutput(row.id, JSON.parse(row.data), row.version) }),
+        }));
+        await logAudit('crud_search', args, `found ${results.length} of ${total} records`);
+        return toolResponse({ results, total, offset });
+    } catch (error: any) {
+        await logAudit('crud_search', args, null, error.message);
+        return toolErrorResponse(error);
+    }
+}
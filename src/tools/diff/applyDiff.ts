@@ -4,6 +4,8 @@
 import fs from 'fs';
 import path from 'path';
 import { logAudit } from '../../audit.js';
+import { isSimulating } from '../../utils/simulate.js';
+import { enforcePathPolicy, PathPolicyError, pathPolicyErrorResponse } from '../../utils/pathPolicy.js';
 import { detectLineEnding, normalizeLineEndings } from './lineEndings.js';
 import { 
     recursiveFuzzyIndexOf, 
@@ -12,6 +14,7 @@ import {
     DEFAULT_FUZZY_THRESHOLD 
 } from './fuzzySearch.js';
 import { generateDiff, summarizeDiff } from './diffVisualizer.js';
+import { ToolError, ToolResponse, reportResponse, toolErrorResponse } from '../toolResult.js';
 
 export interface DiffBlock {
     search: string;
@@ -51,19 +54,20 @@ export interface ApplyDiffResult {
  * Handle apply_diff tool call
  * Applies multiple search/replace operations to a single file
  */
-export async function handleApplyDiff(args: ApplyDiffArgs): Promise<{
-    content: Array<{ type: string; text: string }>;
-    isError?: boolean;
-}> {
+export async function handleApplyDiff(args: ApplyDiffArgs): Promise<ToolResponse> {
     const {
         path: filePath,
         diffs,
-        dryRun = false,
+        dryRun: requestedDryRun = false,
         allowFuzzy = true,
         fuzzyThreshold = DEFAULT_FUZZY_THRESHOLD
     } = args;
+    // Simulation mode turns every edit into a preview
+    const dryRun = requestedDryRun || isSimulating();
 
     try {
+        await enforcePathPolicy('apply_diff', filePath, requestedDryRun ? 'read' : 'write');
+
         const result = await performApplyDiff(
             filePath,
             diffs,
@@ -79,20 +83,14 @@ export async function handleApplyDiff(args: ApplyDiffArgs): Promise<{
             allowFuzzy
         }, result);
 
-        return {
-            content: [{
-                type: 'text',
-                text: formatApplyDiffResponse(result)
-            }],
-            isError: !result.success
-        };
+        // Nothing is applied unless every block matches the file exactly once
+        const failure = result.success ? null : new ToolError('CONFLICT', result.message);
+        return reportResponse({ ...result }, failure, formatApplyDiffResponse(result));
 
     } catch (error: any) {
+        if (error instanceof PathPolicyError) return pathPolicyErrorResponse(error);
         await logAudit('apply_diff', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -108,26 +106,12 @@ async function performApplyDiff(
 ): Promise<ApplyDiffResult> {
     // Validate inputs
     if (diffs.length === 0) {
-        return {
-            success: false,
-            applied: false,
-            message: 'No diff blocks provided.',
-            blocksMatched: 0,
-            blocksFailed: 0,
-            errors: []
-        };
+        throw new ToolError('INVALID_ARGUMENTS', 'No diff blocks provided.');
     }
 
     // Check file exists
     if (!fs.existsSync(filePath)) {
-        return {
-            success: false,
-            applied: false,
-            message: `File not found: ${filePath}`,
-            blocksMatched: 0,
-            blocksFailed: diffs.length,
-            errors: ['File not found']
-        };
+        throw new ToolError('NOT_FOUND', `File not found: ${filePath}`);
     }
 
     // Read file content
@@ -6,9 +6,12 @@
 import fs from 'fs';
 import path from 'path';
 import { logAudit } from '../../audit.js';
+import { isSimulating } from '../../utils/simulate.js';
+import { enforcePathPolicy, PathPolicyError, PathPolicyViolation, pathPolicyErrorResponse } from '../../utils/pathPolicy.js';
 import { detectLineEnding, normalizeLineEndings } from './lineEndings.js';
 import { countOccurrences, DEFAULT_FUZZY_THRESHOLD } from './fuzzySearch.js';
 import { generateDiff } from './diffVisualizer.js';
+import { ToolError, ToolResponse, reportResponse } from '../toolResult.js';
 
 /**
  * Arguments for the batch_edit_blocks tool
@@ -39,6 +42,7 @@ export interface BatchEditBlocksArgs {
  * @property failedEdits - Number of edits that failed
  * @property results - Per-edit results with index, status, message, and diff
  * @property finalDiff - Cumulative diff showing all changes applied
+ * @property policyViolation - Set when the filesystem policy rejected the path
  */
 export interface BatchEditBlocksResult {
     success: boolean;
@@ -53,6 +57,7 @@ export interface BatchEditBlocksResult {
         diff?: string;
     }>;
     finalDiff?: string;
+    policyViolation?: PathPolicyViolation;
 }
 
 /**
@@ -124,14 +129,6 @@ function performSingleEdit(
     };
 }
 
-/**
- * MCP response format
- */
-interface McpResponse {
-    content: Array<{ type: string; text: string }>;
-    isError?: boolean;
-}
-
 /**
  * Format batch result for display
  */
@@ -183,9 +180,11 @@ export async function handleBatchEditBlocks(args: BatchEditBlocksArgs): Promise<
         path: filePath,
         edits,
         stopOnError = false,
-        dryRun = false,
+        dryRun: requestedDryRun = false,
         fuzzyThreshold = DEFAULT_FUZZY_THRESHOLD
     } = args;
+    // Simulation mode turns every edit into a preview
+    const dryRun = requestedDryRun || isSimulating();
     
     // Handle empty edits edge case
     if (edits.length === 0) {
@@ -200,6 +199,21 @@ export async function handleBatchEditBlocks(args: BatchEditBlocksArgs): Promise<
         return result;
     }
     
+    // Check filesystem policy
+    try {
+        await enforcePathPolicy('batch_edit_blocks', filePath, requestedDryRun ? 'read' : 'write');
+    } catch (error) {
+        if (!(error instanceof PathPolicyError)) throw error;
+        return {
+            success: false,
+            totalEdits: edits.length,
+            successfulEdits: 0,
+            failedEdits: edits.length,
+            results: [],
+            policyViolation: error.violation
+        };
+    }
+
     // Check file exists
     if (!fs.existsSync(filePath)) {
         const result: BatchEditBlocksResult = {
@@ -277,10 +291,13 @@ export async function handleBatchEditBlocks(args: BatchEditBlocksArgs): Promise<
  * MCP handler wrapper for batch_edit_blocks
  * Formats the result for MCP response
  */
-export async function handleBatchEditBlocksMcp(args: BatchEditBlocksArgs): Promise<McpResponse> {
+export async function handleBatchEditBlocksMcp(args: BatchEditBlocksArgs): Promise<ToolResponse> {
     const result = await handleBatchEditBlocks(args);
-    return {
-        content: [{ type: 'text', text: formatBatchEditResponse(result) }],
-        isError: !result.success
-    };
+    if (result.policyViolation) {
+        return pathPolicyErrorResponse(new PathPolicyError(result.policyViolation));
+    }
+    const firstFailure = result.results.find(edit => !edit.success)?.message ?? 'Batch edit failed';
+    const failure = result.success ? null
+        : new ToolError(fs.existsSync(args.path) ? 'CONFLICT' : 'NOT_FOUND', firstFailure);
+    return reportResponse({ ...result }, failure, formatBatchEditResponse(result));
 }
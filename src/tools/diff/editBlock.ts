@@ -4,6 +4,8 @@
 import fs from 'fs';
 import path from 'path';
 import { logAudit } from '../../audit.js';
+import { isSimulating } from '../../utils/simulate.js';
+import { enforcePathPolicy, PathPolicyError, pathPolicyErrorResponse } from '../../utils/pathPolicy.js';
 import { detectLineEnding, normalizeLineEndings, describeLineEndingDifference } from './lineEndings.js';
 import { 
     recursiveFuzzyIndexOf, 
@@ -12,6 +14,7 @@ import {
     DEFAULT_FUZZY_THRESHOLD 
 } from './fuzzySearch.js';
 import { generateDiff, formatInlineDiff, summarizeDiff } from './diffVisualizer.js';
+import { ToolError, ToolResponse, reportResponse, toolErrorResponse } from '../toolResult.js';
 
 export interface EditBlockArgs {
     path: string;
@@ -40,20 +43,21 @@ export interface EditBlockResult {
  * Handle edit_block tool call
  * Performs a search/replace operation with fuzzy fallback and diff preview
  */
-export async function handleEditBlock(args: EditBlockArgs): Promise<{
-    content: Array<{ type: string; text: string }>;
-    isError?: boolean;
-}> {
+export async function handleEditBlock(args: EditBlockArgs): Promise<ToolResponse> {
     const {
         path: filePath,
         search,
         replace,
         expectedReplacements = 1,
         fuzzyThreshold = DEFAULT_FUZZY_THRESHOLD,
-        dryRun = false
+        dryRun: requestedDryRun = false
     } = args;
+    // Simulation mode turns every edit into a preview
+    const dryRun = requestedDryRun || isSimulating();
 
     try {
+        await enforcePathPolicy('edit_block', filePath, requestedDryRun ? 'read' : 'write');
+
         const result = await performEditBlock(
             filePath,
             search,
@@ -71,20 +75,15 @@ export async function handleEditBlock(args: EditBlockArgs): Promise<{
             dryRun
         }, result);
 
-        return {
-            content: [{
-                type: 'text',
-                text: formatEditBlockResponse(result)
-            }],
-            isError: !result.success
-        };
+        // A wrong occurrence count conflicts with the file; anything else found no match
+        const failure = result.success ? null
+            : new ToolError(result.occurrencesFound ? 'CONFLICT' : 'NOT_FOUND', result.message.split('\n')[0]);
+        return reportResponse({ ...result }, failure, formatEditBlockResponse(result));
 
     } catch (error: any) {
+        if (error instanceof PathPolicyError) return pathPolicyErrorResponse(error);
         await logAudit('edit_block', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -101,20 +100,12 @@ async function performEditBlock(
 ): Promise<EditBlockResult> {
     // Validate inputs
     if (search === '') {
-        return {
-            success: false,
-            applied: false,
-            message: 'Empty search strings are not allowed. Please provide a non-empty string to search for.'
-        };
+        throw new ToolError('INVALID_ARGUMENTS', 'Empty search strings are not allowed. Please provide a non-empty string to search for.');
     }
 
     // Check file exists
     if (!fs.existsSync(filePath)) {
-        return {
-            success: false,
-            applied: false,
-            message: `File not found: ${filePath}`
-        };
+        throw new ToolError('NOT_FOUND', `File not found: ${filePath}`);
     }
 
     // Read file content
@@ -4,9 +4,11 @@
 import fs from 'fs';
 import path from 'path';
 import { logAudit } from '../../audit.js';
+import { enforcePathPolicy, PathPolicyError, pathPolicyErrorResponse } from '../../utils/pathPolicy.js';
 import { detectLineEnding, normalizeLineEndings } from './lineEndings.js';
 import { countOccurrences, recursiveFuzzyIndexOf } from './fuzzySearch.js';
 import { generateDiff, formatInlineDiff, formatSideBySide, summarizeDiff } from './diffVisualizer.js';
+import { ToolError, ToolResponse, reportResponse, toolErrorResponse } from '../toolResult.js';
 
 export interface GetDiffPreviewArgs {
     path: string;
@@ -32,10 +34,7 @@ export interface GetDiffPreviewResult {
  * Handle get_diff_preview tool call
  * Generates a preview of changes without applying them
  */
-export async function handleGetDiffPreview(args: GetDiffPreviewArgs): Promise<{
-    content: Array<{ type: string; text: string }>;
-    isError?: boolean;
-}> {
+export async function handleGetDiffPreview(args: GetDiffPreviewArgs): Promise<ToolResponse> {
     const {
         path: filePath,
         search,
@@ -45,6 +44,8 @@ export async function handleGetDiffPreview(args: GetDiffPreviewArgs): Promise<{
     } = args;
 
     try {
+        await enforcePathPolicy('get_diff_preview', filePath, 'read');
+
         const result = await performGetDiffPreview(
             filePath,
             search,
@@ -60,20 +61,13 @@ export async function handleGetDiffPreview(args: GetDiffPreviewArgs): Promise<{
             format
         }, { success: result.success });
 
-        return {
-            content: [{
-                type: 'text',
-                text: formatPreviewResponse(result)
-            }],
-            isError: !result.success
-        };
+        const failure = result.success ? null : new ToolError('NOT_FOUND', result.preview.split('\n')[0]);
+        return reportResponse({ ...result }, failure, formatPreviewResponse(result));
 
     } catch (error: any) {
+        if (error instanceof PathPolicyError) return pathPolicyErrorResponse(error);
         await logAudit('get_diff_preview', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -89,13 +83,7 @@ async function performGetDiffPreview(
 ): Promise<GetDiffPreviewResult> {
     // Check file exists
     if (!fs.existsSync(filePath)) {
-        return {
-            success: false,
-            format,
-            preview: `File not found: ${filePath}`,
-            stats: { additions: 0, deletions: 0, chunksChanged: 0 },
-            occurrencesFound: 0
-        };
+        throw new ToolError('NOT_FOUND', `File not found: ${filePath}`);
     }
 
     // Read file content
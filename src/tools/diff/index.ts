@@ -1,12 +1,28 @@
 // Diff tools module - exports all diff editing functionality
 // Provides edit_block, apply_diff, get_diff_preview, batch_edit_blocks, and write_from_line tools
 
+import { ToolDefinition } from '../toolDefinition.js';
+import {
+    EditBlockSchema, ApplyDiffSchema, GetDiffPreviewSchema, BatchEditBlocksSchema, WriteFromLineSchema,
+    EditBlockOutput, ApplyDiffOutput, GetDiffPreviewOutput, BatchEditBlocksOutput, WriteFromLineOutput,
+} from './schemas.js';
+import { handleEditBlock } from './editBlock.js';
+import { handleApplyDiff } from './applyDiff.js';
+import { handleGetDiffPreview } from './getDiffPreview.js';
+import { handleBatchEditBlocksMcp } from './batchEditBlocks.js';
+import { handleWriteFromLineMcp } from './writeFromLine.js';
+
 export {
     EditBlockSchema,
     ApplyDiffSchema,
     GetDiffPreviewSchema,
     BatchEditBlocksSchema,
-    WriteFromLineSchema
+    WriteFromLineSchema,
+    EditBlockOutput,
+    ApplyDiffOutput,
+    GetDiffPreviewOutput,
+    BatchEditBlocksOutput,
+    WriteFromLineOutput
 } from './schemas.js';
 
 export { handleEditBlock } from './editBlock.js';
@@ -49,3 +65,52 @@ export {
     DEFAULT_FUZZY_THRESHOLD
 } from './fuzzySearch.js';
 export type { FuzzyMatch } from './fuzzySearch.js';
+
+// Tool definitions, collected by registry.ts
+export const DIFF_TOOLS: ToolDefinition[] = [
+    {
+        name: 'edit_block',
+        description: 'Search and replace text in a file with fuzzy matching fallback. Shows diff preview when exact match fails. Use expectedReplacements to control how many occurrences to replace. Use dryRun=true for preview only.',
+        category: 'diff',
+        schema: EditBlockSchema,
+        outputSchema: EditBlockOutput,
+        handler: handleEditBlock,
+        sideEffects: 'write',
+    },
+    {
+        name: 'apply_diff',
+        description: 'Apply multiple search/replace operations to a file in a single atomic operation. Validates all blocks before applying any changes. Use dryRun=true for preview. Use startLine hints for faster matching in large files.',
+        category: 'diff',
+        schema: ApplyDiffSchema,
+        outputSchema: ApplyDiffOutput,
+        handler: handleApplyDiff,
+        sideEffects: 'write',
+    },
+    {
+        name: 'get_diff_preview',
+        description: 'Generate a diff preview showing what changes would be made without applying them. Supports unified, inline (character-level), and side-by-side formats.',
+        category: 'diff',
+        schema: GetDiffPreviewSchema,
+        outputSchema: GetDiffPreviewOutput,
+        handler: handleGetDiffPreview,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'batch_edit_blocks',
+        description: 'Apply multiple search/replace operations to a single file sequentially. Each edit operates on the result of the previous edit. Supports partial success - completed edits are saved even if later edits fail. Use stopOnError to halt on first failure. Use dryRun for preview.',
+        category: 'diff',
+        schema: BatchEditBlocksSchema,
+        outputSchema: BatchEditBlocksOutput,
+        handler: handleBatchEditBlocksMcp,
+        sideEffects: 'write',
+    },
+    {
+        name: 'write_from_line',
+        description: 'Replace content starting from a specific line number. Use startLine to keep lines 1-(startLine-1) and replace from startLine to EOF (or to endLine if specified). Ideal for bulk section replacement in large files without sending entire file content.',
+        category: 'diff',
+        schema: WriteFromLineSchema,
+        outputSchema: WriteFromLineOutput,
+        handler: handleWriteFromLineMcp,
+        sideEffects: 'write',
+    },
+];
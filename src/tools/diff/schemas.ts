@@ -82,6 +82,58 @@ export const WriteFromLineSchema = {
 };
 
 // Type exports for handler functions
+// Output schemas: structuredContent of a successful call. Failures carry the same fields in error.details.
+
+export const EditBlockOutput = {
+    success: z.boolean(),
+    applied: z.boolean().describe('False on a dry run'),
+    message: z.string(),
+    diff: z.string().optional(),
+    occurrencesFound: z.number().optional(),
+    occurrencesExpected: z.number().optional(),
+};
+
+export const ApplyDiffOutput = {
+    success: z.boolean(),
+    applied: z.boolean().describe('False on a dry run'),
+    message: z.string(),
+    diff: z.string().optional(),
+    blocksMatched: z.number(),
+    blocksFailed: z.number(),
+    errors: z.array(z.string()),
+};
+
+export const GetDiffPreviewOutput = {
+    success: z.boolean(),
+    format: z.string(),
+    preview: z.string(),
+    stats: z.object({ additions: z.number(), deletions: z.number(), chunksChanged: z.number() }),
+    occurrencesFound: z.number(),
+};
+
+export const BatchEditBlocksOutput = {
+    success: z.boolean(),
+    totalEdits: z.number(),
+    successfulEdits: z.number(),
+    failedEdits: z.number(),
+    results: z.array(z.object({
+        index: z.number(),
+        label: z.string().optional(),
+        success: z.boolean(),
+        message: z.string(),
+        diff: z.string().optional(),
+    })),
+    finalDiff: z.string().optional(),
+};
+
+export const WriteFromLineOutput = {
+    success: z.boolean(),
+    message: z.string(),
+    linesReplaced: z.number(),
+    newLineCount: z.number(),
+    diff: z.string().optional(),
+};
+
 export type EditBlockArgs = z.infer<z.ZodObject<typeof EditBlockSchema>>;
 export type ApplyDiffArgs = z.infer<z.ZodObject<typeof ApplyDiffSchema>>;
 export type GetDiffPreviewArgs = z.infer<z.ZodObject<typeof GetDiffPreviewSchema>>;
@@ -9,7 +9,10 @@
 
 import fs from 'fs';
 import { logAudit } from '../../audit.js';
+import { isSimulating } from '../../utils/simulate.js';
+import { enforcePathPolicy, PathPolicyError, PathPolicyViolation, pathPolicyErrorResponse } from '../../utils/pathPolicy.js';
 import { generateDiff } from './diffVisualizer.js';
+import { ToolError, ToolResponse, reportResponse } from '../toolResult.js';
 
 /**
  * Result structure for write_from_line operations
@@ -18,6 +21,7 @@ import { generateDiff } from './diffVisualizer.js';
  * @property linesReplaced - Number of original lines that were replaced
  * @property newLineCount - Number of new lines written
  * @property diff - Unified diff showing the changes (optional)
+ * @property policyViolation - Set when the filesystem policy rejected the path
  */
 export interface WriteFromLineResult {
     success: boolean;
@@ -25,6 +29,7 @@ export interface WriteFromLineResult {
     linesReplaced: number;
     newLineCount: number;
     diff?: string;
+    policyViolation?: PathPolicyViolation;
 }
 
 /**
@@ -43,14 +48,6 @@ export interface WriteFromLineArgs {
     dryRun?: boolean;
 }
 
-/**
- * MCP response format
- */
-interface McpResponse {
-    content: Array<{ type: string; text: string }>;
-    isError?: boolean;
-}
-
 /**
  * Format write_from_line result for display
  */
@@ -91,7 +88,23 @@ function formatWriteFromLineResponse(result: WriteFromLineResult): string {
  * ```
  */
 export async function handleWriteFromLine(args: WriteFromLineArgs): Promise<WriteFromLineResult> {
-    const { path: filePath, startLine, endLine, content: newContent, dryRun = false } = args;
+    const { path: filePath, startLine, endLine, content: newContent, dryRun: requestedDryRun = false } = args;
+    // Simulation mode turns every write into a preview
+    const dryRun = requestedDryRun || isSimulating();
+
+    // 0. Check filesystem policy
+    try {
+        await enforcePathPolicy('write_from_line', filePath, requestedDryRun ? 'read' : 'write');
+    } catch (error) {
+        if (!(error instanceof PathPolicyError)) throw error;
+        return {
+            success: false,
+            message: error.message,
+            linesReplaced: 0,
+            newLineCount: 0,
+            policyViolation: error.violation
+        };
+    }
 
     // 1. Check file exists
     if (!fs.existsSync(filePath)) {
@@ -204,10 +217,13 @@ export async function handleWriteFromLine(args: WriteFromLineArgs): Promise<Writ
  * MCP handler wrapper for write_from_line
  * Formats the result for MCP response
  */
-export async function handleWriteFromLineMcp(args: WriteFromLineArgs): Promise<McpResponse> {
+export async function handleWriteFromLineMcp(args: WriteFromLineArgs): Promise<ToolResponse> {
     const result = await handleWriteFromLine(args);
-    return {
-        content: [{ type: 'text', text: formatWriteFromLineResponse(result) }],
-        isError: !result.success
-    };
+    if (result.policyViolation) {
+        return pathPolicyErrorResponse(new PathPolicyError(result.policyViolation));
+    }
+    // A line range outside the file is the caller's mistake
+    const failure = result.success ? null
+        : new ToolError(fs.existsSync(args.path) ? 'INVALID_ARGUMENTS' : 'NOT_FOUND', result.message);
+    return reportResponse({ ...result }, failure, formatWriteFromLineResponse(result));
 }
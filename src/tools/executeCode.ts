@@ -5,7 +5,13 @@ import { z } from 'zod';
 import { spawn } from 'child_process';
 import { logAudit } from '../audit.js';
 import { loadConfig } from '../config.js';
+import { enforceCommandPolicy, CommandPolicyError, commandPolicyErrorResponse } from '../utils/commandPolicy.js';
+import { isSimulating, simulatedResponse } from '../utils/simulate.js';
+import { CallCancelledError, getCallSignal, reportProgress } from '../utils/callControl.js';
 import os from 'os';
+import path from 'path';
+import { ToolDefinition } from './toolDefinition.js';
+import { ToolError, ToolResponse, reportResponse, toolErrorResponse } from './toolResult.js';
 
 const platform = os.platform();
 const config = loadConfig();
@@ -49,12 +55,30 @@ export const ExecuteCodeSchema = {
     timeout: z.number().optional().describe('Timeout in milliseconds (default: 30000)'),
 };
 
+// Output schema: structuredContent of a successful run
+export const ExecuteCodeOutput = {
+    language: z.string(),
+    success: z.boolean(),
+    exitCode: z.number().nullable(),
+    duration_ms: z.number(),
+    cancelled: z.boolean().optional(),
+    stdout: z.string(),
+    stderr: z.string().optional(),
+    truncated: z.object({
+        stdout: z.boolean(),
+        stderr: z.boolean(),
+        originalStdoutLength: z.number(),
+        originalStderrLength: z.number(),
+    }).optional(),
+};
+
 interface ExecuteResult {
     success: boolean;
     stdout: string;
     stderr: string;
     exitCode: number | null;
     duration: number;
+    cancelled?: boolean;
 }
 
 /**
@@ -103,12 +127,22 @@ async function executeCode(
     const startTime = Date.now();
     const { command, args } = getInterpreter(language);
 
+    const signal = getCallSignal();
+
     return new Promise((resolve) => {
+        // Cancelling the call kills the interpreter; output so far is still returned
         const proc = spawn(command, [...args, code], {
             timeout,
             shell: false,
+            signal,
         });
 
+        // Elapsed time against the timeout, for clients that asked for progress
+        const progressTimer = setInterval(() => {
+            const elapsed = Date.now() - startTime;
+            reportProgress(elapsed, timeout, `Running for ${Math.round(elapsed / 1000)}s`);
+        }, 1000);
+
         let stdout = '';
         let stderr = '';
 
@@ -121,6 +155,7 @@ async function executeCode(
         });
 
         proc.on('close', (exitCode) => {
+            clearInterval(progressTimer);
             const duration = Date.now() - startTime;
             resolve({
                 success: exitCode === 0,
@@ -128,10 +163,14 @@ async function executeCode(
                 stderr: stderr.trim(),
                 exitCode,
                 duration,
+                ...(signal?.aborted && { cancelled: true }),
             });
         });
 
         proc.on('error', (err) => {
+            // An abort is followed by close, which reports it
+            if (err.name === 'AbortError') return;
+            clearInterval(progressTimer);
             const duration = Date.now() - startTime;
             resolve({
                 success: false,
@@ -144,6 +183,18 @@ async function executeCode(
     });
 }
 
+/**
+ * Why a run counts as failed, or null if it succeeded
+ */
+function executeFailure(result: ExecuteResult): string | ToolError | null {
+    if (result.cancelled) return new ToolError('CANCELLED', new CallCancelledError().message);
+    if (result.success) return null;
+    // No exit code: the interpreter didn't start, or was killed by the timeout
+    return result.exitCode === null
+        ? `Code did not run to completion${result.stderr ? `: ${result.stderr}` : ''}`
+        : `Code exited with code ${result.exitCode}`;
+}
+
 /**
  * Handle execute_code tool call
  */
@@ -151,11 +202,28 @@ export async function handleExecuteCode(args: {
     language: 'python' | 'node' | 'r' | 'powershell' | 'bash';
     code: string;
     timeout?: number;
-}): Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }> {
+}): Promise<ToolResponse> {
     const timeout = args.timeout || 30000;
     const outputConfig = config.cliOutput ?? { maxOutputChars: 50000, warnAtChars: 10000, truncateMode: 'both' as const };
 
     try {
+        // Bash code is itself a command line; other languages are gated on the interpreter
+        if (args.language === 'bash') {
+            await enforceCommandPolicy('execute_code', args.code);
+        } else {
+            await enforceCommandPolicy('execute_code', path.basename(getInterpreter(args.language).command), []);
+        }
+
+        if (isSimulating()) {
+            return await simulatedResponse('execute_code', { language: args.language, codeLength: args.code.length, timeout }, {
+                action: 'execute',
+                language: args.language,
+                interpreter: getInterpreter(args.language).command,
+                codeLength: args.code.length,
+                timeout,
+            });
+        }
+
         const result = await executeCode(args.language, args.code, timeout);
 
         // Apply truncation to prevent context stuffing
@@ -171,33 +239,40 @@ export async function handleExecuteCode(args: {
             exitCode: result.exitCode,
             duration: result.duration,
             truncated: stdoutResult.truncated || stderrResult.truncated,
+            cancelled: result.cancelled,
         });
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    language: args.language,
-                    success: result.success,
-                    exitCode: result.exitCode,
-                    duration_ms: result.duration,
-                    stdout: stdoutResult.text,
-                    stderr: stderrResult.text || undefined,
-                    truncated: stdoutResult.truncated || stderrResult.truncated ? {
-                        stdout: stdoutResult.truncated,
-                        stderr: stderrResult.truncated,
-                        originalStdoutLength: stdoutResult.originalLength,
-                        originalStderrLength: stderrResult.originalLength,
-                    } : undefined,
-                }, null, 2)
-            }],
-            isError: !result.success,
-        };
+        return reportResponse({
+            language: args.language,
+            success: result.success,
+            exitCode: result.exitCode,
+            duration_ms: result.duration,
+            cancelled: result.cancelled,
+            stdout: stdoutResult.text,
+            stderr: stderrResult.text || undefined,
+            truncated: stdoutResult.truncated || stderrResult.truncated ? {
+                stdout: stdoutResult.truncated,
+                stderr: stderrResult.truncated,
+                originalStdoutLength: stdoutResult.originalLength,
+                originalStderrLength: stderrResult.originalLength,
+            } : undefined,
+        }, executeFailure(result));
     } catch (error: any) {
+        if (error instanceof CommandPolicyError) return commandPolicyErrorResponse(error);
         await logAudit('execute_code', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
+
+// Tool definitions, collected by registry.ts
+export const EXECUTE_CODE_TOOLS: ToolDefinition[] = [
+    {
+        name: 'execute_code',
+        description: 'Execute code in memory without saving to file. Supports python, node, r, powershell, bash.',
+        category: 'cli',
+        schema: ExecuteCodeSchema,
+        outputSchema: ExecuteCodeOutput,
+        handler: handleExecuteCode,
+        sideEffects: 'destructive',
+    },
+];
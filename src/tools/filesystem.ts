@@ -2,6 +2,11 @@ import { z } from 'zod';
 import fs from 'fs';
 import path from 'path';
 import { logAudit } from '../audit.js';
+import { loadConfig } from '../config.js';
+import { enforcePathPolicy, checkPathAccess, PathPolicyError, PathPolicyViolation, pathPolicyErrorResponse } from '../utils/pathPolicy.js';
+import { isSimulating, simulatedResponse } from '../utils/simulate.js';
+import { ToolDefinition } from './toolDefinition.js';
+import { ToolError, reportResponse, toolErrorResponse, toolResponse, BatchReportOutput } from './toolResult.js';
 
 // Single operation schemas
 export const CopyFileSchema = {
@@ -58,19 +63,67 @@ export const BatchFileInfoSchema = {
     paths: z.array(z.string()).describe('Array of paths to get info for in parallel'),
 };
 
+// Output schemas: structuredContent of a successful call
+// copy_file and move_file
+export const FileTransferOutput = {
+    source: z.string(),
+    destination: z.string(),
+};
+
+export const DeleteFileOutput = {
+    path: z.string(),
+    type: z.enum(['file', 'directory']),
+};
+
+// Only path and exists are set for a missing path
+export const FileInfoOutput = {
+    path: z.string(),
+    exists: z.boolean(),
+    isFile: z.boolean().optional(),
+    isDirectory: z.boolean().optional(),
+    isSymbolicLink: z.boolean().optional(),
+    size: z.number().optional(),
+    sizeHuman: z.string().optional(),
+    created: z.string().optional(),
+    modified: z.string().optional(),
+    accessed: z.string().optional(),
+    mode: z.string().optional().describe('Permission bits in octal'),
+};
+
+export const SearchFilesOutput = {
+    pattern: z.string(),
+    directory: z.string(),
+    matchCount: z.number(),
+    truncated: z.boolean(),
+    matches: z.array(z.string()),
+};
+
 // Batch result interface
 interface BatchResult {
     index: number;
     success: boolean;
     result?: any;
     error?: string;
+    policyViolation?: PathPolicyViolation;
 }
 
 // Single operation handlers
 export async function handleCopyFile(args: { source: string; destination: string; overwrite?: boolean }) {
     try {
+        await enforcePathPolicy('copy_file', args.source, 'read');
+        await enforcePathPolicy('copy_file', args.destination, 'write');
+
         if (!args.overwrite && fs.existsSync(args.destination)) {
-            throw new Error(`Destination already exists: ${args.destination}`);
+            throw new ToolError('ALREADY_EXISTS', `Destination already exists: ${args.destination}`);
+        }
+
+        if (isSimulating()) {
+            fs.statSync(args.source);
+            return simulatedResponse('copy_file', args, {
+                source: args.source,
+                destination: args.destination,
+                overwrites: fs.existsSync(args.destination),
+            });
         }
 
         const destDir = path.dirname(args.destination);
@@ -81,22 +134,30 @@ export async function handleCopyFile(args: { source: string; destination: string
         fs.copyFileSync(args.source, args.destination);
         await logAudit('copy_file', args, 'success');
 
-        return {
-            content: [{ type: 'text', text: `Successfully copied ${args.source} to ${args.destination}` }],
-        };
+        return toolResponse({ source: args.source, destination: args.destination }, `Successfully copied ${args.source} to ${args.destination}`);
     } catch (error: any) {
+        if (error instanceof PathPolicyError) return pathPolicyErrorResponse(error);
         await logAudit('copy_file', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleMoveFile(args: { source: string; destination: string; overwrite?: boolean }) {
     try {
+        await enforcePathPolicy('move_file', args.source, 'write');
+        await enforcePathPolicy('move_file', args.destination, 'write');
+
         if (!args.overwrite && fs.existsSync(args.destination)) {
-            throw new Error(`Destination already exists: ${args.destination}`);
+            throw new ToolError('ALREADY_EXISTS', `Destination already exists: ${args.destination}`);
+        }
+
+        if (isSimulating()) {
+            fs.statSync(args.source);
+            return simulatedResponse('move_file', args, {
+                source: args.source,
+                destination: args.destination,
+                overwrites: fs.existsSync(args.destination),
+            });
         }
 
         const destDir = path.dirname(args.destination);
@@ -107,22 +168,28 @@ export async function handleMoveFile(args: { source: string; destination: string
         fs.renameSync(args.source, args.destination);
         await logAudit('move_file', args, 'success');
 
-        return {
-            content: [{ type: 'text', text: `Successfully moved ${args.source} to ${args.destination}` }],
-        };
+        return toolResponse({ source: args.source, destination: args.destination }, `Successfully moved ${args.source} to ${args.destination}`);
     } catch (error: any) {
+        if (error instanceof PathPolicyError) return pathPolicyErrorResponse(error);
         await logAudit('move_file', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleDeleteFile(args: { path: string; recursive?: boolean }) {
     try {
+        await enforcePathPolicy('delete_file', args.path, 'write');
+
         const stats = fs.statSync(args.path);
 
+        if (isSimulating()) {
+            return simulatedResponse('delete_file', args, {
+                path: args.path,
+                type: stats.isDirectory() ? 'directory' : 'file',
+                recursive: !!args.recursive,
+            });
+        }
+
         if (stats.isDirectory()) {
             if (args.recursive) {
                 fs.rmSync(args.path, { recursive: true, force: true });
@@ -135,20 +202,18 @@ export async function handleDeleteFile(args: { path: string; recursive?: boolean
 
         await logAudit('delete_file', args, 'success');
 
-        return {
-            content: [{ type: 'text', text: `Successfully deleted ${args.path}` }],
-        };
+        return toolResponse({ path: args.path, type: stats.isDirectory() ? 'directory' : 'file' }, `Successfully deleted ${args.path}`);
     } catch (error: any) {
+        if (error instanceof PathPolicyError) return pathPolicyErrorResponse(error);
         await logAudit('delete_file', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleFileInfo(args: { path: string }) {
     try {
+        await enforcePathPolicy('file_info', args.path, 'read');
+
         const stats = fs.statSync(args.path);
 
         const info = {
@@ -167,28 +232,25 @@ export async function handleFileInfo(args: { path: string }) {
 
         await logAudit('file_info', args, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify(info, null, 2) }],
-        };
+        return toolResponse(info);
     } catch (error: any) {
+        if (error instanceof PathPolicyError) return pathPolicyErrorResponse(error);
         if (error.code === 'ENOENT') {
-            return {
-                content: [{ type: 'text', text: JSON.stringify({ path: args.path, exists: false }, null, 2) }],
-            };
+            return toolResponse({ path: args.path, exists: false });
         }
         await logAudit('file_info', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleSearchFiles(args: { directory: string; pattern: string; recursive?: boolean; maxResults?: number }) {
     try {
+        await enforcePathPolicy('search_files', args.directory, 'read');
+
         const recursive = args.recursive !== false;
         const maxResults = args.maxResults || 100;
         const results: string[] = [];
+        const policy = loadConfig().filesystemPolicy;
 
         const regex = patternToRegex(args.pattern);
 
@@ -202,6 +264,9 @@ export async function handleSearchFiles(args: { directory: string; pattern: stri
 
                 const fullPath = path.join(dir, entry.name);
 
+                // Never surface or descend into paths the policy denies
+                if (checkPathAccess(fullPath, 'read', policy)) continue;
+
                 if (regex.test(entry.name)) {
                     results.push(fullPath);
                 }
@@ -220,24 +285,17 @@ export async function handleSearchFiles(args: { directory: string; pattern: stri
 
         await logAudit('search_files', args, `found ${results.length} files`);
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    pattern: args.pattern,
-                    directory: args.directory,
-                    matchCount: results.length,
-                    truncated: results.length >= maxResults,
-                    matches: results
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            pattern: args.pattern,
+            directory: args.directory,
+            matchCount: results.length,
+            truncated: results.length >= maxResults,
+            matches: results
+        });
     } catch (error: any) {
+        if (error instanceof PathPolicyError) return pathPolicyErrorResponse(error);
         await logAudit('search_files', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -248,10 +306,18 @@ export async function handleBatchCopyFiles(args: { operations: Array<{ source: s
     const results = await Promise.all(
         args.operations.map(async (op, index): Promise<BatchResult> => {
             try {
+                await enforcePathPolicy('batch_copy_files', op.source, 'read');
+                await enforcePathPolicy('batch_copy_files', op.destination, 'write');
+
                 if (!op.overwrite && fs.existsSync(op.destination)) {
                     return { index, success: false, error: `Destination exists: ${op.destination}` };
                 }
 
+                if (isSimulating()) {
+                    fs.statSync(op.source);
+                    return { index, success: true, result: { simulated: true, source: op.source, destination: op.destination, overwrites: fs.existsSync(op.destination) } };
+                }
+
                 const destDir = path.dirname(op.destination);
                 if (!fs.existsSync(destDir)) {
                     fs.mkdirSync(destDir, { recursive: true });
@@ -260,7 +326,7 @@ export async function handleBatchCopyFiles(args: { operations: Array<{ source: s
                 fs.copyFileSync(op.source, op.destination);
                 return { index, success: true, result: { source: op.source, destination: op.destination } };
             } catch (error: any) {
-                return { index, success: false, error: error.message };
+                return { index, success: false, error: error.message, policyViolation: error.violation };
             }
         })
     );
@@ -271,16 +337,10 @@ export async function handleBatchCopyFiles(args: { operations: Array<{ source: s
 
     await logAudit('batch_copy_files', { count: args.operations.length }, { successful, failed, elapsed });
 
-    return {
-        content: [{
-            type: 'text',
-            text: JSON.stringify({
-                summary: { total: args.operations.length, successful, failed, elapsed_ms: elapsed },
-                results: results.sort((a, b) => a.index - b.index)
-            }, null, 2)
-        }],
-        isError: failed > 0 && successful === 0,
-    };
+    return reportResponse({
+        summary: { total: args.operations.length, successful, failed, elapsed_ms: elapsed },
+        results: results.sort((a, b) => a.index - b.index)
+    }, failed > 0 && successful === 0 ? `All ${failed} items failed` : null);
 }
 
 export async function handleBatchMoveFiles(args: { operations: Array<{ source: string; destination: string; overwrite?: boolean }> }) {
@@ -289,10 +349,18 @@ export async function handleBatchMoveFiles(args: { operations: Array<{ source: s
     const results = await Promise.all(
         args.operations.map(async (op, index): Promise<BatchResult> => {
             try {
+                await enforcePathPolicy('batch_move_files', op.source, 'write');
+                await enforcePathPolicy('batch_move_files', op.destination, 'write');
+
                 if (!op.overwrite && fs.existsSync(op.destination)) {
                     return { index, success: false, error: `Destination exists: ${op.destination}` };
                 }
 
+                if (isSimulating()) {
+                    fs.statSync(op.source);
+                    return { index, success: true, result: { simulated: true, source: op.source, destination: op.destination, overwrites: fs.existsSync(op.destination) } };
+                }
+
                 const destDir = path.dirname(op.destination);
                 if (!fs.existsSync(destDir)) {
                     fs.mkdirSync(destDir, { recursive: true });
@@ -301,7 +369,7 @@ export async function handleBatchMoveFiles(args: { operations: Array<{ source: s
                 fs.renameSync(op.source, op.destination);
                 return { index, success: true, result: { source: op.source, destination: op.destination } };
             } catch (error: any) {
-                return { index, success: false, error: error.message };
+                return { index, success: false, error: error.message, policyViolation: error.violation };
             }
         })
     );
@@ -312,16 +380,10 @@ export async function handleBatchMoveFiles(args: { operations: Array<{ source: s
 
     await logAudit('batch_move_files', { count: args.operations.length }, { successful, failed, elapsed });
 
-    return {
-        content: [{
-            type: 'text',
-            text: JSON.stringify({
-                summary: { total: args.operations.length, successful, failed, elapsed_ms: elapsed },
-                results: results.sort((a, b) => a.index - b.index)
-            }, null, 2)
-        }],
-        isError: failed > 0 && successful === 0,
-    };
+    return reportResponse({
+        summary: { total: args.operations.length, successful, failed, elapsed_ms: elapsed },
+        results: results.sort((a, b) => a.index - b.index)
+    }, failed > 0 && successful === 0 ? `All ${failed} items failed` : null);
 }
 
 export async function handleBatchDeleteFiles(args: { paths: string[]; recursive?: boolean }) {
@@ -330,8 +392,14 @@ export async function handleBatchDeleteFiles(args: { paths: string[]; recursive?
     const results = await Promise.all(
         args.paths.map(async (filePath, index): Promise<BatchResult> => {
             try {
+                await enforcePathPolicy('batch_delete_files', filePath, 'write');
+
                 const stats = fs.statSync(filePath);
 
+                if (isSimulating()) {
+                    return { index, success: true, result: { simulated: true, path: filePath, type: stats.isDirectory() ? 'directory' : 'file', recursive: !!args.recursive } };
+                }
+
                 if (stats.isDirectory()) {
                     if (args.recursive) {
                         fs.rmSync(filePath, { recursive: true, force: true });
@@ -344,7 +412,7 @@ export async function handleBatchDeleteFiles(args: { paths: string[]; recursive?
 
                 return { index, success: true, result: { path: filePath, deleted: true } };
             } catch (error: any) {
-                return { index, success: false, error: `${filePath}: ${error.message}` };
+                return { index, success: false, error: `${filePath}: ${error.message}`, policyViolation: error.violation };
             }
         })
     );
@@ -355,16 +423,10 @@ export async function handleBatchDeleteFiles(args: { paths: string[]; recursive?
 
     await logAudit('batch_delete_files', { count: args.paths.length }, { successful, failed, elapsed });
 
-    return {
-        content: [{
-            type: 'text',
-            text: JSON.stringify({
-                summary: { total: args.paths.length, successful, failed, elapsed_ms: elapsed },
-                results: results.sort((a, b) => a.index - b.index)
-            }, null, 2)
-        }],
-        isError: failed > 0 && successful === 0,
-    };
+    return reportResponse({
+        summary: { total: args.paths.length, successful, failed, elapsed_ms: elapsed },
+        results: results.sort((a, b) => a.index - b.index)
+    }, failed > 0 && successful === 0 ? `All ${failed} items failed` : null);
 }
 
 export async function handleBatchFileInfo(args: { paths: string[] }) {
@@ -373,6 +435,8 @@ export async function handleBatchFileInfo(args: { paths: string[] }) {
     const results = await Promise.all(
         args.paths.map(async (filePath, index): Promise<BatchResult> => {
             try {
+                await enforcePathPolicy('batch_file_info', filePath, 'read');
+
                 const stats = fs.statSync(filePath);
 
                 return {
@@ -392,7 +456,7 @@ export async function handleBatchFileInfo(args: { paths: string[] }) {
                 if (error.code === 'ENOENT') {
                     return { index, success: true, result: { path: filePath, exists: false } };
                 }
-                return { index, success: false, error: `${filePath}: ${error.message}` };
+                return { index, success: false, error: `${filePath}: ${error.message}`, policyViolation: error.violation };
             }
         })
     );
@@ -403,16 +467,10 @@ export async function handleBatchFileInfo(args: { paths: string[] }) {
 
     await logAudit('batch_file_info', { count: args.paths.length }, { successful, failed, elapsed });
 
-    return {
-        content: [{
-            type: 'text',
-            text: JSON.stringify({
-                summary: { total: args.paths.length, successful, failed, elapsed_ms: elapsed },
-                results: results.sort((a, b) => a.index - b.index)
-            }, null, 2)
-        }],
-        isError: failed > 0 && successful === 0,
-    };
+    return reportResponse({
+        summary: { total: args.paths.length, successful, failed, elapsed_ms: elapsed },
+        results: results.sort((a, b) => a.index - b.index)
+    }, failed > 0 && successful === 0 ? `All ${failed} items failed` : null);
 }
 
 // Utility functions
@@ -432,3 +490,88 @@ function patternToRegex(pattern: string): RegExp {
         .replace(/\?/g, '.');
     return new RegExp(`^${escaped}$`, 'i');
 }
+
+// Tool definitions, collected by registry.ts
+export const FILESYSTEM_TOOLS: ToolDefinition[] = [
+    {
+        name: 'copy_file',
+        description: 'Copy a file or directory. For multiple operations, use batch_copy_files.',
+        category: 'files',
+        schema: CopyFileSchema,
+        outputSchema: FileTransferOutput,
+        handler: handleCopyFile,
+        sideEffects: 'write',
+    },
+    {
+        name: 'move_file',
+        description: 'Move/rename a file or directory. For multiple operations, use batch_move_files.',
+        category: 'files',
+        schema: MoveFileSchema,
+        outputSchema: FileTransferOutput,
+        handler: handleMoveFile,
+        sideEffects: 'destructive',
+    },
+    {
+        name: 'delete_file',
+        description: 'Delete a file or directory. For multiple deletions, use batch_delete_files.',
+        category: 'files',
+        schema: DeleteFileSchema,
+        outputSchema: DeleteFileOutput,
+        handler: handleDeleteFile,
+        sideEffects: 'destructive',
+    },
+    {
+        name: 'file_info',
+        description: 'Get file/directory metadata (size, dates, type). For multiple paths, use batch_file_info.',
+        category: 'files',
+        schema: FileInfoSchema,
+        outputSchema: FileInfoOutput,
+        handler: handleFileInfo,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'search_files',
+        description: 'Search for files by pattern in a directory tree.',
+        category: 'files',
+        schema: SearchFilesSchema,
+        outputSchema: SearchFilesOutput,
+        handler: handleSearchFiles,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'batch_copy_files',
+        description: 'Copy multiple files in parallel.',
+        category: 'files',
+        schema: BatchCopyFilesSchema,
+        outputSchema: BatchReportOutput,
+        handler: handleBatchCopyFiles,
+        sideEffects: 'write',
+    },
+    {
+        name: 'batch_move_files',
+        description: 'Move multiple files in parallel.',
+        category: 'files',
+        schema: BatchMoveFilesSchema,
+        outputSchema: BatchReportOutput,
+        handler: handleBatchMoveFiles,
+        sideEffects: 'destructive',
+    },
+    {
+        name: 'batch_delete_files',
+        description: 'Delete multiple files in parallel.',
+        category: 'files',
+        schema: BatchDeleteFilesSchema,
+        outputSchema: BatchReportOutput,
+        handler: handleBatchDeleteFiles,
+        sideEffects: 'destructive',
+    },
+    {
+        name: 'batch_file_info',
+        description: 'Get info for multiple files in parallel.',
+        category: 'files',
+        schema: BatchFileInfoSchema,
+        outputSchema: BatchReportOutput,
+        handler: handleBatchFileInfo,
+        sideEffects: 'read-only',
+    },
+];
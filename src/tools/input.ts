@@ -4,6 +4,11 @@ import { promisify } from 'util';
 import os from 'os';
 import { logAudit } from '../audit.js';
 import { PowerShellSession } from '../utils/powerShellSession.js';
+import { isSimulating, simulatedResponse } from '../utils/simulate.js';
+import { getActiveWindow } from './window.js';
+import { ToolDefinition } from './toolDefinition.js';
+import { reportResponse, toolErrorResponse, toolResponse, BatchReportOutput } from './toolResult.js';
+import { BackendRequirement } from '../utils/capabilities.js';
 
 const execAsync = promisify(exec);
 
@@ -55,6 +60,25 @@ export const MouseScrollSchema = {
 
 export const GetMousePositionSchema = {};
 
+// Output schemas: structuredContent of a successful call
+const PointOutput = z.object({ x: z.number(), y: z.number() });
+
+export const KeyboardTypeOutput = { typed: z.literal(true), length: z.number() };
+export const KeyboardPressOutput = { pressed: z.literal(true), key: z.string(), modifiers: z.array(z.string()).optional() };
+export const KeyboardShortcutOutput = { executed: z.literal(true), shortcut: z.string() };
+export const MouseMoveOutput = { moved: z.literal(true), x: z.number(), y: z.number() };
+// x and y are omitted when clicking at the current position
+export const MouseClickOutput = {
+    clicked: z.literal(true),
+    x: z.number().optional(),
+    y: z.number().optional(),
+    button: z.string(),
+    clicks: z.number(),
+};
+export const MouseDragOutput = { dragged: z.literal(true), from: PointOutput, to: PointOutput };
+export const MouseScrollOutput = { scrolled: z.literal(true), deltaY: z.number() };
+export const MousePositionOutput = { x: z.number(), y: z.number() };
+
 // Batch schemas
 export const BatchKeyboardActionsSchema = {
     actions: z.array(z.union([
@@ -236,9 +260,34 @@ async function getMousePosition(): Promise<{ x: number; y: number }> {
     }
 }
 
+/**
+ * Targets for simulation mode: keystrokes go to the focused window,
+ * clicks without coordinates go to the current pointer position
+ */
+async function focusedWindowOrNull() {
+    try {
+        return await getActiveWindow();
+    } catch {
+        return null;
+    }
+}
+
+async function resolvePoint(x?: number, y?: number): Promise<{ x?: number; y?: number }> {
+    if (x !== undefined && y !== undefined) return { x, y };
+    try {
+        return await getMousePosition();
+    } catch {
+        return { x, y };
+    }
+}
+
 // Tool handlers
 export async function handleKeyboardType(args: { text: string; delay?: number }) {
     try {
+        if (isSimulating()) {
+            return simulatedResponse('keyboard_type', { textLength: args.text.length }, { action: 'type', text: args.text, window: await focusedWindowOrNull() });
+        }
+
         if (args.delay && args.delay > 0) {
             for (const char of args.text) {
                 await sendKeys(char);
@@ -250,38 +299,36 @@ export async function handleKeyboardType(args: { text: string; delay?: number })
 
         await logAudit('keyboard_type', { textLength: args.text.length }, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ typed: true, length: args.text.length }, null, 2) }],
-        };
+        return toolResponse({ typed: true, length: args.text.length });
     } catch (error: any) {
         await logAudit('keyboard_type', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleKeyboardPress(args: { key: string; modifiers?: string[] }) {
     try {
+        if (isSimulating()) {
+            return simulatedResponse('keyboard_press', args, { action: 'press', key: args.key, modifiers: args.modifiers ?? [], window: await focusedWindowOrNull() });
+        }
+
         await pressKey(args.key, args.modifiers || []);
 
         await logAudit('keyboard_press', args, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ pressed: true, key: args.key, modifiers: args.modifiers }, null, 2) }],
-        };
+        return toolResponse({ pressed: true, key: args.key, modifiers: args.modifiers });
     } catch (error: any) {
         await logAudit('keyboard_press', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleKeyboardShortcut(args: { shortcut: string }) {
     try {
+        if (isSimulating()) {
+            return simulatedResponse('keyboard_shortcut', args, { action: 'shortcut', shortcut: args.shortcut, window: await focusedWindowOrNull() });
+        }
+
         const parts = args.shortcut.toLowerCase().split('+');
         const key = parts.pop() || '';
         const modifiers = parts;
@@ -290,20 +337,19 @@ export async function handleKeyboardShortcut(args: { shortcut: string }) {
 
         await logAudit('keyboard_shortcut', args, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ executed: true, shortcut: args.shortcut }, null, 2) }],
-        };
+        return toolResponse({ executed: true, shortcut: args.shortcut });
     } catch (error: any) {
         await logAudit('keyboard_shortcut', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleMouseMove(args: { x: number; y: number; smooth?: boolean; duration?: number }) {
     try {
+        if (isSimulating()) {
+            return simulatedResponse('mouse_move', args, { action: 'move', from: await resolvePoint(), to: { x: args.x, y: args.y } });
+        }
+
         if (args.smooth && args.duration) {
             // Smooth movement (simplified - just move directly for now)
             await moveMouse(args.x, args.y);
@@ -313,47 +359,52 @@ export async function handleMouseMove(args: { x: number; y: number; smooth?: boo
 
         await logAudit('mouse_move', args, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ moved: true, x: args.x, y: args.y }, null, 2) }],
-        };
+        return toolResponse({ moved: true, x: args.x, y: args.y });
     } catch (error: any) {
         await logAudit('mouse_move', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleMouseClick(args: { x?: number; y?: number; button?: 'left' | 'right' | 'middle'; clicks?: number }) {
     try {
+        if (isSimulating()) {
+            return simulatedResponse('mouse_click', args, {
+                action: 'click',
+                at: await resolvePoint(args.x, args.y),
+                button: args.button || 'left',
+                clicks: args.clicks || 1,
+            });
+        }
+
         await clickMouse(args.x, args.y, args.button || 'left', args.clicks || 1);
 
         await logAudit('mouse_click', args, 'success');
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    clicked: true,
-                    x: args.x,
-                    y: args.y,
-                    button: args.button || 'left',
-                    clicks: args.clicks || 1
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            clicked: true,
+            x: args.x,
+            y: args.y,
+            button: args.button || 'left',
+            clicks: args.clicks || 1
+        });
     } catch (error: any) {
         await logAudit('mouse_click', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleMouseDrag(args: { startX: number; startY: number; endX: number; endY: number; button?: 'left' | 'right' | 'middle'; duration?: number }) {
     try {
+        if (isSimulating()) {
+            return simulatedResponse('mouse_drag', args, {
+                action: 'drag',
+                from: { x: args.startX, y: args.startY },
+                to: { x: args.endX, y: args.endY },
+                button: args.button || 'left',
+            });
+        }
+
         // Move to start, press, move to end, release
         await moveMouse(args.startX, args.startY);
         // For drag we need to hold the button - this is simplified
@@ -362,27 +413,28 @@ export async function handleMouseDrag(args: { startX: number; startY: number; en
 
         await logAudit('mouse_drag', args, 'success');
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    dragged: true,
-                    from: { x: args.startX, y: args.startY },
-                    to: { x: args.endX, y: args.endY }
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            dragged: true,
+            from: { x: args.startX, y: args.startY },
+            to: { x: args.endX, y: args.endY }
+        });
     } catch (error: any) {
         await logAudit('mouse_drag', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleMouseScroll(args: { x?: number; y?: number; deltaX?: number; deltaY: number }) {
     try {
+        if (isSimulating()) {
+            return simulatedResponse('mouse_scroll', args, {
+                action: 'scroll',
+                at: await resolvePoint(args.x, args.y),
+                deltaX: args.deltaX ?? 0,
+                deltaY: args.deltaY,
+            });
+        }
+
         if (args.x !== undefined && args.y !== undefined) {
             await moveMouse(args.x, args.y);
         }
@@ -404,15 +456,10 @@ export async function handleMouseScroll(args: { x?: number; y?: number; deltaX?:
 
         await logAudit('mouse_scroll', args, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ scrolled: true, deltaY: args.deltaY }, null, 2) }],
-        };
+        return toolResponse({ scrolled: true, deltaY: args.deltaY });
     } catch (error: any) {
         await logAudit('mouse_scroll', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -422,20 +469,22 @@ export async function handleGetMousePosition() {
 
         await logAudit('get_mouse_position', {}, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify(pos, null, 2) }],
-        };
+        return toolResponse(pos);
     } catch (error: any) {
         await logAudit('get_mouse_position', {}, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 // Batch handlers
 export async function handleBatchKeyboardActions(args: { actions: any[] }) {
+    if (isSimulating()) {
+        return simulatedResponse('batch_keyboard_actions', { count: args.actions.length }, {
+            window: await focusedWindowOrNull(),
+            actions: args.actions,
+        });
+    }
+
     const startTime = Date.now();
     const results: any[] = [];
 
@@ -473,19 +522,20 @@ export async function handleBatchKeyboardActions(args: { actions: any[] }) {
 
     await logAudit('batch_keyboard_actions', { count: args.actions.length }, { successful, failed, elapsed });
 
-    return {
-        content: [{
-            type: 'text',
-            text: JSON.stringify({
-                summary: { total: args.actions.length, successful, failed, elapsed_ms: elapsed },
-                results
-            }, null, 2)
-        }],
-        isError: failed > 0 && successful === 0,
-    };
+    return reportResponse({
+        summary: { total: args.actions.length, successful, failed, elapsed_ms: elapsed },
+        results
+    }, failed > 0 && successful === 0 ? `All ${failed} items failed` : null);
 }
 
 export async function handleBatchMouseActions(args: { actions: any[] }) {
+    if (isSimulating()) {
+        return simulatedResponse('batch_mouse_actions', { count: args.actions.length }, {
+            startPosition: await resolvePoint(),
+            actions: args.actions,
+        });
+    }
+
     const startTime = Date.now();
     const results: any[] = [];
 
@@ -538,14 +588,116 @@ export async function handleBatchMouseActions(args: { actions: any[] }) {
 
     await logAudit('batch_mouse_actions', { count: args.actions.length }, { successful, failed, elapsed });
 
-    return {
-        content: [{
-            type: 'text',
-            text: JSON.stringify({
-                summary: { total: args.actions.length, successful, failed, elapsed_ms: elapsed },
-                results
-            }, null, 2)
-        }],
-        isError: failed > 0 && successful === 0,
-    };
+    return reportResponse({
+        summary: { total: args.actions.length, successful, failed, elapsed_ms: elapsed },
+        results
+    }, failed > 0 && successful === 0 ? `All ${failed} items failed` : null);
 }
+
+// Backends each platform's implementation shells out to
+const INPUT_BACKENDS: BackendRequirement = { linux: [['display'], ['xdotool']], darwin: [['osascript']], win32: [['powershell']] };
+const MOUSE_POSITION_BACKENDS: BackendRequirement = { linux: [['display'], ['xdotool']], win32: [['powershell']] };
+
+// Tool definitions, collected by registry.ts
+export const INPUT_TOOLS: ToolDefinition[] = [
+    {
+        name: 'keyboard_type',
+        description: 'Type text as keyboard input.',
+        category: 'input',
+        schema: KeyboardTypeSchema,
+        outputSchema: KeyboardTypeOutput,
+        handler: handleKeyboardType,
+        sideEffects: 'write',
+        requires: INPUT_BACKENDS,
+    },
+    {
+        name: 'keyboard_press',
+        description: 'Press a key with optional modifiers (ctrl, alt, shift).',
+        category: 'input',
+        schema: KeyboardPressSchema,
+        outputSchema: KeyboardPressOutput,
+        handler: handleKeyboardPress,
+        sideEffects: 'write',
+        requires: INPUT_BACKENDS,
+    },
+    {
+        name: 'keyboard_shortcut',
+        description: 'Execute keyboard shortcut (e.g., "ctrl+c", "alt+tab").',
+        category: 'input',
+        schema: KeyboardShortcutSchema,
+        outputSchema: KeyboardShortcutOutput,
+        handler: handleKeyboardShortcut,
+        sideEffects: 'write',
+        requires: INPUT_BACKENDS,
+    },
+    {
+        name: 'mouse_move',
+        description: 'Move mouse cursor to coordinates.',
+        category: 'input',
+        schema: MouseMoveSchema,
+        outputSchema: MouseMoveOutput,
+        handler: handleMouseMove,
+        sideEffects: 'write',
+        requires: INPUT_BACKENDS,
+    },
+    {
+        name: 'mouse_click',
+        description: 'Click mouse button at position. Supports double-click.',
+        category: 'input',
+        schema: MouseClickSchema,
+        outputSchema: MouseClickOutput,
+        handler: handleMouseClick,
+        sideEffects: 'write',
+        requires: INPUT_BACKENDS,
+    },
+    {
+        name: 'mouse_drag',
+        description: 'Drag from one position to another.',
+        category: 'input',
+        schema: MouseDragSchema,
+        outputSchema: MouseDragOutput,
+        handler: handleMouseDrag,
+        sideEffects: 'write',
+        requires: INPUT_BACKENDS,
+    },
+    {
+        name: 'mouse_scroll',
+        description: 'Scroll mouse wheel.',
+        category: 'input',
+        schema: MouseScrollSchema,
+        outputSchema: MouseScrollOutput,
+        handler: handleMouseScroll,
+        sideEffects: 'write',
+        requires: INPUT_BACKENDS,
+    },
+    {
+        name: 'get_mouse_position',
+        description: 'Get current mouse cursor position.',
+        category: 'input',
+        schema: GetMousePositionSchema,
+        outputSchema: MousePositionOutput,
+        handler: handleGetMousePosition,
+        sideEffects: 'read-only',
+        requires: MOUSE_POSITION_BACKENDS,
+    },
+    {
+        name: 'batch_keyboard_actions',
+        description: 'Execute sequence of keyboard actions (type, press, shortcut, wait).',
+        category: 'input',
+        schema: BatchKeyboardActionsSchema,
+        outputSchema: BatchReportOutput,
+        handler: handleBatchKeyboardActions,
+        sideEffects: 'write',
+        requires: INPUT_BACKENDS,
+    },
+    {
+        name: 'batch_mouse_actions',
+        description: 'Execute sequence of mouse actions (move, click, drag, scroll, wait).',
+        category: 'input',
+        schema: BatchMouseActionsSchema,
+        outputSchema: BatchReportOutput,
+        handler: handleBatchMouseActions,
+        sideEffects: 'write',
+        requires: INPUT_BACKENDS,
+    },
+];
@@ -0,0 +1,112 @@
+// Metrics endpoint
+// HTTP listener serving tool call, session, search, browser and database metrics as OpenMetrics text
+
+import http from 'http';
+import fs from 'fs';
+import { loadConfig, expandHome, Config } from '../config.js';
+import { renderOpenMetrics, GaugeFamily } from '../utils/metrics.js';
+import { hasBearerToken } from '../utils/httpAuth.js';
+import { getSessionCounts } from './sessions.js';
+import { getSearchCounts } from './paginatedSearch.js';
+import { BrowserManager } from './browser/browserManager.js';
+
+const CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+/**
+ * Storage file size, including SQLite's write-ahead log if there is one
+ */
+function databaseSizeBytes(): number {
+    const storage = loadConfig().storage;
+    if (storage.type === 'memory') return 0;
+    const dbPath = expandHome(storage.path);
+    return [dbPath, `${dbPath}-wal`].reduce((total, file) => {
+        try {
+            return total + fs.statSync(file).size;
+        } catch {
+            return total;
+        }
+    }, 0);
+}
+
+/**
+ * Current values of the gauges exposed next to the tool call metrics
+ */
+export function collectGauges(): GaugeFamily[] {
+    const sessions = getSessionCounts();
+    const searches = getSearchCounts();
+    const engines = BrowserManager.getAllInstances().map(manager => manager.getActiveEngine());
+
+    return [
+        {
+            name: 'mcp_process_sessions',
+            help: 'Interactive process sessions by state.',
+            samples: [
+                { labels: { state: 'alive' }, value: sessions.alive },
+                { labels: { state: 'exited' }, value: sessions.exited },
+            ],
+        },
+        {
+            name: 'mcp_searches',
+            help: 'Paginated searches by state.',
+            samples: [
+                { labels: { state: 'running' }, value: searches.running },
+                { labels: { state: 'completed' }, value: searches.completed },
+            ],
+        },
+        {
+            name: 'mcp_browsers_running',
+            help: 'Launched browsers by engine.',
+            samples: (['puppeteer', 'playwright'] as const).map(name => ({
+                labels: { engine: name },
+                value: engines.filter(engine => engine === name).length,
+            })),
+        },
+        {
+            name: 'mcp_database_size_bytes',
+            help: 'Size of the storage file on disk.',
+            unit: 'bytes',
+            samples: [{ value: databaseSizeBytes() }],
+        },
+    ];
+}
+
+/**
+ * Start the metrics listener. GET /metrics returns OpenMetrics text; if a bearer
+ * token is configured, requests without it get 401.
+ * @returns The URL to scrape
+ */
+export function startMetricsServer(options: Config['metrics']): Promise<string> {
+    const server = http.createServer((req, res) => {
+        const url = new URL(req.url ?? '/', `http://${options.host}:${options.port}`);
+
+        if (options.bearerToken && !hasBearerToken(req, options.bearerToken)) {
+            res.writeHead(401, { 'Content-Type': 'text/plain', 'WWW-Authenticate': 'Bearer' });
+            res.end('Unauthorized');
+            return;
+        }
+
+        if (req.method !== 'GET' || url.pathname !== '/metrics') {
+            res.writeHead(404, { 'Content-Type': 'text/plain' });
+            res.end('Not found');
+            return;
+        }
+
+        try {
+            const body = renderOpenMetrics(collectGauges());
+            res.writeHead(200, { 'Content-Type': CONTENT_TYPE });
+            res.end(body);
+        } catch (error: any) {
+            res.writeHead(500, { 'Content-Type': 'text/plain' });
+            res.end(error.message);
+        }
+    });
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(options.port, options.host, () => {
+            // Don't keep the process alive just for scrapes
+            server.unref();
+            resolve(`http://${options.host}:${options.port}/metrics`);
+        });
+    });
+}
@@ -5,6 +5,12 @@ import { z } from 'zod';
 import fs from 'fs';
 import path from 'path';
 import { logAudit } from '../audit.js';
+import { loadConfig } from '../config.js';
+import { connectionScoped } from '../utils/connectionScope.js';
+import { reportProgress, throwIfCancelled } from '../utils/callControl.js';
+import { enforcePathPolicy, checkPathAccess, FilesystemPolicy, PathPolicyError, pathPolicyErrorResponse } from '../utils/pathPolicy.js';
+import { ToolDefinition } from './toolDefinition.js';
+import { ToolError, ToolResponse, toolErrorResponse, toolResponse } from './toolResult.js';
 
 // Search storage
 interface SearchSession {
@@ -18,7 +24,8 @@ interface SearchSession {
     error?: string;
 }
 
-const searchSessions: Map<string, SearchSession> = new Map();
+// Each client connection sees only its own searches
+const connectionSearches = connectionScoped(() => new Map<string, SearchSession>());
 
 // Generate unique search ID
 function generateSearchId(): string {
@@ -45,41 +52,96 @@ export const StopSearchSchema = {
     searchId: z.string().describe('Search session ID to stop and cleanup'),
 };
 
+// Output schemas: structuredContent of a successful call
+export const StartSearchOutput = {
+    searchId: z.string(),
+    directory: z.string(),
+    pattern: z.string(),
+    completed: z.boolean(),
+    totalFound: z.number(),
+    error: z.string().optional().describe('Why the walk stopped early, e.g. cancellation; results found so far are kept'),
+};
+
+export const GetSearchResultsOutput = {
+    searchId: z.string(),
+    completed: z.boolean(),
+    totalResults: z.number(),
+    cursor: z.number(),
+    hasMore: z.boolean(),
+    returned: z.number(),
+    results: z.array(z.string()),
+};
+
+export const ListSearchesOutput = {
+    count: z.number(),
+    searches: z.array(z.object({
+        searchId: z.string(),
+        pattern: z.string(),
+        directory: z.string(),
+        completed: z.boolean(),
+        totalResults: z.number(),
+        cursor: z.number(),
+        startTime: z.string(),
+        error: z.string().optional(),
+    })),
+};
+
+export const StopSearchOutput = {
+    stopped: z.literal(true),
+    searchId: z.string(),
+    pattern: z.string(),
+    totalResults: z.number(),
+    retrieved: z.number(),
+};
+
+// Progress of one walk; entries are counted whether or not they match
+interface SearchWalk {
+    scanned: number;
+}
+
 /**
- * Recursively search for files matching pattern
+ * Recursively search for files matching pattern. Reads directories asynchronously so a
+ * cancelled start_search stops between directories.
+ * @throws CallCancelledError if the call is cancelled
  */
-function searchDirectory(
+async function searchDirectory(
     dir: string,
     pattern: RegExp,
     results: string[],
     maxResults: number,
-    recursive: boolean
-): void {
+    recursive: boolean,
+    policy: FilesystemPolicy,
+    walk: SearchWalk = { scanned: 0 }
+): Promise<void> {
     if (results.length >= maxResults) return;
+    throwIfCancelled();
 
+    let entries: fs.Dirent[];
     try {
-        const entries = fs.readdirSync(dir, { withFileTypes: true });
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+        // Skip directories we can't access
+        return;
+    }
 
-        for (const entry of entries) {
-            if (results.length >= maxResults) break;
+    for (const entry of entries) {
+        if (results.length >= maxResults) break;
 
-            const fullPath = path.join(dir, entry.name);
+        const fullPath = path.join(dir, entry.name);
+        walk.scanned++;
 
-            if (pattern.test(entry.name)) {
-                results.push(fullPath);
-            }
+        // Never surface or descend into paths the policy denies
+        if (checkPathAccess(fullPath, 'read', policy)) continue;
 
-            if (recursive && entry.isDirectory()) {
-                try {
-                    searchDirectory(fullPath, pattern, results, maxResults, recursive);
-                } catch {
-                    // Skip directories we can't access
-                }
-            }
+        if (pattern.test(entry.name)) {
+            results.push(fullPath);
+        }
+
+        if (recursive && entry.isDirectory()) {
+            await searchDirectory(fullPath, pattern, results, maxResults, recursive, policy, walk);
         }
-    } catch {
-        // Skip directories we can't access
     }
+    reportProgress(walk.scanned, undefined, `${walk.scanned} entries scanned, ${results.length} matches`);
 }
 
 /**
@@ -101,18 +163,18 @@ export async function handleStartSearch(args: {
     pattern: string;
     recursive?: boolean;
     maxResults?: number;
-}): Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }> {
+}): Promise<ToolResponse> {
+    const searchSessions = connectionSearches.get();
     try {
         const searchId = generateSearchId();
         const maxResults = args.maxResults || 10000;
         const recursive = args.recursive !== false;
 
+        await enforcePathPolicy('start_search', args.directory, 'read');
+
         // Validate directory
         if (!fs.existsSync(args.directory)) {
-            return {
-                content: [{ type: 'text', text: `Error: Directory not found: ${args.directory}` }],
-                isError: true,
-            };
+            return toolErrorResponse(new ToolError('NOT_FOUND', `Directory not found: ${args.directory}`));
         }
 
         const session: SearchSession = {
@@ -127,10 +189,10 @@ export async function handleStartSearch(args: {
 
         searchSessions.set(searchId, session);
 
-        // Run search (synchronous for now, could be made async with worker threads)
+        // Matches found before a cancellation stay available through get_search_results
         try {
             const regex = globToRegex(args.pattern);
-            searchDirectory(args.directory, regex, session.results, maxResults, recursive);
+            await searchDirectory(args.directory, regex, session.results, maxResults, recursive, loadConfig().filesystemPolicy);
             session.completed = true;
         } catch (err: any) {
             session.completed = true;
@@ -139,25 +201,18 @@ export async function handleStartSearch(args: {
 
         await logAudit('start_search', args, { searchId, totalFound: session.results.length });
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    searchId,
-                    directory: args.directory,
-                    pattern: args.pattern,
-                    completed: session.completed,
-                    totalFound: session.results.length,
-                    error: session.error,
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            searchId,
+            directory: args.directory,
+            pattern: args.pattern,
+            completed: session.completed,
+            totalFound: session.results.length,
+            error: session.error,
+        });
     } catch (error: any) {
+        if (error instanceof PathPolicyError) return pathPolicyErrorResponse(error);
         await logAudit('start_search', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -168,15 +223,13 @@ export async function handleGetSearchResults(args: {
     searchId: string;
     limit?: number;
     offset?: number;
-}): Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }> {
+}): Promise<ToolResponse> {
+    const searchSessions = connectionSearches.get();
     try {
         const session = searchSessions.get(args.searchId);
 
         if (!session) {
-            return {
-                content: [{ type: 'text', text: `Error: Search not found: ${args.searchId}` }],
-                isError: true,
-            };
+            return toolErrorResponse(new ToolError('NOT_FOUND', `Search not found: ${args.searchId}`));
         }
 
         const limit = args.limit || 100;
@@ -191,33 +244,35 @@ export async function handleGetSearchResults(args: {
 
         await logAudit('get_search_results', args, { returned: results.length });
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    searchId: args.searchId,
-                    completed: session.completed,
-                    totalResults: session.results.length,
-                    cursor: session.cursor,
-                    hasMore: session.cursor < session.results.length,
-                    returned: results.length,
-                    results,
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            searchId: args.searchId,
+            completed: session.completed,
+            totalResults: session.results.length,
+            cursor: session.cursor,
+            hasMore: session.cursor < session.results.length,
+            returned: results.length,
+            results,
+        });
     } catch (error: any) {
         await logAudit('get_search_results', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
+/**
+ * Number of searches, across all connections, still collecting results or kept for paging
+ */
+export function getSearchCounts(): { running: number; completed: number } {
+    const all = connectionSearches.all().flatMap(searches => Array.from(searches.values()));
+    const running = all.filter(s => !s.completed).length;
+    return { running, completed: all.length - running };
+}
+
 /**
  * List all active searches
  */
-export async function handleListSearches(): Promise<{ content: Array<{ type: string; text: string }> }> {
+export async function handleListSearches(): Promise<ToolResponse> {
+    const searchSessions = connectionSearches.get();
     const searches = Array.from(searchSessions.values()).map(s => ({
         searchId: s.id,
         pattern: s.pattern,
@@ -231,15 +286,10 @@ export async function handleListSearches(): Promise<{ content: Array<{ type: str
 
     await logAudit('list_searches', {}, { count: searches.length });
 
-    return {
-        content: [{
-            type: 'text',
-            text: JSON.stringify({
-                count: searches.length,
-                searches,
-            }, null, 2)
-        }],
-    };
+    return toolResponse({
+        count: searches.length,
+        searches,
+    });
 }
 
 /**
@@ -247,15 +297,13 @@ export async function handleListSearches(): Promise<{ content: Array<{ type: str
  */
 export async function handleStopSearch(args: {
     searchId: string;
-}): Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }> {
+}): Promise<ToolResponse> {
+    const searchSessions = connectionSearches.get();
     try {
         const session = searchSessions.get(args.searchId);
 
         if (!session) {
-            return {
-                content: [{ type: 'text', text: `Error: Search not found: ${args.searchId}` }],
-                isError: true,
-            };
+            return toolErrorResponse(new ToolError('NOT_FOUND', `Search not found: ${args.searchId}`));
         }
 
         const stats = {
@@ -269,20 +317,52 @@ export async function handleStopSearch(args: {
 
         await logAudit('stop_search', args, stats);
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    stopped: true,
-                    ...stats,
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            stopped: true,
+            ...stats,
+        });
     } catch (error: any) {
         await logAudit('stop_search', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
+
+// Tool definitions, collected by registry.ts
+export const SEARCH_TOOLS: ToolDefinition[] = [
+    {
+        name: 'start_search',
+        description: 'Start a paginated file search. Returns searchId for retrieving results. Use for large directories.',
+        category: 'search',
+        schema: StartSearchSchema,
+        outputSchema: StartSearchOutput,
+        handler: handleStartSearch,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'get_search_results',
+        description: 'Get paginated results from a search session. Automatically advances cursor for next call.',
+        category: 'search',
+        schema: GetSearchResultsSchema,
+        outputSchema: GetSearchResultsOutput,
+        handler: handleGetSearchResults,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'list_active_searches',
+        description: 'List all active search sessions with their status.',
+        category: 'search',
+        schema: ListSearchesSchema,
+        outputSchema: ListSearchesOutput,
+        handler: handleListSearches,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'stop_search',
+        description: 'Stop a search session and cleanup resources.',
+        category: 'search',
+        schema: StopSearchSchema,
+        outputSchema: StopSearchOutput,
+        handler: handleStopSearch,
+        sideEffects: 'read-only',
+    },
+];
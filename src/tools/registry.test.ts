@@ -0,0 +1,70 @@
+/**
+ * Tests for the tool registry
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+import {
+    getTool, getBatchableToolNames, listToolDescriptors, validateToolArgs, ToolArgumentsError, invokeTool, checkToolOutput,
+} from './registry.js';
+
+describe('tool registry', () => {
+    it('lists each tool once, with required fields from its schema', () => {
+        const descriptors = listToolDescriptors();
+        assert.strictEqual(new Set(descriptors.map(tool => tool.name)).size, descriptors.length);
+
+        const crudCreate = descriptors.find(tool => tool.name === 'crud_create');
+        assert.deepStrictEqual((crudCreate?.inputSchema as any).required, ['collection', 'data']);
+    });
+
+    it('lets batch_tools run every tool except itself and replay', () => {
+        const batchable = getBatchableToolNames();
+        assert.ok(batchable.includes('navigate_page'));
+        assert.ok(batchable.includes('start_search'));
+        assert.ok(!batchable.includes('batch_tools'));
+        assert.ok(!batchable.includes('replay_tool_calls'));
+    });
+
+    it('rejects arguments that do not match the schema', () => {
+        const tool = getTool('read_file')!;
+        assert.throws(
+            () => validateToolArgs(tool, { path: 42 }),
+            (error: unknown) => error instanceof ToolArgumentsError
+                && error.violation.code === 'INVALID_ARGUMENTS'
+                && error.violation.issues[0].path === 'path'
+        );
+        assert.deepStrictEqual(validateToolArgs(tool, { path: 'a.txt', extra: true }), { path: 'a.txt', extra: true });
+    });
+
+    it('describes structuredContent of every tool, including the error envelope', () => {
+        for (const descriptor of listToolDescriptors()) {
+            const variants = (descriptor.outputSchema as any).anyOf;
+            assert.ok(variants.length >= 3, `${descriptor.name} has no outputSchema`);
+            assert.ok(variants.some((variant: any) => variant.required?.includes('error')), descriptor.name);
+        }
+    });
+
+    it('returns structuredContent that matches the outputSchema, or an error envelope', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-test-'));
+        try {
+            fs.writeFileSync(path.join(dir, 'a.txt'), 'one\ntwo\n');
+
+            const read = await invokeTool('read_file', { path: path.join(dir, 'a.txt') });
+            assert.strictEqual(checkToolOutput(getTool('read_file')!, read), null);
+            assert.strictEqual(read.structuredContent?.content, 'one\ntwo\n');
+
+            const listing = await invokeTool('list_directory', { path: dir });
+            assert.strictEqual(checkToolOutput(getTool('list_directory')!, listing), null);
+
+            const missing = await invokeTool('str_replace', { path: path.join(dir, 'b.txt'), oldText: 'one', newText: 'uno' });
+            assert.strictEqual(missing.isError, true);
+            assert.strictEqual((missing.structuredContent?.error as any).code, 'NOT_FOUND');
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
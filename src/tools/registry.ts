@@ -0,0 +1,266 @@
+// Tool registry
+// Single source for the tool list, live dispatch and batch dispatch, built from each module's definitions
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { logAudit } from '../audit.js';
+import { loadConfig } from '../config.js';
+import { getCapabilityReport, unmetRequirement } from '../utils/capabilities.js';
+import { getActiveProfile, isInActiveProfile } from '../utils/toolProfiles.js';
+import { ToolDefinition } from './toolDefinition.js';
+import {
+    ToolResponse, toolErrorResponse, withStructuredContent, ToolErrorOutput, PendingApprovalOutput, SimulatedOutput,
+} from './toolResult.js';
+import { CLI_TOOLS } from './cli.js';
+import { EXECUTE_CODE_TOOLS } from './executeCode.js';
+import { FILESYSTEM_TOOLS } from './filesystem.js';
+import { DIFF_TOOLS } from './diff/index.js';
+import { BATCH_TOOLS } from './batchTools.js';
+import { SESSION_TOOLS } from './sessions.js';
+import { CRUD_TOOLS } from './crud.js';
+import { SCREEN_TOOLS } from './screen.js';
+import { INPUT_TOOLS } from './input.js';
+import { WINDOW_TOOLS } from './window.js';
+import { CLIPBOARD_TOOLS } from './clipboard.js';
+import { SYSTEM_TOOLS } from './system.js';
+import { CONFIG_TOOLS } from './configTools.js';
+import { ANALYTICS_TOOLS } from './analytics.js';
+import { REPLAY_TOOLS } from './replay.js';
+import { SEARCH_TOOLS } from './paginatedSearch.js';
+import { BROWSER_TOOLS } from './browser/tools.js';
+import { APPROVAL_TOOLS } from './approvals.js';
+
+/**
+ * Details of rejected tool arguments, returned to the model and stored in audit_log
+ */
+export interface ToolArgumentsViolation {
+    code: 'INVALID_ARGUMENTS';
+    message: string;
+    tool: string;
+    issues: Array<{ path: string; message: string }>;
+}
+
+export class ToolArgumentsError extends Error {
+    readonly violation: ToolArgumentsViolation;
+
+    constructor(violation: ToolArgumentsViolation) {
+        super(violation.message);
+        this.name = 'ToolArgumentsError';
+        this.violation = violation;
+    }
+}
+
+let registry: Map<string, ToolDefinition> | null = null;
+
+/**
+ * All tools by name. Built on first use, because batch_tools dispatches through the
+ * registry and is itself one of its entries.
+ */
+export function getToolRegistry(): Map<string, ToolDefinition> {
+    if (registry) return registry;
+
+    const tools = [
+        ...CLI_TOOLS, ...EXECUTE_CODE_TOOLS, ...FILESYSTEM_TOOLS, ...DIFF_TOOLS, ...BATCH_TOOLS,
+        ...SESSION_TOOLS, ...CRUD_TOOLS, ...SCREEN_TOOLS, ...INPUT_TOOLS, ...WINDOW_TOOLS,
+        ...CLIPBOARD_TOOLS, ...SYSTEM_TOOLS, ...CONFIG_TOOLS, ...ANALYTICS_TOOLS, ...REPLAY_TOOLS,
+        ...SEARCH_TOOLS, ...BROWSER_TOOLS, ...APPROVAL_TOOLS,
+    ];
+
+    const byName = new Map<string, ToolDefinition>();
+    for (const tool of tools) {
+        if (byName.has(tool.name)) {
+            throw new Error(`Tool registered twice: ${tool.name}`);
+        }
+        byName.set(tool.name, tool);
+    }
+    registry = byName;
+    return registry;
+}
+
+/**
+ * A tool by name, if it exists, supports this platform, is in the caller's tool profile
+ * and isn't hidden as unavailable
+ */
+export function getTool(name: string): ToolDefinition | undefined {
+    const tool = getToolRegistry().get(name);
+    return tool && isListed(tool) ? tool : undefined;
+}
+
+export function isSupportedPlatform(tool: ToolDefinition): boolean {
+    return !tool.platforms || tool.platforms.includes(process.platform);
+}
+
+/**
+ * Why the tool can't work here according to the capability probe, or null if it can
+ * (or nothing has been probed yet)
+ */
+export function unavailableReason(tool: ToolDefinition): string | null {
+    const report = getCapabilityReport();
+    if (!report || !tool.requires) return null;
+    return unmetRequirement(tool.requires, report);
+}
+
+// Unavailable tools stay listed, annotated, unless capabilities.hideUnavailable is set
+function isListed(tool: ToolDefinition): boolean {
+    if (!isSupportedPlatform(tool) || !isInActiveProfile(tool)) return false;
+    return !loadConfig().capabilities.hideUnavailable || unavailableReason(tool) === null;
+}
+
+/**
+ * Supported tools the capability probe found unusable, with the reason
+ */
+export function listUnavailableTools(): Array<{ tool: string; category: string; reason: string }> {
+    return Array.from(getToolRegistry().values())
+        .filter(isSupportedPlatform)
+        .flatMap(tool => {
+            const reason = unavailableReason(tool);
+            return reason ? [{ tool: tool.name, category: tool.category, reason }] : [];
+        });
+}
+
+/**
+ * Names of the tools batch_tools can run
+ */
+export function getBatchableToolNames(): string[] {
+    return Array.from(getToolRegistry().values())
+        .filter(tool => tool.batchable !== false && isListed(tool))
+        .map(tool => tool.name);
+}
+
+/**
+ * JSON Schema for a tool's arguments; required fields come from the zod schema
+ */
+export function toJsonSchema(schema: Record<string, z.ZodTypeAny>): Record<string, unknown> {
+    const jsonSchema = zodToJsonSchema(z.object(schema), { target: 'openApi3' }) as Record<string, unknown>;
+    // MCP doesn't need $schema
+    delete jsonSchema['$schema'];
+    return jsonSchema;
+}
+
+/**
+ * JSON Schema for a tool's structuredContent: its own output, the error envelope, a
+ * parked approval, or for tools with side effects a simulation plan
+ */
+export function toOutputJsonSchema(tool: ToolDefinition): Record<string, unknown> {
+    const variants = [tool.outputSchema, ToolErrorOutput, PendingApprovalOutput];
+    if (tool.sideEffects !== 'read-only') variants.push(SimulatedOutput);
+    return {
+        type: 'object',
+        anyOf: variants.map(shape => {
+            // Objects allow fields the schema doesn't list, so results can grow without breaking clients
+            const jsonSchema = zodToJsonSchema(z.object(shape), { target: 'openApi3', removeAdditionalStrategy: 'strict' }) as Record<string, unknown>;
+            delete jsonSchema['$schema'];
+            return jsonSchema;
+        }),
+    };
+}
+
+/**
+ * Entries for the MCP tools/list response
+ */
+export function listToolDescriptors(): Array<{
+    name: string;
+    description: string;
+    inputSchema: Record<string, unknown>;
+    outputSchema: Record<string, unknown>;
+}> {
+    return Array.from(getToolRegistry().values())
+        .filter(isListed)
+        .map(tool => {
+            const reason = unavailableReason(tool);
+            return {
+                name: tool.name,
+                description: reason ? `${tool.description} [Unavailable on this system: ${reason}]` : tool.description,
+                inputSchema: toJsonSchema(tool.schema),
+                outputSchema: toOutputJsonSchema(tool),
+            };
+        });
+}
+
+/**
+ * Check arguments against the tool's schema. Arguments the schema doesn't mention are kept.
+ * @returns The parsed arguments
+ * @throws ToolArgumentsError if they don't match
+ */
+export function validateToolArgs(tool: ToolDefinition, args: unknown): Record<string, unknown> {
+    const parsed = z.object(tool.schema).passthrough().safeParse(args ?? {});
+    if (parsed.success) return parsed.data;
+
+    const issues = parsed.error.issues.map(issue => ({ path: issue.path.join('.') || '(root)', message: issue.message }));
+    throw new ToolArgumentsError({
+        code: 'INVALID_ARGUMENTS',
+        message: `Invalid arguments for ${tool.name}: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`,
+        tool: tool.name,
+        issues,
+    });
+}
+
+/**
+ * Structured tool response for rejected arguments
+ */
+export function toolArgumentsErrorResponse(error: ToolArgumentsError): ToolResponse {
+    return toolErrorResponse(error);
+}
+
+/**
+ * Where a successful result's structuredContent departs from the tool's outputSchema,
+ * or null if it conforms. Errors, simulation plans and parked approvals aren't checked.
+ */
+export function checkToolOutput(tool: ToolDefinition, response: ToolResponse): string | null {
+    const structured = response.structuredContent;
+    if (response.isError || !structured || structured.simulated === true || structured.status === 'pending_approval') {
+        return null;
+    }
+    const parsed = z.object(tool.outputSchema).safeParse(structured);
+    if (parsed.success) return null;
+    return parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+}
+
+async function parseOrReject(tool: ToolDefinition, args: unknown) {
+    try {
+        return { args: validateToolArgs(tool, args), rejected: null };
+    } catch (error) {
+        if (!(error instanceof ToolArgumentsError)) throw error;
+        await logAudit(tool.name, args, null, error.violation);
+        return { args: null, rejected: toolArgumentsErrorResponse(error) };
+    }
+}
+
+function requireTool(name: string): ToolDefinition {
+    const tool = getTool(name);
+    if (!tool) {
+        const known = getToolRegistry().get(name);
+        if (known && isSupportedPlatform(known) && !isInActiveProfile(known)) {
+            throw new Error(`Tool ${name} is not in the active tool profile "${getActiveProfile()}"; use set_tool_profile to switch`);
+        }
+        throw new Error(`Unknown tool: ${name}`);
+    }
+    return tool;
+}
+
+/**
+ * Validate a call before it is gated or run. Returns an error response (and logs it)
+ * for unusable arguments, or null if the call may proceed.
+ * @throws If the tool doesn't exist
+ */
+export async function checkToolCall(name: string, args: unknown) {
+    return (await parseOrReject(requireTool(name), args)).rejected;
+}
+
+/**
+ * Run a tool by name, without the approval gate. Arguments are validated first.
+ * @throws If the tool doesn't exist
+ */
+export async function invokeTool(name: string, args: unknown): Promise<ToolResponse> {
+    const tool = requireTool(name);
+    const parsed = await parseOrReject(tool, args);
+    if (parsed.rejected) return parsed.rejected;
+
+    const response = withStructuredContent(await tool.handler(parsed.args));
+    // A mismatch is a bug in the tool, not the caller; the result is still returned
+    const mismatch = checkToolOutput(tool, response);
+    if (mismatch) {
+        console.error(`Output of ${name} does not match its outputSchema: ${mismatch}`);
+    }
+    return response;
+}
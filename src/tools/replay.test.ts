@@ -0,0 +1,136 @@
+/**
+ * Tests for audit log replay
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+// Keep the audit database in a throwaway home
+const tempHome = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-test-'));
+const originalHome = process.env.HOME;
+process.env.HOME = tempHome;
+process.env.USERPROFILE = tempHome;
+
+const { z } = await import('zod');
+const { withAuditCall, logAudit } = await import('../audit.js');
+const { dispatchToolCall } = await import('./batchDispatcher.js');
+const { getToolRegistry } = await import('./registry.js');
+const { toolResponse } = await import('./toolResult.js');
+const { handleReplayToolCalls, rewritePaths } = await import('./replay.js');
+
+// A tool that stops logging its second call once `quiet` is set, like a call that fails before its handler logs
+let quiet = false;
+getToolRegistry().set('echo_number', {
+    name: 'echo_number',
+    description: 'Returns n',
+    category: 'system',
+    schema: { n: z.number() },
+    outputSchema: { n: z.number() },
+    sideEffects: 'read-only',
+    handler: async (args: { n: number }) => {
+        if (!(quiet && args.n === 2)) await logAudit('echo_number', args, { n: args.n });
+        return toolResponse({ n: args.n });
+    },
+});
+
+const oldRoot = path.join(tempHome, 'old');
+const newRoot = path.join(tempHome, 'new');
+
+describe('rewritePaths', () => {
+    it('rewrites roots inside nested strings on path boundaries only', () => {
+        const rewritten = rewritePaths(
+            { path: '/repo/src/a.ts', command: 'cat /repo/b.txt', other: '/repository/c' },
+            [{ from: '/repo', to: '/checkout' }]
+        );
+        assert.deepStrictEqual(rewritten, { path: '/checkout/src/a.ts', command: 'cat /checkout/b.txt', other: '/repository/c' });
+    });
+});
+
+describe('handleReplayToolCalls', () => {
+    before(async () => {
+        fs.mkdirSync(oldRoot, { recursive: true });
+        fs.mkdirSync(newRoot, { recursive: true });
+
+        await withAuditCall(async () => {
+            await dispatchToolCall('write_file', { path: path.join(oldRoot, 'notes.txt'), content: 'hello' }, 5000);
+            await dispatchToolCall('list_directory', { path: oldRoot }, 5000);
+            await dispatchToolCall('delete_file', { path: path.join(oldRoot, 'notes.txt') }, 5000);
+        }, { sessionId: 'session_recorded', clientName: 'test' });
+
+        await withAuditCall(async () => {
+            await dispatchToolCall('echo_number', { n: 1 }, 5000);
+            await dispatchToolCall('echo_number', { n: 2 }, 5000);
+        }, { sessionId: 'session_echo', clientName: 'test' });
+
+        await withAuditCall(async () => {
+            await dispatchToolCall('batch_write_files', { files: [{ path: path.join(oldRoot, 'a.txt'), content: 'a' }] }, 5000);
+            await dispatchToolCall('batch_delete_files', { paths: [path.join(oldRoot, 'a.txt')] }, 5000);
+        }, { sessionId: 'session_batches', clientName: 'test' });
+    });
+
+    after(() => {
+        process.env.HOME = originalHome;
+        process.env.USERPROFILE = originalHome;
+        fs.rmSync(tempHome, { recursive: true, force: true });
+    });
+
+    it('plans a dry run with rewritten paths and skips tools with side effects', async () => {
+        const response = await handleReplayToolCalls({
+            sessionId: 'session_recorded',
+            dryRun: true,
+            skipTools: ['delete_file'],
+            skipNonIdempotent: false,
+            rewritePaths: [{ from: oldRoot, to: newRoot }],
+        });
+        const report = JSON.parse(response.content[0].text);
+
+        assert.deepStrictEqual(report.calls.map((call: any) => [call.tool, call.status, call.reason]), [
+            ['write_file', 'planned', undefined],
+            ['list_directory', 'planned', undefined],
+            ['delete_file', 'skipped', 'skip_tools'],
+        ]);
+        assert.strictEqual(report.calls[0].args.path, path.join(newRoot, 'notes.txt'));
+        assert.ok(!fs.existsSync(path.join(newRoot, 'notes.txt')));
+    });
+
+    it('skips write and destructive tools by default, batch forms included', async () => {
+        for (const sessionId of ['session_recorded', 'session_batches']) {
+            const report = (await handleReplayToolCalls({ sessionId, dryRun: true })).structuredContent!;
+            assert.deepStrictEqual((report.calls as any[]).filter(call => call.status === 'skipped').map(call => [call.tool, call.reason]),
+                sessionId === 'session_recorded'
+                    ? [['write_file', 'non_idempotent'], ['delete_file', 'non_idempotent']]
+                    : [['batch_write_files', 'non_idempotent'], ['batch_delete_files', 'non_idempotent']]);
+        }
+    });
+
+    it('skips calls whose arguments were logged as a summary', async () => {
+        const report = (await handleReplayToolCalls({ sessionId: 'session_batches', dryRun: true, skipNonIdempotent: false })).structuredContent!;
+        assert.deepStrictEqual((report.calls as any[]).map(call => [call.tool, call.status, call.reason]), [
+            ['batch_write_files', 'skipped', 'args_not_recorded'],
+            ['batch_delete_files', 'skipped', 'args_not_recorded'],
+        ]);
+    });
+
+    it('re-runs calls against the new root and compares results', async () => {
+        const response = await handleReplayToolCalls({
+            sessionId: 'session_recorded',
+            skipTools: ['delete_file'],
+            skipNonIdempotent: false,
+            rewritePaths: [{ from: oldRoot, to: newRoot }],
+        });
+        const report = JSON.parse(response.content[0].text);
+
+        assert.strictEqual(fs.readFileSync(path.join(newRoot, 'notes.txt'), 'utf-8'), 'hello');
+        assert.deepStrictEqual(report.calls.map((call: any) => call.status), ['match', 'match', 'skipped']);
+    });
+
+    it('compares each replayed call with its own row, or its response when it logged none', async () => {
+        quiet = true;
+        const report = (await handleReplayToolCalls({ sessionId: 'session_echo' })).structuredContent!;
+        quiet = false;
+        assert.deepStrictEqual((report.calls as any[]).map(call => [call.tool, call.status]), [['echo_number', 'match'], ['echo_number', 'match']]);
+    });
+});
@@ -0,0 +1,277 @@
+// Audit log replay
+// Re-runs recorded tool calls through the batch dispatcher and compares the outcome with the record
+
+import { z } from 'zod';
+import { getStorage } from '../storage/storage.js';
+import { logAudit, withAuditCall, getAuditContext, AuditRow } from '../audit.js';
+import { getBatchSafetyLimits } from '../config.js';
+import { dispatchToolCall } from './batchDispatcher.js';
+import { getTool, validateToolArgs } from './registry.js';
+import { ToolDefinition } from './toolDefinition.js';
+import { ToolError, ToolResponse, reportResponse, toolErrorResponse, withStructuredContent, BatchReportOutput } from './toolResult.js';
+
+// Never replayed: decisions belong to an operator, and replays of replays would run twice
+const NEVER_REPLAYED = new Set(['approve_call', 'reject_call', 'replay_tool_calls']);
+
+
+// Result fields that differ between runs of the same call
+const VOLATILE_KEYS = new Set(['elapsed', 'elapsed_ms', 'elapsedMs', 'duration', 'durationMs', 'duration_ms', 'timestamp']);
+
+const MAX_ROWS = 5000;
+
+export const ReplayToolCallsSchema = {
+    fromId: z.number().optional().describe('First audit_log ID to replay (inclusive)'),
+    toId: z.number().optional().describe('Last audit_log ID to replay (inclusive)'),
+    sessionId: z.string().optional().describe('Replay the calls of this session'),
+    dryRun: z.boolean().optional().describe('List the calls that would run, with rewritten arguments, without running them (default: false)'),
+    skipNonIdempotent: z.boolean().optional().describe('Skip tools with write or destructive side effects, which may not give the same outcome when run twice (default: true)'),
+    skipTools: z.array(z.string()).optional().describe('Additional tools to skip'),
+    rewritePaths: z.array(z.object({
+        from: z.string().describe('Old root, e.g. "/home/alice/project"'),
+        to: z.string().describe('New root, e.g. "/tmp/checkout"'),
+    })).optional().describe('Path prefixes to rewrite in arguments and recorded results'),
+    maxCalls: z.number().optional().describe('Maximum calls to replay (default: 100)'),
+};
+
+// Output schemas: structuredContent of a successful call
+export const ReplayToolCallsOutput = {
+    summary: BatchReportOutput.summary.extend({
+        planned: z.number(),
+        skipped: z.number(),
+        matched: z.number(),
+        mismatched: z.number(),
+        dryRun: z.boolean(),
+    }).omit({ successful: true }),
+    calls: z.array(z.object({
+        auditId: z.number(),
+        callId: z.string().nullable(),
+        tool: z.string(),
+        status: z.enum(['planned', 'skipped', 'match', 'mismatch', 'failed']),
+        reason: z.string().optional(),
+    }).passthrough()),
+};
+
+type PathRewrite = { from: string; to: string };
+
+interface ReplayArgs {
+    fromId?: number;
+    toId?: number;
+    sessionId?: string;
+    dryRun?: boolean;
+    skipNonIdempotent?: boolean;
+    skipTools?: string[];
+    rewritePaths?: PathRewrite[];
+    maxCalls?: number;
+}
+
+interface ReplayedCall {
+    auditId: number;
+    callId: string | null;
+    tool: string;
+    status: 'planned' | 'skipped' | 'match' | 'mismatch' | 'failed';
+    reason?: string;
+    args?: any;
+    recorded?: { result: any; error: any };
+    replayed?: { result: any; error: any };
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Rewrite path prefixes in every string inside a value. A prefix only matches up to
+ * a path boundary, so /repo does not rewrite /repository.
+ */
+export function rewritePaths(value: any, rewrites: PathRewrite[]): any {
+    if (rewrites.length === 0) return value;
+    if (typeof value === 'string') {
+        return rewrites.reduce((text, { from, to }) =>
+            text.replace(new RegExp(`${escapeRegExp(from)}(?=$|[\\\\/\\s"'\`:;,)])`, 'g'), () => to), value);
+    }
+    if (Array.isArray(value)) return value.map(item => rewritePaths(item, rewrites));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, rewritePaths(child, rewrites)]));
+    }
+    return value;
+}
+
+function withoutVolatileKeys(value: any): any {
+    if (Array.isArray(value)) return value.map(withoutVolatileKeys);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value)
+            .filter(([key]) => !VOLATILE_KEYS.has(key))
+            .map(([key, child]) => [key, withoutVolatileKeys(child)]));
+    }
+    return value;
+}
+
+function parseJson(text: string | null): any {
+    if (text === null) return null;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+/**
+ * Pick the rows to replay: one per recorded call (its last row), in id order
+ */
+function selectCalls(rows: AuditRow[]): AuditRow[] {
+    const replayCallIds = new Set(rows.filter(row => row.tool === 'replay_tool_calls' && row.call_id).map(row => row.call_id));
+    const lastRowByCall = new Map<string, AuditRow>();
+
+    for (const row of rows) {
+        // Calls run by an earlier replay are replayed through their original row instead
+        if (row.parent_id && replayCallIds.has(row.parent_id)) continue;
+        // Rows written before correlation IDs existed each stand for one call
+        lastRowByCall.set(row.call_id ?? `row_${row.id}`, row);
+    }
+
+    return Array.from(lastRowByCall.values()).sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Whether a row holds the arguments of its call. Some tools log a summary instead, such as
+ * a file count, which their schema rejects.
+ */
+function argsRecorded(tool: ToolDefinition, row: AuditRow): boolean {
+    try {
+        validateToolArgs(tool, parseJson(row.args) ?? {});
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function skipReason(row: AuditRow, args: ReplayArgs, skipTools: Set<string>): string | null {
+    if (NEVER_REPLAYED.has(row.tool)) return 'never_replayed';
+    const tool = getTool(row.tool);
+    if (!tool || tool.batchable === false) return 'not_in_registry';
+    if (skipTools.has(row.tool)) return 'skip_tools';
+    if (args.skipNonIdempotent !== false && tool.sideEffects !== 'read-only') return 'non_idempotent';
+    if (row.args?.includes('[REDACTED:')) return 'redacted_args';
+    if (parseJson(row.result)?.status === 'pending_approval') return 'parked_for_approval';
+    if (!argsRecorded(tool, row)) return 'args_not_recorded';
+    return null;
+}
+
+async function replayCalls(args: ReplayArgs) {
+    const startTime = Date.now();
+
+    if (args.fromId === undefined && args.toId === undefined && !args.sessionId) {
+        throw new ToolError('INVALID_ARGUMENTS', 'Specify fromId/toId or sessionId');
+    }
+
+    const storage = await getStorage();
+    const rows = await storage.queryAuditRows({ fromId: args.fromId, toId: args.toId, sessionId: args.sessionId, limit: MAX_ROWS });
+
+    const rewrites = args.rewritePaths ?? [];
+    const skipTools = new Set(args.skipTools ?? []);
+    const maxCalls = args.maxCalls ?? 100;
+    const timeout = getBatchSafetyLimits().timeout;
+    const parentCallId = getAuditContext()!.callId;
+
+    const calls: ReplayedCall[] = [];
+    let replayedCount = 0;
+    // Rows up to this id belong to calls replayed earlier
+    let lastReplayedRowId = 0;
+
+    for (const row of selectCalls(rows)) {
+        const entry: ReplayedCall = { auditId: row.id, callId: row.call_id, tool: row.tool, status: 'skipped' };
+        calls.push(entry);
+
+        const reason = skipReason(row, args, skipTools) ?? (replayedCount >= maxCalls ? 'max_calls' : null);
+        if (reason) {
+            entry.reason = reason;
+            continue;
+        }
+
+        replayedCount++;
+        const callArgs = rewritePaths(parseJson(row.args) ?? {}, rewrites);
+        if (args.dryRun) {
+            entry.status = 'planned';
+            entry.args = callArgs;
+            continue;
+        }
+
+        const recorded = { result: rewritePaths(parseJson(row.result), rewrites), error: parseJson(row.error) };
+        let response: ToolResponse;
+        try {
+            response = withStructuredContent(await dispatchToolCall(row.tool, callArgs, timeout));
+        } catch (error: any) {
+            entry.status = 'failed';
+            entry.recorded = recorded;
+            entry.replayed = { result: null, error: error.message };
+            continue;
+        }
+
+        // Calls run one at a time, so the rows logged under this replay since the last
+        // replayed call are this call's own; compare its last row with the recorded one.
+        // A call that logged nothing, such as one rejected before its handler ran, is compared by its response.
+        const [latest] = await storage.queryAuditRows({ parentId: parentCallId, fromId: lastReplayedRowId + 1, order: 'desc', limit: 1 });
+        const replayed = latest
+            ? { result: parseJson(latest.result), error: parseJson(latest.error) }
+            : { result: response.isError ? null : response.structuredContent, error: response.isError ? response.structuredContent!.error : null };
+        lastReplayedRowId = latest?.id ?? lastReplayedRowId;
+
+        const matches = JSON.stringify(withoutVolatileKeys(recorded)) === JSON.stringify(withoutVolatileKeys(replayed));
+        entry.status = matches ? 'match' : 'mismatch';
+        if (!matches) {
+            entry.recorded = recorded;
+            entry.replayed = replayed;
+        }
+    }
+
+    const count = (status: ReplayedCall['status']) => calls.filter(call => call.status === status).length;
+    return {
+        summary: {
+            total: calls.length,
+            planned: count('planned'),
+            skipped: count('skipped'),
+            matched: count('match'),
+            mismatched: count('mismatch'),
+            failed: count('failed'),
+            dryRun: args.dryRun || false,
+            elapsed_ms: Date.now() - startTime,
+        },
+        calls,
+    };
+}
+
+/**
+ * Replay recorded tool calls by audit_log ID range or session
+ */
+export async function handleReplayToolCalls(args: ReplayArgs): Promise<ToolResponse> {
+    // Replayed calls need a parent call ID so their audit rows can be found again
+    if (!getAuditContext()) {
+        return withAuditCall(() => handleReplayToolCalls(args));
+    }
+
+    try {
+        const report = await replayCalls(args);
+
+        await logAudit('replay_tool_calls', args, report.summary);
+
+        const { failed, matched, mismatched } = report.summary;
+        return reportResponse(report, failed > 0 && matched + mismatched === 0 ? `All ${failed} replayed calls failed` : null);
+    } catch (error: any) {
+        await logAudit('replay_tool_calls', args, null, error.message);
+        return toolErrorResponse(error);
+    }
+}
+
+// Tool definitions, collected by registry.ts
+export const REPLAY_TOOLS: ToolDefinition[] = [
+    {
+        name: 'replay_tool_calls',
+        description: 'Re-run recorded tool calls from the audit log (by ID range or session) and compare the new results with the recorded ones. Supports dryRun, skipping tools with side effects and rewriting path roots.',
+        category: 'analytics',
+        schema: ReplayToolCallsSchema,
+        outputSchema: ReplayToolCallsOutput,
+        handler: handleReplayToolCalls,
+        sideEffects: 'destructive',
+        batchable: false,
+    },
+];
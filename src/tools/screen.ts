@@ -7,6 +7,12 @@ import path from 'path';
 import os from 'os';
 import { logAudit } from '../audit.js';
 import { PowerShellSession } from '../utils/powerShellSession.js';
+import { enforcePathPolicy, PathPolicyError, pathPolicyErrorResponse } from '../utils/pathPolicy.js';
+import { reportProgress, sleepUnlessCancelled } from '../utils/callControl.js';
+import { isSimulating, simulatedResponse } from '../utils/simulate.js';
+import { ToolDefinition } from './toolDefinition.js';
+import { toolErrorResponse, toolResponse } from './toolResult.js';
+import { BackendRequirement } from '../utils/capabilities.js';
 
 const execAsync = promisify(exec);
 
@@ -48,6 +54,36 @@ export const FindOnScreenSchema = {
     confidence: z.number().optional().describe('Match confidence 0-1 (default: 0.8)'),
 };
 
+// Output schemas: structuredContent of a successful call
+const ScreenSize = z.union([z.number(), z.literal('full')]);
+
+// Saved to a file: saved and path. Returned inline: the image is in content, its size and format here.
+export const ScreenshotOutput = {
+    saved: z.boolean().optional(),
+    path: z.string().optional(),
+    width: ScreenSize.optional(),
+    height: ScreenSize.optional(),
+    format: z.string().optional(),
+};
+
+export const ScreenInfoOutput = {
+    platform: z.string(),
+    displayCount: z.number(),
+    displays: z.array(z.record(z.unknown())).describe('Fields depend on the platform'),
+};
+
+export const WaitForScreenChangeOutput = {
+    changed: z.boolean(),
+    timeout: z.boolean().optional(),
+    elapsed_ms: z.number(),
+};
+
+export const FindOnScreenOutput = {
+    status: z.string(),
+    message: z.string(),
+    suggestion: z.string().optional(),
+};
+
 // Platform-specific screenshot implementation
 async function captureScreen(options: {
     region?: { x: number; y: number; width: number; height: number };
@@ -176,6 +212,17 @@ export async function handleScreenshot(args: {
 }) {
     try {
         const format = args.format || 'base64';
+        if (args.savePath) {
+            await enforcePathPolicy('screenshot', args.savePath, 'write');
+            // Only saving to a file is a side effect; a returned image is still captured
+            if (isSimulating()) {
+                return await simulatedResponse('screenshot', args, {
+                    action: 'save', path: args.savePath, overwrites: fs.existsSync(args.savePath),
+                    region: args.region ?? 'full', monitor: args.monitor ?? 'primary',
+                });
+            }
+        }
+
         const result = await captureScreen({
             region: args.region,
             monitor: args.monitor,
@@ -185,12 +232,7 @@ export async function handleScreenshot(args: {
         await logAudit('screenshot', args, 'success');
 
         if (args.savePath) {
-            return {
-                content: [{
-                    type: 'text',
-                    text: JSON.stringify({ saved: true, path: result.path }, null, 2)
-                }],
-            };
+            return toolResponse({ saved: true, path: result.path });
         }
 
         if (format === 'base64') {
@@ -199,34 +241,33 @@ export async function handleScreenshot(args: {
             // Clean up temp file
             fs.unlinkSync(result.path);
 
+            // The image itself is only in content; structured output describes it
+            const metadata = {
+                width: args.region?.width || 'full',
+                height: args.region?.height || 'full',
+                format: 'base64/png'
+            };
             return {
                 content: [
                     {
-                        type: 'image',
+                        type: 'image' as const,
                         data: base64,
                         mimeType: 'image/png',
                     },
                     {
-                        type: 'text',
-                        text: JSON.stringify({
-                            width: args.region?.width || 'full',
-                            height: args.region?.height || 'full',
-                            format: 'base64/png'
-                        })
+                        type: 'text' as const,
+                        text: JSON.stringify(metadata)
                     }
                 ],
+                structuredContent: metadata,
             };
         }
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ path: result.path }, null, 2) }],
-        };
+        return toolResponse({ path: result.path });
     } catch (error: any) {
+        if (error instanceof PathPolicyError) return pathPolicyErrorResponse(error);
         await logAudit('screenshot', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -236,22 +277,14 @@ export async function handleGetScreenInfo() {
 
         await logAudit('get_screen_info', {}, 'success');
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    platform: os.platform(),
-                    displayCount: displays.length,
-                    displays
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            platform: os.platform(),
+            displayCount: displays.length,
+            displays
+        });
     } catch (error: any) {
         await logAudit('get_screen_info', {}, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -269,9 +302,10 @@ export async function handleWaitForScreenChange(args: {
         const initialBuffer = fs.readFileSync(initial.path);
         fs.unlinkSync(initial.path);
 
-        // Poll for changes
+        // Poll for changes until the timeout or a cancellation
         while (Date.now() - startTime < timeout) {
-            await new Promise(resolve => setTimeout(resolve, 100));
+            await sleepUnlessCancelled(100);
+            reportProgress(Date.now() - startTime, timeout, 'Waiting for the screen to change');
 
             const current = await captureScreen({ region: args.region });
             const currentBuffer = fs.readFileSync(current.path);
@@ -282,29 +316,16 @@ export async function handleWaitForScreenChange(args: {
                 const elapsed = Date.now() - startTime;
                 await logAudit('wait_for_screen_change', args, { changed: true, elapsed });
 
-                return {
-                    content: [{
-                        type: 'text',
-                        text: JSON.stringify({ changed: true, elapsed_ms: elapsed }, null, 2)
-                    }],
-                };
+                return toolResponse({ changed: true, elapsed_ms: elapsed });
             }
         }
 
         await logAudit('wait_for_screen_change', args, { changed: false, timeout: true });
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({ changed: false, timeout: true, elapsed_ms: timeout }, null, 2)
-            }],
-        };
+        return toolResponse({ changed: false, timeout: true, elapsed_ms: timeout });
     } catch (error: any) {
         await logAudit('wait_for_screen_change', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -320,23 +341,63 @@ export async function handleFindOnScreen(args: {
 
         await logAudit('find_on_screen', args, 'not_implemented');
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    status: 'requires_dependencies',
-                    message: 'OCR/template matching requires additional dependencies (tesseract for text, opencv for images). Use screenshot + external OCR as alternative.',
-                    suggestion: args.text
-                        ? 'For text finding, take a screenshot and use an external OCR service or library.'
-                        : 'For image finding, take a screenshot and use template matching with an image processing library.'
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            status: 'requires_dependencies',
+            message: 'OCR/template matching requires additional dependencies (tesseract for text, opencv for images). Use screenshot + external OCR as alternative.',
+            suggestion: args.text
+                ? 'For text finding, take a screenshot and use an external OCR service or library.'
+                : 'For image finding, take a screenshot and use template matching with an image processing library.'
+        });
     } catch (error: any) {
         await logAudit('find_on_screen', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
+
+// Backends each platform's implementation shells out to
+const CAPTURE_BACKENDS: BackendRequirement = { linux: [['display'], ['scrot', 'gnome-screenshot']], darwin: [['screencapture']], win32: [['powershell']] };
+const DISPLAY_INFO_BACKENDS: BackendRequirement = { linux: [['display'], ['xrandr']], win32: [['powershell']] };
+
+// Tool definitions, collected by registry.ts
+export const SCREEN_TOOLS: ToolDefinition[] = [
+    {
+        name: 'screenshot',
+        description: 'Capture screenshot of screen or region. Returns base64 image or saves to file.',
+        category: 'screen',
+        schema: ScreenshotSchema,
+        outputSchema: ScreenshotOutput,
+        handler: handleScreenshot,
+        // savePath writes a file, so it stays out of the readonly profile
+        sideEffects: 'write',
+        requires: CAPTURE_BACKENDS,
+    },
+    {
+        name: 'get_screen_info',
+        description: 'Get display/monitor information (resolution, count, positions).',
+        category: 'screen',
+        schema: GetScreenInfoSchema,
+        outputSchema: ScreenInfoOutput,
+        handler: handleGetScreenInfo,
+        sideEffects: 'read-only',
+        requires: DISPLAY_INFO_BACKENDS,
+    },
+    {
+        name: 'wait_for_screen_change',
+        description: 'Wait until screen content changes in a region. Useful for detecting UI updates.',
+        category: 'screen',
+        schema: WaitForScreenChangeSchema,
+        outputSchema: WaitForScreenChangeOutput,
+        handler: handleWaitForScreenChange,
+        sideEffects: 'read-only',
+        requires: CAPTURE_BACKENDS,
+    },
+    {
+        name: 'find_on_screen',
+        description: 'Find text or image on screen (requires OCR/template matching dependencies).',
+        category: 'screen',
+        schema: FindOnScreenSchema,
+        outputSchema: FindOnScreenOutput,
+        handler: handleFindOnScreen,
+        sideEffects: 'read-only',
+    },
+];
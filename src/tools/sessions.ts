@@ -5,7 +5,16 @@ import { z } from 'zod';
 import { spawn, ChildProcess } from 'child_process';
 import { logAudit } from '../audit.js';
 import { loadConfig } from '../config.js';
+import { enforceCommandPolicy, CommandPolicyError, commandPolicyErrorResponse } from '../utils/commandPolicy.js';
+import { enforcePathPolicy, PathPolicyError, pathPolicyErrorResponse } from '../utils/pathPolicy.js';
+import { isSimulating, simulatedResponse } from '../utils/simulate.js';
+import { redactToolOutput } from '../utils/redact.js';
+import { connectionScoped } from '../utils/connectionScope.js';
+import { notifyResourceUpdated, notifyResourceListChanged } from '../resources/subscriptions.js';
+import { sessionOutputUri } from '../resources/uris.js';
 import os from 'os';
+import { ToolDefinition } from './toolDefinition.js';
+import { ToolError, ToolResponse, toolErrorResponse, toolResponse } from './toolResult.js';
 
 const platform = os.platform();
 const config = loadConfig();
@@ -21,7 +30,12 @@ interface ProcessSession {
     isAlive: boolean;
 }
 
-const sessions: Map<string, ProcessSession> = new Map();
+// Each client connection sees only its own sessions; they are terminated when it disconnects
+const processSessions = connectionScoped(() => new Map<string, ProcessSession>(), sessions => {
+    for (const session of sessions.values()) {
+        if (session.isAlive) session.process.kill('SIGTERM');
+    }
+});
 const MAX_OUTPUT_LINES = 1000;  // Keep last 1000 lines per session
 
 // Generate unique session ID
@@ -55,6 +69,66 @@ export const TerminateProcessSchema = {
     force: z.boolean().optional().describe('Force kill (SIGKILL) instead of graceful (SIGTERM)'),
 };
 
+// Output schemas: structuredContent of a successful call
+export const StartProcessOutput = {
+    sessionId: z.string(),
+    pid: z.number().optional().describe('Missing if the command could not be spawned'),
+    command: z.string(),
+    cwd: z.string(),
+    started: z.string(),
+};
+
+export const InteractWithProcessOutput = {
+    sessionId: z.string(),
+    sent: z.literal(true),
+    inputLength: z.number(),
+};
+
+export const ReadProcessOutputOutput = {
+    sessionId: z.string(),
+    isAlive: z.boolean(),
+    linesReturned: z.number(),
+    totalBuffered: z.number(),
+    truncated: z.boolean(),
+    output: z.string(),
+};
+
+export const ListSessionsOutput = {
+    count: z.number(),
+    sessions: z.array(z.object({
+        sessionId: z.string(),
+        command: z.string(),
+        cwd: z.string(),
+        pid: z.number().optional(),
+        isAlive: z.boolean(),
+        startTime: z.string(),
+        outputLines: z.number(),
+    })),
+};
+
+export const TerminateProcessOutput = {
+    sessionId: z.string(),
+    terminated: z.literal(true),
+    wasAlive: z.boolean(),
+    force: z.boolean(),
+};
+
+/**
+ * Number of tracked process sessions, across all connections, that are still running or have exited
+ */
+export function getSessionCounts(): { alive: number; exited: number } {
+    const all = processSessions.all().flatMap(sessions => Array.from(sessions.values()));
+    const alive = all.filter(s => s.isAlive).length;
+    return { alive, exited: all.length - alive };
+}
+
+/**
+ * The calling connection's process sessions, for session:// resources
+ */
+export function getConnectionSessions(): Array<{ id: string; command: string; isAlive: boolean; output: readonly string[] }> {
+    return Array.from(processSessions.get().values());
+}
+
 /**
  * Start a new interactive process session
  */
@@ -63,11 +137,28 @@ export async function handleStartProcess(args: {
     args?: string[];
     cwd?: string;
     env?: Record<string, string>;
-}): Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }> {
+}): Promise<ToolResponse> {
+    const sessions = processSessions.get();
     try {
         const sessionId = generateSessionId();
         const cmdArgs = args.args || [];
         const cwd = args.cwd || process.cwd();
+
+        // Windows spawns through a shell, so the joined command line is what actually runs
+        if (platform === 'win32') {
+            await enforceCommandPolicy('start_process', [args.command, ...cmdArgs].join(' '), undefined, args.env);
+        } else {
+            await enforceCommandPolicy('start_process', args.command, cmdArgs, args.env);
+        }
+        if (args.cwd) {
+            await enforcePathPolicy('start_process', args.cwd, 'read');
+        }
+
+        if (isSimulating()) {
+            return await simulatedResponse('start_process', { command: args.command, args: cmdArgs, cwd }, {
+                action: 'spawn', command: args.command, args: cmdArgs, cwd,
+            });
+        }
         
         // Spawn the process
         const child = spawn(args.command, cmdArgs, {
@@ -87,6 +178,8 @@ export async function handleStartProcess(args: {
             isAlive: true,
         };
 
+        const outputUri = sessionOutputUri(sessionId);
+
         // Collect stdout
         child.stdout?.on('data', (data: Buffer) => {
             const lines = data.toString().split('\n');
@@ -95,6 +188,7 @@ export async function handleStartProcess(args: {
             if (session.output.length > MAX_OUTPUT_LINES) {
                 session.output = session.output.slice(-MAX_OUTPUT_LINES);
             }
+            notifyResourceUpdated(outputUri);
         });
 
         // Collect stderr
@@ -104,41 +198,39 @@ export async function handleStartProcess(args: {
             if (session.output.length > MAX_OUTPUT_LINES) {
                 session.output = session.output.slice(-MAX_OUTPUT_LINES);
             }
+            notifyResourceUpdated(outputUri);
         });
 
         // Handle process exit
         child.on('exit', (code, signal) => {
             session.isAlive = false;
             session.output.push(`[process exited with ${signal ? `signal ${signal}` : `code ${code}`}]`);
+            notifyResourceUpdated(outputUri);
         });
 
         child.on('error', (err) => {
             session.isAlive = false;
             session.output.push(`[process error: ${err.message}]`);
+            notifyResourceUpdated(outputUri);
         });
 
         sessions.set(sessionId, session);
+        notifyResourceListChanged();
 
         await logAudit('start_process', { command: args.command, args: cmdArgs, cwd }, { sessionId, pid: child.pid });
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    sessionId,
-                    pid: child.pid,
-                    command: session.command,
-                    cwd,
-                    started: session.startTime.toISOString(),
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            sessionId,
+            pid: child.pid,
+            command: session.command,
+            cwd,
+            started: session.startTime.toISOString(),
+        });
     } catch (error: any) {
+        if (error instanceof CommandPolicyError) return commandPolicyErrorResponse(error);
+        if (error instanceof PathPolicyError) return pathPolicyErrorResponse(error);
         await logAudit('start_process', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -148,22 +240,23 @@ export async function handleStartProcess(args: {
 export async function handleInteractWithProcess(args: {
     sessionId: string;
     input: string;
-}): Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }> {
+}): Promise<ToolResponse> {
+    const sessions = processSessions.get();
     try {
         const session = sessions.get(args.sessionId);
         
         if (!session) {
-            return {
-                content: [{ type: 'text', text: `Error: Session not found: ${args.sessionId}` }],
-                isError: true,
-            };
+            return toolErrorResponse(new ToolError('NOT_FOUND', `Session not found: ${args.sessionId}`));
         }
 
         if (!session.isAlive) {
-            return {
-                content: [{ type: 'text', text: `Error: Process has exited` }],
-                isError: true,
-            };
+            return toolErrorResponse(new ToolError('CONFLICT', 'Process has exited'));
+        }
+
+        if (isSimulating()) {
+            return await simulatedResponse('interact_with_process', { sessionId: args.sessionId, inputLength: args.input.length }, {
+                action: 'write_stdin', sessionId: args.sessionId, command: session.command, input: args.input,
+            });
         }
 
         // Write to stdin
@@ -176,22 +269,14 @@ export async function handleInteractWithProcess(args: {
 
         await logAudit('interact_with_process', { sessionId: args.sessionId, inputLength: args.input.length }, 'sent');
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    sessionId: args.sessionId,
-                    sent: true,
-                    inputLength: args.input.length,
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            sessionId: args.sessionId,
+            sent: true,
+            inputLength: args.input.length,
+        });
     } catch (error: any) {
         await logAudit('interact_with_process', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -202,17 +287,15 @@ export async function handleReadProcessOutput(args: {
     sessionId: string;
     lines?: number;
     clear?: boolean;
-}): Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }> {
+}): Promise<ToolResponse> {
+    const sessions = processSessions.get();
     try {
         const session = sessions.get(args.sessionId);
         const outputConfig = config.cliOutput ?? { maxOutputChars: 50000, warnAtChars: 10000, truncateMode: 'both' as const };
         const maxReturnLines = 200; // Default limit on returned lines to prevent context stuffing
 
         if (!session) {
-            return {
-                content: [{ type: 'text', text: `Error: Session not found: ${args.sessionId}` }],
-                isError: true,
-            };
+            return toolErrorResponse(new ToolError('NOT_FOUND', `Session not found: ${args.sessionId}`));
         }
 
         let output: string[];
@@ -235,9 +318,10 @@ export async function handleReadProcessOutput(args: {
 
         if (args.clear) {
             session.output = [];
+            notifyResourceUpdated(sessionOutputUri(session.id));
         }
 
-        const outputText = output.join('\n');
+        const outputText = redactToolOutput(output.join('\n'));
         const truncatedByLines = output.length < session.output.length;
 
         // Also check character limit
@@ -251,32 +335,25 @@ export async function handleReadProcessOutput(args: {
 
         await logAudit('read_process_output', { sessionId: args.sessionId, linesRequested: args.lines }, { linesReturned: output.length, truncated: truncatedByLines || truncatedByChars });
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    sessionId: args.sessionId,
-                    isAlive: session.isAlive,
-                    linesReturned: output.length,
-                    totalBuffered: session.output.length,
-                    truncated: truncatedByLines || truncatedByChars,
-                    output: finalOutput,
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            sessionId: args.sessionId,
+            isAlive: session.isAlive,
+            linesReturned: output.length,
+            totalBuffered: session.output.length,
+            truncated: truncatedByLines || truncatedByChars,
+            output: finalOutput,
+        });
     } catch (error: any) {
         await logAudit('read_process_output', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 /**
  * List all active sessions
  */
-export async function handleListSessions(): Promise<{ content: Array<{ type: string; text: string }> }> {
+export async function handleListSessions(): Promise<ToolResponse> {
+    const sessions = processSessions.get();
     const sessionList = Array.from(sessions.values()).map(s => ({
         sessionId: s.id,
         command: s.command,
@@ -289,15 +366,10 @@ export async function handleListSessions(): Promise<{ content: Array<{ type: str
 
     await logAudit('list_sessions', {}, { count: sessionList.length });
 
-    return {
-        content: [{
-            type: 'text',
-            text: JSON.stringify({
-                count: sessionList.length,
-                sessions: sessionList,
-            }, null, 2)
-        }],
-    };
+    return toolResponse({
+        count: sessionList.length,
+        sessions: sessionList,
+    });
 }
 
 /**
@@ -306,15 +378,23 @@ export async function handleListSessions(): Promise<{ content: Array<{ type: str
 export async function handleTerminateProcess(args: {
     sessionId: string;
     force?: boolean;
-}): Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }> {
+}): Promise<ToolResponse> {
+    const sessions = processSessions.get();
     try {
         const session = sessions.get(args.sessionId);
         
         if (!session) {
-            return {
-                content: [{ type: 'text', text: `Error: Session not found: ${args.sessionId}` }],
-                isError: true,
-            };
+            return toolErrorResponse(new ToolError('NOT_FOUND', `Session not found: ${args.sessionId}`));
+        }
+
+        if (isSimulating()) {
+            return await simulatedResponse('terminate_process', args, {
+                action: 'terminate',
+                sessionId: args.sessionId,
+                command: session.command,
+                isAlive: session.isAlive,
+                signal: args.force ? 'SIGKILL' : 'SIGTERM',
+            });
         }
 
         if (session.isAlive) {
@@ -328,26 +408,68 @@ export async function handleTerminateProcess(args: {
         // Give it a moment then clean up
         setTimeout(() => {
             sessions.delete(args.sessionId);
+            notifyResourceListChanged();
         }, 1000);
 
         await logAudit('terminate_process', args, 'terminated');
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    sessionId: args.sessionId,
-                    terminated: true,
-                    wasAlive: session.isAlive,
-                    force: args.force || false,
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            sessionId: args.sessionId,
+            terminated: true,
+            wasAlive: session.isAlive,
+            force: args.force || false,
+        });
     } catch (error: any) {
         await logAudit('terminate_process', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
+
+// Tool definitions, collected by registry.ts
+export const SESSION_TOOLS: ToolDefinition[] = [
+    {
+        name: 'start_process',
+        description: 'Start a new interactive process session. Returns a sessionId for subsequent interactions. Use for long-running processes, REPLs, SSH, or any process requiring stdin/stdout interaction.',
+        category: 'sessions',
+        schema: StartProcessSchema,
+        outputSchema: StartProcessOutput,
+        handler: handleStartProcess,
+        sideEffects: 'destructive',
+    },
+    {
+        name: 'interact_with_process',
+        description: 'Send input to a running process session. Input is written to the process stdin.',
+        category: 'sessions',
+        schema: InteractWithProcessSchema,
+        outputSchema: InteractWithProcessOutput,
+        handler: handleInteractWithProcess,
+        sideEffects: 'destructive',
+    },
+    {
+        name: 'read_process_output',
+        description: 'Read output from a process session. Use negative lines value to read last N lines. Use clear=true to clear the buffer after reading.',
+        category: 'sessions',
+        schema: ReadProcessOutputSchema,
+        outputSchema: ReadProcessOutputOutput,
+        handler: handleReadProcessOutput,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'list_sessions',
+        description: 'List all active process sessions with their status and basic info.',
+        category: 'sessions',
+        schema: ListSessionsSchema,
+        outputSchema: ListSessionsOutput,
+        handler: handleListSessions,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'terminate_process',
+        description: 'Terminate a process session. Use force=true for SIGKILL instead of graceful SIGTERM.',
+        category: 'sessions',
+        schema: TerminateProcessSchema,
+        outputSchema: TerminateProcessOutput,
+        handler: handleTerminateProcess,
+        sideEffects: 'destructive',
+    },
+];
@@ -3,6 +3,7 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import os from 'os';
 import { logAudit } from '../audit.js';
+import { isSimulating, simulatedResponse } from '../utils/simulate.js';
 
 const execAsync = promisify(exec);
 const platform = os.platform();
@@ -44,6 +45,81 @@ export const NotifySchema = {
     icon: z.string().optional().describe('Path to icon'),
 };
 
+export const GetCapabilitiesSchema = {
+    refresh: z.boolean().optional().describe('Probe again, e.g. after installing a missing tool (default: use the startup probe)'),
+};
+
+// Output schemas: structuredContent of a successful call
+export const SystemInfoOutput = {
+    platform: z.string(),
+    arch: z.string(),
+    release: z.string(),
+    hostname: z.string(),
+    uptime: z.number(),
+    uptimeHuman: z.string(),
+    cpu: z.object({ model: z.string().optional(), cores: z.number(), speed: z.number().optional() }),
+    memory: z.object({
+        total: z.number(),
+        totalHuman: z.string(),
+        free: z.number(),
+        freeHuman: z.string(),
+        used: z.number(),
+        usedHuman: z.string(),
+        usagePercent: z.string(),
+    }),
+    user: z.object({ username: z.string(), homedir: z.string(), shell: z.string().nullable() }),
+    env: z.record(z.string().optional()),
+};
+
+export const ListProcessesOutput = {
+    count: z.number(),
+    processes: z.array(z.object({
+        pid: z.number(),
+        name: z.string(),
+        cpu: z.number(),
+        memory: z.number().describe('Bytes on Windows, percent elsewhere'),
+    })),
+};
+
+export const KillProcessOutput = {
+    killed: z.number(),
+    pid: z.number().optional(),
+    name: z.string().optional(),
+};
+
+// One field per variable
+export const GetEnvironmentOutput = {};
+
+export const SetEnvironmentOutput = {
+    set: z.literal(true),
+    variable: z.string(),
+    persistent: z.boolean(),
+};
+
+export const NetworkInfoOutput = {
+    hostname: z.string(),
+    interfaces: z.array(z.object({
+        interface: z.string(),
+        family: z.string(),
+        address: z.string(),
+        netmask: z.string(),
+        mac: z.string(),
+    })),
+};
+
+export const WaitOutput = { waited: z.literal(true), ms: z.number() };
+
+export const NotifyOutput = { notified: z.literal(true), title: z.string() };
+
+export const CapabilitiesOutput = {
+    platform: z.string(),
+    displayServer: z.string(),
+    backends: z.record(z.object({ available: z.boolean(), detail: z.string() })),
+    probedAt: z.string(),
+    unavailableTools: z.array(z.object({ tool: z.string(), category: z.string(), reason: z.string() })),
+    unavailableToolsHidden: z.boolean(),
+};
+
 // Tool handlers
 export async function handleGetSystemInfo() {
     try {
@@ -85,15 +161,10 @@ export async function handleGetSystemInfo() {
 
         await logAudit('get_system_info', {}, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify(info, null, 2) }],
-        };
+        return toolResponse(info);
     } catch (error: any) {
         await logAudit('get_system_info', {}, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -160,26 +231,24 @@ export async function handleListProcesses(args: { filter?: string; sortBy?: stri
 
         await logAudit('list_processes', args, { count: processes.length });
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    count: processes.length,
-                    processes
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            count: processes.length,
+            processes
+        });
     } catch (error: any) {
         await logAudit('list_processes', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleKillProcess(args: { pid?: number; name?: string; force?: boolean }) {
     try {
+        if (isSimulating()) {
+            return await simulatedResponse('kill_process', args, {
+                action: 'kill', pid: args.pid, name: args.name, force: args.force || false,
+            });
+        }
+
         let killed = 0;
 
         if (args.pid) {
@@ -202,15 +271,10 @@ export async function handleKillProcess(args: { pid?: number; name?: string; for
 
         await logAudit('kill_process', args, { killed });
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ killed, pid: args.pid, name: args.name }, null, 2) }],
-        };
+        return toolResponse({ killed, pid: args.pid, name: args.name });
     } catch (error: any) {
         await logAudit('kill_process', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -233,20 +297,24 @@ export async function handleGetEnvironment(args: { variable?: string }) {
 
         await logAudit('get_environment', args, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify(env, null, 2) }],
-        };
+        return toolResponse(env);
     } catch (error: any) {
         await logAudit('get_environment', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleSetEnvironment(args: { variable: string; value: string; persistent?: boolean }) {
     try {
+        if (isSimulating()) {
+            return await simulatedResponse('set_environment', { variable: args.variable, persistent: args.persistent }, {
+                action: 'set',
+                variable: args.variable,
+                persistent: args.persistent || false,
+                previouslySet: process.env[args.variable] !== undefined,
+            });
+        }
+
         // Set for current process
         process.env[args.variable] = args.value;
 
@@ -261,22 +329,14 @@ export async function handleSetEnvironment(args: { variable: string; value: stri
 
         await logAudit('set_environment', { variable: args.variable, persistent: args.persistent }, 'success');
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    set: true,
-                    variable: args.variable,
-                    persistent: args.persistent || false
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            set: true,
+            variable: args.variable,
+            persistent: args.persistent || false
+        });
     } catch (error: any) {
         await logAudit('set_environment', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -302,21 +362,13 @@ export async function handleGetNetworkInfo() {
 
         await logAudit('get_network_info', {}, 'success');
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    hostname: os.hostname(),
-                    interfaces: networks
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            hostname: os.hostname(),
+            interfaces: networks
+        });
     } catch (error: any) {
         await logAudit('get_network_info', {}, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
@@ -326,20 +378,19 @@ export async function handleWait(args: { ms: number }) {
 
         await logAudit('wait', args, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ waited: true, ms: args.ms }, null, 2) }],
-        };
+        return toolResponse({ waited: true, ms: args.ms });
     } catch (error: any) {
         await logAudit('wait', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleNotify(args: { title: string; message: string; icon?: string }) {
     try {
+        if (isSimulating()) {
+            return await simulatedResponse('notify', args, { action: 'notify', title: args.title, message: args.message });
+        }
+
         if (platform === 'win32') {
             const script = `
                 [Windows.UI.Notifications.ToastNotificationManager, Windows.UI.Notifications, ContentType = WindowsRuntime] | Out-Null
@@ -368,20 +419,38 @@ export async function handleNotify(args: { title: string; message: string; icon?
 
         await logAudit('notify', args, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ notified: true, title: args.title }, null, 2) }],
-        };
+        return toolResponse({ notified: true, title: args.title });
     } catch (error: any) {
         await logAudit('notify', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
+    }
+}
+
+export async function handleGetCapabilities(args: { refresh?: boolean }) {
+    try {
+        const report = (!args.refresh && getCapabilityReport()) || await probeCapabilities();
+        const unavailableTools = listUnavailableTools();
+
+        await logAudit('get_capabilities', args, { unavailableTools: unavailableTools.length });
+
+        return toolResponse({
+            ...report,
+            unavailableTools,
+            unavailableToolsHidden: loadConfig().capabilities.hideUnavailable,
+        });
+    } catch (error: any) {
+        await logAudit('get_capabilities', args, null, error.message);
+        return toolErrorResponse(error);
     }
 }
 
 // Utility functions
 import path from 'path';
+import { ToolDefinition } from './toolDefinition.js';
+import { toolErrorResponse, toolResponse } from './toolResult.js';
+import { BackendRequirement, getCapabilityReport, probeCapabilities } from '../utils/capabilities.js';
+import { listUnavailableTools } from './registry.js';
+import { loadConfig } from '../config.js';
 
 function formatBytes(bytes: number): string {
     if (bytes === 0) return '0 B';
@@ -401,3 +470,94 @@ function formatUptime(seconds: number): string {
     if (minutes > 0) parts.push(`${minutes}m`);
     return parts.join(' ') || '< 1m';
 }
+
+// Backends each platform's implementation shells out to
+const NOTIFY_BACKENDS: BackendRequirement = { linux: [['notify-send']], darwin: [['osascript']], win32: [['powershell']] };
+const PROCESS_LIST_BACKENDS: BackendRequirement = { win32: [['powershell']] };
+
+// Tool definitions, collected by registry.ts
+export const SYSTEM_TOOLS: ToolDefinition[] = [
+    {
+        name: 'get_system_info',
+        description: 'Get system information (OS, CPU, memory, uptime).',
+        category: 'system',
+        schema: GetSystemInfoSchema,
+        outputSchema: SystemInfoOutput,
+        handler: handleGetSystemInfo,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'list_processes',
+        description: 'List running processes with CPU/memory usage.',
+        category: 'system',
+        schema: ListProcessesSchema,
+        outputSchema: ListProcessesOutput,
+        handler: handleListProcesses,
+        sideEffects: 'read-only',
+        requires: PROCESS_LIST_BACKENDS,
+    },
+    {
+        name: 'kill_process',
+        description: 'Kill a process by PID or name.',
+        category: 'system',
+        schema: KillProcessSchema,
+        outputSchema: KillProcessOutput,
+        handler: handleKillProcess,
+        sideEffects: 'destructive',
+    },
+    {
+        name: 'get_environment',
+        description: 'Get environment variable(s).',
+        category: 'system',
+        schema: GetEnvironmentSchema,
+        outputSchema: GetEnvironmentOutput,
+        handler: handleGetEnvironment,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'set_environment',
+        description: 'Set an environment variable.',
+        category: 'system',
+        schema: SetEnvironmentSchema,
+        outputSchema: SetEnvironmentOutput,
+        handler: handleSetEnvironment,
+        sideEffects: 'write',
+    },
+    {
+        name: 'get_network_info',
+        description: 'Get network interface information.',
+        category: 'system',
+        schema: GetNetworkInfoSchema,
+        outputSchema: NetworkInfoOutput,
+        handler: handleGetNetworkInfo,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'wait',
+        description: 'Wait/sleep for specified milliseconds. Use in action sequences.',
+        category: 'system',
+        schema: WaitSchema,
+        outputSchema: WaitOutput,
+        handler: handleWait,
+        sideEffects: 'read-only',
+    },
+    {
+        name: 'notify',
+        description: 'Show a system notification.',
+        category: 'system',
+        schema: NotifySchema,
+        outputSchema: NotifyOutput,
+        handler: handleNotify,
+        sideEffects: 'write',
+        requires: NOTIFY_BACKENDS,
+    },
+    {
+        name: 'get_capabilities',
+        description: 'Report the display server and desktop backends (xdotool, wmctrl, scrot, xclip, PowerShell, ...) available on this machine, and which tools cannot work here and why.',
+        category: 'system',
+        schema: GetCapabilitiesSchema,
+        outputSchema: CapabilitiesOutput,
+        handler: handleGetCapabilities,
+        sideEffects: 'read-only',
+    },
+];
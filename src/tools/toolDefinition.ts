@@ -0,0 +1,31 @@
+// Tool definition types
+// What each tool module declares about its tools; collected by registry.ts
+
+import { z } from 'zod';
+import { BackendRequirement } from '../utils/capabilities.js';
+
+export type ToolCategory =
+    | 'cli' | 'files' | 'diff' | 'batch' | 'sessions' | 'crud'
+    | 'screen' | 'input' | 'window' | 'clipboard' | 'system'
+    | 'config' | 'analytics' | 'search' | 'browser' | 'approvals';
+
+/**
+ * What a tool can change:
+ * - read-only: observes files, screen, system or server state
+ * - write: creates or modifies files, records, windows, input or settings
+ * - destructive: deletes data, stops processes or runs arbitrary code
+ */
+export type SideEffectClass = 'read-only' | 'write' | 'destructive';
+
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    category: ToolCategory;
+    schema: Record<string, z.ZodTypeAny>;  // Arguments; validated before the handler runs
+    outputSchema: Record<string, z.ZodTypeAny>;  // structuredContent of a successful call; extra fields are allowed
+    handler: (args: any) => Promise<any>;
+    sideEffects: SideEffectClass;
+    platforms?: NodeJS.Platform[];         // Omitted = every platform
+    requires?: BackendRequirement;         // Desktop backends the handler shells out to, checked by the capability probe
+    batchable?: boolean;                   // false keeps the tool out of batch_tools (default: true)
+}
@@ -0,0 +1,217 @@
+// Tool results
+// Structured content next to the text block, and the one error envelope every tool failure uses
+
+import { z } from 'zod';
+import { CallCancelledError } from '../utils/callControl.js';
+
+export type ToolErrorCode =
+    | 'INVALID_ARGUMENTS'         // Arguments don't match the tool's schema
+    | 'PATH_POLICY_VIOLATION'     // filesystemPolicy denies the path
+    | 'COMMAND_POLICY_VIOLATION'  // cliPolicy denies the command
+    | 'BLOCKED'                   // The built-in command blocklist matched
+    | 'NOT_FOUND'                 // File, record, session, window or approval doesn't exist
+    | 'ALREADY_EXISTS'
+    | 'PERMISSION_DENIED'         // The operating system refused access
+    | 'CONFLICT'                  // The target changed or is in the wrong state, e.g. an ambiguous edit
+    | 'UNAVAILABLE'               // A backend, browser or display the tool needs isn't there
+    | 'TIMEOUT'
+    | 'CANCELLED'
+    | 'TOOL_ERROR';               // Anything else
+
+export interface ToolErrorEnvelope {
+    code: ToolErrorCode;
+    message: string;
+    retryable: boolean;                  // Whether the same call may succeed if repeated
+    details?: Record<string, unknown>;   // Code-specific fields, e.g. the policy rule that matched
+}
+
+export type ToolContent =
+    | { type: 'text'; text: string }
+    | { type: 'image'; data: string; mimeType: string };
+
+// A type rather than an interface so it satisfies the SDK's passthrough result type
+export type ToolResponse = {
+    content: ToolContent[];
+    structuredContent?: Record<string, unknown>;
+    isError?: boolean;
+};
+
+const RETRYABLE_CODES = new Set<ToolErrorCode>(['TIMEOUT', 'CANCELLED']);
+
+/**
+ * An error a handler raises or returns with a specific envelope code
+ */
+export class ToolError extends Error {
+    readonly code: ToolErrorCode;
+    readonly retryable: boolean;
+    readonly details?: Record<string, unknown>;
+
+    constructor(code: ToolErrorCode, message: string, options: { retryable?: boolean; details?: Record<string, unknown> } = {}) {
+        super(message);
+        this.name = 'ToolError';
+        this.code = code;
+        this.retryable = options.retryable ?? RETRYABLE_CODES.has(code);
+        this.details = options.details;
+    }
+}
+
+// Node system error codes that map onto an envelope code
+const SYSTEM_ERROR_CODES: Record<string, ToolErrorCode> = {
+    ENOENT: 'NOT_FOUND',
+    ENOTDIR: 'NOT_FOUND',
+    EEXIST: 'ALREADY_EXISTS',
+    ENOTEMPTY: 'CONFLICT',
+    EACCES: 'PERMISSION_DENIED',
+    EPERM: 'PERMISSION_DENIED',
+    ETIMEDOUT: 'TIMEOUT',
+    EBUSY: 'CONFLICT',
+};
+
+// The fields toToolError reads from errors it has no class for
+interface ErrorLike {
+    message?: string;
+    code?: unknown;
+    killed?: boolean;
+    signal?: string | null;
+    violation?: { code?: ToolErrorCode; message?: string; [field: string]: unknown };
+}
+
+/**
+ * The envelope for anything a handler threw. Policy errors keep their violation
+ * fields in details.
+ */
+export function toToolError(error: unknown): ToolErrorEnvelope {
+    if (error instanceof ToolError) {
+        return { code: error.code, message: error.message, retryable: error.retryable, ...(error.details && { details: error.details }) };
+    }
+    if (error instanceof CallCancelledError) {
+        return { code: 'CANCELLED', message: error.message, retryable: true };
+    }
+
+    const err = error as ErrorLike | null | undefined;
+    // PathPolicyError, CommandPolicyError and ToolArgumentsError carry a violation with its own code
+    if (err?.violation) {
+        const { code, message, ...details } = err.violation;
+        if (code && message) return { code, message, retryable: false, details };
+    }
+
+    const message = err?.message ?? String(error);
+    const errno = typeof err?.code === 'string' ? err.code : undefined;
+    const systemCode = errno ? SYSTEM_ERROR_CODES[errno] : undefined;
+    if (systemCode) {
+        return { code: systemCode, message, retryable: RETRYABLE_CODES.has(systemCode), details: { errno } };
+    }
+    // Child processes killed by their timeout
+    if (err?.killed && err?.signal) {
+        return { code: 'TIMEOUT', message, retryable: true };
+    }
+    return { code: 'TOOL_ERROR', message, retryable: false };
+}
+
+/**
+ * Error result for a tool call: the envelope as structured content, and as text either
+ * the given rendering (e.g. a failed command's output) or the envelope as JSON
+ */
+export function toolErrorResponse(error: unknown, text?: string): ToolResponse {
+    const envelope = toToolError(error);
+    return {
+        content: [{ type: 'text', text: text ?? JSON.stringify({ error: envelope }, null, 2) }],
+        structuredContent: { error: envelope },
+        isError: true,
+    };
+}
+
+/**
+ * Successful result: data as structured content, and as text either the given
+ * rendering or pretty-printed JSON
+ */
+export function toolResponse(data: Record<string, unknown>, text?: string): ToolResponse {
+    return {
+        content: [{ type: 'text', text: text ?? JSON.stringify(data, null, 2) }],
+        structuredContent: data,
+    };
+}
+
+/**
+ * Result rendered as its JSON report (or the given text), like batch summaries or
+ * execute_code output. Given a failure it is an error whose envelope carries the report as details.
+ */
+export function reportResponse(report: Record<string, unknown>, failure: string | ToolError | null, text = JSON.stringify(report, null, 2)): ToolResponse {
+    if (!failure) return toolResponse(report, text);
+    const error = typeof failure === 'string' ? new ToolError('TOOL_ERROR', failure) : failure;
+    return toolErrorResponse(new ToolError(error.code, error.message, { retryable: error.retryable, details: { ...error.details, ...report } }), text);
+}
+
+/**
+ * Fill in structuredContent for handlers that only return JSON text. Text that isn't a
+ * JSON object is passed as { text }.
+ */
+export function withStructuredContent(response: any): ToolResponse {
+    if (!response || typeof response !== 'object' || !Array.isArray(response.content)) {
+        return toolResponse({ result: response ?? null });
+    }
+    if (response.structuredContent) return response;
+
+    const text = response.content
+        .filter((block: ToolContent) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join('\n');
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        parsed = undefined;
+    }
+    const isObject = parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed);
+
+    if (response.isError) {
+        const reported = isObject ? (parsed as { error?: ToolErrorEnvelope }).error : undefined;
+        const envelope = reported?.code
+            ? reported
+            : toToolError(new Error(text.replace(/^Error:\s*/, '')));
+        return { ...response, structuredContent: { error: envelope } };
+    }
+    return { ...response, structuredContent: isObject ? parsed as Record<string, unknown> : { text } };
+}
+
+// Shapes every tool may return besides its own output
+
+export const ToolErrorOutput = {
+    error: z.object({
+        code: z.string(),
+        message: z.string(),
+        retryable: z.boolean(),
+        details: z.record(z.unknown()).optional(),
+    }),
+};
+
+export const PendingApprovalOutput = {
+    status: z.literal('pending_approval'),
+    approvalId: z.string(),
+    tool: z.string(),
+    reason: z.string(),
+    expiresInMinutes: z.number(),
+    message: z.string(),
+};
+
+// Plan fields depend on the tool, see utils/simulate.ts
+export const SimulatedOutput = {
+    simulated: z.literal(true),
+    tool: z.string(),
+};
+
+// For tools whose result is their text, e.g. file contents or command output
+export const TextOutput = {
+    text: z.string(),
+};
+
+// Batch tools: counts in summary, one entry per item in results
+export const BatchReportOutput = {
+    summary: z.object({
+        total: z.number(),
+        successful: z.number(),
+        failed: z.number(),
+        elapsed_ms: z.number(),
+    }),
+    results: z.array(z.record(z.unknown())),
+};
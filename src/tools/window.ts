@@ -3,7 +3,12 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import os from 'os';
 import { logAudit } from '../audit.js';
+import { isSimulating, simulatedResponse } from '../utils/simulate.js';
 import { PowerShellSession } from '../utils/powerShellSession.js';
+import { reportProgress, sleepUnlessCancelled } from '../utils/callControl.js';
+import { ToolDefinition } from './toolDefinition.js';
+import { ToolResponse, toolErrorResponse, toolResponse } from './toolResult.js';
+import { BackendRequirement } from '../utils/capabilities.js';
 
 const execAsync = promisify(exec);
 const platform = os.platform();
@@ -62,6 +67,44 @@ export const WaitForWindowSchema = {
     timeout: z.number().optional().describe('Timeout in ms (default 5000)'),
 };
 
+// Output schemas: structuredContent of a successful call
+// Which fields besides title are known depends on the platform
+const WindowOutput = z.object({
+    title: z.string(),
+    pid: z.number().optional(),
+    handle: z.string().optional(),
+    className: z.string().optional(),
+});
+
+export const ListWindowsOutput = {
+    platform: z.string(),
+    count: z.number(),
+    windows: z.array(WindowOutput),
+};
+
+export const GetActiveWindowOutput = {
+    window: WindowOutput.nullable(),
+};
+
+export const FocusWindowOutput = { focused: z.boolean() };
+export const MinimizeWindowOutput = { minimized: z.literal(true) };
+export const MaximizeWindowOutput = { maximized: z.literal(true) };
+export const RestoreWindowOutput = { restored: z.literal(true) };
+export const CloseWindowOutput = { closed: z.literal(true) };
+export const ResizeWindowOutput = { resized: z.literal(true), width: z.number(), height: z.number() };
+export const MoveWindowOutput = { moved: z.literal(true), x: z.number(), y: z.number() };
+
+export const LaunchApplicationOutput = {
+    launched: z.literal(true),
+    path: z.string(),
+    window: WindowOutput.nullable(),
+};
+
+export const WaitForWindowOutput = {
+    found: z.boolean(),
+    window: WindowOutput.optional(),
+};
+
 // Platform-specific implementations
 interface WindowInfo {
     title: string;
@@ -339,55 +382,73 @@ export async function handleListWindows() {
 
         await logAudit('list_windows', {}, { count: windows.length });
 
-        return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    platform,
-                    count: windows.length,
-                    windows
-                }, null, 2)
-            }],
-        };
+        return toolResponse({
+            platform,
+            count: windows.length,
+            windows
+        });
     } catch (error: any) {
         await logAudit('list_windows', {}, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
-export async function handleGetActiveWindow() {
-    try {
-        let window: WindowInfo | null = null;
+/**
+ * Get the currently focused window
+ */
+export async function getActiveWindow(): Promise<WindowInfo | null> {
+    if (platform === 'win32') {
+        return getActiveWindowWin32();
+    } else if (platform === 'darwin') {
+        const { stdout } = await execAsync(`osascript -e 'tell application "System Events" to get name of first process whose frontmost is true'`, { timeout: 5000 });
+        return { title: stdout.trim() };
+    } else {
+        const { stdout } = await execAsync('xdotool getactivewindow getwindowname', { timeout: 5000 });
+        return { title: stdout.trim() };
+    }
+}
 
-        if (platform === 'win32') {
-            window = await getActiveWindowWin32();
-        } else if (platform === 'darwin') {
-            const { stdout } = await execAsync(`osascript -e 'tell application "System Events" to get name of first process whose frontmost is true'`, { timeout: 5000 });
-            window = { title: stdout.trim() };
-        } else {
-            const { stdout } = await execAsync('xdotool getactivewindow getwindowname', { timeout: 5000 });
-            window = { title: stdout.trim() };
+/**
+ * Resolve the window an operation would act on, for simulation mode.
+ * Without title/pid this is the active window. Lookup failures resolve to null.
+ */
+async function resolveTargetWindow(title?: string, pid?: number): Promise<WindowInfo | null> {
+    try {
+        if (!title && pid === undefined) {
+            return await getActiveWindow();
         }
+        const windows = platform === 'win32'
+            ? await listWindowsWin32()
+            : platform === 'darwin' ? await listWindowsDarwin() : await listWindowsLinux();
+        return windows.find(w =>
+            (pid !== undefined && w.pid === pid) ||
+            (title !== undefined && w.title.toLowerCase().includes(title.toLowerCase()))
+        ) ?? null;
+    } catch {
+        return null;
+    }
+}
+
+export async function handleGetActiveWindow() {
+    try {
+        const window = await getActiveWindow();
 
         await logAudit('get_active_window', {}, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify(window, null, 2) }],
-        };
+        // The text stays the bare window, or null when none is focused
+        return toolResponse({ window }, JSON.stringify(window, null, 2));
     } catch (error: any) {
         await logAudit('get_active_window', {}, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleFocusWindow(args: { title?: string; pid?: number; handle?: string }) {
     try {
+        if (isSimulating()) {
+            return simulatedResponse('focus_window', args, { action: 'focus', window: await resolveTargetWindow(args.title, args.pid) });
+        }
+
         let success = false;
 
         if (platform === 'win32') {
@@ -406,20 +467,22 @@ export async function handleFocusWindow(args: { title?: string; pid?: number; ha
 
         await logAudit('focus_window', args, success ? 'success' : 'not_found');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ focused: success }, null, 2) }],
-        };
+        return toolResponse({ focused: success });
     } catch (error: any) {
         await logAudit('focus_window', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleMinimizeWindow(args: { title?: string; all?: boolean }) {
     try {
+        if (isSimulating()) {
+            return simulatedResponse('minimize_window', args, {
+                action: args.all ? 'minimize_all' : 'minimize',
+                window: args.all ? null : await resolveTargetWindow(platform === 'win32' ? args.title : undefined),
+            });
+        }
+
         if (platform === 'win32') {
             if (args.all) {
                 await PowerShellSession.getInstance().execute('(New-Object -ComObject Shell.Application).MinimizeAll()');
@@ -448,20 +511,19 @@ export async function handleMinimizeWindow(args: { title?: string; all?: boolean
 
         await logAudit('minimize_window', args, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ minimized: true }, null, 2) }],
-        };
+        return toolResponse({ minimized: true });
     } catch (error: any) {
         await logAudit('minimize_window', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleMaximizeWindow(args: { title?: string }) {
     try {
+        if (isSimulating()) {
+            return simulatedResponse('maximize_window', args, { action: 'maximize', window: await resolveTargetWindow() });
+        }
+
         if (platform === 'win32') {
             const script = `
                 if (-not ("Native.Win" -as [type])) {
@@ -478,20 +540,19 @@ export async function handleMaximizeWindow(args: { title?: string }) {
 
         await logAudit('maximize_window', args, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ maximized: true }, null, 2) }],
-        };
+        return toolResponse({ maximized: true });
     } catch (error: any) {
         await logAudit('maximize_window', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleRestoreWindow(args: { title?: string }) {
     try {
+        if (isSimulating()) {
+            return simulatedResponse('restore_window', args, { action: 'restore', window: await resolveTargetWindow() });
+        }
+
         if (platform === 'win32') {
             const script = `
                 if (-not ("Native.Win" -as [type])) {
@@ -506,20 +567,23 @@ export async function handleRestoreWindow(args: { title?: string }) {
 
         await logAudit('restore_window', args, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ restored: true }, null, 2) }],
-        };
+        return toolResponse({ restored: true });
     } catch (error: any) {
         await logAudit('restore_window', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleCloseWindow(args: { title?: string; pid?: number; force?: boolean }) {
     try {
+        if (isSimulating()) {
+            const killsProcess = !!(args.force && args.pid);
+            return simulatedResponse('close_window', args, {
+                action: killsProcess ? 'kill_process' : 'close',
+                window: await resolveTargetWindow(undefined, killsProcess ? args.pid : undefined),
+            });
+        }
+
         if (args.force && args.pid) {
             if (platform === 'win32') {
                 await execAsync(`taskkill /PID ${args.pid} /F`, { timeout: 5000 });
@@ -542,20 +606,24 @@ export async function handleCloseWindow(args: { title?: string; pid?: number; fo
 
         await logAudit('close_window', args, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ closed: true }, null, 2) }],
-        };
+        return toolResponse({ closed: true });
     } catch (error: any) {
         await logAudit('close_window', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleResizeWindow(args: { title?: string; width: number; height: number }) {
     try {
+        if (isSimulating()) {
+            return simulatedResponse('resize_window', args, {
+                action: 'resize',
+                window: await resolveTargetWindow(),
+                width: args.width,
+                height: args.height,
+            });
+        }
+
         if (platform === 'win32') {
             const script = `
                 if (-not ("WinResize" -as [type])) {
@@ -586,20 +654,24 @@ export async function handleResizeWindow(args: { title?: string; width: number;
 
         await logAudit('resize_window', args, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ resized: true, width: args.width, height: args.height }, null, 2) }],
-        };
+        return toolResponse({ resized: true, width: args.width, height: args.height });
     } catch (error: any) {
         await logAudit('resize_window', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleMoveWindow(args: { title?: string; x: number; y: number }) {
     try {
+        if (isSimulating()) {
+            return simulatedResponse('move_window', args, {
+                action: 'move',
+                window: await resolveTargetWindow(),
+                x: args.x,
+                y: args.y,
+            });
+        }
+
         if (platform === 'win32') {
             const script = `
                 if (-not ("WinMove" -as [type])) {
@@ -632,20 +704,19 @@ export async function handleMoveWindow(args: { title?: string; x: number; y: num
 
         await logAudit('move_window', args, 'success');
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ moved: true, x: args.x, y: args.y }, null, 2) }],
-        };
+        return toolResponse({ moved: true, x: args.x, y: args.y });
     } catch (error: any) {
         await logAudit('move_window', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
 export async function handleLaunchApplication(args: { path: string; args?: string[]; waitForWindow?: boolean; timeout?: number }) {
     try {
+        if (isSimulating()) {
+            return simulatedResponse('launch_application', args, { action: 'launch', path: args.path, args: args.args ?? [] });
+        }
+
         const appArgs = args.args?.join(' ') || '';
 
         if (platform === 'win32') {
@@ -666,30 +737,22 @@ export async function handleLaunchApplication(args: { path: string; args?: strin
             
             try {
                 const result = await handleWaitForWindow({ title: searchTerm, timeout: args.timeout || 10000 });
-                if (!result.isError) {
-                    const data = JSON.parse(result.content[0].text);
-                    if (data.found) {
-                        windowInfo = data.window;
-                    }
+                if (!result.isError && result.structuredContent?.found) {
+                    windowInfo = result.structuredContent.window as WindowInfo;
                 }
             } catch (err) {
                 // Ignore wait errors, we still launched
             }
         }
 
-        return {
-            content: [{ type: 'text', text: JSON.stringify({ launched: true, path: args.path, window: windowInfo }, null, 2) }],
-        };
+        return toolResponse({ launched: true, path: args.path, window: windowInfo });
     } catch (error: any) {
         await logAudit('launch_application', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
 
-export async function handleWaitForWindow(args: { title: string; timeout?: number }) {
+export async function handleWaitForWindow(args: { title: string; timeout?: number }): Promise<ToolResponse> {
     const timeout = args.timeout || 5000;
     
     // Improved Event-Driven Logic using UI Automation
@@ -856,16 +919,12 @@ export async function handleWaitForWindow(args: { title: string; timeout?: numbe
                 const match = windows.find(w => w.title.toLowerCase().includes(args.title.toLowerCase()));
                 if (match) {
                      await logAudit('wait_for_window', args, 'success (fallback scan)');
-                     return {
-                        content: [{ type: 'text', text: JSON.stringify({ found: true, window: match }, null, 2) }]
-                     };
+                     return toolResponse({ found: true, window: match });
                 }
             }
 
             await logAudit('wait_for_window', args, result.found ? 'success' : 'timeout');
-            return {
-                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-            };
+            return toolResponse(result);
         } catch (error: any) {
             // Fallback to polling loop if UIA setup totally failed
             // ... (keep existing polling logic as backup below) ...
@@ -890,24 +949,138 @@ export async function handleWaitForWindow(args: { title: string; timeout?: numbe
             const match = windows.find(w => w.title.toLowerCase().includes(args.title.toLowerCase()));
             if (match) {
                  await logAudit('wait_for_window', args, 'success');
-                 return {
-                    content: [{ type: 'text', text: JSON.stringify({ found: true, window: match }, null, 2) }]
-                 };
+                 return toolResponse({ found: true, window: match });
             }
             
-            await new Promise(resolve => setTimeout(resolve, interval));
+            await sleepUnlessCancelled(interval);
+            reportProgress(Date.now() - startTime, timeout, `Waiting for a window titled "${args.title}"`);
         }
 
         await logAudit('wait_for_window', args, 'timeout');
-         return {
-            content: [{ type: 'text', text: JSON.stringify({ found: false }, null, 2) }]
-         };
+         return toolResponse({ found: false });
 
     } catch (error: any) {
         await logAudit('wait_for_window', args, null, error.message);
-        return {
-            content: [{ type: 'text', text: `Error: ${error.message}` }],
-            isError: true,
-        };
+        return toolErrorResponse(error);
     }
 }
+
+// Backends each platform's implementation shells out to
+const WMCTRL_BACKENDS: BackendRequirement = { linux: [['display'], ['wmctrl']], darwin: [['osascript']], win32: [['powershell']] };
+const XDOTOOL_BACKENDS: BackendRequirement = { linux: [['display'], ['xdotool']], darwin: [['osascript']], win32: [['powershell']] };
+
+// Tool definitions, collected by registry.ts
+export const WINDOW_TOOLS: ToolDefinition[] = [
+    {
+        name: 'list_windows',
+        description: 'List all open windows with titles and process info.',
+        category: 'window',
+        schema: ListWindowsSchema,
+        outputSchema: ListWindowsOutput,
+        handler: handleListWindows,
+        sideEffects: 'read-only',
+        requires: WMCTRL_BACKENDS,
+    },
+    {
+        name: 'get_active_window',
+        description: 'Get information about the currently focused window.',
+        category: 'window',
+        schema: GetActiveWindowSchema,
+        outputSchema: GetActiveWindowOutput,
+        handler: handleGetActiveWindow,
+        sideEffects: 'read-only',
+        requires: XDOTOOL_BACKENDS,
+    },
+    {
+        name: 'focus_window',
+        description: 'Bring a window to the foreground by title or PID.',
+        category: 'window',
+        schema: FocusWindowSchema,
+        outputSchema: FocusWindowOutput,
+        handler: handleFocusWindow,
+        sideEffects: 'write',
+        requires: WMCTRL_BACKENDS,
+    },
+    {
+        name: 'minimize_window',
+        description: 'Minimize a window or all windows.',
+        category: 'window',
+        schema: MinimizeWindowSchema,
+        outputSchema: MinimizeWindowOutput,
+        handler: handleMinimizeWindow,
+        sideEffects: 'write',
+        requires: XDOTOOL_BACKENDS,
+    },
+    {
+        name: 'maximize_window',
+        description: 'Maximize the active or specified window.',
+        category: 'window',
+        schema: MaximizeWindowSchema,
+        outputSchema: MaximizeWindowOutput,
+        handler: handleMaximizeWindow,
+        sideEffects: 'write',
+        requires: WMCTRL_BACKENDS,
+    },
+    {
+        name: 'restore_window',
+        description: 'Restore a minimized/maximized window.',
+        category: 'window',
+        schema: RestoreWindowSchema,
+        outputSchema: RestoreWindowOutput,
+        handler: handleRestoreWindow,
+        sideEffects: 'write',
+        requires: WMCTRL_BACKENDS,
+        platforms: ['win32', 'linux'],
+    },
+    {
+        name: 'close_window',
+        description: 'Close a window. Use force to kill the process.',
+        category: 'window',
+        schema: CloseWindowSchema,
+        outputSchema: CloseWindowOutput,
+        handler: handleCloseWindow,
+        sideEffects: 'destructive',
+        requires: XDOTOOL_BACKENDS,
+    },
+    {
+        name: 'resize_window',
+        description: 'Resize the active or specified window.',
+        category: 'window',
+        schema: ResizeWindowSchema,
+        outputSchema: ResizeWindowOutput,
+        handler: handleResizeWindow,
+        sideEffects: 'write',
+        requires: WMCTRL_BACKENDS,
+        platforms: ['win32', 'linux'],
+    },
+    {
+        name: 'move_window',
+        description: 'Move the active or specified window.',
+        category: 'window',
+        schema: MoveWindowSchema,
+        outputSchema: MoveWindowOutput,
+        handler: handleMoveWindow,
+        sideEffects: 'write',
+        requires: WMCTRL_BACKENDS,
+        platforms: ['win32', 'linux'],
+    },
+    {
+        name: 'launch_application',
+        description: 'Launch an application by path or name.',
+        category: 'window',
+        schema: LaunchApplicationSchema,
+        outputSchema: LaunchApplicationOutput,
+        handler: handleLaunchApplication,
+        sideEffects: 'write',
+    },
+    {
+        name: 'wait_for_window',
+        description: 'Wait for a window to appear. Matches process name or window title.',
+        category: 'window',
+        schema: WaitForWindowSchema,
+        outputSchema: WaitForWindowOutput,
+        handler: handleWaitForWindow,
+        sideEffects: 'read-only',
+        requires: WMCTRL_BACKENDS,
+    },
+];
@@ -0,0 +1,200 @@
+// HTTP transport listener
+// Serves MCP clients over streamable HTTP (/mcp) and the legacy SSE transport (/sse, /messages)
+
+import http from 'http';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { Config } from '../config.js';
+import { hasBearerToken } from '../utils/httpAuth.js';
+import { StreamableHttpServerTransport, parseMessages, isInitializeRequest } from './streamableHttp.js';
+
+/**
+ * Attach a new client session to a fresh MCP server
+ */
+export type ConnectSession = (sessionId: string, transport: Transport) => Promise<void>;
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Streamable HTTP sessions have no connection to notice closing, so silent ones expire
+const IDLE_TIMEOUT_MS = 60 * 60 * 1000;
+
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', '::1', 'localhost']);
+
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new Error('Request body too large'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+            } catch {
+                reject(new Error('Request body is not valid JSON'));
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+function sendError(res: http.ServerResponse, status: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+/**
+ * Run fn once the transport closes, after whatever the MCP server installed
+ */
+function onTransportClose(transport: Transport, fn: () => void): void {
+    const previous = transport.onclose;
+    transport.onclose = () => {
+        previous?.();
+        fn();
+    };
+}
+
+/**
+ * Start the HTTP transport. Every client session gets its own MCP server via connect.
+ * Requests must carry the bearer token if one is configured, and requests from a
+ * browser origin that is not in allowedOrigins are rejected.
+ * @returns The streamable HTTP endpoint URL
+ */
+export function startHttpTransport(options: Config['transports']['http'], connect: ConnectSession): Promise<string> {
+    if (!options.bearerToken && !LOOPBACK_HOSTS.has(options.host)) {
+        return Promise.reject(new Error(`transports.http.bearerToken is required to listen on ${options.host}`));
+    }
+
+    const streamableSessions = new Map<string, StreamableHttpServerTransport>();
+    const sseSessions = new Map<string, SSEServerTransport>();
+
+    async function handleMcp(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const sessionHeader = req.headers['mcp-session-id'];
+        const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+        const existing = sessionId ? streamableSessions.get(sessionId) : undefined;
+
+        if (req.method === 'POST') {
+            if (!(req.headers['content-type'] ?? '').startsWith('application/json')) {
+                sendError(res, 415, 'Content-Type must be application/json');
+                return;
+            }
+            let parsed: ReturnType<typeof parseMessages>;
+            try {
+                parsed = parseMessages(await readJsonBody(req));
+            } catch (error: any) {
+                sendError(res, 400, `Invalid JSON-RPC message: ${error.message}`);
+                return;
+            }
+
+            if (isInitializeRequest(parsed.messages)) {
+                if (sessionId) {
+                    sendError(res, 400, 'initialize must not carry Mcp-Session-Id');
+                    return;
+                }
+                const transport = new StreamableHttpServerTransport();
+                await connect(`session_${transport.sessionId}`, transport);
+                streamableSessions.set(transport.sessionId, transport);
+                onTransportClose(transport, () => streamableSessions.delete(transport.sessionId));
+                transport.handlePost(req, res, parsed.messages, parsed.batch);
+                return;
+            }
+
+            if (!sessionId) {
+                sendError(res, 400, 'Missing Mcp-Session-Id header');
+                return;
+            }
+            if (!existing) {
+                sendError(res, 404, `Unknown session: ${sessionId}`);
+                return;
+            }
+            existing.handlePost(req, res, parsed.messages, parsed.batch);
+            return;
+        }
+
+        if (req.method === 'GET' || req.method === 'DELETE') {
+            if (!existing) {
+                sendError(res, sessionId ? 404 : 400, sessionId ? `Unknown session: ${sessionId}` : 'Missing Mcp-Session-Id header');
+                return;
+            }
+            if (req.method === 'GET') {
+                existing.handleGet(res);
+            } else {
+                await existing.close();
+                res.writeHead(200).end();
+            }
+            return;
+        }
+
+        res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+    }
+
+    const server = http.createServer(async (req, res) => {
+        const url = new URL(req.url ?? '/', `http://${options.host}:${options.port}`);
+
+        try {
+            if (options.bearerToken && !hasBearerToken(req, options.bearerToken)) {
+                res.writeHead(401, { 'WWW-Authenticate': 'Bearer' }).end('Unauthorized');
+                return;
+            }
+            // Browsers always send Origin; keep web pages from driving the server (DNS rebinding)
+            const origin = req.headers.origin;
+            if (origin && !options.allowedOrigins.includes(origin)) {
+                res.writeHead(403).end(`Origin not allowed: ${origin}`);
+                return;
+            }
+
+            if (url.pathname === '/mcp') {
+                await handleMcp(req, res);
+                return;
+            }
+
+            if (req.method === 'GET' && url.pathname === '/sse') {
+                const transport = new SSEServerTransport('/messages', res);
+                sseSessions.set(transport.sessionId, transport);
+                res.on('close', () => sseSessions.delete(transport.sessionId));
+                await connect(`session_${transport.sessionId}`, transport);
+                return;
+            }
+
+            if (req.method === 'POST' && url.pathname === '/messages') {
+                const transport = sseSessions.get(url.searchParams.get('sessionId') ?? '');
+                if (!transport) {
+                    sendError(res, 404, 'Unknown SSE session');
+                    return;
+                }
+                await transport.handlePostMessage(req, res);
+                return;
+            }
+
+            res.writeHead(404).end('Not found');
+        } catch (error: any) {
+            if (!res.headersSent) {
+                sendError(res, 500, error.message);
+            } else {
+                res.end();
+            }
+        }
+    });
+
+    const sweep = setInterval(() => {
+        for (const transport of streamableSessions.values()) {
+            if (transport.isIdle(IDLE_TIMEOUT_MS)) {
+                void transport.close();
+            }
+        }
+    }, 60 * 1000);
+    sweep.unref();
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(options.port, options.host, () => {
+            resolve(`http://${options.host}:${options.port}/mcp`);
+        });
+    });
+}
@@ -0,0 +1,189 @@
+// Streamable HTTP transport
+// Server side of the MCP streamable HTTP transport for one client session (the installed SDK only ships SSE)
+
+import http from 'http';
+import crypto from 'crypto';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+
+type RequestId = string | number;
+
+// One POST carrying requests, held open until every request has a response
+interface ResponseStream {
+    res: http.ServerResponse;
+    mode: 'json' | 'sse';
+    pending: Set<RequestId>;
+    responses: JSONRPCMessage[];
+    batch: boolean;
+}
+
+function isResponse(message: JSONRPCMessage): message is JSONRPCMessage & { id: RequestId } {
+    return 'id' in message && ('result' in message || 'error' in message);
+}
+
+function isRequest(message: JSONRPCMessage): message is JSONRPCMessage & { id: RequestId; method: string } {
+    return 'id' in message && 'method' in message;
+}
+
+function writeEvent(res: http.ServerResponse, message: JSONRPCMessage): void {
+    res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
+
+/**
+ * True if the messages start a new session
+ */
+export function isInitializeRequest(messages: JSONRPCMessage[]): boolean {
+    return messages.some(message => isRequest(message) && message.method === 'initialize');
+}
+
+/**
+ * Parse a POST body into JSON-RPC messages
+ * @throws If the body is not a JSON-RPC message or batch
+ */
+export function parseMessages(body: unknown): { messages: JSONRPCMessage[]; batch: boolean } {
+    const batch = Array.isArray(body);
+    const messages = (batch ? body : [body]).map(message => JSONRPCMessageSchema.parse(message));
+    if (messages.length === 0) {
+        throw new Error('Empty batch');
+    }
+    return { messages, batch };
+}
+
+export class StreamableHttpServerTransport implements Transport {
+    readonly sessionId = crypto.randomUUID();
+    private lastActivity = Date.now();
+
+    onclose?: () => void;
+    onerror?: (error: Error) => void;
+    onmessage?: (message: JSONRPCMessage) => void;
+
+    private standaloneStream: http.ServerResponse | null = null;
+    private requestStreams = new Map<RequestId, ResponseStream>();
+    private openStreams: ResponseStream[] = [];
+    private closed = false;
+
+    async start(): Promise<void> {
+        // Nothing to do until the first request arrives
+    }
+
+    /**
+     * Handle a POST of already parsed messages. Responses are written as one JSON body,
+     * or as an SSE stream if the client accepts it so notifications can be sent meanwhile.
+     */
+    handlePost(req: http.IncomingMessage, res: http.ServerResponse, messages: JSONRPCMessage[], batch: boolean): void {
+        this.lastActivity = Date.now();
+        res.setHeader('Mcp-Session-Id', this.sessionId);
+
+        const requests = messages.filter(isRequest);
+        if (requests.length === 0) {
+            res.writeHead(202).end();
+        } else {
+            const accept = req.headers.accept ?? '';
+            const stream: ResponseStream = {
+                res,
+                mode: accept.includes('text/event-stream') ? 'sse' : 'json',
+                pending: new Set(requests.map(request => request.id)),
+                responses: [],
+                batch,
+            };
+            for (const id of stream.pending) {
+                this.requestStreams.set(id, stream);
+            }
+            if (stream.mode === 'sse') {
+                res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+                this.openStreams.push(stream);
+            }
+            // A client that hangs up gets no responses; the calls still finish
+            res.on('close', () => this.forgetStream(stream));
+        }
+
+        for (const message of messages) {
+            this.onmessage?.(message);
+        }
+    }
+
+    /**
+     * Open the stream for server messages that don't belong to a request
+     */
+    handleGet(res: http.ServerResponse): void {
+        this.lastActivity = Date.now();
+        if (this.standaloneStream) {
+            res.writeHead(409).end('Stream already open for this session');
+            return;
+        }
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive',
+            'Mcp-Session-Id': this.sessionId,
+        });
+        this.standaloneStream = res;
+        res.on('close', () => {
+            if (this.standaloneStream === res) this.standaloneStream = null;
+        });
+    }
+
+    /**
+     * True if nothing is streaming and the client has been silent for timeoutMs
+     */
+    isIdle(timeoutMs: number): boolean {
+        return !this.standaloneStream && this.requestStreams.size === 0 && Date.now() - this.lastActivity > timeoutMs;
+    }
+
+    async send(message: JSONRPCMessage): Promise<void> {
+        if (isResponse(message)) {
+            const stream = this.requestStreams.get(message.id);
+            if (!stream) return;
+            this.requestStreams.delete(message.id);
+            stream.pending.delete(message.id);
+
+            if (stream.mode === 'sse') {
+                writeEvent(stream.res, message);
+            } else {
+                stream.responses.push(message);
+            }
+            if (stream.pending.size === 0) {
+                this.finishStream(stream);
+            }
+            return;
+        }
+
+        // Notifications and server requests go to the newest open request stream, else the standalone stream
+        const target = this.openStreams[this.openStreams.length - 1]?.res ?? this.standaloneStream;
+        if (target) {
+            writeEvent(target, message);
+        }
+    }
+
+    async close(): Promise<void> {
+        if (this.closed) return;
+        this.closed = true;
+
+        for (const stream of new Set(this.requestStreams.values())) {
+            stream.res.end();
+        }
+        this.requestStreams.clear();
+        this.openStreams = [];
+        this.standaloneStream?.end();
+        this.standaloneStream = null;
+        this.onclose?.();
+    }
+
+    private finishStream(stream: ResponseStream): void {
+        if (stream.mode === 'json') {
+            const body = stream.batch ? stream.responses : stream.responses[0];
+            stream.res.writeHead(200, { 'Content-Type': 'application/json' });
+            stream.res.end(JSON.stringify(body));
+        } else {
+            stream.res.end();
+        }
+        this.forgetStream(stream);
+    }
+
+    private forgetStream(stream: ResponseStream): void {
+        for (const id of stream.pending) {
+            this.requestStreams.delete(id);
+        }
+        this.openStreams = this.openStreams.filter(open => open !== stream);
+    }
+}
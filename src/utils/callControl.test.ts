@@ -0,0 +1,52 @@
+/**
+ * Tests for tool call progress and cancellation
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+
+import {
+    withCallControl, withoutProgress, reportProgress, isCancelled, sleepUnlessCancelled, CallCancelledError,
+} from './callControl.js';
+
+describe('reportProgress', () => {
+    it('throttles updates but always sends the one reaching total', () => {
+        const updates: Array<[number, number | undefined]> = [];
+        withCallControl(() => {
+            reportProgress(1, 3);
+            reportProgress(2, 3);
+            reportProgress(3, 3);
+        }, { onProgress: (progress, total) => updates.push([progress, total]) });
+        assert.deepStrictEqual(updates, [[1, 3], [3, 3]]);
+    });
+
+    it('keeps the signal but drops progress inside withoutProgress', () => {
+        const controller = new AbortController();
+        const updates: number[] = [];
+        withCallControl(() => {
+            withoutProgress(() => {
+                reportProgress(1, 1);
+                controller.abort();
+                assert.ok(isCancelled());
+            });
+        }, { signal: controller.signal, onProgress: progress => updates.push(progress) });
+        assert.deepStrictEqual(updates, []);
+    });
+});
+
+describe('sleepUnlessCancelled', () => {
+    it('rejects as soon as the call is cancelled', async () => {
+        const controller = new AbortController();
+        const started = Date.now();
+        await withCallControl(async () => {
+            setTimeout(() => controller.abort(), 20);
+            await assert.rejects(sleepUnlessCancelled(5000), CallCancelledError);
+        }, { signal: controller.signal });
+        assert.ok(Date.now() - started < 1000);
+    });
+
+    it('just waits outside a tool call', async () => {
+        await sleepUnlessCancelled(5);
+        assert.ok(!isCancelled());
+    });
+});
@@ -0,0 +1,108 @@
+// Progress and cancellation for tool calls
+// Carries the MCP request's abort signal and progress token to long-running handlers
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Progress is sent at most this often per call, plus the final update
+const PROGRESS_INTERVAL_MS = 250;
+
+export type ProgressListener = (progress: number, total?: number, message?: string) => void;
+
+interface CallControl {
+    signal?: AbortSignal;
+    onProgress?: ProgressListener;
+    lastReportAt: number;
+}
+
+const callControl = new AsyncLocalStorage<CallControl>();
+
+export class CallCancelledError extends Error {
+    constructor() {
+        super('Cancelled by the client');
+        this.name = 'CallCancelledError';
+    }
+}
+
+/**
+ * Run a tool call with the request's abort signal and, if the client sent a progressToken,
+ * a listener that forwards progress to it
+ */
+export function withCallControl<T>(fn: () => T, control: { signal?: AbortSignal; onProgress?: ProgressListener }): T {
+    return callControl.run({ ...control, lastReportAt: 0 }, fn);
+}
+
+/**
+ * Run fn under the enclosing call's signal but without its progress listener, so a
+ * batch's operations don't report into the batch's progress
+ */
+export function withoutProgress<T>(fn: () => T): T {
+    return withCallControl(fn, { signal: getCallSignal() });
+}
+
+/**
+ * Aborted when the client sends notifications/cancelled for the running call
+ */
+export function getCallSignal(): AbortSignal | undefined {
+    return callControl.getStore()?.signal;
+}
+
+export function isCancelled(): boolean {
+    return getCallSignal()?.aborted ?? false;
+}
+
+export function throwIfCancelled(): void {
+    if (isCancelled()) {
+        throw new CallCancelledError();
+    }
+}
+
+/**
+ * Report progress of the running call. Updates are throttled, except the one that
+ * reaches total; without a progressToken this does nothing.
+ */
+export function reportProgress(progress: number, total?: number, message?: string): void {
+    const control = callControl.getStore();
+    if (!control?.onProgress) return;
+
+    const now = Date.now();
+    if (progress !== total && now - control.lastReportAt < PROGRESS_INTERVAL_MS) return;
+    control.lastReportAt = now;
+    control.onProgress(progress, total, message);
+}
+
+/**
+ * Rejects with CallCancelledError when the running call is cancelled, for racing
+ * against work that can't be interrupted; never settles otherwise
+ */
+export function whenCancelled(): Promise<never> {
+    const signal = getCallSignal();
+    return new Promise((_, reject) => {
+        if (signal?.aborted) {
+            reject(new CallCancelledError());
+            return;
+        }
+        signal?.addEventListener('abort', () => reject(new CallCancelledError()), { once: true });
+    });
+}
+
+/**
+ * Wait ms, or throw CallCancelledError as soon as the call is cancelled
+ */
+export function sleepUnlessCancelled(ms: number): Promise<void> {
+    const signal = getCallSignal();
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new CallCancelledError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new CallCancelledError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
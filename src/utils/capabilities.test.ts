@@ -0,0 +1,50 @@
+/**
+ * Tests for the platform capability probe
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { probeCapabilities, unmetRequirement, BackendRequirement } from './capabilities.js';
+
+const BIN_DIR = path.join(os.tmpdir(), 'capabilities-test-' + Date.now());
+
+const CLIPBOARD: BackendRequirement = { linux: [['display'], ['xclip', 'xsel']], win32: [['powershell']] };
+
+describe('probeCapabilities', () => {
+    before(() => {
+        fs.mkdirSync(BIN_DIR, { recursive: true });
+        fs.writeFileSync(path.join(BIN_DIR, 'xsel'), '#!/bin/sh\n', { mode: 0o755 });
+        fs.writeFileSync(path.join(BIN_DIR, 'xdotool'), 'not executable', { mode: 0o644 });
+    });
+
+    after(() => {
+        fs.rmSync(BIN_DIR, { recursive: true, force: true });
+    });
+
+    it('finds executables on PATH and reports a missing display', { skip: process.platform === 'win32' }, async () => {
+        const report = await probeCapabilities({ PATH: BIN_DIR }, 'linux');
+
+        assert.strictEqual(report.displayServer, 'none');
+        assert.strictEqual(report.backends.display?.available, false);
+        assert.strictEqual(report.backends.xsel?.available, true);
+        assert.strictEqual(report.backends.xdotool?.available, false);
+        assert.strictEqual(unmetRequirement(CLIPBOARD, report), 'Needs display: No display server (DISPLAY is not set)');
+    });
+
+    it('accepts any backend of a group, and Wayland only through XWayland', { skip: process.platform === 'win32' }, async () => {
+        const xwayland = await probeCapabilities({ PATH: BIN_DIR, WAYLAND_DISPLAY: 'wayland-0', DISPLAY: ':0' }, 'linux');
+        assert.strictEqual(xwayland.displayServer, 'wayland');
+        assert.strictEqual(unmetRequirement(CLIPBOARD, xwayland), null);
+
+        const wayland = await probeCapabilities({ PATH: '', WAYLAND_DISPLAY: 'wayland-0' }, 'linux');
+        assert.strictEqual(
+            unmetRequirement(CLIPBOARD, wayland),
+            'Needs display: Wayland session without XWayland (DISPLAY is not set); one of xclip, xsel: none found'
+        );
+        assert.strictEqual(unmetRequirement({ win32: [['powershell']] }, wayland), null);
+    });
+});
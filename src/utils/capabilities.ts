@@ -0,0 +1,139 @@
+// Platform capability probe
+// Detects which desktop backends (display server, xdotool, wmctrl, PowerShell, ...) this machine has
+
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Something a tool shells out to or needs from the session. 'display' is a reachable
+ * X11 display; the rest are executables looked up on PATH.
+ */
+export type Backend =
+    | 'display'
+    | 'xdotool' | 'wmctrl' | 'xrandr' | 'scrot' | 'gnome-screenshot' | 'xclip' | 'xsel' | 'notify-send'
+    | 'osascript' | 'screencapture'
+    | 'powershell';
+
+/**
+ * Backends a tool needs, per platform. Every group must have at least one available backend,
+ * so [['display'], ['xclip', 'xsel']] means a display and either xclip or xsel.
+ * Platforms not listed need nothing.
+ */
+export type BackendRequirement = Partial<Record<NodeJS.Platform, Backend[][]>>;
+
+export interface BackendStatus {
+    available: boolean;
+    detail: string;  // Where it was found, or why it is missing
+}
+
+export interface CapabilityReport {
+    platform: NodeJS.Platform;
+    displayServer: 'x11' | 'wayland' | 'none' | 'quartz' | 'windows';
+    backends: Partial<Record<Backend, BackendStatus>>;
+    probedAt: string;
+}
+
+const PLATFORM_EXECUTABLES: Partial<Record<NodeJS.Platform, Backend[]>> = {
+    linux: ['xdotool', 'wmctrl', 'xrandr', 'scrot', 'gnome-screenshot', 'xclip', 'xsel', 'notify-send'],
+    darwin: ['osascript', 'screencapture'],
+    win32: ['powershell'],
+};
+
+let lastReport: CapabilityReport | null = null;
+
+/**
+ * Full path of an executable on PATH, or null
+ */
+export async function findExecutable(
+    name: string,
+    env: NodeJS.ProcessEnv = process.env,
+    platform: NodeJS.Platform = process.platform
+): Promise<string | null> {
+    const dirs = (env.PATH ?? env.Path ?? '').split(path.delimiter).filter(Boolean);
+    const extensions = platform === 'win32'
+        ? (env.PATHEXT ?? '.EXE;.CMD;.BAT').split(';').filter(Boolean)
+        : [''];
+
+    for (const dir of dirs) {
+        for (const extension of extensions) {
+            const candidate = path.join(dir, name + extension);
+            try {
+                await fs.promises.access(candidate, platform === 'win32' ? fs.constants.F_OK : fs.constants.X_OK);
+                if ((await fs.promises.stat(candidate)).isFile()) {
+                    return candidate;
+                }
+            } catch {
+                // Not in this directory
+            }
+        }
+    }
+    return null;
+}
+
+function probeDisplay(env: NodeJS.ProcessEnv, platform: NodeJS.Platform) {
+    if (platform === 'darwin') {
+        return { displayServer: 'quartz' as const, status: { available: true, detail: 'macOS window server' } };
+    }
+    if (platform === 'win32') {
+        return { displayServer: 'windows' as const, status: { available: true, detail: 'Windows desktop' } };
+    }
+
+    // The X11 tools also work under Wayland through XWayland, which sets DISPLAY
+    if (env.WAYLAND_DISPLAY) {
+        return {
+            displayServer: 'wayland' as const,
+            status: env.DISPLAY
+                ? { available: true, detail: `XWayland display ${env.DISPLAY}` }
+                : { available: false, detail: 'Wayland session without XWayland (DISPLAY is not set)' },
+        };
+    }
+    return env.DISPLAY
+        ? { displayServer: 'x11' as const, status: { available: true, detail: `X11 display ${env.DISPLAY}` } }
+        : { displayServer: 'none' as const, status: { available: false, detail: 'No display server (DISPLAY is not set)' } };
+}
+
+/**
+ * Detect the display server and the backends available for this platform, and keep the
+ * result for getCapabilityReport
+ */
+export async function probeCapabilities(
+    env: NodeJS.ProcessEnv = process.env,
+    platform: NodeJS.Platform = process.platform
+): Promise<CapabilityReport> {
+    const display = probeDisplay(env, platform);
+    const backends: Partial<Record<Backend, BackendStatus>> = { display: display.status };
+
+    for (const name of PLATFORM_EXECUTABLES[platform] ?? []) {
+        const found = await findExecutable(name, env, platform);
+        backends[name] = found
+            ? { available: true, detail: found }
+            : { available: false, detail: 'not found on PATH' };
+    }
+
+    lastReport = { platform, displayServer: display.displayServer, backends, probedAt: new Date().toISOString() };
+    return lastReport;
+}
+
+/**
+ * The most recent probe result; null until probeCapabilities has run
+ */
+export function getCapabilityReport(): CapabilityReport | null {
+    return lastReport;
+}
+
+/**
+ * Why a requirement can't be met on the probed platform, or null if it can
+ */
+export function unmetRequirement(requirement: BackendRequirement, report: CapabilityReport): string | null {
+    const missing: string[] = [];
+    for (const group of requirement[report.platform] ?? []) {
+        if (group.some(name => report.backends[name]?.available)) continue;
+
+        if (group.length === 1) {
+            missing.push(`${group[0]}: ${report.backends[group[0]]?.detail ?? 'not probed'}`);
+        } else {
+            missing.push(`one of ${group.join(', ')}: none found`);
+        }
+    }
+    return missing.length > 0 ? `Needs ${missing.join('; ')}` : null;
+}
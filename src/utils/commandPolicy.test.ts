@@ -0,0 +1,119 @@
+/**
+ * Tests for the restricted-mode command policy
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+
+import { getDefaultConfig } from '../config.js';
+import { parseCommandLine, checkCommandPolicy, checkParsedCommands, CliPolicy } from './commandPolicy.js';
+
+const policy: CliPolicy = {
+    mode: 'restricted',
+    extraBlockedPatterns: [],
+    timeoutMs: 30000,
+    allowedCommands: ['ls', 'grep', 'echo', 'cat', 'git'],
+    allowedEnvVars: ['LANG'],
+    commandRules: {
+        git: { deniedArgs: ['push --force', 'push -f'] },
+    },
+};
+
+describe('parseCommandLine', () => {
+    it('splits pipelines, lists and subshells into simple commands', () => {
+        const commands = parseCommandLine('ls -la | grep "a b" && (cd src; cat x) > out.txt 2>&1');
+        assert.deepStrictEqual(commands, [
+            { executable: 'ls', args: ['-la'] },
+            { executable: 'grep', args: ['a b'] },
+            { executable: 'cd', args: ['src'] },
+            { executable: 'cat', args: ['x'] },
+        ]);
+    });
+
+    it('extracts commands from $(...) and backtick substitutions', () => {
+        const executables = parseCommandLine('echo "user: $(whoami)" `date`').map(c => c.executable);
+        assert.deepStrictEqual(executables, ['whoami', 'date', 'echo']);
+    });
+
+    it('skips leading assignments and here-document bodies', () => {
+        const commands = parseCommandLine('FOO=1 cat <<EOF\nrm -rf /\nEOF\nls');
+        assert.deepStrictEqual(commands.map(c => c.executable), ['cat', 'ls']);
+        assert.deepStrictEqual(commands[0].assignments, ['FOO']);
+    });
+
+    it('extracts substitutions from arithmetic and unquoted here-document bodies', () => {
+        assert.deepStrictEqual(parseCommandLine('echo $(( $(id -u) + `nproc` ))').map(c => c.executable), ['id', 'nproc', 'echo']);
+        assert.deepStrictEqual(parseCommandLine('echo "$(( 1 + $(whoami) ))"').map(c => c.executable), ['whoami', 'echo']);
+        assert.deepStrictEqual(parseCommandLine('echo $((id) || (date))').map(c => c.executable), ['id', 'date', 'echo']);
+
+        assert.deepStrictEqual(parseCommandLine("cat <<EOF\nuser $(whoami) `date`\nEOF").map(c => c.executable), ['whoami', 'date', 'cat']);
+        assert.deepStrictEqual(parseCommandLine("cat <<'EOF'\nuser $(whoami)\nEOF").map(c => c.executable), ['cat']);
+    });
+});
+
+describe('checkCommandPolicy', () => {
+    it('passes everything in allow-all mode', () => {
+        assert.strictEqual(checkCommandPolicy('curl http://example.com', { ...policy, mode: 'allow-all' }), null);
+    });
+
+    it('allows commands made only of allowlisted executables', () => {
+        assert.strictEqual(checkCommandPolicy('git status && ls | grep src', policy), null);
+    });
+
+    it('names the executable that is not allowlisted', () => {
+        const violation = checkCommandPolicy('ls; echo $(curl http://example.com)', policy);
+        assert.strictEqual(violation?.rule, 'executable_not_allowed');
+        assert.strictEqual(violation?.token, 'curl');
+    });
+
+    it('names the denied argument, including bundled short flags', () => {
+        const long = checkCommandPolicy('git push origin main --force', policy);
+        assert.strictEqual(long?.rule, 'argument_denied');
+        assert.strictEqual(long?.token, '--force');
+
+        const bundled = checkCommandPolicy('git push -fu origin', policy);
+        assert.strictEqual(bundled?.token, '-fu');
+        assert.strictEqual(bundled?.pattern, 'push -f');
+    });
+
+    it('rejects executables computed at runtime', () => {
+        const violation = checkCommandPolicy('$(echo rm) -rf /tmp/x', policy);
+        assert.strictEqual(violation?.rule, 'dynamic_executable');
+        assert.strictEqual(violation?.token, '$(echo rm)');
+    });
+
+    it('checks substitutions hidden in arithmetic and here-documents', () => {
+        assert.strictEqual(checkCommandPolicy('echo $(( $(curl http://example.com) ))', policy)?.token, 'curl');
+        assert.strictEqual(checkCommandPolicy('cat <<EOF\n$(curl http://example.com)\nEOF', policy)?.token, 'curl');
+    });
+
+    it('rejects variables outside allowedEnvVars, as prefixes, bare assignments or spawn env', () => {
+        const prefix = checkCommandPolicy(`GIT_EXTERNAL_DIFF='sh -c id' git diff`, policy);
+        assert.deepStrictEqual([prefix?.rule, prefix?.token], ['assignment_not_allowed', 'GIT_EXTERNAL_DIFF']);
+        assert.strictEqual(checkCommandPolicy('PATH=/tmp/evil; git status', policy)?.token, 'PATH');
+        assert.strictEqual(checkCommandPolicy('LANG=C ls', policy), null);
+
+        const spawned = checkParsedCommands([{ executable: 'git', args: ['log'], assignments: ['GIT_PAGER'] }], 'git log', policy);
+        assert.strictEqual(spawned?.token, 'GIT_PAGER');
+    });
+
+    it('denies by default the arguments that run other programs or write files', () => {
+        const defaults: CliPolicy = { ...getDefaultConfig().cliPolicy, mode: 'restricted' };
+        for (const command of [
+            'npm exec cowsay', 'npm x cowsay', 'npm run build', 'npm install left-pad', 'npm audit fix',
+            "git -c core.pager='sh -c id' log", "git -c alias.x='!id' x", 'git -c core.sshCommand=id fetch',
+            'git --config-env=core.pager=EVIL log', 'git config core.pager id',
+            'find . -ok rm {} ;', 'find . -okdir rm {} ;', 'find . -fprint /tmp/out', 'find . -fls /tmp/out',
+            'sort -o /tmp/out in.txt', 'sort --output=/tmp/out in.txt',
+        ]) {
+            assert.ok(checkCommandPolicy(command, defaults), command);
+        }
+        for (const command of ['npm ls', 'git log --oneline', 'find . -name "*.ts"', 'sort -n in.txt']) {
+            assert.strictEqual(checkCommandPolicy(command, defaults), null, command);
+        }
+    });
+
+    it('rejects unbalanced quotes', () => {
+        assert.strictEqual(checkCommandPolicy("echo 'oops", policy)?.rule, 'parse_error');
+    });
+});
@@ -0,0 +1,475 @@
+// Command policy for cliPolicy.mode = 'restricted'
+// Tokenizes shell command lines and checks every executable against the allowlist and argument rules
+
+import { loadConfig, Config } from '../config.js';
+import { logAudit } from '../audit.js';
+import { ToolResponse, toolErrorResponse } from '../tools/toolResult.js';
+
+export type CliPolicy = Config['cliPolicy'];
+
+/**
+ * A single simple command found in a command line (pipelines, lists,
+ * subshells and substitutions are split into their individual commands)
+ */
+export interface ParsedCommand {
+    executable: string;         // Empty for a statement that only assigns variables
+    args: string[];
+    assignments?: string[];     // Names of the variables set by leading NAME=value words
+}
+
+/**
+ * Details of a rejected command, returned to the model and stored in audit_log
+ */
+export interface CommandPolicyViolation {
+    code: 'COMMAND_POLICY_VIOLATION';
+    message: string;
+    command: string;
+    token: string;
+    rule: 'executable_not_allowed' | 'subcommand_not_allowed' | 'argument_denied' | 'assignment_not_allowed' | 'dynamic_executable' | 'parse_error';
+    pattern?: string;
+}
+
+export class CommandPolicyError extends Error {
+    readonly violation: CommandPolicyViolation;
+
+    constructor(violation: CommandPolicyViolation) {
+        super(violation.message);
+        this.name = 'CommandPolicyError';
+        this.violation = violation;
+    }
+}
+
+export class CommandParseError extends Error {
+    readonly token: string;
+    readonly rule: 'dynamic_executable' | 'parse_error';
+
+    constructor(message: string, token: string, rule: 'dynamic_executable' | 'parse_error' = 'parse_error') {
+        super(message);
+        this.name = 'CommandParseError';
+        this.token = token;
+        this.rule = rule;
+    }
+}
+
+type Token =
+    | { type: 'word'; text: string; dynamic: boolean }
+    | { type: 'op'; text: string };
+
+// Longest first so "&&" wins over "&"
+const OPERATORS = [
+    '<<<', '&>>',
+    '&&', '||', '|&', ';;', '>>', '<<', '&>', '>&', '<&', '<>', '>|',
+    '|', '&', ';', '(', ')', '<', '>', '\n',
+];
+
+const SEPARATORS = new Set(['&&', '||', '|&', ';;', '|', '&', ';', '(', ')', '\n']);
+
+// Words that may precede the executable without being one
+const PREFIX_WORDS = new Set(['!', '{', '}']);
+
+/**
+ * Find the index of the ")" closing the "(" at openIndex, skipping quoted text
+ */
+function findClosingParen(input: string, openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < input.length; i++) {
+        const ch = input[i];
+        if (ch === '\\') {
+            i++;
+        } else if (ch === "'") {
+            const end = input.indexOf("'", i + 1);
+            if (end === -1) break;
+            i = end;
+        } else if (ch === '"') {
+            i++;
+            while (i < input.length && input[i] !== '"') {
+                if (input[i] === '\\') i++;
+                i++;
+            }
+        } else if (ch === '(') {
+            depth++;
+        } else if (ch === ')') {
+            depth--;
+            if (depth === 0) return i;
+        }
+    }
+    throw new CommandParseError('Unterminated substitution or subshell', input.slice(openIndex - 1));
+}
+
+/**
+ * Find the closing backtick for the one at openIndex
+ */
+function findClosingBacktick(input: string, openIndex: number): number {
+    for (let i = openIndex + 1; i < input.length; i++) {
+        if (input[i] === '\\') {
+            i++;
+        } else if (input[i] === '`') {
+            return i;
+        }
+    }
+    throw new CommandParseError('Unterminated backtick substitution', input.slice(openIndex));
+}
+
+/**
+ * Parse the commands substituted into text that is otherwise data: arithmetic
+ * expressions and unquoted here-document bodies, where quotes are literal
+ */
+function parseEmbeddedSubstitutions(text: string, nested: ParsedCommand[]): void {
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\\') {
+            i++;
+        } else if (text[i] === '`') {
+            const end = findClosingBacktick(text, i);
+            nested.push(...parseCommandLine(text.slice(i + 1, end)));
+            i = end;
+        } else if (text[i] === '$' && text[i + 1] === '(') {
+            i = readParenSubstitution(text, i, nested);
+        }
+    }
+}
+
+/**
+ * Parse the $( ... ), <( ... ) or >( ... ) starting at i; returns the index of its ")".
+ * $(( ... )) is arithmetic, whose only commands are the substitutions inside it.
+ */
+function readParenSubstitution(input: string, i: number, nested: ParsedCommand[]): number {
+    const end = findClosingParen(input, i + 1);
+    // "$((a) || (b))" closes its inner "(" early: bash runs that as a command substitution
+    if (input[i] === '$' && input[i + 2] === '(' && findClosingParen(input, i + 2) === end - 1) {
+        parseEmbeddedSubstitutions(input.slice(i + 3, end - 1), nested);
+    } else {
+        nested.push(...parseCommandLine(input.slice(i + 2, end)));
+    }
+    return end;
+}
+
+/**
+ * Split a command line into words and operators.
+ * Commands inside $(...), `...` and <(...) are parsed recursively into `nested`.
+ */
+function tokenize(input: string, nested: ParsedCommand[]): Token[] {
+    const tokens: Token[] = [];
+    const heredocs: Array<{ delimiter: string; quoted: boolean }> = [];
+    let expectHeredocDelimiter = false;
+    let word = '';
+    let inWord = false;
+    let quoted = false;
+    let dynamic = false;
+
+    const flush = () => {
+        if (inWord) {
+            if (expectHeredocDelimiter) {
+                heredocs.push({ delimiter: word, quoted });
+                expectHeredocDelimiter = false;
+            }
+            tokens.push({ type: 'word', text: word, dynamic });
+        }
+        word = '';
+        inWord = false;
+        quoted = false;
+        dynamic = false;
+    };
+
+    // Returns the index just past the substitution starting at i
+    const readSubstitution = (i: number): number => {
+        if (input[i] === '`') {
+            const end = findClosingBacktick(input, i);
+            nested.push(...parseCommandLine(input.slice(i + 1, end)));
+            word += input.slice(i, end + 1);
+            dynamic = true;
+            inWord = true;
+            return end + 1;
+        }
+        const end = readParenSubstitution(input, i, nested);
+        word += input.slice(i, end + 1);
+        dynamic = true;
+        inWord = true;
+        return end + 1;
+    };
+
+    let i = 0;
+    while (i < input.length) {
+        const ch = input[i];
+
+        if (ch === ' ' || ch === '\t' || ch === '\r') {
+            flush();
+            i++;
+        } else if (ch === '\\') {
+            if (input[i + 1] !== '\n') {
+                word += input[i + 1] ?? '';
+                inWord = true;
+                quoted = true;
+            }
+            i += 2;
+        } else if (ch === "'") {
+            const end = input.indexOf("'", i + 1);
+            if (end === -1) {
+                throw new CommandParseError('Unterminated single quote', input.slice(i));
+            }
+            word += input.slice(i + 1, end);
+            inWord = true;
+            quoted = true;
+            i = end + 1;
+        } else if (ch === '"') {
+            inWord = true;
+            quoted = true;
+            i++;
+            while (input[i] !== '"') {
+                if (i >= input.length) {
+                    throw new CommandParseError('Unterminated double quote', input.slice(input.lastIndexOf('"', i - 1)));
+                }
+                if (input[i] === '\\' && '"\\$`\n'.includes(input[i + 1])) {
+                    word += input[i + 1];
+                    i += 2;
+                } else if ((input[i] === '$' && input[i + 1] === '(') || input[i] === '`') {
+                    i = readSubstitution(i);
+                } else {
+                    if (input[i] === '$') dynamic = true;
+                    word += input[i];
+                    i++;
+                }
+            }
+            i++;
+        } else if (((ch === '$' || ch === '<' || ch === '>') && input[i + 1] === '(') || ch === '`') {
+            i = readSubstitution(i);
+        } else if (ch === '$') {
+            dynamic = true;
+            word += ch;
+            inWord = true;
+            i++;
+        } else if (ch === '#' && !inWord) {
+            while (i < input.length && input[i] !== '\n') i++;
+        } else {
+            const op = OPERATORS.find(o => input.startsWith(o, i));
+            if (!op) {
+                word += ch;
+                inWord = true;
+                i++;
+                continue;
+            }
+
+            // "2>" and friends: a bare file descriptor number belongs to the redirection
+            if (!SEPARATORS.has(op) && inWord && !quoted && /^\d+$/.test(word)) {
+                tokens.push({ type: 'op', text: word + op });
+                word = '';
+                inWord = false;
+            } else {
+                flush();
+                tokens.push({ type: 'op', text: op });
+            }
+            i += op.length;
+
+            if (op === '<<') {
+                expectHeredocDelimiter = true;
+                if (input[i] === '-') i++;
+            } else if (op === '\n') {
+                // Here-document bodies are data, but bash still runs the substitutions
+                // in them unless the delimiter was quoted
+                while (heredocs.length > 0) {
+                    const { delimiter, quoted: literal } = heredocs.shift()!;
+                    const body: string[] = [];
+                    while (i < input.length) {
+                        const lineEnd = input.indexOf('\n', i);
+                        const line = input.slice(i, lineEnd === -1 ? input.length : lineEnd);
+                        i = lineEnd === -1 ? input.length : lineEnd + 1;
+                        if (line.trim() === delimiter) break;
+                        body.push(line);
+                    }
+                    if (!literal) parseEmbeddedSubstitutions(body.join('\n'), nested);
+                }
+            }
+        }
+    }
+    flush();
+
+    return tokens;
+}
+
+/**
+ * Parse a shell command line into the simple commands it would run.
+ * Handles quoting, pipes, &&, ||, ;, &, subshells, $(...), backticks,
+ * process substitution, arithmetic, redirections, here-documents and leading VAR=value assignments.
+ * @throws CommandParseError for unbalanced quotes or executables computed at runtime
+ */
+export function parseCommandLine(command: string): ParsedCommand[] {
+    const nested: ParsedCommand[] = [];
+    const tokens = tokenize(command, nested);
+    const commands: ParsedCommand[] = [];
+    let words: Array<{ text: string; dynamic: boolean }> = [];
+
+    const finish = () => {
+        let start = 0;
+        const assignments: string[] = [];
+        while (start < words.length) {
+            const assignment = /^([A-Za-z_][A-Za-z0-9_]*)\+?=/.exec(words[start].text);
+            if (assignment) {
+                assignments.push(assignment[1]);
+            } else if (words[start].dynamic || !PREFIX_WORDS.has(words[start].text)) {
+                break;
+            }
+            start++;
+        }
+        if (start < words.length) {
+            const [executable, ...args] = words.slice(start);
+            if (executable.dynamic) {
+                throw new CommandParseError(
+                    `Executable "${executable.text}" is computed at runtime and cannot be checked`,
+                    executable.text,
+                    'dynamic_executable'
+                );
+            }
+            commands.push({ executable: executable.text, args: args.map(a => a.text), ...(assignments.length > 0 && { assignments }) });
+        } else if (assignments.length > 0) {
+            commands.push({ executable: '', args: [], assignments });
+        }
+        words = [];
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.type === 'word') {
+            words.push(token);
+        } else if (SEPARATORS.has(token.text)) {
+            finish();
+        } else if (tokens[i + 1]?.type === 'word') {
+            // Redirection target is a filename, not an argument
+            i++;
+        }
+    }
+    finish();
+
+    return [...nested, ...commands];
+}
+
+/**
+ * Normalize an executable name for allowlist comparison
+ */
+function normalizeExecutable(executable: string): string {
+    if (process.platform === 'win32') {
+        return executable.toLowerCase().replace(/\.(exe|cmd|bat)$/, '');
+    }
+    return executable;
+}
+
+/**
+ * Does a command argument satisfy one token of a deniedArgs rule?
+ * "--force" also matches "--force=..." and "-f" also matches bundled flags like "-fd".
+ */
+function argMatches(arg: string, ruleToken: string): boolean {
+    if (arg === ruleToken) return true;
+    if (ruleToken.startsWith('--') && arg.startsWith(ruleToken + '=')) return true;
+    return /^-[A-Za-z0-9]$/.test(ruleToken) && /^-[A-Za-z0-9]+$/.test(arg) && arg.includes(ruleToken[1]);
+}
+
+/**
+ * Check already-parsed commands against the allowlist and argument rules
+ */
+export function checkParsedCommands(
+    commands: ParsedCommand[],
+    commandLine: string,
+    policy: CliPolicy = loadConfig().cliPolicy
+): CommandPolicyViolation | null {
+    if (policy.mode !== 'restricted') return null;
+
+    const violation = (rule: CommandPolicyViolation['rule'], token: string, message: string, pattern?: string): CommandPolicyViolation => ({
+        code: 'COMMAND_POLICY_VIOLATION',
+        message,
+        command: commandLine,
+        token,
+        rule,
+        ...(pattern !== undefined && { pattern }),
+    });
+
+    const allowed = new Set((policy.allowedCommands ?? []).map(normalizeExecutable));
+    const allowedVariables = new Set(policy.allowedEnvVars ?? []);
+    const rules = policy.commandRules ?? {};
+
+    for (const { executable, args, assignments } of commands) {
+        // Variables such as PATH, GIT_EXTERNAL_DIFF or LD_PRELOAD change what an allowed command runs
+        const variable = assignments?.find(name => !allowedVariables.has(name));
+        if (variable !== undefined) {
+            return violation('assignment_not_allowed', variable,
+                `Setting "${variable}" is not allowed; permitted variables are listed in cliPolicy.allowedEnvVars`);
+        }
+        if (!executable) continue;
+
+        const name = normalizeExecutable(executable);
+        if (!allowed.has(name)) {
+            return violation('executable_not_allowed', executable,
+                `"${executable}" is not in cliPolicy.allowedCommands`);
+        }
+
+        const rule = rules[name];
+        if (!rule) continue;
+
+        const subcommand = args.find(a => !a.startsWith('-'));
+        if (rule.allowedSubcommands && subcommand !== undefined && !rule.allowedSubcommands.includes(subcommand)) {
+            return violation('subcommand_not_allowed', subcommand,
+                `"${executable} ${subcommand}" is not allowed; permitted subcommands: ${rule.allowedSubcommands.join(', ')}`);
+        }
+
+        for (const denied of rule.deniedArgs ?? []) {
+            const ruleTokens = denied.split(/\s+/).filter(Boolean);
+            const matched = ruleTokens.map(t => args.find(a => argMatches(a, t)));
+            if (ruleTokens.length > 0 && matched.every(m => m !== undefined)) {
+                const token = matched[matched.length - 1]!;
+                return violation('argument_denied', token,
+                    `Argument "${token}" is denied for ${executable} by cliPolicy.commandRules rule "${denied}"`, denied);
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Check a shell command line against the restricted-mode policy.
+ * Always passes in allow-all mode.
+ * @returns The violation, or null if the command is allowed
+ */
+export function checkCommandPolicy(
+    command: string,
+    policy: CliPolicy = loadConfig().cliPolicy
+): CommandPolicyViolation | null {
+    if (policy.mode !== 'restricted') return null;
+
+    let commands: ParsedCommand[];
+    try {
+        commands = parseCommandLine(command);
+    } catch (error) {
+        if (!(error instanceof CommandParseError)) throw error;
+        return {
+            code: 'COMMAND_POLICY_VIOLATION',
+            message: `${error.message}: ${error.token}`,
+            command,
+            token: error.token,
+            rule: error.rule,
+        };
+    }
+
+    return checkParsedCommands(commands, command, policy);
+}
+
+/**
+ * Enforce the command policy for a tool call.
+ * Pass `args` for argv-style spawns (no shell); otherwise `command` is tokenized as a shell command line.
+ * `env` holds variables the tool sets for the command, checked like NAME=value prefixes.
+ * Violations are recorded in audit_log and thrown as CommandPolicyError.
+ */
+export async function enforceCommandPolicy(tool: string, command: string, args?: string[], env?: Record<string, string>): Promise<void> {
+    const assignments = Object.keys(env ?? {});
+    const violation = args
+        ? checkParsedCommands([{ executable: command, args, assignments }], [command, ...args].join(' '))
+        : checkCommandPolicy(command) ?? checkParsedCommands([{ executable: '', args: [], assignments }], command);
+    if (violation) {
+        await logAudit(tool, { command, args, env: assignments.length > 0 ? assignments : undefined }, null, violation);
+        throw new CommandPolicyError(violation);
+    }
+}
+
+/**
+ * Structured MCP error response for a command policy violation
+ */
+export function commandPolicyErrorResponse(error: CommandPolicyError): ToolResponse {
+    return toolErrorResponse(error);
+}
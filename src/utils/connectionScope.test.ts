@@ -0,0 +1,29 @@
+/**
+ * Tests for per-connection state
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+
+import { withAuditCall } from '../audit.js';
+import { connectionScoped, releaseConnection } from './connectionScope.js';
+
+describe('connectionScoped', () => {
+    it('gives each connection its own value and disposes it on release', async () => {
+        const disposed: string[][] = [];
+        const scoped = connectionScoped(() => [] as string[], value => { disposed.push(value); });
+        const inSession = <T>(sessionId: string, fn: () => T) => withAuditCall(fn, { sessionId, clientName: null });
+
+        inSession('session_a', () => scoped.get().push('a'));
+        inSession('session_b', () => scoped.get().push('b'));
+        inSession('session_a', () => scoped.get().push('a2'));
+
+        assert.deepStrictEqual(inSession('session_a', () => scoped.get()), ['a', 'a2']);
+        assert.deepStrictEqual(inSession('session_b', () => scoped.get()), ['b']);
+        assert.strictEqual(scoped.all().length, 2);
+
+        await releaseConnection('session_a');
+        assert.deepStrictEqual(disposed, [['a', 'a2']]);
+        assert.deepStrictEqual(inSession('session_a', () => scoped.get()), []);
+    });
+});
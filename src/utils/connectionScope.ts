@@ -0,0 +1,65 @@
+// Per-connection state
+// Keeps process sessions, searches and browsers of one MCP client apart from another's
+
+import { getAuditContext } from '../audit.js';
+
+/**
+ * A value created lazily for each client connection
+ */
+export interface ConnectionScoped<T> {
+    get(): T;      // The value for the connection of the running tool call
+    all(): T[];    // Values of every connection, e.g. for metrics
+}
+
+interface Slot {
+    values: Map<string | null, unknown>;
+    dispose?: (value: any) => void | Promise<void>;
+}
+
+const slots: Slot[] = [];
+
+/**
+ * The connection the running tool call came from: its audit session, or null
+ * outside a tool call
+ */
+export function currentConnectionId(): string | null {
+    return getAuditContext()?.sessionId ?? null;
+}
+
+/**
+ * Declare state that each connection gets its own copy of.
+ * dispose runs when the connection is released.
+ */
+export function connectionScoped<T>(create: () => T, dispose?: (value: T) => void | Promise<void>): ConnectionScoped<T> {
+    const slot: Slot = { values: new Map(), dispose };
+    slots.push(slot);
+
+    return {
+        get() {
+            const id = currentConnectionId();
+            if (!slot.values.has(id)) {
+                slot.values.set(id, create());
+            }
+            return slot.values.get(id) as T;
+        },
+        all() {
+            return Array.from(slot.values.values()) as T[];
+        },
+    };
+}
+
+/**
+ * Dispose of and forget the state of a closed connection
+ */
+export async function releaseConnection(connectionId: string): Promise<void> {
+    for (const slot of slots) {
+        if (!slot.values.has(connectionId)) continue;
+        const value = slot.values.get(connectionId);
+        slot.values.delete(connectionId);
+        try {
+            await slot.dispose?.(value);
+        } catch {
+            // The connection is gone either way
+        }
+    }
+}
@@ -0,0 +1,14 @@
+// HTTP bearer token check
+// Shared by the metrics endpoint and the HTTP transport
+
+import http from 'http';
+import crypto from 'crypto';
+
+/**
+ * True if the request carries "Authorization: Bearer <token>". Compared in constant time.
+ */
+export function hasBearerToken(req: http.IncomingMessage, token: string): boolean {
+    const expected = Buffer.from(`Bearer ${token}`);
+    const actual = Buffer.from(req.headers.authorization ?? '');
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
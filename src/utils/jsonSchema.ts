@@ -0,0 +1,196 @@
+// JSON Schema to zod
+// Converts the subset of JSON Schema that zod can express; used for CRUD collection schemas
+
+import { z } from 'zod';
+
+/**
+ * A schema keyword or value the converter can't handle
+ */
+export interface JsonSchemaViolation {
+    code: 'INVALID_ARGUMENTS';
+    message: string;
+    path: string;            // Where in the schema, e.g. schema.properties.title.minLength
+}
+
+export class JsonSchemaError extends Error {
+    readonly violation: JsonSchemaViolation;
+
+    constructor(path: string, message: string) {
+        super(`${path}: ${message}`);
+        this.name = 'JsonSchemaError';
+        this.violation = { code: 'INVALID_ARGUMENTS', message: this.message, path };
+    }
+}
+
+export interface JsonSchemaOptions {
+    strict: boolean;         // Reject properties a schema doesn't list, unless it sets additionalProperties
+}
+
+const SUPPORTED_KEYWORDS = new Set([
+    '$schema', 'title', 'description', 'type', 'enum', 'const', 'default', 'anyOf', 'oneOf',
+    'properties', 'required', 'additionalProperties', 'items', 'minItems', 'maxItems',
+    'minLength', 'maxLength', 'pattern', 'format', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum',
+]);
+
+const TYPES = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'] as const;
+type JsonType = typeof TYPES[number];
+
+const FORMATS: Record<string, (schema: z.ZodString) => z.ZodString> = {
+    'email': schema => schema.email(),
+    'uri': schema => schema.url(),
+    'uuid': schema => schema.uuid(),
+    'date-time': schema => schema.datetime({ offset: true }),
+};
+
+type Primitive = string | number | boolean | null;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPrimitive(value: unknown): value is Primitive {
+    return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function expectNumber(schema: Record<string, unknown>, keyword: string, where: string): number | undefined {
+    const value = schema[keyword];
+    if (value !== undefined && typeof value !== 'number') throw new JsonSchemaError(`${where}.${keyword}`, 'must be a number');
+    return value as number | undefined;
+}
+
+function literalUnion(values: Primitive[]): z.ZodTypeAny {
+    const literals = values.map(value => value === null ? z.null() : z.literal(value));
+    return literals.length === 1 ? literals[0] : z.union(literals as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+function objectSchema(schema: Record<string, unknown>, options: JsonSchemaOptions, where: string): z.ZodTypeAny {
+    const properties = schema.properties ?? {};
+    if (!isPlainObject(properties)) throw new JsonSchemaError(`${where}.properties`, 'must be an object');
+    const required = schema.required ?? [];
+    if (!Array.isArray(required) || required.some(name => typeof name !== 'string')) {
+        throw new JsonSchemaError(`${where}.required`, 'must be an array of property names');
+    }
+
+    const shape: Record<string, z.ZodTypeAny> = {};
+    for (const [name, property] of Object.entries(properties)) {
+        const at = `${where}.properties.${name}`;
+        let field = jsonSchemaToZod(property, options, at);
+        const fallback = isPlainObject(property) ? property.default : undefined;
+        if (fallback !== undefined) {
+            const checked = field.safeParse(fallback);
+            if (!checked.success) throw new JsonSchemaError(`${at}.default`, `does not match the property schema: ${checked.error.issues[0].message}`);
+            field = field.default(() => structuredClone(fallback));
+        } else if (!required.includes(name)) {
+            field = field.optional();
+        }
+        shape[name] = field;
+    }
+
+    const object = z.object(shape);
+    const additional = schema.additionalProperties;
+    if (additional === false || (additional === undefined && options.strict)) return object.strict();
+    if (additional === true || additional === undefined) return object.passthrough();
+    return object.catchall(jsonSchemaToZod(additional, options, `${where}.additionalProperties`));
+}
+
+function typedSchema(type: JsonType, schema: Record<string, unknown>, options: JsonSchemaOptions, where: string): z.ZodTypeAny {
+    switch (type) {
+        case 'object':
+            return objectSchema(schema, options, where);
+        case 'array': {
+            let array = z.array(schema.items === undefined ? z.unknown() : jsonSchemaToZod(schema.items, options, `${where}.items`));
+            const minItems = expectNumber(schema, 'minItems', where);
+            const maxItems = expectNumber(schema, 'maxItems', where);
+            if (minItems !== undefined) array = array.min(minItems);
+            if (maxItems !== undefined) array = array.max(maxItems);
+            return array;
+        }
+        case 'string': {
+            let string = z.string();
+            const minLength = expectNumber(schema, 'minLength', where);
+            const maxLength = expectNumber(schema, 'maxLength', where);
+            if (minLength !== undefined) string = string.min(minLength);
+            if (maxLength !== undefined) string = string.max(maxLength);
+            if (schema.pattern !== undefined) {
+                try {
+                    string = string.regex(new RegExp(schema.pattern as string), `Must match ${schema.pattern}`);
+                } catch (error: any) {
+                    throw new JsonSchemaError(`${where}.pattern`, error.message);
+                }
+            }
+            if (schema.format !== undefined) {
+                const format = FORMATS[schema.format as string];
+                if (!format) throw new JsonSchemaError(`${where}.format`, `must be one of ${Object.keys(FORMATS).join(', ')}`);
+                string = format(string);
+            }
+            return string;
+        }
+        case 'number':
+        case 'integer': {
+            let number = type === 'integer' ? z.number().int() : z.number();
+            const minimum = expectNumber(schema, 'minimum', where);
+            const maximum = expectNumber(schema, 'maximum', where);
+            const exclusiveMinimum = expectNumber(schema, 'exclusiveMinimum', where);
+            const exclusiveMaximum = expectNumber(schema, 'exclusiveMaximum', where);
+            if (minimum !== undefined) number = number.gte(minimum);
+            if (maximum !== undefined) number = number.lte(maximum);
+            if (exclusiveMinimum !== undefined) number = number.gt(exclusiveMinimum);
+            if (exclusiveMaximum !== undefined) number = number.lt(exclusiveMaximum);
+            return number;
+        }
+        case 'boolean':
+            return z.boolean();
+        case 'null':
+            return z.null();
+    }
+}
+
+/**
+ * Convert a JSON Schema to a zod schema. Supports type (or a list of types), properties,
+ * required, additionalProperties, items, enum, const, default, anyOf/oneOf (both as
+ * "any of"), string length/pattern/format and numeric bounds; anything else is rejected.
+ */
+export function jsonSchemaToZod(schema: unknown, options: JsonSchemaOptions, where = 'schema'): z.ZodTypeAny {
+    if (schema === true) return z.unknown();
+    if (!isPlainObject(schema)) throw new JsonSchemaError(where, 'must be an object');
+    for (const keyword of Object.keys(schema)) {
+        if (!SUPPORTED_KEYWORDS.has(keyword)) throw new JsonSchemaError(`${where}.${keyword}`, 'is not a supported keyword');
+    }
+
+    if (schema.const !== undefined) {
+        if (!isPrimitive(schema.const)) throw new JsonSchemaError(`${where}.const`, 'must be a string, number, boolean or null');
+        return literalUnion([schema.const]);
+    }
+    if (schema.enum !== undefined) {
+        if (!Array.isArray(schema.enum) || schema.enum.length === 0 || !schema.enum.every(isPrimitive)) {
+            throw new JsonSchemaError(`${where}.enum`, 'must be a non-empty array of strings, numbers, booleans or null');
+        }
+        return literalUnion(schema.enum);
+    }
+
+    for (const keyword of ['anyOf', 'oneOf'] as const) {
+        const branches = schema[keyword];
+        if (branches === undefined) continue;
+        if (schema.type !== undefined) throw new JsonSchemaError(`${where}.${keyword}`, 'cannot be combined with type; put the type in each branch');
+        if (!Array.isArray(branches) || branches.length === 0) throw new JsonSchemaError(`${where}.${keyword}`, 'must be a non-empty array of schemas');
+        const converted = branches.map((branch, index) => jsonSchemaToZod(branch, options, `${where}.${keyword}[${index}]`));
+        return converted.length === 1 ? converted[0] : z.union(converted as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+    }
+
+    const types = schema.type === undefined
+        ? (schema.properties !== undefined ? ['object'] : [])
+        : Array.isArray(schema.type) ? schema.type : [schema.type];
+    for (const type of types) {
+        if (!TYPES.includes(type)) throw new JsonSchemaError(`${where}.type`, `must be one of ${TYPES.join(', ')}`);
+    }
+    if (types.length === 0) return z.unknown();
+    const converted = types.map(type => typedSchema(type, schema, options, where));
+    return converted.length === 1 ? converted[0] : z.union(converted as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+/**
+ * Zod issues as dotted paths, e.g. { path: 'tags.0', message: 'Expected string, received number' }
+ */
+export function describeIssues(error: z.ZodError): Array<{ path: string; message: string }> {
+    return error.issues.map(issue => ({ path: issue.path.join('.') || '(root)', message: issue.message }));
+}
@@ -0,0 +1,45 @@
+/**
+ * Tests for OpenMetrics rendering
+ */
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+
+import { recordToolCall, observeToolCall, renderOpenMetrics, resetToolCallMetrics } from './metrics.js';
+
+describe('renderOpenMetrics', () => {
+    beforeEach(() => resetToolCallMetrics());
+
+    it('counts calls and fills cumulative latency buckets per tool and outcome', () => {
+        recordToolCall('read_file', 'success', 3);
+        recordToolCall('read_file', 'success', 200);
+        recordToolCall('delete_file', 'pending_approval');
+
+        const text = renderOpenMetrics();
+        assert.match(text, /^mcp_tool_calls_total\{tool="read_file",outcome="success"\} 2$/m);
+        assert.match(text, /^mcp_tool_calls_total\{tool="delete_file",outcome="pending_approval"\} 1$/m);
+        assert.match(text, /^mcp_tool_call_duration_seconds_bucket\{tool="read_file",outcome="success",le="0.005"\} 1$/m);
+        assert.match(text, /^mcp_tool_call_duration_seconds_bucket\{tool="read_file",outcome="success",le="0.25"\} 2$/m);
+        assert.match(text, /^mcp_tool_call_duration_seconds_sum\{tool="read_file",outcome="success"\} 0.203$/m);
+        // Calls without a duration stay out of the histogram
+        assert.doesNotMatch(text, /duration_seconds_count\{tool="delete_file"/);
+        assert.ok(text.endsWith('# EOF\n'));
+    });
+
+    it('records isError results and thrown errors as errors', async () => {
+        await observeToolCall('exec_cli', async () => ({ content: [], isError: true }));
+        await assert.rejects(observeToolCall('exec_cli', async () => { throw new Error('boom'); }));
+
+        assert.match(renderOpenMetrics(), /^mcp_tool_calls_total\{tool="exec_cli",outcome="error"\} 2$/m);
+    });
+
+    it('renders gauges with escaped label values', () => {
+        const text = renderOpenMetrics([
+            { name: 'mcp_database_size_bytes', help: 'Size.', unit: 'bytes', samples: [{ value: 4096 }] },
+            { name: 'mcp_test', help: 'Test.', samples: [{ labels: { name: 'a "b"' }, value: 1 }] },
+        ]);
+        assert.match(text, /^# UNIT mcp_database_size_bytes bytes$/m);
+        assert.match(text, /^mcp_database_size_bytes 4096$/m);
+        assert.match(text, /^mcp_test\{name="a \\"b\\""\} 1$/m);
+    });
+});
@@ -0,0 +1,141 @@
+// Server metrics
+// In-process tool call counters and latency histograms, rendered as OpenMetrics text
+
+import { ToolResponse } from '../tools/toolResult.js';
+
+export type ToolCallOutcome = 'success' | 'error' | 'pending_approval';
+
+// Latency histogram upper bounds, in seconds
+export const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+interface ToolCallSeries {
+    count: number;
+    sum: number;               // Seconds, over calls with a duration
+    buckets: number[];         // Cumulative counts per DURATION_BUCKETS entry
+    observed: number;          // Calls with a duration (the +Inf bucket)
+}
+
+/**
+ * One gauge sample; labels are rendered in the order given
+ */
+export interface GaugeSample {
+    labels?: Record<string, string>;
+    value: number;
+}
+
+export interface GaugeFamily {
+    name: string;
+    help: string;
+    unit?: string;
+    samples: GaugeSample[];
+}
+
+const toolCalls: Map<string, ToolCallSeries> = new Map();
+
+function seriesKey(tool: string, outcome: ToolCallOutcome): string {
+    return JSON.stringify([tool, outcome]);
+}
+
+/**
+ * Count a finished tool call. Calls without a duration (e.g. parked for approval)
+ * are counted but kept out of the latency histogram.
+ */
+export function recordToolCall(tool: string, outcome: ToolCallOutcome, durationMs?: number): void {
+    const key = seriesKey(tool, outcome);
+    let series = toolCalls.get(key);
+    if (!series) {
+        series = { count: 0, sum: 0, buckets: DURATION_BUCKETS.map(() => 0), observed: 0 };
+        toolCalls.set(key, series);
+    }
+
+    series.count++;
+    if (durationMs === undefined) return;
+
+    const seconds = durationMs / 1000;
+    series.sum += seconds;
+    series.observed++;
+    DURATION_BUCKETS.forEach((bound, i) => {
+        if (seconds <= bound) series!.buckets[i]++;
+    });
+}
+
+/**
+ * Run a tool call and record its outcome and duration. Thrown errors and
+ * isError results both count as errors.
+ */
+export async function observeToolCall<T extends Pick<ToolResponse, 'isError'>>(tool: string, fn: () => Promise<T>): Promise<T> {
+    const startedAt = Date.now();
+    try {
+        const result = await fn();
+        recordToolCall(tool, result.isError ? 'error' : 'success', Date.now() - startedAt);
+        return result;
+    } catch (error) {
+        recordToolCall(tool, 'error', Date.now() - startedAt);
+        throw error;
+    }
+}
+
+/**
+ * Forget all recorded tool calls
+ */
+export function resetToolCallMetrics(): void {
+    toolCalls.clear();
+}
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Record<string, string> = {}): string {
+    const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatNumber(value: number): string {
+    if (value === Infinity) return '+Inf';
+    return Number.isInteger(value) ? String(value) : String(Math.round(value * 1e6) / 1e6);
+}
+
+/**
+ * Render the tool call metrics and the given gauges as an OpenMetrics exposition
+ */
+export function renderOpenMetrics(gauges: GaugeFamily[] = []): string {
+    const lines: string[] = [];
+    const entries = Array.from(toolCalls.entries())
+        .map(([key, series]) => {
+            const [tool, outcome] = JSON.parse(key) as [string, ToolCallOutcome];
+            return { labels: { tool, outcome }, series };
+        })
+        .sort((a, b) => a.labels.tool.localeCompare(b.labels.tool) || a.labels.outcome.localeCompare(b.labels.outcome));
+
+    lines.push('# TYPE mcp_tool_calls counter');
+    lines.push('# HELP mcp_tool_calls Tool calls by tool and outcome.');
+    for (const { labels, series } of entries) {
+        lines.push(`mcp_tool_calls_total${formatLabels(labels)} ${series.count}`);
+    }
+
+    lines.push('# TYPE mcp_tool_call_duration_seconds histogram');
+    lines.push('# UNIT mcp_tool_call_duration_seconds seconds');
+    lines.push('# HELP mcp_tool_call_duration_seconds Tool call latency by tool and outcome.');
+    for (const { labels, series } of entries) {
+        if (series.observed === 0) continue;
+        DURATION_BUCKETS.forEach((bound, i) => {
+            lines.push(`mcp_tool_call_duration_seconds_bucket${formatLabels({ ...labels, le: formatNumber(bound) })} ${series.buckets[i]}`);
+        });
+        lines.push(`mcp_tool_call_duration_seconds_bucket${formatLabels({ ...labels, le: '+Inf' })} ${series.observed}`);
+        lines.push(`mcp_tool_call_duration_seconds_count${formatLabels(labels)} ${series.observed}`);
+        lines.push(`mcp_tool_call_duration_seconds_sum${formatLabels(labels)} ${formatNumber(series.sum)}`);
+    }
+
+    for (const gauge of gauges) {
+        lines.push(`# TYPE ${gauge.name} gauge`);
+        if (gauge.unit) lines.push(`# UNIT ${gauge.name} ${gauge.unit}`);
+        lines.push(`# HELP ${gauge.name} ${gauge.help}`);
+        for (const sample of gauge.samples) {
+            lines.push(`${gauge.name}${formatLabels(sample.labels)} ${formatNumber(sample.value)}`);
+        }
+    }
+
+    lines.push('# EOF');
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,80 @@
+/**
+ * Tests for the filesystem path policy
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+import { checkPathAccess, globToRegExp, FilesystemPolicy } from './pathPolicy.js';
+
+describe('globToRegExp', () => {
+    it('matches a trailing /** against the directory and everything below it', () => {
+        const regex = globToRegExp('/data/secret/**');
+        assert.ok(regex.test('/data/secret'));
+        assert.ok(regex.test('/data/secret/a/b.txt'));
+        assert.ok(!regex.test('/data/secrets'));
+    });
+
+    it('matches relative globs at any depth', () => {
+        const regex = globToRegExp('*.pem');
+        assert.ok(regex.test('/home/user/keys/server.pem'));
+        assert.ok(!regex.test('/home/user/keys/server.pem.bak'));
+    });
+});
+
+describe('checkPathAccess', () => {
+    let tempDir: string;
+    let policy: FilesystemPolicy;
+
+    beforeEach(() => {
+        tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'path-policy-test-')));
+        fs.mkdirSync(path.join(tempDir, 'work'));
+        fs.mkdirSync(path.join(tempDir, 'docs'));
+        policy = {
+            allowedRoots: [tempDir],
+            deniedGlobs: ['**/.env'],
+            readOnlyRoots: [path.join(tempDir, 'docs')],
+        };
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('allows reads and writes inside an allowed root', () => {
+        assert.strictEqual(checkPathAccess(path.join(tempDir, 'work', 'a.txt'), 'write', policy), null);
+    });
+
+    it('rejects paths outside the allowed roots', () => {
+        const violation = checkPathAccess(os.homedir(), 'read', policy);
+        assert.strictEqual(violation?.rule, 'outside_allowed_roots');
+        assert.strictEqual(violation?.code, 'PATH_POLICY_VIOLATION');
+    });
+
+    it('rejects paths matching a denied glob', () => {
+        const violation = checkPathAccess(path.join(tempDir, 'work', '.env'), 'read', policy);
+        assert.strictEqual(violation?.rule, 'denied_glob');
+        assert.strictEqual(violation?.pattern, '**/.env');
+    });
+
+    it('allows reads but rejects writes under a read-only root', () => {
+        const file = path.join(tempDir, 'docs', 'readme.md');
+        assert.strictEqual(checkPathAccess(file, 'read', policy), null);
+        assert.strictEqual(checkPathAccess(file, 'write', policy)?.rule, 'read_only_root');
+    });
+
+    it('follows symlinks that point outside the allowed roots', () => {
+        const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'path-policy-outside-'));
+        try {
+            const link = path.join(tempDir, 'work', 'link');
+            fs.symlinkSync(outside, link);
+            const violation = checkPathAccess(path.join(link, 'new.txt'), 'write', policy);
+            assert.strictEqual(violation?.rule, 'outside_allowed_roots');
+        } finally {
+            fs.rmSync(outside, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,176 @@
+// Filesystem path policy
+// Enforces allowed roots, denied globs and read-only roots for every file-touching tool
+
+import fs from 'fs';
+import path from 'path';
+import { loadConfig, expandHome, Config } from '../config.js';
+import { logAudit } from '../audit.js';
+import { ToolResponse, toolErrorResponse } from '../tools/toolResult.js';
+
+export type PathAccess = 'read' | 'write';
+
+export type FilesystemPolicy = Config['filesystemPolicy'];
+
+/**
+ * Details of a rejected path, returned to the model and stored in audit_log
+ */
+export interface PathPolicyViolation {
+    code: 'PATH_POLICY_VIOLATION';
+    message: string;
+    path: string;
+    resolvedPath: string;
+    access: PathAccess;
+    rule: 'outside_allowed_roots' | 'denied_glob' | 'read_only_root';
+    pattern?: string;
+}
+
+export class PathPolicyError extends Error {
+    readonly violation: PathPolicyViolation;
+
+    constructor(violation: PathPolicyViolation) {
+        super(violation.message);
+        this.name = 'PathPolicyError';
+        this.violation = violation;
+    }
+}
+
+const caseInsensitive = process.platform === 'win32';
+
+/**
+ * Normalize a path for comparison: expand ~, resolve, use forward slashes
+ */
+function normalize(filePath: string): string {
+    const resolved = path.resolve(expandHome(filePath)).replace(/\\/g, '/');
+    return caseInsensitive ? resolved.toLowerCase() : resolved;
+}
+
+/**
+ * Resolve symlinks so a link inside an allowed root can't point outside it.
+ * For paths that don't exist yet (new files), the nearest existing ancestor is resolved.
+ */
+function resolveReal(filePath: string): string {
+    let current = path.resolve(expandHome(filePath));
+    const suffix: string[] = [];
+
+    while (true) {
+        try {
+            const real = fs.realpathSync(current);
+            return suffix.length > 0 ? path.join(real, ...suffix.reverse()) : real;
+        } catch {
+            const parent = path.dirname(current);
+            if (parent === current) {
+                return path.resolve(expandHome(filePath));
+            }
+            suffix.push(path.basename(current));
+            current = parent;
+        }
+    }
+}
+
+function isWithin(target: string, root: string): boolean {
+    const normalizedRoot = normalize(root).replace(/\/+$/, '');
+    return target === normalizedRoot || target.startsWith(normalizedRoot + '/');
+}
+
+/**
+ * Convert a glob to a RegExp. Supports **, * and ?.
+ * A trailing "/**" also matches the directory itself; relative globs match at any depth.
+ */
+export function globToRegExp(glob: string): RegExp {
+    const expanded = expandHome(glob);
+    const normalized = path.isAbsolute(expanded)
+        ? normalize(expanded)
+        : '/**/' + (caseInsensitive ? expanded.toLowerCase() : expanded).replace(/\\/g, '/');
+    let source = '';
+
+    for (let i = 0; i < normalized.length; i++) {
+        const char = normalized[i];
+        if (char === '*') {
+            if (normalized[i + 1] === '*') {
+                const atEnd = i + 2 === normalized.length;
+                const precededBySlash = normalized[i - 1] === '/';
+                if (atEnd && precededBySlash) {
+                    // "dir/**" matches "dir" and everything below it
+                    source = source.slice(0, -1) + '(?:/.*)?';
+                } else if (normalized[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i++;
+                } else {
+                    source += '.*';
+                }
+                i++;
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${source}$`, caseInsensitive ? 'i' : '');
+}
+
+/**
+ * Check a path against the filesystem policy.
+ * @returns The violation, or null if access is allowed
+ */
+export function checkPathAccess(
+    filePath: string,
+    access: PathAccess,
+    policy: FilesystemPolicy = loadConfig().filesystemPolicy
+): PathPolicyViolation | null {
+    const resolvedPath = resolveReal(filePath);
+    const candidates = Array.from(new Set([normalize(filePath), normalize(resolvedPath)]));
+
+    const violation = (rule: PathPolicyViolation['rule'], message: string, pattern?: string): PathPolicyViolation => ({
+        code: 'PATH_POLICY_VIOLATION',
+        message,
+        path: filePath,
+        resolvedPath,
+        access,
+        rule,
+        ...(pattern !== undefined && { pattern }),
+    });
+
+    for (const pattern of policy.deniedGlobs ?? []) {
+        const regex = globToRegExp(pattern);
+        if (candidates.some(c => regex.test(c))) {
+            return violation('denied_glob', `Access to ${filePath} is denied by filesystemPolicy.deniedGlobs pattern "${pattern}"`, pattern);
+        }
+    }
+
+    const allowedRoots = policy.allowedRoots ?? [];
+    if (allowedRoots.length > 0 && !candidates.every(c => allowedRoots.some(root => isWithin(c, root)))) {
+        return violation('outside_allowed_roots', `${filePath} is outside filesystemPolicy.allowedRoots (${allowedRoots.join(', ')})`);
+    }
+
+    if (access === 'write') {
+        const readOnlyRoot = (policy.readOnlyRoots ?? []).find(root => candidates.some(c => isWithin(c, root)));
+        if (readOnlyRoot) {
+            return violation('read_only_root', `${filePath} is under read-only root ${readOnlyRoot}`, readOnlyRoot);
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Enforce the filesystem policy for a tool call.
+ * Violations are recorded in audit_log and thrown as PathPolicyError.
+ */
+export async function enforcePathPolicy(tool: string, filePath: string, access: PathAccess): Promise<void> {
+    const violation = checkPathAccess(filePath, access);
+    if (violation) {
+        await logAudit(tool, { path: filePath, access }, null, violation);
+        throw new PathPolicyError(violation);
+    }
+}
+
+/**
+ * Structured MCP error response for a policy violation
+ */
+export function pathPolicyErrorResponse(error: PathPolicyError): ToolResponse {
+    return toolErrorResponse(error);
+}
@@ -0,0 +1,137 @@
+// Secret redaction
+// Replaces credentials with stable hash placeholders before they reach the audit log or the model
+
+import crypto from 'crypto';
+import { loadConfig, Config } from '../config.js';
+
+export type RedactionConfig = Config['redaction'];
+
+export interface SecretDetector {
+    name: string;
+    pattern: RegExp;  // A named group "secret" limits the replacement to that part of the match
+}
+
+export const BUILT_IN_DETECTORS: SecretDetector[] = [
+    {
+        name: 'private_key',
+        pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----/,
+    },
+    { name: 'aws_access_key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+    {
+        name: 'aws_secret_key',
+        pattern: /aws_secret_access_key["']?\s*[=:]\s*["']?(?<secret>[A-Za-z0-9/+=]{40})/i,
+    },
+    { name: 'github_token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/ },
+    { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]+/ },
+    {
+        name: 'password',
+        // password=..., "api_key": "...", DB_PASSWORD: ... (skips existing placeholders)
+        pattern: /(?<!\[REDACTED:)(?:password|passwd|pwd|secret|api[_-]?key|access[_-]?token|auth[_-]?token)["']?\s*[=:]\s*["']?(?!\[REDACTED:)(?<secret>[^\s"'&;,]{4,})/i,
+    },
+];
+
+/**
+ * Stable placeholder for a secret: the same secret always gets the same placeholder,
+ * so redacted entries can still be correlated without storing the value
+ */
+export function redactionPlaceholder(name: string, secret: string): string {
+    const hash = crypto.createHash('sha256').update(secret).digest('hex').slice(0, 8);
+    return `[REDACTED:${name}:${hash}]`;
+}
+
+/**
+ * Built-in detectors plus the configured patterns. Invalid patterns are skipped
+ * because redaction runs inside logAudit, which must never throw.
+ */
+export function buildDetectors(patterns: RedactionConfig['patterns']): SecretDetector[] {
+    const custom: SecretDetector[] = [];
+    for (const { name, pattern } of patterns) {
+        try {
+            custom.push({ name, pattern: new RegExp(pattern) });
+        } catch {
+            // Ignore invalid regex
+        }
+    }
+    return [...BUILT_IN_DETECTORS, ...custom];
+}
+
+/**
+ * Replace every detected secret in a string
+ */
+export function redactText(text: string, detectors: SecretDetector[] = BUILT_IN_DETECTORS): string {
+    let output = text;
+
+    for (const detector of detectors) {
+        const flags = Array.from(new Set(detector.pattern.flags + 'gd')).join('');
+        const regex = new RegExp(detector.pattern.source, flags);
+        let redacted = '';
+        let last = 0;
+        let match: RegExpExecArray | null;
+
+        while ((match = regex.exec(output)) !== null) {
+            if (match[0].length === 0) {
+                regex.lastIndex++;
+                continue;
+            }
+            const [start, end] = match.indices?.groups?.secret ?? match.indices![0];
+            redacted += output.slice(last, start) + redactionPlaceholder(detector.name, output.slice(start, end));
+            last = end;
+        }
+
+        output = redacted + output.slice(last);
+    }
+
+    return output;
+}
+
+function normalizeKey(key: string): string {
+    return key.toLowerCase().replace(/[-_]/g, '');
+}
+
+/**
+ * Redact secrets anywhere in a JSON-like value. Scalar values under a sensitive key
+ * are replaced entirely, whatever they look like.
+ */
+export function redactValue(value: any, detectors: SecretDetector[], sensitiveKeys: string[] = []): any {
+    const keys = new Set(sensitiveKeys.map(normalizeKey));
+
+    const walk = (current: any): any => {
+        if (typeof current === 'string') return redactText(current, detectors);
+        if (Array.isArray(current)) return current.map(walk);
+        if (current && typeof current === 'object' && current.constructor === Object) {
+            const result: Record<string, any> = {};
+            for (const [key, child] of Object.entries(current)) {
+                result[key] = keys.has(normalizeKey(key)) && (typeof child === 'string' || typeof child === 'number')
+                    ? redactionPlaceholder(key, String(child))
+                    : walk(child);
+            }
+            return result;
+        }
+        return current;
+    };
+
+    return walk(value);
+}
+
+/**
+ * Redact the fields of an audit log entry according to config.redaction
+ */
+export function redactAuditEntry(tool: string, args: any, result: any, error: any, config: RedactionConfig = loadConfig().redaction) {
+    if (!config.enabled) return { args, result, error };
+
+    const detectors = buildDetectors(config.patterns);
+    return {
+        args: redactValue(args, detectors, [...config.sensitiveKeys, ...(config.toolArgs[tool] ?? [])]),
+        result: redactValue(result, detectors, config.sensitiveKeys),
+        error: redactValue(error, detectors, config.sensitiveKeys),
+    };
+}
+
+/**
+ * Redact command or file output before it is returned to the model.
+ * A no-op unless redaction.redactToolOutput is set.
+ */
+export function redactToolOutput(text: string, config: RedactionConfig = loadConfig().redaction): string {
+    if (!config.redactToolOutput) return text;
+    return redactText(text, buildDetectors(config.patterns));
+}
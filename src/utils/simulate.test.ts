@@ -0,0 +1,80 @@
+/**
+ * Tests for simulation mode plans
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+import { withAuditCall } from '../audit.js';
+import { isSimulating, setSimulating, planFileWrite, planCommand } from './simulate.js';
+
+describe('setSimulating', () => {
+    afterEach(() => setSimulating(false));
+
+    it('overrides the configured mode until reset', () => {
+        setSimulating(true);
+        assert.strictEqual(isSimulating(), true);
+        setSimulating(false);
+        assert.strictEqual(isSimulating(), false);
+    });
+
+    it('overrides only the calling connection', () => {
+        const inSession = <T>(sessionId: string, fn: () => T) => withAuditCall(fn, { sessionId, clientName: null });
+
+        inSession('session_a', () => setSimulating(true));
+        inSession('session_b', () => setSimulating(false));
+        assert.strictEqual(inSession('session_a', () => isSimulating()), true);
+        assert.strictEqual(inSession('session_b', () => isSimulating()), false);
+        assert.strictEqual(inSession('session_c', () => isSimulating()), false, 'others follow config');
+    });
+});
+
+describe('planFileWrite', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'simulate-test-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('reports a new file as a create without writing it', () => {
+        const target = path.join(tempDir, 'new.txt');
+        const plan = planFileWrite(target, 'hello\n');
+        assert.strictEqual(plan.action, 'create');
+        assert.ok(plan.diff.includes('+hello'));
+        assert.ok(!fs.existsSync(target));
+    });
+
+    it('diffs an existing file against the new content', () => {
+        const target = path.join(tempDir, 'existing.txt');
+        fs.writeFileSync(target, 'a\nb\n');
+        const plan = planFileWrite(target, 'a\nc\n');
+        assert.strictEqual(plan.action, 'modify');
+        assert.ok(plan.diff.includes('-b'));
+        assert.ok(plan.diff.includes('+c'));
+        assert.strictEqual(fs.readFileSync(target, 'utf-8'), 'a\nb\n');
+    });
+});
+
+describe('planCommand', () => {
+    it('lists the simple commands a command line would run', () => {
+        const plan = planCommand('ls -la | grep src', '/tmp');
+        assert.deepStrictEqual(plan.parsed, [
+            { executable: 'ls', args: ['-la'] },
+            { executable: 'grep', args: ['src'] },
+        ]);
+        assert.strictEqual(plan.cwd, '/tmp');
+    });
+
+    it('reports commands that cannot be parsed', () => {
+        const plan = planCommand("echo 'oops");
+        assert.strictEqual(plan.parsed, undefined);
+        assert.ok(plan.parseError);
+    });
+});
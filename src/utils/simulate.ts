@@ -0,0 +1,71 @@
+// Simulation mode, per connection
+// Side-effecting handlers report what they would have done instead of doing it
+
+import fs from 'fs';
+import path from 'path';
+import { loadConfig } from '../config.js';
+import { logAudit } from '../audit.js';
+import { generateDiff } from '../tools/diff/diffVisualizer.js';
+import { parseCommandLine } from './commandPolicy.js';
+import { toolResponse } from '../tools/toolResult.js';
+import { connectionScoped } from './connectionScope.js';
+
+// Set by set_simulate_mode; can only add to config.simulate.enabled, never turn it off
+const runtimeOverrides = connectionScoped<{ enabled: boolean }>(() => ({ enabled: false }));
+
+/**
+ * Is the calling connection in simulation mode?
+ */
+export function isSimulating(): boolean {
+    return loadConfig().simulate.enabled || runtimeOverrides.get().enabled;
+}
+
+/**
+ * Turn simulation on or off for the calling connection. Off has no effect while config.simulate.enabled is set.
+ */
+export function setSimulating(enabled: boolean): void {
+    runtimeOverrides.get().enabled = enabled;
+}
+
+/**
+ * Describe a file write: whether the file is created or modified, and the diff
+ */
+export function planFileWrite(filePath: string, newContent: string) {
+    const exists = fs.existsSync(filePath);
+    const original = exists ? fs.readFileSync(filePath, 'utf-8') : '';
+    const diff = generateDiff(original, newContent, path.basename(filePath));
+    return {
+        path: filePath,
+        action: exists ? 'modify' : 'create',
+        diff: diff.unified,
+        stats: diff.stats,
+    };
+}
+
+/**
+ * Describe a shell command: the simple commands it would run
+ */
+export function planCommand(command: string, cwd?: string) {
+    let parsed: ReturnType<typeof parseCommandLine> | undefined;
+    let parseError: string | undefined;
+    try {
+        parsed = parseCommandLine(command);
+    } catch (error: any) {
+        parseError = error.message;
+    }
+    return {
+        command,
+        cwd: cwd || process.cwd(),
+        ...(parsed && { parsed }),
+        ...(parseError && { parseError }),
+    };
+}
+
+/**
+ * MCP response for a simulated call. The plan is also written to audit_log.
+ */
+export async function simulatedResponse(tool: string, args: any, plan: Record<string, unknown>) {
+    const result = { simulated: true, tool, ...plan };
+    await logAudit(tool, args, result);
+    return toolResponse(result);
+}
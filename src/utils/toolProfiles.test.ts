@@ -0,0 +1,62 @@
+/**
+ * Tests for tool profiles
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+
+import { withAuditCall } from '../audit.js';
+import { ToolDefinition } from '../tools/toolDefinition.js';
+import {
+    profileIncludes, resolveStartupProfile, getActiveProfile, setActiveProfile, onToolListChanged,
+} from './toolProfiles.js';
+
+function tool(name: string, category: ToolDefinition['category'], sideEffects: ToolDefinition['sideEffects']): ToolDefinition {
+    return { name, description: '', category, schema: {}, handler: async () => null, sideEffects };
+}
+
+const readFile = tool('read_file', 'files', 'read-only');
+const deleteFile = tool('delete_file', 'files', 'destructive');
+const screenshot = tool('screenshot', 'screen', 'read-only');
+const setToolProfile = tool('set_tool_profile', 'config', 'write');
+
+describe('profileIncludes', () => {
+    it('filters by category and side effects, with include and exclude lists', () => {
+        assert.ok(profileIncludes(deleteFile, null));
+
+        const coding = { categories: ['files'], exclude: ['delete_file'], include: ['screenshot'] };
+        assert.ok(profileIncludes(readFile, coding));
+        assert.ok(!profileIncludes(deleteFile, coding));
+        assert.ok(profileIncludes(screenshot, coding));
+
+        const readonly = { sideEffects: ['read-only' as const] };
+        assert.ok(profileIncludes(screenshot, readonly));
+        assert.ok(!profileIncludes(deleteFile, readonly));
+    });
+
+    it('always lists set_tool_profile unless excluded by name', () => {
+        assert.ok(profileIncludes(setToolProfile, { categories: [] }));
+        assert.ok(!profileIncludes(setToolProfile, { exclude: ['set_tool_profile'] }));
+    });
+});
+
+describe('tool profile selection', () => {
+    it('prefers the --profile flag over MCP_TOOL_PROFILE', () => {
+        assert.strictEqual(resolveStartupProfile(['node', 'index.js', '--profile', 'coding'], { MCP_TOOL_PROFILE: 'desktop' }), 'coding');
+        assert.strictEqual(resolveStartupProfile(['node', 'index.js', '--profile=browser'], {}), 'browser');
+        assert.strictEqual(resolveStartupProfile(['node', 'index.js'], { MCP_TOOL_PROFILE: 'desktop' }), 'desktop');
+    });
+
+    it('switches only the calling connection and reports the change', () => {
+        const changed: Array<string | null> = [];
+        onToolListChanged(connectionId => changed.push(connectionId));
+        const inSession = <T>(sessionId: string, fn: () => T) => withAuditCall(fn, { sessionId, clientName: null });
+
+        inSession('session_a', () => setActiveProfile('readonly'));
+        assert.strictEqual(inSession('session_a', () => getActiveProfile()), 'readonly');
+        assert.strictEqual(inSession('session_b', () => getActiveProfile()), 'all');
+        assert.deepStrictEqual(changed, ['session_a']);
+
+        assert.throws(() => inSession('session_a', () => setActiveProfile('nope')), /Unknown tool profile: nope/);
+    });
+});
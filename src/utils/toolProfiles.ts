@@ -0,0 +1,104 @@
+// Tool profiles
+// Named subsets of the tool list; each connection lists and calls only the tools of its active profile
+
+import { loadConfig, Config } from '../config.js';
+import { ToolDefinition } from '../tools/toolDefinition.js';
+import { connectionScoped, currentConnectionId } from './connectionScope.js';
+
+export type ToolProfile = Config['toolProfiles']['profiles'][string];
+
+// The profile that lists every tool; not configurable
+export const ALL_TOOLS_PROFILE = 'all';
+
+// Listed under every profile, so a client can always switch back
+const ALWAYS_LISTED = new Set(['set_tool_profile']);
+
+let startupProfile: string | null = null;
+const activeProfiles = connectionScoped<{ name: string | null }>(() => ({ name: null }));
+const listChangedListeners: Array<(connectionId: string | null) => void> = [];
+
+/**
+ * Names of the configured profiles, including "all"
+ */
+export function listProfileNames(): string[] {
+    return [ALL_TOOLS_PROFILE, ...Object.keys(loadConfig().toolProfiles.profiles)];
+}
+
+function requireProfile(name: string): ToolProfile | null {
+    if (name === ALL_TOOLS_PROFILE) return null;
+    const profile = loadConfig().toolProfiles.profiles[name];
+    if (!profile) {
+        throw new Error(`Unknown tool profile: ${name}. Available profiles: ${listProfileNames().join(', ')}`);
+    }
+    return profile;
+}
+
+/**
+ * The profile requested at startup: --profile <name> (or --profile=<name>), else
+ * MCP_TOOL_PROFILE, else toolProfiles.active
+ */
+export function resolveStartupProfile(argv: string[] = process.argv, env: NodeJS.ProcessEnv = process.env): string {
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i] === '--profile' && argv[i + 1]) return argv[i + 1];
+        if (argv[i].startsWith('--profile=')) return argv[i].slice('--profile='.length);
+    }
+    return env.MCP_TOOL_PROFILE || loadConfig().toolProfiles.active;
+}
+
+/**
+ * Set the profile new connections start with
+ * @throws If the profile doesn't exist
+ */
+export function setStartupProfile(name: string): void {
+    requireProfile(name);
+    startupProfile = name;
+}
+
+/**
+ * The active profile of the calling connection
+ */
+export function getActiveProfile(): string {
+    return activeProfiles.get().name ?? startupProfile ?? loadConfig().toolProfiles.active;
+}
+
+/**
+ * Switch the calling connection to another profile and tell its client the tool list changed
+ * @throws If the profile doesn't exist
+ */
+export function setActiveProfile(name: string): void {
+    requireProfile(name);
+    activeProfiles.get().name = name;
+    for (const listener of listChangedListeners) {
+        listener(currentConnectionId());
+    }
+}
+
+/**
+ * Be told when a connection's tool list changes
+ */
+export function onToolListChanged(listener: (connectionId: string | null) => void): void {
+    listChangedListeners.push(listener);
+}
+
+/**
+ * Does the profile list this tool? Exclusions win over everything, then always-listed
+ * tools and include, then the category and side-effect filters.
+ */
+export function profileIncludes(tool: ToolDefinition, profile: ToolProfile | null): boolean {
+    if (!profile) return true;
+    if (profile.exclude?.includes(tool.name)) return false;
+    if (ALWAYS_LISTED.has(tool.name) || profile.include?.includes(tool.name)) return true;
+    if (profile.categories && !profile.categories.includes(tool.category)) return false;
+    if (profile.sideEffects && !profile.sideEffects.includes(tool.sideEffects)) return false;
+    return true;
+}
+
+/**
+ * Is the tool in the calling connection's active profile?
+ */
+export function isInActiveProfile(tool: ToolDefinition): boolean {
+    const name = getActiveProfile();
+    // A profile removed from the config since it was selected lists nothing but the way out
+    const profile = name === ALL_TOOLS_PROFILE ? null : loadConfig().toolProfiles.profiles[name] ?? { categories: [] };
+    return profileIncludes(tool, profile);
+}